@@ -2,17 +2,23 @@ import { DOMSampler } from './sampler/DOMSampler';
 import { StreamingClient } from './streaming/StreamingClient';
 
 import { ContrastAnalyzer } from './engine/ContrastAnalyzer';
+import { IssueTracker } from './engine/tracker';
+import { getUniqueSelector } from './utils/selector';
 import type { EvaluationConfig, EvaluationResult, EvaluationStats } from './types';
 
 export class AccessibilityOrchestrator {
   private sampler: DOMSampler;
   private streamingClient: StreamingClient | null = null;
   private contrastAnalyzer: ContrastAnalyzer;
+  private issueTracker = new IssueTracker();
 
   
   get client() { return this.streamingClient; }
 
   
+  get tracker() { return this.issueTracker; }
+
+  
   private evaluationTimer: number | null = null;
   private heartbeatInterval: number | null = null;
   private isEvaluating = false;
@@ -118,6 +124,7 @@ export class AccessibilityOrchestrator {
     this.isEvaluating = true;
     const startTime = performance.now();
     const results: EvaluationResult[] = [];
+    const evaluated = new Set<string>();
     
     
     this.abortController = new AbortController();
@@ -137,7 +144,7 @@ export class AccessibilityOrchestrator {
       }
       
       
-      await this.evaluateContrast(results);
+      await this.evaluateContrast(results, evaluated);
       
       
       
@@ -150,18 +157,23 @@ export class AccessibilityOrchestrator {
       this.stats.memoryUsageMB = this.getMemoryUsage();
       
       
-      if (results.length > 0) {
-        this.onResults?.(results, this.stats);
-        
-        
-        if (this.streamingClient && this.streamingClient.getStatus().connected) {
-          try {
-            
-            this.streamingClient.sendEvaluation(results);
-          } catch (error) {
-            console.error('[A11y] Failed to send results:', error);
-            
+      const { issues: tracked, delta } = this.issueTracker.track(results, { scope: window.location.pathname, evaluated });
+      const changed = delta.added.length > 0 || delta.updated.length > 0 || delta.resolved.length > 0;
+      
+      if (tracked.length > 0) {
+        this.onResults?.(tracked, this.stats);
+      }
+      
+      if (this.streamingClient && this.streamingClient.getStatus().connected) {
+        try {
+          if (this.config.streamDeltas) {
+            if (changed) this.streamingClient.sendDelta(delta);
+          } else if (tracked.length > 0) {
+            this.streamingClient.sendEvaluation(tracked);
           }
+        } catch (error) {
+          console.error('[A11y] Failed to send results:', error);
+          
         }
       }
       
@@ -176,7 +188,7 @@ export class AccessibilityOrchestrator {
   
 
 
-  private async evaluateContrast(results: EvaluationResult[]) {
+  private async evaluateContrast(results: EvaluationResult[], evaluated: Set<string>) {
     
     
     const selector = 'p, span, h1, h2, h3, h4, h5, h6, a, button, label, td, th, li, .badge, .chip, [class*="badge"], [class*="chip"], [class*="variant-filled-"]';
@@ -187,6 +199,7 @@ export class AccessibilityOrchestrator {
     for (const element of elements) {
       
       if (this.abortController?.signal.aborted) break;
+      evaluated.add(getUniqueSelector(element));
       
       
       const computed = window.getComputedStyle(element);
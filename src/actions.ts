@@ -11,6 +11,9 @@ import {
   type ValidationOptions
 } from './validators.js';
 import { getEffectiveBackgroundColor, type RGB, rgbToHex, getContrastRatio, hexToRgb } from './contrast.js';
+import { applyPatch, proposeContrastFixes } from './engine/fixes.js';
+import { captureUnfocusedState, type UnfocusedState } from './keyboard/focus-appearance.js';
+import { getUniqueSelector } from './utils/selector.js';
 
 
 
@@ -209,18 +212,17 @@ export const contrastCheck: Action<HTMLElement, ContrastActionOptions> = (
     const currentColor = window.getComputedStyle(node).color;
     
     
-    const targetRatio = options.largeText ? 3 : 4.5;
+    const targetRatio = result.metadata?.requiredRatio || (options.largeText ? 3 : 4.5);
     
     
-    const isDarkBg = (background.r + background.g + background.b) / 3 < 128;
+    const [fix] = proposeContrastFixes(
+      getUniqueSelector(node),
+      { foreground: currentColor, background, requiredRatio: targetRatio },
+      ['foreground']
+    );
+    if (!fix) return;
     
-    if (isDarkBg) {
-      
-      node.style.color = '#ffffff';
-    } else {
-      
-      node.style.color = '#000000';
-    }
+    fix.patches.forEach(patch => applyPatch(node, patch));
     
     
     setTimeout(() => validate(), 50);
@@ -329,11 +331,25 @@ export const focusCheck: Action<HTMLElement, ValidationOptions> = (
     node.appendChild(indicatorElement);
   };
   
+  let unfocused: UnfocusedState | undefined;
+  let measuring = false;
+
+  const captureUnfocused = () => {
+    if (document.activeElement !== node) unfocused = captureUnfocusedState(node);
+  };
+
   const validate = () => {
-    const result = validateFocusIndicator(node, {
-      wcagLevel: options.level,
-      isLargeText: options.largeText
-    });
+    if (measuring) return;
+    measuring = true;
+    let result: ValidationResult;
+    try {
+      result = validateFocusIndicator(node, {
+        wcagLevel: options.level,
+        isLargeText: options.largeText
+      }, { unfocused });
+    } finally {
+      measuring = false;
+    }
     isValid = result.valid;
     
     if (indicatorElement) {
@@ -349,9 +365,11 @@ export const focusCheck: Action<HTMLElement, ValidationOptions> = (
   const handleFocus = () => validate();
   const handleBlur = () => {
     if (indicatorElement) indicatorElement.style.display = 'none';
+    captureUnfocused();
   };
   
   createIndicator();
+  captureUnfocused();
   
   node.addEventListener('focus', handleFocus);
   node.addEventListener('blur', handleBlur);
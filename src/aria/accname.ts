@@ -0,0 +1,336 @@
+import { getRole } from './implicit';
+import { getElementsByIdRefs } from './ownership';
+import { getRoleDefinition } from './roles';
+
+export interface AccessibleNameOptions {
+  /** Skip `::before`/`::after` generated content (useful outside a real layout engine). */
+  ignorePseudoContent?: boolean;
+  /** Leave out the placeholder fallback; label checks must not accept a placeholder as a label. */
+  ignorePlaceholder?: boolean;
+}
+
+interface TraversalState {
+  root: Element;
+  visited: Set<Node>;
+  options: AccessibleNameOptions;
+  /** True while following an aria-labelledby / aria-describedby reference. */
+  inReference: boolean;
+  /** True when the referenced node is itself hidden, so its hidden subtree counts. */
+  includeHidden: boolean;
+  /** True while collecting text for another element (label contents, name from content). */
+  inRecursion: boolean;
+}
+
+const EMBEDDED_TEXT_ROLES = ['textbox', 'searchbox'];
+const EMBEDDED_SELECT_ROLES = ['combobox', 'listbox'];
+const EMBEDDED_RANGE_ROLES = ['meter', 'progressbar', 'scrollbar', 'slider', 'spinbutton'];
+
+// Elements whose name comes from their content even when no ARIA role says so.
+const NATIVE_NAME_FROM_CONTENT = ['button', 'a', 'summary', 'option', 'td', 'th', 'caption', 'legend', 'label', 'figcaption', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6'];
+
+const INLINE_ELEMENTS = new Set([
+  'a', 'abbr', 'b', 'bdi', 'bdo', 'cite', 'code', 'data', 'dfn', 'em', 'i', 'img', 'kbd',
+  'label', 'mark', 'q', 's', 'samp', 'small', 'span', 'strong', 'sub', 'sup', 'time', 'u', 'var'
+]);
+
+const LABELABLE = ['input', 'select', 'textarea', 'meter', 'output', 'progress', 'button'];
+
+
+
+
+export function computeAccessibleName(element: Element, options: AccessibleNameOptions = {}): string {
+  const state: TraversalState = {
+    root: element,
+    visited: new Set(),
+    options,
+    inReference: false,
+    includeHidden: false,
+    inRecursion: false
+  };
+
+  return normalize(computeTextAlternative(element, state));
+}
+
+
+
+
+export function computeAccessibleDescription(element: Element, options: AccessibleNameOptions = {}): string {
+  const refs = getElementsByIdRefs(element, element.getAttribute('aria-describedby'));
+
+  if (refs.length > 0) {
+    const description = normalize(
+      refs.map(ref => computeReferencedText(ref, element, options)).join(' ')
+    );
+    if (description) return description;
+  }
+
+  const ariaDescription = element.getAttribute('aria-description');
+  if (ariaDescription?.trim()) return normalize(ariaDescription);
+
+  const title = element.getAttribute('title');
+  if (title?.trim() && normalize(title) !== computeAccessibleName(element, options)) {
+    return normalize(title);
+  }
+
+  return '';
+}
+
+function computeReferencedText(ref: Element, root: Element, options: AccessibleNameOptions): string {
+  return computeTextAlternative(ref, {
+    root,
+    visited: new Set([root]),
+    options,
+    inReference: true,
+    includeHidden: isHiddenNode(ref),
+    inRecursion: true
+  });
+}
+
+function computeTextAlternative(node: Node, state: TraversalState): string {
+  if (state.visited.has(node)) return '';
+  state.visited.add(node);
+
+  if (node.nodeType === 3) {
+    return node.textContent ?? '';
+  }
+
+  if (node.nodeType !== 1) return '';
+
+  const element = node as Element;
+  const isRoot = element === state.root;
+
+
+  if (!isRoot && !state.includeHidden && isHiddenNode(element)) {
+    return '';
+  }
+
+
+  if (!state.inReference) {
+    const refs = getElementsByIdRefs(element, element.getAttribute('aria-labelledby'))
+      .filter(ref => ref !== element || isRoot);
+
+    if (refs.length > 0) {
+      const text = refs
+        .map(ref => computeTextAlternative(ref, {
+          ...state,
+          visited: ref === element ? new Set() : state.visited,
+          inReference: true,
+          includeHidden: state.includeHidden || isHiddenNode(ref),
+          inRecursion: true
+        }))
+        .join(' ');
+      if (text.trim()) return text;
+    }
+  }
+
+  const role = getRole(element);
+
+
+  if (state.inRecursion && !isRoot && role && isEmbeddedControl(role)) {
+    return getEmbeddedControlValue(element, role);
+  }
+
+
+  const ariaLabel = element.getAttribute('aria-label');
+  if (ariaLabel?.trim()) {
+    return ariaLabel;
+  }
+
+
+  if (role !== 'none' && role !== 'presentation') {
+    const native = getNativeTextAlternative(element, state);
+    if (native.trim()) return native;
+  }
+
+
+  if ((state.inRecursion && !isRoot) || allowsNameFromContent(element, role)) {
+    const text = getTextFromContent(element, state);
+    if (text.trim()) return text;
+  }
+
+
+  const title = element.getAttribute('title');
+  if (title?.trim()) return title;
+
+  if (isRoot && !state.options.ignorePlaceholder) {
+    const placeholder = element.getAttribute('placeholder') ?? element.getAttribute('aria-placeholder');
+    if (placeholder?.trim()) return placeholder;
+  }
+
+  return '';
+}
+
+function getNativeTextAlternative(element: Element, state: TraversalState): string {
+  const tagName = element.tagName.toLowerCase();
+  const type = (element.getAttribute('type') || '').toLowerCase();
+
+  if (tagName === 'input' && ['button', 'submit', 'reset'].includes(type)) {
+    const value = element.getAttribute('value');
+    if (value?.trim()) return value;
+    if (type === 'submit') return 'Submit';
+    if (type === 'reset') return 'Reset';
+    return '';
+  }
+
+  if (tagName === 'input' && type === 'image') {
+    return element.getAttribute('alt') || element.getAttribute('value') || 'Submit';
+  }
+
+  if (LABELABLE.includes(tagName)) {
+    const labels = getAssociatedLabels(element);
+    if (labels.length > 0) {
+      return labels
+        .map(label => computeTextAlternative(label, {
+          ...state,
+          inRecursion: true,
+          includeHidden: state.includeHidden || isHiddenNode(label)
+        }))
+        .join(' ');
+    }
+  }
+
+  if (tagName === 'img' || tagName === 'area') {
+    return element.getAttribute('alt') ?? '';
+  }
+
+  if (tagName === 'fieldset') {
+    return getFirstChildText(element, 'legend', state);
+  }
+
+  if (tagName === 'figure') {
+    return getFirstChildText(element, 'figcaption', state);
+  }
+
+  if (tagName === 'table') {
+    return getFirstChildText(element, 'caption', state);
+  }
+
+  if (tagName === 'svg') {
+    const title = Array.from(element.children).find(child => child.tagName.toLowerCase() === 'title');
+    return title?.textContent ?? '';
+  }
+
+  return '';
+}
+
+function getFirstChildText(element: Element, tagName: string, state: TraversalState): string {
+  const child = Array.from(element.children).find(c => c.tagName.toLowerCase() === tagName);
+  return child ? computeTextAlternative(child, { ...state, inRecursion: true }) : '';
+}
+
+function getAssociatedLabels(element: Element): Element[] {
+  const labels: Element[] = [];
+  const root = element.getRootNode() as Document | ShadowRoot;
+
+  if (element.id && 'querySelectorAll' in root) {
+    const escaped = element.id.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+    labels.push(...Array.from(root.querySelectorAll(`label[for="${escaped}"]`)));
+  }
+
+  const wrapping = element.closest('label');
+  if (wrapping && !labels.includes(wrapping) && (!wrapping.hasAttribute('for') || wrapping.getAttribute('for') === element.id)) {
+    labels.push(wrapping);
+  }
+
+  return labels;
+}
+
+function getTextFromContent(element: Element, state: TraversalState): string {
+  const childState = { ...state, inRecursion: true };
+  const parts: string[] = [getPseudoContent(element, '::before', state.options)];
+
+  for (const child of Array.from(element.childNodes)) {
+    const text = computeTextAlternative(child, childState);
+    if (child.nodeType === 1 && !isInline(child as Element)) {
+      parts.push(` ${text} `);
+    } else {
+      parts.push(text);
+    }
+  }
+
+  parts.push(getPseudoContent(element, '::after', state.options));
+  return parts.join('');
+}
+
+function getPseudoContent(element: Element, pseudo: '::before' | '::after', options: AccessibleNameOptions): string {
+  if (options.ignorePseudoContent || typeof window === 'undefined' || !window.getComputedStyle) {
+    return '';
+  }
+
+  let content = '';
+  try {
+    content = window.getComputedStyle(element, pseudo).content;
+  } catch {
+    return '';
+  }
+
+  if (!content || content === 'none' || content === 'normal') return '';
+
+  const strings = content.match(/"((?:[^"\\]|\\.)*)"|'((?:[^'\\]|\\.)*)'/g);
+  if (!strings) return '';
+
+  return strings.map(s => s.slice(1, -1).replace(/\\(.)/g, '$1')).join('');
+}
+
+function getEmbeddedControlValue(element: Element, role: string): string {
+  if (EMBEDDED_TEXT_ROLES.includes(role)) {
+    if ('value' in element && typeof (element as HTMLInputElement).value === 'string') {
+      return (element as HTMLInputElement).value;
+    }
+    return element.textContent ?? '';
+  }
+
+  if (EMBEDDED_SELECT_ROLES.includes(role)) {
+    if (element.tagName.toLowerCase() === 'select') {
+      return Array.from((element as HTMLSelectElement).options)
+        .filter(option => option.selected)
+        .map(option => option.textContent ?? '')
+        .join(' ');
+    }
+    if ('value' in element && typeof (element as HTMLInputElement).value === 'string') {
+      return (element as HTMLInputElement).value;
+    }
+    return Array.from(element.querySelectorAll('[role="option"][aria-selected="true"]'))
+      .map(option => option.textContent ?? '')
+      .join(' ');
+  }
+
+  const valueText = element.getAttribute('aria-valuetext');
+  if (valueText?.trim()) return valueText;
+
+  const valueNow = element.getAttribute('aria-valuenow');
+  if (valueNow?.trim()) return valueNow;
+
+  return (element as HTMLInputElement).value ?? '';
+}
+
+function isEmbeddedControl(role: string): boolean {
+  return EMBEDDED_TEXT_ROLES.includes(role) ||
+    EMBEDDED_SELECT_ROLES.includes(role) ||
+    EMBEDDED_RANGE_ROLES.includes(role);
+}
+
+function allowsNameFromContent(element: Element, role: string | null): boolean {
+  const definition = role ? getRoleDefinition(role) : undefined;
+  if (definition?.nameFrom) return definition.nameFrom.includes('contents');
+  return NATIVE_NAME_FROM_CONTENT.includes(element.tagName.toLowerCase());
+}
+
+function isInline(element: Element): boolean {
+  return INLINE_ELEMENTS.has(element.tagName.toLowerCase());
+}
+
+function isHiddenNode(element: Element): boolean {
+  if (element.getAttribute('aria-hidden') === 'true' || element.hasAttribute('hidden')) {
+    return true;
+  }
+
+  if (typeof window === 'undefined' || !window.getComputedStyle) return false;
+
+  const style = window.getComputedStyle(element);
+  return style.display === 'none' || style.visibility === 'hidden';
+}
+
+function normalize(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
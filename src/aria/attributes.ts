@@ -0,0 +1,167 @@
+export type AriaValueType =
+  | 'true/false'
+  | 'tristate'
+  | 'true/false/undefined'
+  | 'idref'
+  | 'idrefs'
+  | 'integer'
+  | 'number'
+  | 'string'
+  | 'token'
+  | 'tokens';
+
+export interface AriaAttributeDefinition {
+  type: AriaValueType;
+  /** Allowed values for `token` and `tokens` attributes. */
+  values?: string[];
+  /** Global attributes are supported on every role unless the role prohibits them. */
+  global?: boolean;
+  /** Smallest allowed value for numeric attributes. */
+  minValue?: number;
+}
+
+export const ARIA_ATTRIBUTES: Record<string, AriaAttributeDefinition> = {
+  'aria-activedescendant': { type: 'idref' },
+  'aria-atomic': { type: 'true/false', global: true },
+  'aria-autocomplete': { type: 'token', values: ['inline', 'list', 'both', 'none'] },
+  'aria-braillelabel': { type: 'string', global: true },
+  'aria-brailleroledescription': { type: 'string', global: true },
+  'aria-busy': { type: 'true/false', global: true },
+  'aria-checked': { type: 'tristate' },
+  'aria-colcount': { type: 'integer', minValue: -1 },
+  'aria-colindex': { type: 'integer', minValue: 1 },
+  'aria-colindextext': { type: 'string' },
+  'aria-colspan': { type: 'integer', minValue: 1 },
+  'aria-controls': { type: 'idrefs', global: true },
+  'aria-current': { type: 'token', values: ['page', 'step', 'location', 'date', 'time', 'true', 'false'], global: true },
+  'aria-describedby': { type: 'idrefs', global: true },
+  'aria-description': { type: 'string', global: true },
+  'aria-details': { type: 'idref', global: true },
+  'aria-disabled': { type: 'true/false', global: true },
+  'aria-dropeffect': { type: 'tokens', values: ['copy', 'execute', 'link', 'move', 'none', 'popup'], global: true },
+  'aria-errormessage': { type: 'idref', global: true },
+  'aria-expanded': { type: 'true/false/undefined' },
+  'aria-flowto': { type: 'idrefs', global: true },
+  'aria-grabbed': { type: 'true/false/undefined', global: true },
+  'aria-haspopup': { type: 'token', values: ['false', 'true', 'menu', 'listbox', 'tree', 'grid', 'dialog'], global: true },
+  'aria-hidden': { type: 'true/false/undefined', global: true },
+  'aria-invalid': { type: 'token', values: ['grammar', 'false', 'spelling', 'true'], global: true },
+  'aria-keyshortcuts': { type: 'string', global: true },
+  'aria-label': { type: 'string', global: true },
+  'aria-labelledby': { type: 'idrefs', global: true },
+  'aria-level': { type: 'integer', minValue: 1 },
+  'aria-live': { type: 'token', values: ['assertive', 'off', 'polite'], global: true },
+  'aria-modal': { type: 'true/false' },
+  'aria-multiline': { type: 'true/false' },
+  'aria-multiselectable': { type: 'true/false' },
+  'aria-orientation': { type: 'token', values: ['horizontal', 'undefined', 'vertical'] },
+  'aria-owns': { type: 'idrefs', global: true },
+  'aria-placeholder': { type: 'string' },
+  'aria-posinset': { type: 'integer', minValue: 1 },
+  'aria-pressed': { type: 'tristate' },
+  'aria-readonly': { type: 'true/false' },
+  'aria-relevant': { type: 'tokens', values: ['additions', 'all', 'removals', 'text'], global: true },
+  'aria-required': { type: 'true/false' },
+  'aria-roledescription': { type: 'string', global: true },
+  'aria-rowcount': { type: 'integer', minValue: -1 },
+  'aria-rowindex': { type: 'integer', minValue: 1 },
+  'aria-rowindextext': { type: 'string' },
+  'aria-rowspan': { type: 'integer', minValue: 0 },
+  'aria-selected': { type: 'true/false/undefined' },
+  'aria-setsize': { type: 'integer', minValue: -1 },
+  'aria-sort': { type: 'token', values: ['ascending', 'descending', 'none', 'other'] },
+  'aria-valuemax': { type: 'number' },
+  'aria-valuemin': { type: 'number' },
+  'aria-valuenow': { type: 'number' },
+  'aria-valuetext': { type: 'string' }
+};
+
+export const GLOBAL_ARIA_ATTRIBUTES = Object.keys(ARIA_ATTRIBUTES).filter(
+  name => ARIA_ATTRIBUTES[name].global
+);
+
+
+
+
+export function isValidAriaAttribute(name: string): boolean {
+  return Object.prototype.hasOwnProperty.call(ARIA_ATTRIBUTES, name);
+}
+
+
+
+
+export function getAriaAttributes(element: Element): string[] {
+  return Array.from(element.attributes)
+    .map(attr => attr.name)
+    .filter(name => name.startsWith('aria-'));
+}
+
+
+
+
+export function validateAriaValue(name: string, value: string): boolean {
+  const definition = ARIA_ATTRIBUTES[name];
+  if (!definition) return false;
+
+  const trimmed = value.trim();
+
+  switch (definition.type) {
+    case 'true/false':
+      return trimmed === 'true' || trimmed === 'false';
+    case 'tristate':
+      return trimmed === 'true' || trimmed === 'false' || trimmed === 'mixed';
+    case 'true/false/undefined':
+      return trimmed === 'true' || trimmed === 'false' || trimmed === 'undefined';
+    case 'idref':
+      return trimmed.length > 0 && !/\s/.test(trimmed);
+    case 'idrefs':
+      return trimmed.length > 0;
+    case 'integer': {
+      if (!/^-?\d+$/.test(trimmed)) return false;
+      return definition.minValue === undefined || parseInt(trimmed, 10) >= definition.minValue;
+    }
+    case 'number':
+      return trimmed.length > 0 && Number.isFinite(Number(trimmed));
+    case 'string':
+      return true;
+    case 'token':
+      return definition.values!.includes(trimmed);
+    case 'tokens': {
+      const tokens = trimmed.split(/\s+/).filter(Boolean);
+      return tokens.length > 0 && tokens.every(token => definition.values!.includes(token));
+    }
+  }
+}
+
+
+
+
+export function describeAriaValueType(name: string): string {
+  const definition = ARIA_ATTRIBUTES[name];
+  if (!definition) return 'a known ARIA attribute';
+
+  switch (definition.type) {
+    case 'true/false':
+      return 'true or false';
+    case 'tristate':
+      return 'true, false, or mixed';
+    case 'true/false/undefined':
+      return 'true, false, or undefined';
+    case 'idref':
+      return 'a single ID reference';
+    case 'idrefs':
+      return 'a list of ID references';
+    case 'integer':
+      return definition.minValue !== undefined
+        ? `an integer >= ${definition.minValue}`
+        : 'an integer';
+    case 'number':
+      return 'a number';
+    case 'string':
+      return 'a string';
+    case 'token':
+      return `one of ${definition.values!.join(', ')}`;
+    case 'tokens':
+      return `a list of ${definition.values!.join(', ')}`;
+  }
+}
@@ -0,0 +1,236 @@
+import { isValidRole, PRESENTATIONAL_ROLES } from './roles';
+import { getAriaAttributes, ARIA_ATTRIBUTES } from './attributes';
+
+const SECTIONING_CONTENT = 'article, aside, main, nav, section';
+
+const SIMPLE_IMPLICIT_ROLES: Record<string, string> = {
+  address: 'group',
+  article: 'article',
+  aside: 'complementary',
+  b: 'generic',
+  bdi: 'generic',
+  bdo: 'generic',
+  blockquote: 'blockquote',
+  button: 'button',
+  caption: 'caption',
+  code: 'code',
+  data: 'generic',
+  datalist: 'listbox',
+  dd: 'definition',
+  del: 'deletion',
+  details: 'group',
+  dfn: 'term',
+  dialog: 'dialog',
+  div: 'generic',
+  dt: 'term',
+  em: 'emphasis',
+  fieldset: 'group',
+  figure: 'figure',
+  h1: 'heading',
+  h2: 'heading',
+  h3: 'heading',
+  h4: 'heading',
+  h5: 'heading',
+  h6: 'heading',
+  hgroup: 'group',
+  hr: 'separator',
+  html: 'document',
+  i: 'generic',
+  ins: 'insertion',
+  main: 'main',
+  math: 'math',
+  menu: 'list',
+  meter: 'meter',
+  nav: 'navigation',
+  ol: 'list',
+  optgroup: 'group',
+  option: 'option',
+  output: 'status',
+  p: 'paragraph',
+  pre: 'generic',
+  progress: 'progressbar',
+  q: 'generic',
+  samp: 'generic',
+  search: 'search',
+  small: 'generic',
+  span: 'generic',
+  strong: 'strong',
+  sub: 'subscript',
+  sup: 'superscript',
+  table: 'table',
+  tbody: 'rowgroup',
+  textarea: 'textbox',
+  tfoot: 'rowgroup',
+  thead: 'rowgroup',
+  time: 'time',
+  tr: 'row',
+  u: 'generic',
+  ul: 'list'
+};
+
+const INPUT_ROLES: Record<string, string> = {
+  button: 'button',
+  checkbox: 'checkbox',
+  email: 'textbox',
+  image: 'button',
+  number: 'spinbutton',
+  radio: 'radio',
+  range: 'slider',
+  reset: 'button',
+  search: 'searchbox',
+  submit: 'button',
+  tel: 'textbox',
+  text: 'textbox',
+  url: 'textbox'
+};
+
+
+
+
+export function getImplicitRole(element: Element): string | null {
+  const tagName = element.tagName.toLowerCase();
+
+  switch (tagName) {
+    case 'a':
+    case 'area':
+      return element.hasAttribute('href') ? 'link' : 'generic';
+    case 'img':
+      if (element.getAttribute('alt') === '' && !hasGlobalAriaAttribute(element)) return 'presentation';
+      return 'img';
+    case 'input':
+      return getInputRole(element);
+    case 'select': {
+      const size = parseInt(element.getAttribute('size') || '0', 10);
+      return element.hasAttribute('multiple') || size > 1 ? 'listbox' : 'combobox';
+    }
+    case 'header':
+    case 'footer':
+      if (element.parentElement?.closest(SECTIONING_CONTENT)) return 'generic';
+      return tagName === 'header' ? 'banner' : 'contentinfo';
+    case 'section':
+    case 'form':
+      if (hasAuthorName(element)) return tagName === 'section' ? 'region' : 'form';
+      return tagName === 'section' ? 'generic' : 'form';
+    case 'li':
+      return element.parentElement?.matches('ul, ol, menu') ? 'listitem' : 'generic';
+    case 'td':
+      return isInGrid(element) ? 'gridcell' : 'cell';
+    case 'th':
+      return getHeaderCellRole(element);
+    case 'figcaption':
+    case 'legend':
+    case 'label':
+    case 'summary':
+    case 'body':
+    case 'head':
+      return null;
+  }
+
+  return SIMPLE_IMPLICIT_ROLES[tagName] ?? null;
+}
+
+
+
+
+export function getExplicitRole(element: Element): string | null {
+  const value = element.getAttribute('role');
+  if (!value) return null;
+
+  const token = value.trim().toLowerCase().split(/\s+/).find(isValidRole);
+  return token ?? null;
+}
+
+
+
+
+export function getRole(element: Element): string | null {
+  const explicit = getExplicitRole(element);
+
+  if (explicit && PRESENTATIONAL_ROLES.includes(explicit)) {
+    // Presentational role conflict resolution: focusable elements or ones
+    // carrying global ARIA attributes keep their native role.
+    if (isFocusable(element) || hasGlobalAriaAttribute(element)) {
+      return getImplicitRole(element);
+    }
+    return explicit;
+  }
+
+  return explicit ?? getImplicitRole(element);
+}
+
+
+
+
+export function isFocusable(element: Element): boolean {
+  if (element.hasAttribute('disabled')) return false;
+  if (element.hasAttribute('tabindex')) return true;
+
+  const tagName = element.tagName.toLowerCase();
+  if ((tagName === 'a' || tagName === 'area') && element.hasAttribute('href')) return true;
+  if (tagName === 'input') return (element.getAttribute('type') || '').toLowerCase() !== 'hidden';
+
+  return ['button', 'select', 'textarea', 'iframe', 'summary'].includes(tagName) ||
+    element.getAttribute('contenteditable') === 'true';
+}
+
+
+
+
+export function isHiddenFromAccessibilityTree(element: Element): boolean {
+  let current: Element | null = element;
+
+  while (current) {
+    if (current.getAttribute('aria-hidden') === 'true') return true;
+    if (current.hasAttribute('hidden')) return true;
+
+    const style = typeof window !== 'undefined' && window.getComputedStyle
+      ? window.getComputedStyle(current)
+      : null;
+    if (style && (style.display === 'none' || (current === element && style.visibility === 'hidden'))) {
+      return true;
+    }
+
+    current = current.parentElement;
+  }
+
+  return false;
+}
+
+function getInputRole(element: Element): string {
+  const type = (element.getAttribute('type') || 'text').toLowerCase();
+  const hasList = element.hasAttribute('list');
+
+  if (hasList && ['text', 'search', 'tel', 'url', 'email'].includes(type)) {
+    return 'combobox';
+  }
+
+  return INPUT_ROLES[type] ?? 'textbox';
+}
+
+function getHeaderCellRole(element: Element): string {
+  const scope = element.getAttribute('scope');
+  if (scope === 'row' || scope === 'rowgroup') return 'rowheader';
+  if (scope === 'col' || scope === 'colgroup') return 'columnheader';
+
+  const row = element.parentElement;
+  if (row && Array.from(row.children).every(cell => cell.tagName === 'TH')) {
+    return 'columnheader';
+  }
+  return 'rowheader';
+}
+
+function isInGrid(element: Element): boolean {
+  const table = element.closest('table');
+  const role = table?.getAttribute('role');
+  return role === 'grid' || role === 'treegrid';
+}
+
+function hasAuthorName(element: Element): boolean {
+  return !!element.getAttribute('aria-label')?.trim() ||
+    !!element.getAttribute('aria-labelledby')?.trim() ||
+    !!element.getAttribute('title')?.trim();
+}
+
+function hasGlobalAriaAttribute(element: Element): boolean {
+  return getAriaAttributes(element).some(name => ARIA_ATTRIBUTES[name]?.global);
+}
@@ -0,0 +1,53 @@
+export {
+  ARIA_ROLES,
+  PRESENTATIONAL_ROLES,
+  isKnownRole,
+  isAbstractRole,
+  isValidRole,
+  getRoleDefinition,
+  isAttributeSupported,
+  type AriaRoleDefinition
+} from './roles';
+
+export {
+  ARIA_ATTRIBUTES,
+  GLOBAL_ARIA_ATTRIBUTES,
+  isValidAriaAttribute,
+  getAriaAttributes,
+  validateAriaValue,
+  describeAriaValueType,
+  type AriaAttributeDefinition,
+  type AriaValueType
+} from './attributes';
+
+export {
+  getImplicitRole,
+  getExplicitRole,
+  getRole,
+  isFocusable,
+  isHiddenFromAccessibilityTree
+} from './implicit';
+
+export {
+  getOwnedElements,
+  getAccessibilityParent,
+  getElementsByIdRefs,
+  isTransparentRole
+} from './ownership';
+
+export {
+  computeAccessibleName,
+  computeAccessibleDescription,
+  type AccessibleNameOptions
+} from './accname';
+
+export {
+  buildAccessibilityTree,
+  formatAccessibilityTree,
+  walkAccessibilityTree,
+  getNodeElement,
+  type AccessibilityNode,
+  type AccessibilityStates,
+  type AccessibilityRelationships,
+  type AccessibilityTreeOptions
+} from './tree';
@@ -0,0 +1,85 @@
+import { getRole, isHiddenFromAccessibilityTree } from './implicit';
+import { PRESENTATIONAL_ROLES } from './roles';
+
+/** Roles that are flattened away when resolving ownership and context. */
+const TRANSPARENT_ROLES = ['generic', ...PRESENTATIONAL_ROLES];
+
+
+
+
+export function isTransparentRole(role: string | null): boolean {
+  return role === null || TRANSPARENT_ROLES.includes(role);
+}
+
+
+
+
+export function getElementsByIdRefs(element: Element, value: string | null): Element[] {
+  if (!value) return [];
+
+  const root = element.getRootNode() as Document | ShadowRoot;
+  const lookup = (id: string): Element | null =>
+    'getElementById' in root && typeof root.getElementById === 'function'
+      ? root.getElementById(id)
+      : element.ownerDocument.getElementById(id);
+
+  return value
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(lookup)
+    .filter((el): el is Element => el !== null);
+}
+
+
+
+
+export function getOwnedElements(element: Element): Element[] {
+  const owned: Element[] = [];
+
+  const visit = (parent: Element) => {
+    for (const child of Array.from(parent.children)) {
+      if (isHiddenFromAccessibilityTree(child)) continue;
+
+      if (isTransparentRole(getRole(child))) {
+        visit(child);
+      } else {
+        owned.push(child);
+      }
+    }
+  };
+
+  visit(element);
+
+  for (const ref of getElementsByIdRefs(element, element.getAttribute('aria-owns'))) {
+    if (ref !== element && !owned.includes(ref) && !ref.contains(element)) {
+      owned.push(ref);
+    }
+  }
+
+  return owned;
+}
+
+
+
+
+export function getAccessibilityParent(element: Element): Element | null {
+  let current = getOwningElement(element);
+
+  while (current) {
+    if (!isTransparentRole(getRole(current))) return current;
+    current = getOwningElement(current);
+  }
+
+  return null;
+}
+
+function getOwningElement(element: Element): Element | null {
+  if (element.id) {
+    const root = element.getRootNode() as Document | ShadowRoot;
+    const owner = root.querySelector?.(`[aria-owns~="${element.id.replace(/"/g, '\\"')}"]`);
+    if (owner && owner !== element) return owner;
+  }
+
+  return element.parentElement;
+}
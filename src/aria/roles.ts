@@ -0,0 +1,198 @@
+export interface AriaRoleDefinition {
+  /** Abstract roles exist only to build the taxonomy and must not be used by authors. */
+  abstract?: boolean;
+  /** States and properties that must be present. */
+  requiredAttributes?: string[];
+  /** Role-specific states and properties; global attributes are always supported. */
+  supportedAttributes?: string[];
+  /** Attributes that must not be used on this role, even global ones. */
+  prohibitedAttributes?: string[];
+  /** At least one ancestor in the accessibility tree must have one of these roles. */
+  requiredContext?: string[];
+  /** At least one owned element must have one of these roles. */
+  requiredOwned?: string[];
+  nameFrom?: Array<'author' | 'contents' | 'prohibited'>;
+  /** Roles whose accessible name is required. */
+  nameRequired?: boolean;
+}
+
+const VALUE_RANGE = ['aria-valuemax', 'aria-valuemin', 'aria-valuenow', 'aria-valuetext'];
+const CELL = ['aria-colindex', 'aria-colindextext', 'aria-colspan', 'aria-rowindex', 'aria-rowindextext', 'aria-rowspan'];
+const GRIDCELL = [...CELL, 'aria-disabled', 'aria-errormessage', 'aria-expanded', 'aria-haspopup', 'aria-invalid', 'aria-readonly', 'aria-required', 'aria-selected'];
+const TEXTBOX = ['aria-activedescendant', 'aria-autocomplete', 'aria-errormessage', 'aria-haspopup', 'aria-invalid', 'aria-multiline', 'aria-placeholder', 'aria-readonly', 'aria-required'];
+const CHECKBOX = ['aria-checked', 'aria-errormessage', 'aria-expanded', 'aria-invalid', 'aria-readonly', 'aria-required'];
+const MENU = ['aria-activedescendant', 'aria-orientation'];
+const MENUITEM = ['aria-expanded', 'aria-haspopup', 'aria-posinset', 'aria-setsize'];
+const GRID = ['aria-activedescendant', 'aria-colcount', 'aria-multiselectable', 'aria-readonly', 'aria-rowcount'];
+const NAME_PROHIBITED = ['aria-label', 'aria-labelledby'];
+
+const MENU_CONTEXT = ['group', 'menu', 'menubar'];
+const MENU_OWNED = ['group', 'menuitem', 'menuitemcheckbox', 'menuitemradio'];
+
+export const ARIA_ROLES: Record<string, AriaRoleDefinition> = {
+  command: { abstract: true },
+  composite: { abstract: true },
+  input: { abstract: true },
+  landmark: { abstract: true },
+  range: { abstract: true },
+  roletype: { abstract: true },
+  section: { abstract: true },
+  sectionhead: { abstract: true },
+  select: { abstract: true },
+  structure: { abstract: true },
+  widget: { abstract: true },
+  window: { abstract: true },
+
+  alert: { nameFrom: ['author'] },
+  alertdialog: { supportedAttributes: ['aria-modal'], nameFrom: ['author'], nameRequired: true },
+  application: { supportedAttributes: ['aria-activedescendant', 'aria-expanded'], nameFrom: ['author'], nameRequired: true },
+  article: { supportedAttributes: ['aria-posinset', 'aria-setsize'], nameFrom: ['author'] },
+  banner: { nameFrom: ['author'] },
+  blockquote: { nameFrom: ['author'] },
+  button: { supportedAttributes: ['aria-expanded', 'aria-pressed'], nameFrom: ['contents', 'author'], nameRequired: true },
+  caption: { prohibitedAttributes: NAME_PROHIBITED, requiredContext: ['figure', 'grid', 'table', 'treegrid'], nameFrom: ['prohibited'] },
+  cell: { supportedAttributes: CELL, requiredContext: ['row'], nameFrom: ['contents', 'author'] },
+  checkbox: { requiredAttributes: ['aria-checked'], supportedAttributes: CHECKBOX, nameFrom: ['contents', 'author'], nameRequired: true },
+  code: { prohibitedAttributes: NAME_PROHIBITED, nameFrom: ['prohibited'] },
+  columnheader: { supportedAttributes: [...GRIDCELL, 'aria-sort'], requiredContext: ['row'], nameFrom: ['contents', 'author'], nameRequired: true },
+  combobox: {
+    requiredAttributes: ['aria-controls', 'aria-expanded'],
+    supportedAttributes: ['aria-activedescendant', 'aria-autocomplete', 'aria-errormessage', 'aria-expanded', 'aria-invalid', 'aria-readonly', 'aria-required'],
+    nameFrom: ['author'],
+    nameRequired: true
+  },
+  complementary: { nameFrom: ['author'] },
+  contentinfo: { nameFrom: ['author'] },
+  definition: { nameFrom: ['author'] },
+  deletion: { prohibitedAttributes: NAME_PROHIBITED, nameFrom: ['prohibited'] },
+  dialog: { supportedAttributes: ['aria-modal'], nameFrom: ['author'], nameRequired: true },
+  directory: { nameFrom: ['author'] },
+  document: { nameFrom: ['author'] },
+  emphasis: { prohibitedAttributes: NAME_PROHIBITED, nameFrom: ['prohibited'] },
+  feed: { requiredOwned: ['article'], nameFrom: ['author'] },
+  figure: { nameFrom: ['author'] },
+  form: { nameFrom: ['author'] },
+  generic: { prohibitedAttributes: NAME_PROHIBITED, nameFrom: ['prohibited'] },
+  grid: { supportedAttributes: GRID, requiredOwned: ['row', 'rowgroup'], nameFrom: ['author'], nameRequired: true },
+  gridcell: { supportedAttributes: GRIDCELL, requiredContext: ['row'], nameFrom: ['contents', 'author'] },
+  group: { supportedAttributes: ['aria-activedescendant'], nameFrom: ['author'] },
+  heading: { requiredAttributes: ['aria-level'], supportedAttributes: ['aria-level'], nameFrom: ['contents', 'author'], nameRequired: true },
+  img: { nameFrom: ['author'], nameRequired: true },
+  insertion: { prohibitedAttributes: NAME_PROHIBITED, nameFrom: ['prohibited'] },
+  link: { supportedAttributes: ['aria-expanded'], nameFrom: ['contents', 'author'], nameRequired: true },
+  list: { requiredOwned: ['listitem'], nameFrom: ['author'] },
+  listbox: {
+    supportedAttributes: ['aria-activedescendant', 'aria-errormessage', 'aria-expanded', 'aria-invalid', 'aria-multiselectable', 'aria-orientation', 'aria-readonly', 'aria-required'],
+    requiredOwned: ['group', 'option'],
+    nameFrom: ['author'],
+    nameRequired: true
+  },
+  listitem: { supportedAttributes: ['aria-level', 'aria-posinset', 'aria-setsize'], requiredContext: ['directory', 'list'], nameFrom: ['author'] },
+  log: { nameFrom: ['author'] },
+  main: { nameFrom: ['author'] },
+  marquee: { nameFrom: ['author'], nameRequired: true },
+  math: { nameFrom: ['author'] },
+  menu: { supportedAttributes: MENU, requiredOwned: MENU_OWNED, nameFrom: ['author'] },
+  menubar: { supportedAttributes: MENU, requiredOwned: MENU_OWNED, nameFrom: ['author'] },
+  menuitem: { supportedAttributes: MENUITEM, requiredContext: MENU_CONTEXT, nameFrom: ['contents', 'author'], nameRequired: true },
+  menuitemcheckbox: { requiredAttributes: ['aria-checked'], supportedAttributes: [...MENUITEM, 'aria-checked'], requiredContext: MENU_CONTEXT, nameFrom: ['contents', 'author'], nameRequired: true },
+  menuitemradio: { requiredAttributes: ['aria-checked'], supportedAttributes: [...MENUITEM, 'aria-checked'], requiredContext: MENU_CONTEXT, nameFrom: ['contents', 'author'], nameRequired: true },
+  meter: { requiredAttributes: ['aria-valuenow'], supportedAttributes: VALUE_RANGE, nameFrom: ['author'], nameRequired: true },
+  navigation: { nameFrom: ['author'] },
+  none: {},
+  note: { nameFrom: ['author'] },
+  option: { supportedAttributes: ['aria-checked', 'aria-posinset', 'aria-selected', 'aria-setsize'], requiredContext: ['group', 'listbox'], nameFrom: ['contents', 'author'], nameRequired: true },
+  paragraph: { prohibitedAttributes: NAME_PROHIBITED, nameFrom: ['prohibited'] },
+  presentation: {},
+  progressbar: { supportedAttributes: VALUE_RANGE, nameFrom: ['author'], nameRequired: true },
+  radio: { requiredAttributes: ['aria-checked'], supportedAttributes: ['aria-checked', 'aria-posinset', 'aria-setsize'], nameFrom: ['contents', 'author'], nameRequired: true },
+  radiogroup: { supportedAttributes: ['aria-activedescendant', 'aria-errormessage', 'aria-invalid', 'aria-readonly', 'aria-required'], nameFrom: ['author'], nameRequired: true },
+  region: { nameFrom: ['author'], nameRequired: true },
+  row: {
+    supportedAttributes: ['aria-activedescendant', 'aria-colindex', 'aria-expanded', 'aria-level', 'aria-posinset', 'aria-rowindex', 'aria-rowindextext', 'aria-selected', 'aria-setsize'],
+    requiredContext: ['grid', 'rowgroup', 'table', 'treegrid'],
+    requiredOwned: ['cell', 'columnheader', 'gridcell', 'rowheader'],
+    nameFrom: ['contents', 'author']
+  },
+  rowgroup: { requiredContext: ['grid', 'table', 'treegrid'], requiredOwned: ['row'], nameFrom: ['contents', 'author'] },
+  rowheader: { supportedAttributes: [...GRIDCELL, 'aria-sort'], requiredContext: ['row'], nameFrom: ['contents', 'author'], nameRequired: true },
+  scrollbar: { requiredAttributes: ['aria-controls', 'aria-valuenow'], supportedAttributes: [...VALUE_RANGE, 'aria-orientation'], nameFrom: ['author'] },
+  search: { nameFrom: ['author'] },
+  searchbox: { supportedAttributes: TEXTBOX, nameFrom: ['author'], nameRequired: true },
+  separator: { supportedAttributes: [...VALUE_RANGE, 'aria-orientation'], nameFrom: ['author'] },
+  slider: {
+    requiredAttributes: ['aria-valuenow'],
+    supportedAttributes: [...VALUE_RANGE, 'aria-errormessage', 'aria-haspopup', 'aria-invalid', 'aria-orientation', 'aria-readonly'],
+    nameFrom: ['author'],
+    nameRequired: true
+  },
+  spinbutton: {
+    supportedAttributes: [...VALUE_RANGE, 'aria-activedescendant', 'aria-errormessage', 'aria-invalid', 'aria-readonly', 'aria-required'],
+    nameFrom: ['author'],
+    nameRequired: true
+  },
+  status: { nameFrom: ['author'] },
+  strong: { prohibitedAttributes: NAME_PROHIBITED, nameFrom: ['prohibited'] },
+  subscript: { prohibitedAttributes: NAME_PROHIBITED, nameFrom: ['prohibited'] },
+  superscript: { prohibitedAttributes: NAME_PROHIBITED, nameFrom: ['prohibited'] },
+  switch: { requiredAttributes: ['aria-checked'], supportedAttributes: CHECKBOX, nameFrom: ['contents', 'author'], nameRequired: true },
+  tab: { supportedAttributes: ['aria-expanded', 'aria-posinset', 'aria-selected', 'aria-setsize'], requiredContext: ['tablist'], nameFrom: ['contents', 'author'] },
+  table: { supportedAttributes: ['aria-colcount', 'aria-rowcount'], requiredOwned: ['row', 'rowgroup'], nameFrom: ['author'], nameRequired: true },
+  tablist: { supportedAttributes: ['aria-activedescendant', 'aria-multiselectable', 'aria-orientation'], requiredOwned: ['tab'], nameFrom: ['author'] },
+  tabpanel: { nameFrom: ['author'], nameRequired: true },
+  term: { nameFrom: ['contents', 'author'] },
+  textbox: { supportedAttributes: TEXTBOX, nameFrom: ['author'], nameRequired: true },
+  time: { nameFrom: ['author'] },
+  timer: { nameFrom: ['author'] },
+  toolbar: { supportedAttributes: ['aria-activedescendant', 'aria-orientation'], nameFrom: ['author'] },
+  tooltip: { nameFrom: ['contents', 'author'], nameRequired: true },
+  tree: { supportedAttributes: ['aria-activedescendant', 'aria-errormessage', 'aria-invalid', 'aria-multiselectable', 'aria-orientation', 'aria-required'], requiredOwned: ['group', 'treeitem'], nameFrom: ['author'], nameRequired: true },
+  treegrid: { supportedAttributes: [...GRID, 'aria-errormessage', 'aria-invalid', 'aria-orientation', 'aria-required'], requiredOwned: ['row', 'rowgroup'], nameFrom: ['author'], nameRequired: true },
+  treeitem: {
+    supportedAttributes: ['aria-checked', 'aria-expanded', 'aria-haspopup', 'aria-level', 'aria-posinset', 'aria-selected', 'aria-setsize'],
+    requiredContext: ['group', 'tree'],
+    nameFrom: ['contents', 'author'],
+    nameRequired: true
+  }
+};
+
+/** Roles whose elements are removed from the accessibility tree, exposing their children instead. */
+export const PRESENTATIONAL_ROLES = ['none', 'presentation'];
+
+
+
+
+export function isKnownRole(role: string): boolean {
+  return Object.prototype.hasOwnProperty.call(ARIA_ROLES, role);
+}
+
+
+
+
+export function isAbstractRole(role: string): boolean {
+  return isKnownRole(role) && ARIA_ROLES[role].abstract === true;
+}
+
+
+
+
+export function isValidRole(role: string): boolean {
+  return isKnownRole(role) && !ARIA_ROLES[role].abstract;
+}
+
+
+
+
+export function getRoleDefinition(role: string): AriaRoleDefinition | undefined {
+  return isKnownRole(role) ? ARIA_ROLES[role] : undefined;
+}
+
+
+
+
+export function isAttributeSupported(role: string, attribute: string, isGlobal: boolean): boolean {
+  const definition = getRoleDefinition(role);
+  if (!definition) return isGlobal;
+  if (definition.prohibitedAttributes?.includes(attribute)) return false;
+  return isGlobal || (definition.supportedAttributes?.includes(attribute) ?? false);
+}
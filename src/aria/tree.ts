@@ -0,0 +1,336 @@
+import { computeAccessibleName, computeAccessibleDescription } from './accname';
+import { getRole, isFocusable, isHiddenFromAccessibilityTree } from './implicit';
+import { getElementsByIdRefs, isTransparentRole } from './ownership';
+import { getUniqueSelector } from '../utils/selector';
+
+export interface AccessibilityStates {
+  checked?: boolean | 'mixed';
+  pressed?: boolean | 'mixed';
+  selected?: boolean;
+  expanded?: boolean;
+  disabled?: boolean;
+  required?: boolean;
+  readonly?: boolean;
+  invalid?: boolean | string;
+  busy?: boolean;
+  modal?: boolean;
+  multiselectable?: boolean;
+  focusable?: boolean;
+  focused?: boolean;
+  current?: string;
+  haspopup?: string;
+}
+
+export interface AccessibilityRelationships {
+  controls?: string[];
+  describedBy?: string[];
+  details?: string[];
+  errorMessage?: string[];
+  flowTo?: string[];
+  labelledBy?: string[];
+  owns?: string[];
+  activeDescendant?: string[];
+}
+
+export interface AccessibilityNode {
+  role: string;
+  name: string;
+  description?: string;
+  value?: string;
+  level?: number;
+  states: AccessibilityStates;
+  relationships?: AccessibilityRelationships;
+  selector: string;
+  children: AccessibilityNode[];
+}
+
+export interface AccessibilityTreeOptions {
+  /** Flatten generic, none and presentation nodes into their parent (default true). */
+  pruneGeneric?: boolean;
+  /** Emit text nodes as `text` leaves (default false; text already feeds names). */
+  includeText?: boolean;
+  /** Keep elements hidden from assistive technology (default false). */
+  includeHidden?: boolean;
+  /** Compute accessible descriptions (default true). */
+  includeDescriptions?: boolean;
+}
+
+const RELATIONSHIP_ATTRIBUTES: Array<[keyof AccessibilityRelationships, string]> = [
+  ['controls', 'aria-controls'],
+  ['describedBy', 'aria-describedby'],
+  ['details', 'aria-details'],
+  ['errorMessage', 'aria-errormessage'],
+  ['flowTo', 'aria-flowto'],
+  ['labelledBy', 'aria-labelledby'],
+  ['owns', 'aria-owns'],
+  ['activeDescendant', 'aria-activedescendant']
+];
+
+const VALUE_ROLES = ['meter', 'progressbar', 'scrollbar', 'slider', 'spinbutton'];
+const TEXT_VALUE_ROLES = ['combobox', 'searchbox', 'textbox'];
+
+const nodeElements = new WeakMap<AccessibilityNode, Element>();
+
+
+
+
+export function buildAccessibilityTree(root: Element, options: AccessibilityTreeOptions = {}): AccessibilityNode {
+  const opts: Required<AccessibilityTreeOptions> = {
+    pruneGeneric: true,
+    includeText: false,
+    includeHidden: false,
+    includeDescriptions: true,
+    ...options
+  };
+
+  const ownedElsewhere = new Set<Element>();
+  const scope = root.ownerDocument ?? document;
+  scope.querySelectorAll('[aria-owns]').forEach(owner => {
+    getElementsByIdRefs(owner, owner.getAttribute('aria-owns'))
+      .filter(ref => ref !== owner && !ref.contains(owner))
+      .forEach(ref => ownedElsewhere.add(ref));
+  });
+
+  const visited = new Set<Element>();
+  const rootNode = createNode(root, opts);
+  visited.add(root);
+  rootNode.children = buildChildren(root, opts, ownedElsewhere, visited);
+  return rootNode;
+}
+
+
+
+
+export function getNodeElement(node: AccessibilityNode): Element | undefined {
+  return nodeElements.get(node);
+}
+
+
+
+
+export function walkAccessibilityTree(
+  node: AccessibilityNode,
+  visit: (node: AccessibilityNode, parent: AccessibilityNode | null, depth: number) => void
+): void {
+  const walk = (current: AccessibilityNode, parent: AccessibilityNode | null, depth: number) => {
+    visit(current, parent, depth);
+    current.children.forEach(child => walk(child, current, depth + 1));
+  };
+  walk(node, null, 0);
+}
+
+
+
+
+export function formatAccessibilityTree(node: AccessibilityNode): string {
+  const lines: string[] = [];
+
+  walkAccessibilityTree(node, (current, _parent, depth) => {
+    let line = `${'  '.repeat(depth)}- ${current.role}`;
+    if (current.name) line += ` ${JSON.stringify(current.name)}`;
+
+    const flags: string[] = [];
+    if (current.level !== undefined) flags.push(`level=${current.level}`);
+    for (const [state, value] of Object.entries(current.states)) {
+      if (state === 'focusable' || value === false) continue;
+      flags.push(value === true ? state : `${state}=${value}`);
+    }
+    if (flags.length > 0) line += ` [${flags.join(', ')}]`;
+    if (current.value !== undefined && current.value !== '') line += `: ${current.value}`;
+
+    lines.push(line);
+  });
+
+  return lines.join('\n');
+}
+
+function buildChildren(
+  element: Element,
+  opts: Required<AccessibilityTreeOptions>,
+  ownedElsewhere: Set<Element>,
+  visited: Set<Element>
+): AccessibilityNode[] {
+  const children: AccessibilityNode[] = [];
+
+  const visitNode = (child: Node, viaOwns: boolean) => {
+    if (child.nodeType === 3) {
+      const text = child.textContent?.replace(/\s+/g, ' ').trim();
+      if (opts.includeText && text) {
+        children.push({ role: 'text', name: text, states: {}, selector: '', children: [] });
+      }
+      return;
+    }
+
+    if (child.nodeType !== 1) return;
+    const childElement = child as Element;
+
+    if (visited.has(childElement)) return;
+    if (!viaOwns && ownedElsewhere.has(childElement)) return;
+    if (!opts.includeHidden && isHiddenFromAccessibilityTree(childElement)) return;
+
+    visited.add(childElement);
+
+    const node = createNode(childElement, opts);
+    const grandchildren = buildChildren(childElement, opts, ownedElsewhere, visited);
+
+    if (opts.pruneGeneric && node.role === 'generic' && !node.states.focusable) {
+      children.push(...grandchildren);
+    } else {
+      node.children = grandchildren;
+      children.push(node);
+    }
+  };
+
+  const content = element.shadowRoot ? element.shadowRoot.childNodes : element.childNodes;
+  Array.from(content).forEach(child => visitNode(child, false));
+
+  getElementsByIdRefs(element, element.getAttribute('aria-owns'))
+    .filter(ref => ref !== element && !ref.contains(element))
+    .forEach(ref => visitNode(ref, true));
+
+  return children;
+}
+
+function createNode(element: Element, opts: Required<AccessibilityTreeOptions>): AccessibilityNode {
+  const computedRole = getRole(element);
+  const role = isTransparentRole(computedRole) ? 'generic' : computedRole!;
+
+  const node: AccessibilityNode = {
+    role,
+    name: role === 'generic' ? '' : computeAccessibleName(element),
+    states: getStates(element),
+    selector: getUniqueSelector(element),
+    children: []
+  };
+
+  if (opts.includeDescriptions) {
+    const description = computeAccessibleDescription(element);
+    if (description) node.description = description;
+  }
+
+  const value = getValue(element, role);
+  if (value !== undefined) node.value = value;
+
+  const level = getLevel(element, role);
+  if (level !== undefined) node.level = level;
+
+  const relationships = getRelationships(element);
+  if (relationships) node.relationships = relationships;
+
+  nodeElements.set(node, element);
+  return node;
+}
+
+function getStates(element: Element): AccessibilityStates {
+  const states: AccessibilityStates = {};
+  const input = element as HTMLInputElement;
+  const tagName = element.tagName.toLowerCase();
+
+  const checked = element.getAttribute('aria-checked');
+  if (checked !== null) {
+    states.checked = checked === 'mixed' ? 'mixed' : checked === 'true';
+  } else if (tagName === 'input' && (input.type === 'checkbox' || input.type === 'radio')) {
+    states.checked = input.indeterminate ? 'mixed' : input.checked;
+  }
+
+  const pressed = element.getAttribute('aria-pressed');
+  if (pressed !== null && pressed !== 'undefined') {
+    states.pressed = pressed === 'mixed' ? 'mixed' : pressed === 'true';
+  }
+
+  const selected = element.getAttribute('aria-selected');
+  if (selected !== null && selected !== 'undefined') {
+    states.selected = selected === 'true';
+  } else if (tagName === 'option') {
+    states.selected = (element as HTMLOptionElement).selected;
+  }
+
+  const expanded = element.getAttribute('aria-expanded');
+  if (expanded !== null && expanded !== 'undefined') {
+    states.expanded = expanded === 'true';
+  } else if (tagName === 'details') {
+    states.expanded = element.hasAttribute('open');
+  }
+
+  if (element.getAttribute('aria-disabled') === 'true' || element.hasAttribute('disabled')) {
+    states.disabled = true;
+  }
+  if (element.getAttribute('aria-required') === 'true' || element.hasAttribute('required')) {
+    states.required = true;
+  }
+  if (element.getAttribute('aria-readonly') === 'true' || element.hasAttribute('readonly')) {
+    states.readonly = true;
+  }
+
+  const invalid = element.getAttribute('aria-invalid');
+  if (invalid !== null && invalid !== 'false' && invalid !== '') {
+    states.invalid = invalid === 'true' ? true : invalid;
+  }
+
+  if (element.getAttribute('aria-busy') === 'true') states.busy = true;
+  if (element.getAttribute('aria-modal') === 'true') states.modal = true;
+  if (element.getAttribute('aria-multiselectable') === 'true' ||
+      (tagName === 'select' && element.hasAttribute('multiple'))) {
+    states.multiselectable = true;
+  }
+
+  const current = element.getAttribute('aria-current');
+  if (current && current !== 'false') states.current = current;
+
+  const haspopup = element.getAttribute('aria-haspopup');
+  if (haspopup && haspopup !== 'false') states.haspopup = haspopup === 'true' ? 'menu' : haspopup;
+
+  if (isFocusable(element)) states.focusable = true;
+  if (element.ownerDocument?.activeElement === element) states.focused = true;
+
+  return states;
+}
+
+function getValue(element: Element, role: string): string | undefined {
+  if (VALUE_ROLES.includes(role)) {
+    const valueText = element.getAttribute('aria-valuetext');
+    if (valueText) return valueText;
+    const valueNow = element.getAttribute('aria-valuenow');
+    if (valueNow) return valueNow;
+    if ('value' in element) return String((element as HTMLInputElement).value);
+    return undefined;
+  }
+
+  if (TEXT_VALUE_ROLES.includes(role)) {
+    if (element.tagName.toLowerCase() === 'select') {
+      const select = element as HTMLSelectElement;
+      return select.selectedOptions?.[0]?.textContent?.trim() ?? '';
+    }
+    if ('value' in element && typeof (element as HTMLInputElement).value === 'string') {
+      return (element as HTMLInputElement).value;
+    }
+  }
+
+  return undefined;
+}
+
+function getLevel(element: Element, role: string): number | undefined {
+  const ariaLevel = parseInt(element.getAttribute('aria-level') || '', 10);
+  if (ariaLevel > 0) return ariaLevel;
+
+  if (role === 'heading') {
+    const match = /^h([1-6])$/i.exec(element.tagName);
+    return match ? parseInt(match[1], 10) : 2;
+  }
+
+  return undefined;
+}
+
+function getRelationships(element: Element): AccessibilityRelationships | undefined {
+  let relationships: AccessibilityRelationships | undefined;
+
+  for (const [key, attribute] of RELATIONSHIP_ATTRIBUTES) {
+    const refs = getElementsByIdRefs(element, element.getAttribute(attribute));
+    if (refs.length > 0) {
+      relationships ??= {};
+      relationships[key] = refs.map(ref => getUniqueSelector(ref));
+    }
+  }
+
+  return relationships;
+}
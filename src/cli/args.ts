@@ -0,0 +1,114 @@
+import { parseArgs } from 'node:util';
+import { IMPACTS, REPORT_FORMATS, WCAG_LEVELS, WCAG_VERSIONS } from '../config/schema.js';
+import type { A11ySettings, Impact, ReportFormat } from '../config/types.js';
+
+export { IMPACTS };
+export type { Impact, ReportFormat };
+
+export interface CliOptions {
+  inputs: string[];
+  /** Config file from `--config`; otherwise `a11y.config.*` in the working directory is used. */
+  configPath?: string;
+  /** Environment whose overrides apply; defaults to `A11Y_ENV` or `NODE_ENV`. */
+  env?: string;
+  /** Rewrite the baseline from this run instead of comparing against it. */
+  updateBaseline: boolean;
+  help: boolean;
+  /** Settings given as flags; they take precedence over the config file except for route overrides. */
+  overrides: A11ySettings;
+}
+
+export const USAGE = `Usage: a11y-engine [options] <file|directory|glob>...
+
+Audits static HTML pages, such as a prerendered SvelteKit build, and writes reports.
+Settings are read from the config file when one exists; flags take precedence.
+
+Options:
+  --config <file>          Config file (default: a11y.config.{ts,mts,js,mjs,json} in the working directory)
+  --env <name>             Environment overrides to apply (default: A11Y_ENV or NODE_ENV)
+  --rules <ids>            Comma-separated rule ids to run
+  --plugins <ids>          Comma-separated plugin ids (default: all bundled plugins)
+  --level <A|AA|AAA>       WCAG conformance level (default: AA)
+  --wcag <2.1|2.2>         WCAG version (default: 2.2)
+  --theme <names>          Themes to apply via data-theme, comma-separated or repeated
+  --baseline <file>        Only fail on issues missing from this baseline
+  --update-baseline        Write the baseline from this run instead of comparing
+  --format <formats>       html, json, markdown, sarif and/or junit (default: json)
+  --output <dir>           Report directory (default: a11y-reports)
+  --fail-on <impact>       minor, moderate, serious or critical (default: serious)
+  --max-violations <n>     Violations tolerated before failing (default: 0)
+  -h, --help               Show this message
+
+Exit codes: 0 passed, 1 threshold exceeded, 2 usage or runtime error.`;
+
+
+
+
+export function parseCliArgs(argv: string[]): CliOptions {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      config: { type: 'string' },
+      env: { type: 'string' },
+      rules: { type: 'string', multiple: true },
+      plugins: { type: 'string', multiple: true },
+      level: { type: 'string' },
+      wcag: { type: 'string' },
+      theme: { type: 'string', multiple: true },
+      baseline: { type: 'string' },
+      'update-baseline': { type: 'boolean', default: false },
+      format: { type: 'string', multiple: true },
+      output: { type: 'string' },
+      'fail-on': { type: 'string' },
+      'max-violations': { type: 'string' },
+      help: { type: 'boolean', short: 'h', default: false }
+    }
+  });
+
+  const maxViolations = values['max-violations'] === undefined ? undefined : Number(values['max-violations']);
+  if (maxViolations !== undefined && (!Number.isInteger(maxViolations) || maxViolations < 0)) {
+    throw new Error(`--max-violations must be a non-negative integer, got "${values['max-violations']}"`);
+  }
+
+  const options: CliOptions = {
+    inputs: positionals,
+    configPath: values.config,
+    env: values.env,
+    updateBaseline: values['update-baseline']!,
+    help: values.help!,
+    overrides: {
+      rules: splitList(values.rules),
+      plugins: splitList(values.plugins),
+      level: oneOf('--level', values.level, WCAG_LEVELS),
+      wcag: oneOf('--wcag', values.wcag, WCAG_VERSIONS),
+      themes: splitList(values.theme),
+      reporting: {
+        baseline: values.baseline,
+        formats: splitList(values.format)?.map(format => oneOf('--format', format, REPORT_FORMATS)!),
+        outputDir: values.output,
+        failOn: oneOf('--fail-on', values['fail-on'], IMPACTS),
+        maxViolations
+      }
+    }
+  };
+
+  if (!options.help && options.inputs.length === 0) {
+    throw new Error('No input pages given');
+  }
+
+  return options;
+}
+
+function splitList(values: string[] | undefined): string[] | undefined {
+  if (!values) return undefined;
+  return values.flatMap(value => value.split(',')).map(value => value.trim()).filter(Boolean);
+}
+
+function oneOf<T extends string>(flag: string, value: string | undefined, allowed: readonly T[]): T | undefined {
+  if (value === undefined) return undefined;
+  if (!allowed.includes(value as T)) {
+    throw new Error(`${flag} must be one of ${allowed.join(', ')}, got "${value}"`);
+  }
+  return value as T;
+}
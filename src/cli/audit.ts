@@ -0,0 +1,190 @@
+import type { AxeResults, NodeResult, Result } from 'axe-core';
+import type { CustomRule, EvaluationContext, EvaluationPlugin, EvaluationRule } from '../types.js';
+import type { ContrastTestResult, FixableNodeResult } from '../reporting/types.js';
+import { RuleRegistry } from '../engine/rules/registry.js';
+import { adaptRule, type RuleViolation } from '../engine/rules/adapters.js';
+import { getCriterion } from '../engine/rules/criteria.js';
+import { proposeFixes } from '../engine/fixes.js';
+import { getUniqueSelector } from '../utils/selector.js';
+import { annotateSuppressions } from '../reporting/baseline.js';
+import { BUNDLED_PLUGINS, resolvePlugins } from '../plugins/index.js';
+
+export interface AuditOptions {
+  plugins?: Array<string | EvaluationPlugin>;
+  rules?: string[];
+  disabledRules?: string[];
+  customRules?: Array<CustomRule | EvaluationRule>;
+  level?: 'A' | 'AA' | 'AAA';
+  wcag?: '2.1' | '2.2';
+}
+
+export interface DocumentAudit {
+  axeResults: AxeResults;
+  contrastResults: ContrastTestResult[];
+}
+
+const HTML_SNIPPET_LENGTH = 250;
+
+
+
+
+export function selectRules(options: AuditOptions = {}): CustomRule[] {
+  const plugins = options.plugins ? resolvePlugins(options.plugins) : BUNDLED_PLUGINS;
+  const registry = new RuleRegistry({ wcag: options.wcag, level: options.level });
+  plugins.forEach(plugin => plugin.rules?.forEach(rule => registry.register(adaptRule(rule))));
+  options.customRules?.forEach(rule => registry.register(adaptRule(rule)));
+
+  const disabled = new Set(options.disabledRules);
+  if (!options.rules) return registry.getActiveRules().filter(rule => !disabled.has(rule.id));
+
+  return options.rules.filter(id => !disabled.has(id)).map(id => {
+    const rule = registry.getRule(id);
+    if (!rule) throw new Error(`Unknown rule "${id}"`);
+    return rule;
+  });
+}
+
+
+
+
+export async function auditDocument(document: Document, rules: CustomRule[]): Promise<DocumentAudit> {
+  const window = document.defaultView!;
+  const elements = Array.from(document.querySelectorAll('*'));
+  const context: EvaluationContext = {
+    options: {},
+    signal: new AbortController().signal,
+    viewport: {
+      width: window.innerWidth,
+      height: window.innerHeight,
+      scrollX: window.scrollX,
+      scrollY: window.scrollY
+    },
+    timestamp: Date.now(),
+    document,
+    window
+  };
+
+  const axeResults: AxeResults = {
+    toolOptions: {},
+    testEngine: { name: 'tinyland-a11y-engine', version: '1' },
+    testRunner: { name: 'a11y-engine' },
+    testEnvironment: {
+      userAgent: window.navigator.userAgent,
+      windowWidth: window.innerWidth,
+      windowHeight: window.innerHeight
+    },
+    url: window.location.href,
+    timestamp: new Date().toISOString(),
+    passes: [],
+    violations: [],
+    incomplete: [],
+    inapplicable: []
+  };
+  const contrast = new Map<string, ContrastTestResult>();
+
+  for (const rule of rules) {
+    const failed: NodeResult[] = [];
+    const incomplete: NodeResult[] = [];
+    let applicable = false;
+
+    for (const element of elements) {
+      let outcome;
+      try {
+        outcome = await rule.evaluate(element, context);
+      } catch (error) {
+        applicable = true;
+        incomplete.push(toNode(element, rule, `Rule failed to run: ${error instanceof Error ? error.message : error}`));
+        continue;
+      }
+
+      if (outcome.outcome === 'inapplicable') continue;
+      applicable = true;
+      if (outcome.passed) continue;
+
+      const node = toNode(element, rule, outcome.violation?.message ?? rule.id);
+      if (outcome.outcome === 'incomplete') {
+        incomplete.push(node);
+      } else {
+        failed.push(withFixes(node, element, rule, outcome.violation));
+        addContrastResult(contrast, element, node, outcome.violation);
+      }
+    }
+
+    const result = toResult(rule);
+    if (failed.length) axeResults.violations.push({ ...result, nodes: failed });
+    if (incomplete.length) axeResults.incomplete.push({ ...result, nodes: incomplete });
+    if (!failed.length && !incomplete.length) {
+      (applicable ? axeResults.passes : axeResults.inapplicable).push({ ...result, nodes: [] });
+    }
+  }
+
+  return { axeResults: annotateSuppressions(axeResults, document), contrastResults: Array.from(contrast.values()) };
+}
+
+function toResult(rule: CustomRule): Omit<Result, 'nodes'> {
+  const criteria = rule.wcagCriteria ?? [];
+  const criterion = criteria.map(id => getCriterion(id)).find(Boolean);
+
+  return {
+    id: rule.id,
+    impact: rule.severity,
+    description: (rule as CustomRule & { description?: string }).description ?? rule.id,
+    help: (rule as CustomRule & { name?: string }).name ?? rule.id,
+    helpUrl: criterion
+      ? `https://www.w3.org/WAI/WCAG22/Understanding/${criterion.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')}`
+      : '',
+    tags: [
+      ...criteria.map(id => `wcag${id.replace(/\./g, '')}`),
+      ...(criterion ? [`wcag2${criterion.level.toLowerCase()}`] : []),
+      ...(rule.tags ?? [])
+    ]
+  };
+}
+
+function toNode(element: Element, rule: CustomRule, message: string): NodeResult {
+  return {
+    html: element.outerHTML.slice(0, HTML_SNIPPET_LENGTH),
+    impact: rule.severity,
+    target: [getUniqueSelector(element)],
+    any: [],
+    all: [],
+    none: [],
+    failureSummary: message
+  };
+}
+
+function withFixes(node: NodeResult, element: Element, rule: CustomRule, violation?: RuleViolation): FixableNodeResult {
+  const fixes = proposeFixes(element, {
+    ...violation,
+    wcagCriteria: violation?.wcagCriteria?.length ? violation.wcagCriteria : rule.wcagCriteria
+  }, { selector: String(node.target[0]) });
+  return fixes.length ? { ...node, fixes } : node;
+}
+
+function addContrastResult(
+  contrast: Map<string, ContrastTestResult>,
+  element: Element,
+  node: NodeResult,
+  violation?: RuleViolation
+): void {
+  const details = violation?.details;
+  if (typeof details?.ratio !== 'number' || !details.foreground || !details.background) return;
+
+  const selector = String(node.target[0]);
+  if (contrast.has(selector)) return;
+
+  const styles = element.ownerDocument.defaultView!.getComputedStyle(element);
+  const large = !!details.isLargeText;
+  contrast.set(selector, {
+    selector,
+    foreground: details.foreground,
+    background: details.background,
+    ratio: details.ratio,
+    fontSize: styles.fontSize,
+    fontWeight: styles.fontWeight,
+    isLargeText: large,
+    meetsAA: details.ratio >= (large ? 3 : 4.5),
+    meetsAAA: details.ratio >= (large ? 4.5 : 7),
+    element: element.textContent?.trim().slice(0, 100) ?? ''
+  });
+}
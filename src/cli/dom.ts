@@ -0,0 +1,123 @@
+import { existsSync, readFileSync } from 'node:fs';
+import { dirname, join, resolve } from 'node:path';
+import type { PageSource } from './pages.js';
+
+interface JsdomModule {
+  JSDOM: new (html: string, options: Record<string, unknown>) => { window: Window & { close(): void } };
+  VirtualConsole: new () => {
+    on(event: 'jsdomError', listener: (error: Error) => void): unknown;
+  };
+}
+
+export interface LoadedPage {
+  window: Window;
+  close(): void;
+}
+
+const JSDOM_MODULE = 'jsdom';
+const PAGE_ORIGIN = 'http://localhost';
+// jsdom reports APIs it lacks, such as pseudo-element styles, once per call; rules already fall back.
+const NOT_IMPLEMENTED = /^Not implemented\b/;
+
+/**
+ * Properties copied onto `globalThis` while a page is audited, because rules
+ * read `document`, `window` and `getComputedStyle` as globals.
+ */
+const DOM_GLOBALS = [
+  'window',
+  'document',
+  'navigator',
+  'location',
+  'getComputedStyle',
+  'requestAnimationFrame',
+  'cancelAnimationFrame',
+  'Node',
+  'NodeFilter',
+  'Document',
+  'DocumentFragment',
+  'ShadowRoot',
+  'Element',
+  'HTMLElement',
+  'HTMLInputElement',
+  'HTMLSelectElement',
+  'HTMLTextAreaElement',
+  'HTMLImageElement',
+  'HTMLDialogElement',
+  'SVGElement',
+  'Event',
+  'CustomEvent',
+  'FocusEvent',
+  'KeyboardEvent',
+  'MouseEvent',
+  'ClipboardEvent',
+  'DataTransfer',
+  'MutationObserver',
+  'DOMParser'
+];
+
+
+
+
+export async function loadPage(page: PageSource): Promise<LoadedPage> {
+  let jsdom: JsdomModule;
+  try {
+    jsdom = await import(JSDOM_MODULE) as JsdomModule;
+  } catch {
+    throw new Error('The a11y-engine CLI loads pages with jsdom, which is not installed. Add it with: pnpm add -D jsdom');
+  }
+
+  const html = inlineStylesheets(readFileSync(page.path, 'utf-8'), page);
+  const virtualConsole = new jsdom.VirtualConsole();
+  virtualConsole.on('jsdomError', error => {
+    if (!NOT_IMPLEMENTED.test(error.message)) console.error(error);
+  });
+  const dom = new jsdom.JSDOM(html, { url: `${PAGE_ORIGIN}${page.route}`, pretendToBeVisual: true, virtualConsole });
+  return { window: dom.window, close: () => dom.window.close() };
+}
+
+
+
+
+export function inlineStylesheets(html: string, page: PageSource): string {
+  return html.replace(/<link\b[^>]*>/gi, tag => {
+    if (!/\brel\s*=\s*["']?stylesheet\b/i.test(tag)) return tag;
+
+    const href = tag.match(/\bhref\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/i);
+    const url = (href?.[1] ?? href?.[2] ?? href?.[3] ?? '').split(/[?#]/)[0];
+    if (!url || /^[a-z]+:/i.test(url) || url.startsWith('//')) return tag;
+
+    const path = url.startsWith('/') ? join(page.root, url) : resolve(dirname(page.path), url);
+    return existsSync(path) ? `<style data-href="${url}">${readFileSync(path, 'utf-8')}</style>` : tag;
+  });
+}
+
+
+
+
+export async function withDomGlobals<T>(window: Window, callback: () => Promise<T>): Promise<T> {
+  const scope = globalThis as Record<string, unknown>;
+  const previous = DOM_GLOBALS.map(name => Object.getOwnPropertyDescriptor(scope, name));
+
+  DOM_GLOBALS.forEach(name => {
+    const value = name === 'window' ? window : (window as unknown as Record<string, unknown>)[name];
+    if (value === undefined) return;
+    Object.defineProperty(scope, name, {
+      configurable: true,
+      writable: true,
+      value: typeof value === 'function' && /^[a-z]/.test(name) ? value.bind(window) : value
+    });
+  });
+
+  try {
+    return await callback();
+  } finally {
+    DOM_GLOBALS.forEach((name, index) => {
+      const descriptor = previous[index];
+      if (descriptor) {
+        Object.defineProperty(scope, name, descriptor);
+      } else {
+        delete scope[name];
+      }
+    });
+  }
+}
@@ -0,0 +1,155 @@
+import { existsSync, readFileSync } from 'node:fs';
+import type { AccessibilityTestResult } from '../reporting/types.js';
+import { ReportOrchestrator } from '../reporting/ReportOrchestrator.js';
+import { compareToBaseline, createBaseline, parseBaseline, type BaselineIssue } from '../reporting/baseline.js';
+import { loadConfig } from '../config/load.js';
+import { resolveConfig, toReportConfig } from '../config/resolve.js';
+import type { A11yConfig, ResolveOptions } from '../config/types.js';
+import { parseCliArgs, IMPACTS, USAGE, type CliOptions, type Impact } from './args.js';
+import { resolvePages, type PageSource } from './pages.js';
+import { loadPage, withDomGlobals } from './dom.js';
+import { auditDocument, selectRules, type AuditOptions } from './audit.js';
+
+export interface CliIO {
+  stdout: (line: string) => void;
+  stderr: (line: string) => void;
+}
+
+export interface ThresholdOptions {
+  failOn: Impact;
+  maxViolations: number;
+  baselinePath?: string;
+  updateBaseline?: boolean;
+}
+
+const DEFAULT_THEME = 'default';
+
+const consoleIO: CliIO = {
+  stdout: line => console.log(line),
+  stderr: line => console.error(line)
+};
+
+export { parseCliArgs, resolvePages, selectRules, auditDocument, USAGE };
+export type { CliOptions, PageSource, AuditOptions };
+
+
+
+
+export async function run(argv: string[], io: CliIO = consoleIO): Promise<number> {
+  let options: CliOptions;
+  try {
+    options = parseCliArgs(argv);
+  } catch (error) {
+    io.stderr(`a11y-engine: ${error instanceof Error ? error.message : error}`);
+    io.stderr(USAGE);
+    return 2;
+  }
+
+  if (options.help) {
+    io.stdout(USAGE);
+    return 0;
+  }
+
+  try {
+    const loaded = await loadConfig({ path: options.configPath });
+    if (loaded.path) io.stdout(`Using config ${loaded.path}`);
+
+    const resolveOptions: ResolveOptions = { env: options.env, overrides: options.overrides };
+    const settings = resolveConfig(loaded.config, resolveOptions);
+    const { reporting } = settings;
+    if (options.updateBaseline && !reporting.baseline) {
+      throw new Error('--update-baseline requires --baseline <file> or reporting.baseline in the config');
+    }
+
+    const pages = resolvePages(options.inputs);
+    if (pages.length === 0) {
+      io.stderr('a11y-engine: no HTML pages matched the inputs');
+      return 2;
+    }
+
+    const results = await auditPages(pages, loaded.config, resolveOptions, io);
+    const outputs = await new ReportOrchestrator().generateReports(results, {
+      ...toReportConfig(settings),
+      updateBaseline: options.updateBaseline
+    });
+
+    Object.entries(outputs.paths).forEach(([format, path]) => io.stdout(`Wrote ${format} report: ${path}`));
+
+    const failures = getThresholdFailures(results, {
+      failOn: reporting.failOn,
+      maxViolations: reporting.maxViolations,
+      baselinePath: reporting.baseline,
+      updateBaseline: options.updateBaseline
+    });
+    const scope = reporting.baseline && !options.updateBaseline ? 'new ' : '';
+    if (failures.length > reporting.maxViolations) {
+      io.stderr(`Failed: ${failures.length} ${scope}violation(s) at or above "${reporting.failOn}" (allowed: ${reporting.maxViolations})`);
+      failures.slice(0, 20).forEach(issue => io.stderr(`  ${issue.route} [${issue.theme}] ${issue.ruleId} ${issue.selector}`));
+      return 1;
+    }
+
+    io.stdout(`Passed: ${failures.length} ${scope}violation(s) at or above "${reporting.failOn}"`);
+    return 0;
+  } catch (error) {
+    io.stderr(`a11y-engine: ${error instanceof Error ? error.message : error}`);
+    return 2;
+  }
+}
+
+
+
+
+export async function auditPages(
+  pages: PageSource[],
+  config: A11yConfig = {},
+  options: ResolveOptions = {},
+  io: CliIO = consoleIO
+): Promise<AccessibilityTestResult[]> {
+  const results: AccessibilityTestResult[] = [];
+
+  for (const page of pages) {
+    const settings = resolveConfig(config, { ...options, route: page.route });
+    const rules = selectRules(settings);
+    const loaded = await loadPage(page);
+    try {
+      const document = loaded.window.document;
+      const themes = settings.themes.length
+        ? settings.themes
+        : [document.documentElement.getAttribute('data-theme') || DEFAULT_THEME];
+
+      for (const theme of themes) {
+        if (settings.themes.length) document.documentElement.setAttribute('data-theme', theme);
+
+        const started = Date.now();
+        const audit = await withDomGlobals(loaded.window, () => auditDocument(document, rules));
+        results.push({
+          theme,
+          route: page.route,
+          ...audit,
+          timestamp: new Date(),
+          duration: Date.now() - started
+        });
+
+        const count = audit.axeResults.violations.reduce((sum, violation) => sum + violation.nodes.length, 0);
+        io.stdout(`${page.route} [${theme}]: ${count} violation(s)`);
+      }
+    } finally {
+      loaded.close();
+    }
+  }
+
+  return results;
+}
+
+
+
+
+export function getThresholdFailures(results: AccessibilityTestResult[], options: ThresholdOptions): BaselineIssue[] {
+  const minimum = IMPACTS.indexOf(options.failOn);
+  const compare = options.baselinePath && !options.updateBaseline && existsSync(options.baselinePath);
+  const issues = compare
+    ? compareToBaseline(results, parseBaseline(readFileSync(options.baselinePath!, 'utf-8'))).new
+    : createBaseline(results).issues;
+
+  return issues.filter(issue => IMPACTS.indexOf(issue.impact as Impact) >= minimum);
+}
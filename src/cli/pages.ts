@@ -0,0 +1,69 @@
+import { existsSync, readdirSync, statSync } from 'node:fs';
+import { dirname, join, relative, resolve, sep } from 'node:path';
+import { globToRegExp } from '../utils/glob.js';
+
+export interface PageSource {
+  path: string;
+  /** Site route the page is served at, derived from its path in the build directory. */
+  route: string;
+  /** Directory that root-relative URLs such as `/_app/app.css` resolve against. */
+  root: string;
+}
+
+const GLOB_CHARS = /[*?{}]/;
+
+
+
+
+export function resolvePages(inputs: string[], cwd: string = process.cwd()): PageSource[] {
+  const pages = new Map<string, PageSource>();
+  const add = (path: string, root: string) => {
+    if (!pages.has(path)) pages.set(path, { path, root, route: toRoute(relative(root, path)) });
+  };
+
+  inputs.forEach(input => {
+    const absolute = resolve(cwd, input);
+
+    if (existsSync(absolute) && statSync(absolute).isDirectory()) {
+      listHtmlFiles(absolute).forEach(path => add(path, absolute));
+    } else if (existsSync(absolute)) {
+      add(absolute, dirname(absolute));
+    } else if (GLOB_CHARS.test(input)) {
+      const base = resolve(cwd, getGlobBase(input));
+      const pattern = globToRegExp(relative(base, absolute).split(sep).join('/'));
+      if (!existsSync(base)) return;
+      listHtmlFiles(base)
+        .filter(path => pattern.test(relative(base, path).split(sep).join('/')))
+        .forEach(path => add(path, base));
+    } else {
+      throw new Error(`No such file, directory or glob: ${input}`);
+    }
+  });
+
+  return Array.from(pages.values()).sort((a, b) => a.route.localeCompare(b.route));
+}
+
+
+
+
+export function toRoute(path: string): string {
+  const route = path
+    .split(sep).join('/')
+    .replace(/(^|\/)index\.html?$/i, '')
+    .replace(/\.html?$/i, '');
+  return `/${route}`;
+}
+
+function listHtmlFiles(directory: string): string[] {
+  return readdirSync(directory, { withFileTypes: true }).flatMap(entry => {
+    const path = join(directory, entry.name);
+    if (entry.isDirectory()) return entry.name === 'node_modules' ? [] : listHtmlFiles(path);
+    return /\.html?$/i.test(entry.name) ? [path] : [];
+  });
+}
+
+function getGlobBase(pattern: string): string {
+  const segments = pattern.split(/[\\/]/);
+  const index = segments.findIndex(segment => GLOB_CHARS.test(segment));
+  return segments.slice(0, index).join('/') || '.';
+}
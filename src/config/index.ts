@@ -0,0 +1,15 @@
+export * from './types.js';
+export { validateConfig, assertValidConfig, IMPACTS, REPORT_FORMATS, WCAG_LEVELS, WCAG_VERSIONS } from './schema.js';
+export {
+  DEFAULT_CONFIG,
+  defineConfig,
+  resolveConfig,
+  mergeSettings,
+  matchesRoute,
+  toEngineConfig,
+  toEvaluationConfig,
+  toMonitorOptions,
+  toReportConfig,
+  toPreprocessorOptions
+} from './resolve.js';
+export { loadConfig, findConfigFile, CONFIG_FILES, type LoadConfigOptions, type LoadedConfig } from './load.js';
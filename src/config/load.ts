@@ -0,0 +1,74 @@
+import { existsSync, readFileSync } from 'node:fs';
+import { extname, join, resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { assertValidConfig } from './schema.js';
+import type { A11yConfig } from './types.js';
+
+export interface LoadConfigOptions {
+  cwd?: string;
+  /** Explicit config file; when unset the first of `CONFIG_FILES` found in `cwd` is used. */
+  path?: string;
+}
+
+export interface LoadedConfig {
+  /** File the config was read from, or undefined when no config file exists. */
+  path?: string;
+  config: A11yConfig;
+}
+
+export const CONFIG_FILES = [
+  'a11y.config.ts',
+  'a11y.config.mts',
+  'a11y.config.js',
+  'a11y.config.mjs',
+  'a11y.config.json'
+];
+
+
+
+
+export function findConfigFile(cwd: string = process.cwd()): string | undefined {
+  return CONFIG_FILES.map(name => join(cwd, name)).find(path => existsSync(path));
+}
+
+
+
+
+export async function loadConfig(options: LoadConfigOptions = {}): Promise<LoadedConfig> {
+  const cwd = options.cwd ?? process.cwd();
+  const path = options.path ? resolve(cwd, options.path) : findConfigFile(cwd);
+
+  if (!path) return { config: {} };
+  if (!existsSync(path)) throw new Error(`Config file not found: ${path}`);
+
+  const config = extname(path) === '.json' ? readJsonConfig(path) : await importConfig(path);
+  assertValidConfig(config, path);
+  return { path, config };
+}
+
+function readJsonConfig(path: string): unknown {
+  try {
+    return JSON.parse(readFileSync(path, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Failed to parse ${path}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+async function importConfig(path: string): Promise<unknown> {
+  let module: { default?: unknown; config?: unknown };
+  try {
+    module = await import(pathToFileURL(path).href);
+  } catch (error) {
+    const code = (error as { code?: string }).code;
+    if (/\.m?ts$/.test(path) && code === 'ERR_UNKNOWN_FILE_EXTENSION') {
+      throw new Error(`Loading ${path} needs Node.js with TypeScript type stripping (22.6+) or a loader such as tsx`);
+    }
+    throw new Error(`Failed to load ${path}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const config = module.default ?? module.config;
+  if (config === undefined) {
+    throw new Error(`${path} must default-export its config, e.g. export default defineConfig({ ... })`);
+  }
+  return config;
+}
@@ -0,0 +1,219 @@
+import type { AccessibilityConfig, EvaluationConfig, SamplingConfig } from '../types.js';
+import type { MonitorOptions } from '../validators/RuntimeContrastMonitor.js';
+import type { ReportConfig } from '../reporting/ReportOrchestrator.js';
+import type { PreprocessorOptions } from '../preprocessor.js';
+import { resolvePlugins } from '../plugins/index.js';
+import { globToRegExp } from '../utils/glob.js';
+import { assertValidConfig } from './schema.js';
+import type { A11yConfig, A11ySettings, ResolvedA11yConfig, ResolveOptions } from './types.js';
+
+export const DEFAULT_CONFIG: ResolvedA11yConfig = {
+  enabled: true,
+  wcag: '2.2',
+  level: 'AA',
+  disabledRules: [],
+  customRules: [],
+  themes: [],
+  sampling: {
+    strategy: 'viewport',
+    interval: 5000,
+    sampleSize: 100,
+    viewportOnly: true
+  },
+  streaming: {
+    enabled: false,
+    batchSize: 50,
+    batchInterval: 100,
+    compression: 'none',
+    deltas: false
+  },
+  performance: {
+    useWorkers: false,
+    maxMemoryMB: 50,
+    evaluationInterval: 5000
+  },
+  privacy: {
+    redactText: false,
+    excludeAttributes: []
+  },
+  contrast: {
+    model: 'wcag2',
+    autoFix: false,
+    throttleMs: 100
+  },
+  reporting: {
+    outputDir: 'a11y-reports',
+    formats: ['json'],
+    failOn: 'serious',
+    maxViolations: 0
+  },
+  preprocessor: {
+    enabled: true,
+    cssPath: 'src/app.css'
+  }
+};
+
+const ENGINE_SAMPLING_STRATEGIES: SamplingConfig['strategy'][] = ['fixed', 'adaptive', 'event-driven', 'hybrid'];
+
+
+
+
+export function defineConfig(config: A11yConfig): A11yConfig {
+  return config;
+}
+
+
+
+
+export function resolveConfig(config: A11yConfig = {}, options: ResolveOptions = {}): ResolvedA11yConfig {
+  assertValidConfig(config);
+
+  const { routes = [], env = {}, ...base } = config;
+  const environment = options.env ?? getEnvironment();
+  const layers: Array<A11ySettings | undefined> = [
+    base,
+    environment ? env[environment] : undefined,
+    options.overrides
+  ];
+
+  if (options.route !== undefined) {
+    routes
+      .filter(override => matchesRoute(override.match, options.route!))
+      .forEach(({ match: _match, ...override }) => layers.push(override));
+  }
+
+  return layers.reduce<ResolvedA11yConfig>((resolved, layer) => mergeSettings(resolved, layer), DEFAULT_CONFIG);
+}
+
+
+
+
+export function mergeSettings<T extends object>(base: T, override?: A11ySettings): T {
+  if (!override) return base;
+
+  const merged = { ...base } as Record<string, unknown>;
+  Object.entries(override).forEach(([key, value]) => {
+    if (value === undefined) return;
+    const current = merged[key];
+    merged[key] = isPlainObject(current) && isPlainObject(value) ? mergeSettings(current, value) : value;
+  });
+  return merged as T;
+}
+
+
+
+
+export function matchesRoute(match: string | string[], route: string): boolean {
+  const trim = (value: string) => value.replace(/(.)\/$/, '$1');
+  const path = trim(route.split(/[?#]/)[0]);
+  return (Array.isArray(match) ? match : [match]).some(pattern => globToRegExp(trim(pattern)).test(path));
+}
+
+
+
+
+export function toEngineConfig(config: ResolvedA11yConfig): AccessibilityConfig {
+  const { sampling, streaming, performance, privacy } = config;
+  const strategy = sampling.strategy as SamplingConfig['strategy'];
+
+  return {
+    endpoint: streaming.endpoint ?? '',
+    authToken: streaming.authToken,
+    evaluation: {
+      wcag: config.wcag,
+      level: config.level,
+      customRules: config.customRules,
+      plugins: config.plugins ? resolvePlugins(config.plugins) : undefined,
+      rules: config.rules,
+      disabledRules: config.disabledRules
+    },
+    sampling: {
+      strategy: ENGINE_SAMPLING_STRATEGIES.includes(strategy) ? strategy : 'fixed',
+      interval: sampling.interval,
+      regions: sampling.regions,
+      exclude: sampling.exclude,
+      maxElements: sampling.maxElements
+    },
+    performance: {
+      useWorkers: performance.useWorkers,
+      maxWorkers: performance.maxWorkers,
+      batchSize: streaming.batchSize,
+      compression: streaming.compression,
+      streamDeltas: streaming.deltas
+    },
+    privacy: {
+      redactText: privacy.redactText,
+      excludeAttributes: privacy.excludeAttributes
+    }
+  };
+}
+
+
+
+
+export function toEvaluationConfig(config: ResolvedA11yConfig): EvaluationConfig {
+  const { sampling, streaming, performance } = config;
+
+  return {
+    enabled: config.enabled,
+    samplingStrategy: {
+      type: sampling.strategy,
+      interval: sampling.interval,
+      sampleSize: sampling.sampleSize,
+      regions: sampling.regions,
+      exclude: sampling.exclude
+    },
+    streamingEnabled: streaming.enabled,
+    streamingEndpoint: streaming.endpoint,
+    batchSize: streaming.batchSize,
+    batchInterval: streaming.batchInterval,
+    maxMemoryMB: performance.maxMemoryMB,
+    evaluationInterval: performance.evaluationInterval,
+    viewportOnly: sampling.viewportOnly,
+    streamDeltas: streaming.deltas
+  };
+}
+
+
+
+
+export function toMonitorOptions(config: ResolvedA11yConfig): MonitorOptions {
+  return {
+    wcagLevel: config.level === 'AAA' ? 'AAA' : 'AA',
+    autoFix: config.contrast.autoFix,
+    throttleMs: config.contrast.throttleMs,
+    contrastModel: config.contrast.model
+  };
+}
+
+
+
+
+export function toReportConfig(config: ResolvedA11yConfig): ReportConfig {
+  return {
+    outputDir: config.reporting.outputDir,
+    formats: config.reporting.formats,
+    baselinePath: config.reporting.baseline,
+    ...(config.themes.length ? { catalog: { themes: config.themes } } : {})
+  };
+}
+
+
+
+
+export function toPreprocessorOptions(config: ResolvedA11yConfig): PreprocessorOptions {
+  return {
+    enabled: config.enabled && config.preprocessor.enabled,
+    cssPath: config.preprocessor.cssPath,
+    level: config.level === 'AAA' ? 'AAA' : 'AA'
+  };
+}
+
+function getEnvironment(): string | undefined {
+  if (typeof process === 'undefined') return undefined;
+  return process.env.A11Y_ENV || process.env.NODE_ENV || undefined;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
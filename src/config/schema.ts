@@ -0,0 +1,231 @@
+import type { A11yConfig, ConfigIssue, Impact, ReportFormat } from './types.js';
+
+type Schema =
+  | { type: 'string'; values?: readonly string[] }
+  | { type: 'number'; min?: number; integer?: boolean }
+  | { type: 'boolean' }
+  | { type: 'array'; items: Schema }
+  | { type: 'object'; properties: Record<string, Schema>; required?: string[] }
+  | { type: 'record'; values: Schema }
+  | { type: 'oneOf'; schemas: Schema[]; description: string }
+  | { type: 'custom'; description: string; test: (value: unknown) => boolean };
+
+export const WCAG_VERSIONS = ['2.1', '2.2'] as const;
+export const WCAG_LEVELS = ['A', 'AA', 'AAA'] as const;
+export const IMPACTS: Impact[] = ['minor', 'moderate', 'serious', 'critical'];
+export const REPORT_FORMATS: ReportFormat[] = ['html', 'json', 'markdown', 'sarif', 'junit'];
+
+const SAMPLING_STRATEGIES = ['viewport', 'random', 'priority', 'adaptive', 'fixed', 'event-driven', 'hybrid'];
+const COMPRESSIONS = ['none', 'gzip', 'deflate'];
+const CONTRAST_MODELS = ['wcag2', 'apca', 'both'];
+
+const string: Schema = { type: 'string' };
+const boolean: Schema = { type: 'boolean' };
+const count: Schema = { type: 'number', min: 0, integer: true };
+const duration: Schema = { type: 'number', min: 0 };
+const strings: Schema = { type: 'array', items: string };
+
+const hasId = (value: unknown): boolean =>
+  typeof value === 'object' && value !== null && typeof (value as { id?: unknown }).id === 'string';
+
+const SETTINGS: Record<string, Schema> = {
+  enabled: boolean,
+  wcag: { type: 'string', values: WCAG_VERSIONS },
+  level: { type: 'string', values: WCAG_LEVELS },
+  plugins: {
+    type: 'array',
+    items: {
+      type: 'oneOf',
+      description: 'a plugin id or a plugin object with an id',
+      schemas: [string, { type: 'custom', description: 'plugin object', test: hasId }]
+    }
+  },
+  rules: strings,
+  disabledRules: strings,
+  customRules: { type: 'array', items: { type: 'custom', description: 'a rule object with an id', test: hasId } },
+  themes: strings,
+  sampling: {
+    type: 'object',
+    properties: {
+      strategy: { type: 'string', values: SAMPLING_STRATEGIES },
+      interval: duration,
+      sampleSize: { type: 'number', min: 1, integer: true },
+      viewportOnly: boolean,
+      regions: strings,
+      exclude: strings,
+      maxElements: { type: 'number', min: 1, integer: true }
+    }
+  },
+  streaming: {
+    type: 'object',
+    properties: {
+      enabled: boolean,
+      endpoint: string,
+      authToken: string,
+      batchSize: { type: 'number', min: 1, integer: true },
+      batchInterval: duration,
+      compression: { type: 'string', values: COMPRESSIONS },
+      deltas: boolean
+    }
+  },
+  performance: {
+    type: 'object',
+    properties: {
+      useWorkers: boolean,
+      maxWorkers: { type: 'number', min: 1, integer: true },
+      maxMemoryMB: { type: 'number', min: 1 },
+      evaluationInterval: duration
+    }
+  },
+  privacy: {
+    type: 'object',
+    properties: {
+      redactText: boolean,
+      excludeAttributes: strings
+    }
+  },
+  contrast: {
+    type: 'object',
+    properties: {
+      model: { type: 'string', values: CONTRAST_MODELS },
+      autoFix: boolean,
+      throttleMs: duration
+    }
+  },
+  reporting: {
+    type: 'object',
+    properties: {
+      outputDir: string,
+      formats: { type: 'array', items: { type: 'string', values: REPORT_FORMATS } },
+      baseline: string,
+      failOn: { type: 'string', values: IMPACTS },
+      maxViolations: count
+    }
+  },
+  preprocessor: {
+    type: 'object',
+    properties: {
+      enabled: boolean,
+      cssPath: string
+    }
+  }
+};
+
+const CONFIG_SCHEMA: Schema = {
+  type: 'object',
+  properties: {
+    ...SETTINGS,
+    routes: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['match'],
+        properties: {
+          ...SETTINGS,
+          match: { type: 'oneOf', description: 'a route glob or an array of route globs', schemas: [string, strings] }
+        }
+      }
+    },
+    env: { type: 'record', values: { type: 'object', properties: SETTINGS } }
+  }
+};
+
+
+
+
+export function validateConfig(value: unknown): ConfigIssue[] {
+  const issues: ConfigIssue[] = [];
+  validate(value, CONFIG_SCHEMA, '', issues);
+  return issues;
+}
+
+
+
+
+export function assertValidConfig(value: unknown, source?: string): asserts value is A11yConfig {
+  const issues = validateConfig(value);
+  if (issues.length === 0) return;
+
+  const lines = issues.map(issue => `  ${issue.path || '(root)'}: ${issue.message}`);
+  throw new Error(`Invalid a11y config${source ? ` in ${source}` : ''}:\n${lines.join('\n')}`);
+}
+
+function validate(value: unknown, schema: Schema, path: string, issues: ConfigIssue[]): void {
+  const fail = (message: string) => issues.push({ path, message });
+
+  switch (schema.type) {
+    case 'string':
+      if (typeof value !== 'string') return void fail(`expected a string, got ${describe(value)}`);
+      if (schema.values && !schema.values.includes(value)) {
+        fail(`must be one of ${schema.values.join(', ')}, got "${value}"`);
+      }
+      return;
+
+    case 'number':
+      if (typeof value !== 'number' || Number.isNaN(value)) return void fail(`expected a number, got ${describe(value)}`);
+      if (schema.integer && !Number.isInteger(value)) return void fail(`must be an integer, got ${value}`);
+      if (schema.min !== undefined && value < schema.min) fail(`must be at least ${schema.min}, got ${value}`);
+      return;
+
+    case 'boolean':
+      if (typeof value !== 'boolean') fail(`expected a boolean, got ${describe(value)}`);
+      return;
+
+    case 'array':
+      if (!Array.isArray(value)) return void fail(`expected an array, got ${describe(value)}`);
+      value.forEach((item, index) => validate(item, schema.items, `${path}[${index}]`, issues));
+      return;
+
+    case 'object': {
+      if (!isPlainObject(value)) return void fail(`expected an object, got ${describe(value)}`);
+      schema.required?.filter(key => value[key] === undefined).forEach(key => {
+        issues.push({ path: join(path, key), message: 'is required' });
+      });
+      Object.entries(value).forEach(([key, item]) => {
+        const property = schema.properties[key];
+        if (!property) {
+          issues.push({ path: join(path, key), message: `unknown option "${key}"` });
+        } else if (item !== undefined) {
+          validate(item, property, join(path, key), issues);
+        }
+      });
+      return;
+    }
+
+    case 'record':
+      if (!isPlainObject(value)) return void fail(`expected an object, got ${describe(value)}`);
+      Object.entries(value).forEach(([key, item]) => validate(item, schema.values, join(path, key), issues));
+      return;
+
+    case 'oneOf':
+      if (!schema.schemas.some(candidate => {
+        const nested: ConfigIssue[] = [];
+        validate(value, candidate, path, nested);
+        return nested.length === 0;
+      })) {
+        fail(`expected ${schema.description}, got ${describe(value)}`);
+      }
+      return;
+
+    case 'custom':
+      if (!schema.test(value)) fail(`expected ${schema.description}, got ${describe(value)}`);
+      return;
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function join(path: string, key: string): string {
+  if (/^[A-Za-z_$][\w$]*$/.test(key)) return path ? `${path}.${key}` : key;
+  return `${path}[${JSON.stringify(key)}]`;
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  if (typeof value === 'string') return `"${value}"`;
+  if (typeof value === 'object') return 'an object';
+  return typeof value === 'number' || typeof value === 'boolean' ? String(value) : typeof value;
+}
@@ -0,0 +1,128 @@
+import type { CustomRule, EvaluationPlugin, EvaluationRule, SamplingStrategy } from '../types.js';
+import type { ContrastModel } from '../utils/color/apca.js';
+
+export type ConfigWcagVersion = '2.1' | '2.2';
+export type ConfigWcagLevel = 'A' | 'AA' | 'AAA';
+export type Impact = 'minor' | 'moderate' | 'serious' | 'critical';
+export type ReportFormat = 'html' | 'json' | 'markdown' | 'sarif' | 'junit';
+
+export interface SamplingSettings {
+  strategy: SamplingStrategy['type'];
+  /** Milliseconds between samples. */
+  interval: number;
+  sampleSize: number;
+  viewportOnly: boolean;
+  regions?: string[];
+  exclude?: string[];
+  maxElements?: number;
+}
+
+export interface StreamingSettings {
+  enabled: boolean;
+  endpoint?: string;
+  authToken?: string;
+  batchSize: number;
+  /** Milliseconds a batch may wait before it is flushed. */
+  batchInterval: number;
+  compression: 'none' | 'gzip' | 'deflate';
+  /** Stream issue deltas instead of full issue lists. */
+  deltas: boolean;
+}
+
+export interface PerformanceSettings {
+  useWorkers: boolean;
+  maxWorkers?: number;
+  maxMemoryMB: number;
+  evaluationInterval: number;
+}
+
+export interface PrivacySettings {
+  redactText: boolean;
+  excludeAttributes: string[];
+}
+
+export interface ContrastSettings {
+  model: ContrastModel;
+  /** Let the runtime monitor apply the first proposed foreground fix. */
+  autoFix: boolean;
+  throttleMs: number;
+}
+
+export interface ReportingSettings {
+  outputDir: string;
+  formats: ReportFormat[];
+  /** Baseline of accepted issues; CI only fails on issues missing from it. */
+  baseline?: string;
+  /** Lowest impact that counts towards the failure threshold. */
+  failOn: Impact;
+  maxViolations: number;
+}
+
+export interface PreprocessorSettings {
+  enabled: boolean;
+  /** Stylesheet, relative to the project root, that theme colour tokens are read from. */
+  cssPath: string;
+}
+
+export interface ResolvedA11yConfig {
+  enabled: boolean;
+  wcag: ConfigWcagVersion;
+  level: ConfigWcagLevel;
+  /** Bundled plugin ids or plugin objects; every bundled plugin runs when unset. */
+  plugins?: Array<string | EvaluationPlugin>;
+  /** Rule ids to run; when set, WCAG level filtering is skipped for these rules. */
+  rules?: string[];
+  disabledRules: string[];
+  customRules: Array<CustomRule | EvaluationRule>;
+  /** Values applied to `data-theme` when auditing; empty keeps the page's own theme. */
+  themes: string[];
+  sampling: SamplingSettings;
+  streaming: StreamingSettings;
+  performance: PerformanceSettings;
+  privacy: PrivacySettings;
+  contrast: ContrastSettings;
+  reporting: ReportingSettings;
+  preprocessor: PreprocessorSettings;
+}
+
+export interface A11ySettings {
+  enabled?: boolean;
+  wcag?: ConfigWcagVersion;
+  level?: ConfigWcagLevel;
+  plugins?: Array<string | EvaluationPlugin>;
+  rules?: string[];
+  disabledRules?: string[];
+  customRules?: Array<CustomRule | EvaluationRule>;
+  themes?: string[];
+  sampling?: Partial<SamplingSettings>;
+  streaming?: Partial<StreamingSettings>;
+  performance?: Partial<PerformanceSettings>;
+  privacy?: Partial<PrivacySettings>;
+  contrast?: Partial<ContrastSettings>;
+  reporting?: Partial<ReportingSettings>;
+  preprocessor?: Partial<PreprocessorSettings>;
+}
+
+export interface RouteOverride extends A11ySettings {
+  /** Route globs such as `/admin/**`; later matching entries win. */
+  match: string | string[];
+}
+
+export interface A11yConfig extends A11ySettings {
+  routes?: RouteOverride[];
+  /** Overrides keyed by environment name, selected by `A11Y_ENV` or `NODE_ENV`. */
+  env?: Record<string, A11ySettings>;
+}
+
+export interface ConfigIssue {
+  /** Location of the offending value, e.g. `routes[1].level`. */
+  path: string;
+  message: string;
+}
+
+export interface ResolveOptions {
+  route?: string;
+  env?: string;
+  /** Applied after the environment overrides and before route overrides, e.g. CLI flags. */
+  overrides?: A11ySettings;
+}
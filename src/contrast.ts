@@ -3,6 +3,8 @@
 
 
 
+import { getApcaContrast } from './utils/color/apca.js';
+
 export interface RGB {
   r: number; 
   g: number; 
@@ -24,6 +26,8 @@ export interface ContrastResult {
   passesLargeTextAA: boolean;
   passesLargeTextAAA: boolean;
   passesUIComponent: boolean;
+  /** APCA lightness contrast (Lc); negative for light text on a dark background. */
+  apca: number;
 }
 
 
@@ -199,7 +203,8 @@ export function checkContrast(foreground: RGB, background: RGB): ContrastResult
     passesAAA: ratio >= 7,
     passesLargeTextAA: ratio >= 3,
     passesLargeTextAAA: ratio >= 4.5,
-    passesUIComponent: ratio >= 3
+    passesUIComponent: ratio >= 3,
+    apca: getApcaContrast(foreground, background)
   };
 }
 
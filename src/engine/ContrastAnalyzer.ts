@@ -1,14 +1,30 @@
 import type { ContrastEvaluation } from '../types';
+import { getUniqueSelector } from '../utils/selector';
+import { resolveBackground } from '../utils/color/background';
+import {
+  type ContrastModel,
+  getApcaContrast,
+  getApcaMinimumLc,
+  evaluateContrastModels,
+  describeContrastFailure,
+  describeContrastDisagreement
+} from '../utils/color/apca';
+
+export interface ContrastAnalyzerOptions {
+  contrastModel?: ContrastModel;
+}
 
 export class ContrastAnalyzer {
   private cache = new Map<string, number>();
   private canvas: HTMLCanvasElement | null = null;
   private ctx: CanvasRenderingContext2D | null = null;
+  private contrastModel: ContrastModel;
   
   
   private readonly MIN_VISIBLE_CONTRAST = 1.1;
   
-  constructor() {
+  constructor(options: ContrastAnalyzerOptions = {}) {
+    this.contrastModel = options.contrastModel ?? 'wcag2';
     if (typeof document !== 'undefined') {
       this.canvas = document.createElement('canvas');
       this.ctx = this.canvas.getContext('2d', { willReadFrequently: true });
@@ -22,6 +38,10 @@ export class ContrastAnalyzer {
     if (!element) return null;
     const computed = window.getComputedStyle(element);
     const color = computed.color;
+    if (color && resolveBackground(element).reason === 'background-image') {
+      return this.createIncompleteEvaluation(element, color, computed);
+    }
+
     const backgroundColor = this.getEffectiveBackground(element);
     
     if (!color || !backgroundColor) return null;
@@ -32,15 +52,19 @@ export class ContrastAnalyzer {
     
     const cacheKey = `${color}-${backgroundColor}`;
     let ratio = this.cache.get(cacheKey);
+    const apcaKey = `apca:${cacheKey}`;
+    let apca = this.cache.get(apcaKey);
     
-    if (!ratio) {
+    if (!ratio || apca === undefined) {
       const fg = this.parseColor(color);
       const bg = this.parseColor(backgroundColor);
       
       if (!fg || !bg) return null;
       
       ratio = this.calculateContrastRatio(fg, bg);
+      apca = getApcaContrast(fg, bg);
       this.cache.set(cacheKey, ratio);
+      this.cache.set(apcaKey, apca);
     }
     
     
@@ -51,6 +75,13 @@ export class ContrastAnalyzer {
     const fontWeight = computed.fontWeight;
     const largeText = this.isLargeText(fontSize, fontWeight);
     const requiredRatio = largeText ? 3 : 4.5; 
+    const models = evaluateContrastModels(
+      this.contrastModel,
+      ratio,
+      requiredRatio,
+      apca,
+      getApcaMinimumLc(fontSize, fontWeight)
+    );
     
     let severity: 'error' | 'warning' | 'info';
     let message: string;
@@ -62,16 +93,22 @@ export class ContrastAnalyzer {
     } else if (isNearIdentical || isInvisible) {
       severity = 'error';
       message = `Critical: Text is nearly invisible with contrast ratio ${ratio.toFixed(2)}:1 (${color} on ${backgroundColor})`;
-    } else if (ratio < requiredRatio) {
+    } else if (!models.passes) {
       severity = 'error';
-      message = `Contrast ratio ${ratio.toFixed(2)}:1 fails WCAG AA (requires ${requiredRatio}:1)`;
+      message = this.contrastModel === 'wcag2'
+        ? `Contrast ratio ${ratio.toFixed(2)}:1 fails WCAG AA (requires ${requiredRatio}:1)`
+        : `Contrast fails: ${describeContrastFailure(models)}`;
     } else if (hasProblematicVariant && ratio < 3.0) {
       severity = 'warning';
       message = `Warning: Skeleton variant may cause contrast issues in some themes - ${ratio.toFixed(2)}:1`;
     } else {
       severity = 'info';
-      message = `Contrast ratio ${ratio.toFixed(2)}:1 passes WCAG AA`;
+      message = this.contrastModel === 'apca'
+        ? `APCA Lc ${Math.abs(apca).toFixed(1)} passes (requires Lc ${models.requiredLc})`
+        : `Contrast ratio ${ratio.toFixed(2)}:1 passes WCAG AA`;
     }
+    
+    const disagreement = this.contrastModel === 'both' ? describeContrastDisagreement(models) : null;
 
     
     const themeInfo = this.extractThemeInfo(element);
@@ -81,6 +118,7 @@ export class ContrastAnalyzer {
       timestamp: Date.now(),
       type: 'contrast' as const,
       severity,
+      outcome: severity === 'info' ? 'passed' : 'failed',
       wcagLevel: 'AA' as const,
       wcagCriteria: largeText ? '1.4.3' : '1.4.3',
       selector: this.getSelector(element),
@@ -101,6 +139,10 @@ export class ContrastAnalyzer {
         themeInfo,
         isNearIdentical,
         isInvisible,
+        contrastModel: this.contrastModel,
+        apca,
+        requiredLc: models.requiredLc,
+        modelDisagreement: disagreement ?? undefined,
         computedStyles: {
           color,
           backgroundColor,
@@ -346,6 +388,41 @@ export class ContrastAnalyzer {
   
 
 
+  private createIncompleteEvaluation(
+    element: Element,
+    color: string,
+    computed: CSSStyleDeclaration
+  ): ContrastEvaluation {
+    const fontSize = parseFloat(computed.fontSize);
+    const fontWeight = computed.fontWeight;
+    const largeText = this.isLargeText(fontSize, fontWeight);
+
+    return {
+      id: this.generateId(),
+      timestamp: Date.now(),
+      type: 'contrast',
+      severity: 'warning',
+      outcome: 'incomplete',
+      wcagLevel: 'AA',
+      wcagCriteria: '1.4.3',
+      selector: this.getSelector(element),
+      message: 'Unable to determine contrast: text is drawn over a background image or gradient',
+      metadata: {
+        foreground: color,
+        background: 'unknown',
+        ratio: Number.NaN,
+        largeText,
+        requiredRatio: largeText ? 3 : 4.5,
+        textElement: element.textContent?.trim().substring(0, 50) || '',
+        fontSize,
+        fontWeight,
+        contrastMode: 'unresolved',
+        contrastModel: this.contrastModel,
+        needsReview: true
+      }
+    };
+  }
+
   private generateId(): string {
     return `contrast-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
   }
@@ -354,31 +431,7 @@ export class ContrastAnalyzer {
 
 
   private getSelector(element: Element): string {
-    if (element.id) return `#${element.id}`;
-    
-    const path: string[] = [];
-    let current: Element | null = element;
-    
-    while (current && current.tagName !== 'BODY') {
-      let selector = current.tagName.toLowerCase();
-      
-      if (current.className) {
-        const classes = Array.from(current.classList)
-          .filter(c => !c.startsWith('svelte-'))
-          .slice(0, 2);
-        if (classes.length > 0) {
-          selector += `.${classes.join('.')}`;
-        }
-      }
-      
-      path.unshift(selector);
-      current = current.parentElement;
-      
-      
-      if (path.length > 4) break;
-    }
-    
-    return path.join(' > ');
+    return getUniqueSelector(element);
   }
   
   
@@ -5,7 +5,12 @@
 import type { AccessibilityConfig, EvaluationContext, EvaluationOptions, ViewportInfo } from '../types';
 
 export class ContextBuilder {
-  async build(config: AccessibilityConfig, _elements?: Element[]): Promise<EvaluationContext> {
+  async build(
+    config: AccessibilityConfig,
+    _elements?: Element[],
+    evaluationOptions: EvaluationOptions = {},
+    signal: AbortSignal = new AbortController().signal
+  ): Promise<EvaluationContext> {
     const viewport: ViewportInfo = {
       width: typeof window !== 'undefined' ? window.innerWidth : 1024,
       height: typeof window !== 'undefined' ? window.innerHeight : 768,
@@ -15,12 +20,13 @@ export class ContextBuilder {
 
     const options: EvaluationOptions = {
       timeout: 30000,
-      ruleFilter: []
+      ...evaluationOptions
     };
 
     return {
       options,
-      signal: new AbortController().signal,
+      signal,
+      ruleFilter: options.ruleFilter,
       viewport,
       timestamp: Date.now(),
       document: typeof document !== 'undefined' ? document : {} as Document,
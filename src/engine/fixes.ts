@@ -0,0 +1,389 @@
+import type { FixPatch, FixProposal } from '../types';
+import type { OKLCH, RGB } from '../utils/color/types';
+import { getContrastRatio } from '../utils/color/contrast';
+import { oklchToRgb, rgbToHex, rgbToOklch } from '../utils/color/conversion';
+import { parseColor } from '../utils/color/parser';
+import { getUniqueSelector } from '../utils/selector';
+import {
+  ARIA_ATTRIBUTES,
+  ARIA_ROLES,
+  computeAccessibleName,
+  getRole,
+  getRoleDefinition,
+  isValidAriaAttribute,
+  isValidRole,
+  validateAriaValue
+} from '../aria';
+
+export interface ContrastFix {
+  color: RGB;
+  oklch: OKLCH;
+  ratio: number;
+  /** Change in OKLCH lightness (0–1) from the original color. */
+  lightnessChange: number;
+}
+
+export interface ContrastColors {
+  foreground: string | RGB;
+  background: string | RGB;
+  requiredRatio: number;
+}
+
+export type ContrastFixTarget = 'foreground' | 'background';
+
+export interface FixOptions {
+  selector?: string;
+}
+
+interface FixableViolation {
+  wcagCriteria?: string | string[];
+  details?: Record<string, any>;
+  metadata?: Record<string, any>;
+}
+
+const SEARCH_STEPS = 24;
+const MAX_TYPO_DISTANCE = 2;
+const NAME_CRITERIA = ['1.3.1', '2.4.4', '3.3.2', '4.1.2'];
+const BOOLEAN_VALUES: Record<string, string> = {
+  yes: 'true', on: 'true', '1': 'true',
+  no: 'false', off: 'false', '0': 'false'
+};
+
+
+
+
+export function findContrastFix(color: RGB, against: RGB, requiredRatio: number): ContrastFix | null {
+  const start = rgbToOklch(color);
+  const candidates = [1, 0]
+    .map(bound => searchLightness(start, against, requiredRatio, bound))
+    .filter((fix): fix is ContrastFix => fix !== null);
+
+  if (candidates.length === 0) return null;
+  return candidates.reduce((best, fix) => fix.lightnessChange < best.lightnessChange ? fix : best);
+}
+
+function searchLightness(start: OKLCH, against: RGB, requiredRatio: number, bound: number): ContrastFix | null {
+  const at = (l: number) => oklchToRgb(l, start.c, start.h);
+  if (getContrastRatio(at(bound), against) < requiredRatio) return null;
+
+  let failing = start.l;
+  let passing = bound;
+  for (let i = 0; i < SEARCH_STEPS; i++) {
+    const mid = (failing + passing) / 2;
+    if (getContrastRatio(at(mid), against) >= requiredRatio) {
+      passing = mid;
+    } else {
+      failing = mid;
+    }
+  }
+
+  const color = at(passing);
+  return {
+    color,
+    oklch: { l: passing, c: start.c, h: start.h },
+    ratio: getContrastRatio(color, against),
+    lightnessChange: Math.abs(passing - start.l)
+  };
+}
+
+export function formatOklch(color: OKLCH): string {
+  return `oklch(${(color.l * 100).toFixed(1)}% ${color.c.toFixed(3)} ${color.h.toFixed(1)})`;
+}
+
+
+
+
+export function proposeContrastFixes(
+  selector: string,
+  colors: ContrastColors,
+  targets: ContrastFixTarget[] = ['foreground', 'background']
+): FixProposal[] {
+  const foreground = typeof colors.foreground === 'string' ? parseColor(colors.foreground) : colors.foreground;
+  const background = typeof colors.background === 'string' ? parseColor(colors.background) : colors.background;
+  if (!foreground || !background) return [];
+
+  const fixes: FixProposal[] = [];
+
+  targets.forEach(target => {
+    const [color, against] = target === 'foreground' ? [foreground, background] : [background, foreground];
+    const fix = findContrastFix(color, against, colors.requiredRatio);
+    if (!fix) return;
+
+    const value = rgbToHex(fix.color);
+    const property = target === 'foreground' ? 'color' : 'background-color';
+    fixes.push({
+      id: `contrast-${target}`,
+      description: `Change ${property} to ${value} (${formatOklch(fix.oklch)}) for ${fix.ratio.toFixed(2)}:1 contrast`,
+      confidence: target === 'foreground' ? 0.8 : 0.6,
+      patches: [{ type: 'style', selector, property, value }],
+      details: {
+        previous: rgbToHex(color),
+        oklch: formatOklch(fix.oklch),
+        ratio: fix.ratio,
+        requiredRatio: colors.requiredRatio,
+        lightnessChange: fix.lightnessChange
+      }
+    });
+  });
+
+  return fixes;
+}
+
+
+
+
+export function proposeFixes(element: Element, violation: FixableViolation, options: FixOptions = {}): FixProposal[] {
+  const selector = options.selector ?? getUniqueSelector(element);
+  const criteria = toList(violation?.wcagCriteria);
+  const applies = (...ids: string[]) => criteria.length === 0 || ids.some(id => criteria.includes(id));
+  const data = violation?.details ?? violation?.metadata ?? {};
+  const fixes: FixProposal[] = [];
+
+  if (data.foreground && data.background && data.requiredRatio) {
+    fixes.push(...proposeContrastFixes(selector, data as ContrastColors));
+  }
+
+  if (applies('1.1.1') && element.tagName === 'IMG' && !element.hasAttribute('alt')) {
+    fixes.push(...proposeAltFix(element, selector));
+  }
+
+  if (applies(...NAME_CRITERIA) && element.tagName !== 'IMG' && !computeAccessibleName(element)) {
+    fixes.push(...proposeNameFix(element, selector));
+  }
+
+  if (applies('4.1.2')) {
+    fixes.push(...proposeRoleFix(element, selector), ...proposeAriaAttributeFixes(element, selector));
+  }
+
+  return fixes.sort((a, b) => b.confidence - a.confidence);
+}
+
+function toList(criteria: string | string[] | undefined): string[] {
+  if (!criteria) return [];
+  return Array.isArray(criteria) ? criteria : criteria.split(/\s*,\s*/).filter(Boolean);
+}
+
+
+
+
+function proposeAltFix(element: Element, selector: string): FixProposal[] {
+  const title = element.getAttribute('title')?.trim();
+  if (title) {
+    return [attributeFix('alt-from-title', `Add alt="${title}" from the image title`, 0.7, selector, 'alt', title)];
+  }
+
+  const control = element.parentElement?.closest('a, button');
+  if (control && control.textContent?.trim()) {
+    return [attributeFix('alt-decorative', 'Add alt="" because the surrounding control already has text', 0.6, selector, 'alt', '')];
+  }
+
+  const file = humanize(fileName((element as HTMLImageElement).getAttribute('src') ?? ''));
+  if (file) {
+    return [attributeFix('alt-from-filename', `Add alt="${file}", then check it describes the image`, 0.3, selector, 'alt', file)];
+  }
+  return [];
+}
+
+function proposeNameFix(element: Element, selector: string): FixProposal[] {
+  const role = getRole(element);
+  if (!role || !getRoleDefinition(role)?.nameFrom?.includes('author')) return [];
+
+  const isControl = element.matches('input, select, textarea');
+
+  if (isControl && element.id) {
+    const label = element.previousElementSibling;
+    if (label?.tagName === 'LABEL' && !label.hasAttribute('for') && !label.querySelector('input, select, textarea')) {
+      return [{
+        id: 'label-for',
+        description: `Associate the preceding label with for="${element.id}"`,
+        confidence: 0.8,
+        patches: [{ type: 'attribute', selector: getUniqueSelector(label), name: 'for', value: element.id }]
+      }];
+    }
+  }
+
+  const hint = humanize(
+    element.getAttribute('name') ??
+    (element.id || null) ??
+    (element.tagName === 'A' ? fileName(element.getAttribute('href') ?? '') : '')
+  );
+  if (hint) {
+    return [attributeFix('name-from-hint', `Add aria-label="${hint}", then check it describes the purpose`, 0.4, selector, 'aria-label', hint)];
+  }
+  return [];
+}
+
+
+
+
+function proposeRoleFix(element: Element, selector: string): FixProposal[] {
+  const role = element.getAttribute('role');
+  if (role === null) return [];
+
+  const tokens = role.trim().toLowerCase().split(/\s+/).filter(Boolean);
+  if (tokens.some(isValidRole)) return [];
+
+  const validRoles = Object.keys(ARIA_ROLES).filter(isValidRole);
+  const suggestion = tokens
+    .map(token => closest(token, validRoles))
+    .find((match): match is { value: string; distance: number } => match !== null);
+
+  if (suggestion) {
+    return [attributeFix(
+      'role-typo',
+      `Replace role="${role}" with role="${suggestion.value}"`,
+      suggestion.distance === 1 ? 0.8 : 0.5,
+      selector,
+      'role',
+      suggestion.value
+    )];
+  }
+  return [attributeFix('role-remove', `Remove the invalid role="${role}"`, 0.4, selector, 'role', null)];
+}
+
+function proposeAriaAttributeFixes(element: Element, selector: string): FixProposal[] {
+  const fixes: FixProposal[] = [];
+
+  Array.from(element.attributes)
+    .filter(attr => attr.name.startsWith('aria-'))
+    .forEach(({ name, value }) => {
+      if (!isValidAriaAttribute(name)) {
+        const match = closest(name, Object.keys(ARIA_ATTRIBUTES));
+        if (match) {
+          fixes.push({
+            id: 'aria-attribute-typo',
+            description: `Rename ${name} to ${match.value}`,
+            confidence: match.distance === 1 ? 0.8 : 0.5,
+            patches: [
+              { type: 'attribute', selector, name, value: null },
+              { type: 'attribute', selector, name: match.value, value }
+            ]
+          });
+        }
+        return;
+      }
+
+      if (validateAriaValue(name, value)) return;
+
+      const corrected = correctAriaValue(name, value);
+      if (corrected) {
+        fixes.push(attributeFix(
+          'aria-value',
+          `Change ${name}="${value}" to ${name}="${corrected.value}"`,
+          corrected.confidence,
+          selector,
+          name,
+          corrected.value
+        ));
+      }
+    });
+
+  return fixes;
+}
+
+function correctAriaValue(name: string, value: string): { value: string; confidence: number } | null {
+  const definition = ARIA_ATTRIBUTES[name];
+  const normalized = value.trim().toLowerCase();
+
+  if (validateAriaValue(name, normalized)) return { value: normalized, confidence: 0.9 };
+
+  switch (definition.type) {
+    case 'true/false':
+    case 'tristate':
+    case 'true/false/undefined':
+      return BOOLEAN_VALUES[normalized] ? { value: BOOLEAN_VALUES[normalized], confidence: 0.9 } : null;
+    case 'integer': {
+      const number = Math.round(Number(normalized));
+      return Number.isFinite(number) && validateAriaValue(name, String(number))
+        ? { value: String(number), confidence: 0.6 }
+        : null;
+    }
+    case 'token': {
+      const match = closest(normalized, definition.values!);
+      return match ? { value: match.value, confidence: 0.5 } : null;
+    }
+    default:
+      return null;
+  }
+}
+
+
+
+
+function attributeFix(
+  id: string,
+  description: string,
+  confidence: number,
+  selector: string,
+  name: string,
+  value: string | null
+): FixProposal {
+  return { id, description, confidence, patches: [{ type: 'attribute', selector, name, value }] };
+}
+
+function closest(value: string, candidates: string[]): { value: string; distance: number } | null {
+  let best: { value: string; distance: number } | null = null;
+  for (const candidate of candidates) {
+    const distance = editDistance(value, candidate);
+    if (distance <= MAX_TYPO_DISTANCE && (!best || distance < best.distance)) {
+      best = { value: candidate, distance };
+    }
+  }
+  return best;
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function fileName(url: string): string {
+  const path = url.split(/[?#]/)[0].replace(/\/+$/, '');
+  return path.slice(path.lastIndexOf('/') + 1).replace(/\.[a-z0-9]+$/i, '');
+}
+
+function humanize(value: string | null): string {
+  const words = (value ?? '')
+    .replace(/@\d+x$/i, '')
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .split(/[\s_\-.]+/)
+    .filter(word => word && !/^\d+$/.test(word))
+    .join(' ')
+    .toLowerCase();
+  return words ? words[0].toUpperCase() + words.slice(1) : '';
+}
+
+
+
+
+export function applyPatch(element: Element, patch: FixPatch): void {
+  if (patch.type === 'style') {
+    (element as HTMLElement).style.setProperty(patch.property, patch.value);
+  } else if (patch.value === null) {
+    element.removeAttribute(patch.name);
+  } else {
+    element.setAttribute(patch.name, patch.value);
+  }
+}
+
+export function applyFix(fix: FixProposal, root: ParentNode = document): number {
+  let applied = 0;
+  fix.patches.forEach(patch => {
+    const element = root.querySelector(patch.selector);
+    if (!element) return;
+    applyPatch(element, patch);
+    applied++;
+  });
+  return applied;
+}
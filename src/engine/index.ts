@@ -8,16 +8,62 @@
 import type {
   AccessibilityConfig,
   EvaluationContext,
+  EvaluationOptions,
+  EvaluationPlugin,
   BatchEvaluationResult,
   AccessibilityIssue,
   PerformanceMetrics,
-  CustomRule
+  CustomRule,
+  ElementSnapshot,
+  ResultOutcome,
+  SerializedEvaluationContext,
+  FixProposal
 } from '../types';
 import { RuleRegistry } from './rules/registry';
+import { adaptRule } from './rules/adapters';
+import type { AnyRule } from './rules/adapters';
+import { getCriterion } from './rules/criteria';
+import { sampleElements } from './sampling';
 import { PerformanceMonitor } from './performance';
 import { ContextBuilder } from './context';
-import { WorkerPool } from './workers';
+import { WorkerPool, isWorkerSafe, serializeRule } from './workers';
+import type { WorkerResult, WorkerTask } from './workers';
 import { EventEmitter } from './events';
+import { proposeFixes } from './fixes';
+import { getUniqueSelector } from '../utils/selector';
+
+const SNAPSHOT_STYLE_PROPERTIES = [
+  'display',
+  'visibility',
+  'opacity',
+  'color',
+  'background-color',
+  'background-image',
+  'font-size',
+  'font-weight',
+  'line-height',
+  'outline-style',
+  'outline-width',
+  'outline-color',
+  'border-style',
+  'border-width',
+  'border-color',
+  'box-shadow',
+  'cursor',
+  'pointer-events',
+  'position',
+  'overflow'
+];
+
+const ISSUE_SEVERITIES = ['error', 'warning', 'info'];
+
+const CATEGORY_TYPES: Record<string, AccessibilityIssue['type']> = {
+  color: 'contrast',
+  contrast: 'contrast',
+  aria: 'aria',
+  keyboard: 'keyboard',
+  text: 'text'
+};
 
 export class EvaluationEngine extends EventEmitter {
   private config: AccessibilityConfig;
@@ -26,52 +72,103 @@ export class EvaluationEngine extends EventEmitter {
   private contextBuilder: ContextBuilder;
   private workerPool?: WorkerPool;
   private evaluationId = 0;
+  private originals: WeakMap<Element, Element> = new WeakMap();
+  private plugins: Map<string, EvaluationPlugin> = new Map();
+  private activeEvaluations: Set<AbortController> = new Set();
+  private outcomeCounts: Map<string, Record<ResultOutcome, number>> = new Map();
   
   constructor(config: AccessibilityConfig) {
     super();
     this.config = config;
-    this.registry = new RuleRegistry(config.evaluation);
+    this.registry = new RuleRegistry({
+      wcag: config.evaluation.wcag,
+      level: config.evaluation.level
+    });
     this.monitor = new PerformanceMonitor(config.performance);
     this.contextBuilder = new ContextBuilder();
     
     
-    if (config.performance.useWorkers) {
+    if (config.performance.useWorkers && WorkerPool.isSupported()) {
       this.workerPool = new WorkerPool(config.performance.maxWorkers || 4);
     }
     
+    config.evaluation.customRules?.forEach(rule => this.registerRule(rule));
+    config.evaluation.plugins?.forEach(plugin => this.registerPlugin(plugin));
+
+    if (config.evaluation.rules) this.registry.enable({ id: config.evaluation.rules });
+    if (config.evaluation.disabledRules) this.registry.disable({ id: config.evaluation.disabledRules });
+  }
+  
+  
+  
+  
+  registerPlugin(plugin: EvaluationPlugin): void {
+    this.plugins.set(plugin.id, plugin);
     
-    if (config.evaluation.customRules) {
-      config.evaluation.customRules.forEach(rule => {
-        this.registry.register(rule);
-      });
+    plugin.rules?.forEach(rule => this.registerRule(rule));
+    
+    if (plugin.initialize) {
+      plugin.initialize(this);
     }
   }
   
+  unregisterPlugin(pluginId: string): void {
+    const plugin = this.plugins.get(pluginId);
+    if (!plugin) return;
+    
+    plugin.rules?.forEach(rule => this.registry.unregister(rule.id));
+    plugin.destroy?.();
+    this.plugins.delete(pluginId);
+  }
+  
+  getPlugins(): EvaluationPlugin[] {
+    return Array.from(this.plugins.values());
+  }
+  
+  
+  
+  
+  registerRule(rule: AnyRule): void {
+    const adapted = adaptRule(rule);
+    this.registry.register(adapted);
+
+    const selected = this.config.evaluation.rules;
+    if (selected && !selected.includes(adapted.id)) this.registry.disable({ id: adapted.id });
+  }
+  
   
 
 
-  async evaluate(elements?: Element[]): Promise<BatchEvaluationResult> {
+  async evaluate(elements?: Element[], options: EvaluationOptions = {}): Promise<BatchEvaluationResult> {
     const startTime = performance.now();
     const id = `eval-${++this.evaluationId}-${Date.now()}`;
+    const controller = new AbortController();
+    this.activeEvaluations.add(controller);
     
     try {
       
       this.monitor.start(id);
+      this.outcomeCounts.set(id, { passed: 0, failed: 0, incomplete: 0, inapplicable: 0 });
       
       
-      const context = await this.contextBuilder.build(this.config, elements);
+      const context = await this.contextBuilder.build(this.config, elements, options, controller.signal);
       
       
       const targetElements = elements || this.selectElements(context);
       
       
-      const sanitizedElements = this.applyPrivacy(targetElements);
+      const sampledElements = sampleElements(targetElements, options.sampling);
+      const sanitizedElements = this.applyPrivacy(sampledElements);
       
       
-      const issues = await this.evaluateRules(sanitizedElements, context);
+      const rules = this.selectRules(options);
+      const issues = await this.evaluateInChunks(id, sanitizedElements, rules, context);
       
       
       const metrics = this.monitor.stop(id);
+      if (this.workerPool) {
+        metrics.workerUtilization = this.workerPool.getUtilization();
+      }
       
       
       const result: BatchEvaluationResult = {
@@ -82,10 +179,11 @@ export class EvaluationEngine extends EventEmitter {
         metrics,
         metadata: {
           elementsTotal: targetElements.length,
-          elementsEvaluated: sanitizedElements.length,
-          rulesApplied: this.registry.getActiveRules().length,
+          elementsEvaluated: metrics.elementsEvaluated,
+          rulesApplied: rules.length,
           wcagVersion: this.config.evaluation.wcag,
-          wcagLevel: this.config.evaluation.level
+          wcagLevel: this.config.evaluation.level,
+          outcomes: this.outcomeCounts.get(id)
         }
       };
       
@@ -98,12 +196,85 @@ export class EvaluationEngine extends EventEmitter {
       this.monitor.stop(id);
       this.emit('evaluation:error', { id, error });
       throw error;
+    } finally {
+      this.activeEvaluations.delete(controller);
+      this.outcomeCounts.delete(id);
     }
   }
   
   
-
-
+  
+  
+  cancelAll(): void {
+    this.activeEvaluations.forEach(controller => controller.abort());
+    this.activeEvaluations.clear();
+  }
+  
+  
+  
+  
+  private selectRules(options: EvaluationOptions): CustomRule[] {
+    const rules = this.registry.getActiveRules();
+    const filter = options.ruleFilter;
+    
+    if (!filter?.length) return rules;
+    return rules.filter(rule => filter.includes(rule.id));
+  }
+  
+  
+  
+  
+  private async evaluateInChunks(
+    id: string,
+    elements: Element[],
+    rules: CustomRule[],
+    context: EvaluationContext
+  ): Promise<AccessibilityIssue[]> {
+    const issues: AccessibilityIssue[] = [];
+    const chunkSize = context.options.chunkSize || elements.length || 1;
+    
+    for (let i = 0; i < elements.length; i += chunkSize) {
+      if (context.signal.aborted) break;
+      
+      const chunk = elements.slice(i, i + chunkSize);
+      issues.push(...await this.evaluateRules(id, chunk, rules, context));
+      
+      
+      if (this.isMemoryExceeded(context.options.memoryLimit)) {
+        this.emit('evaluation:memory-limit', { id, limit: context.options.memoryLimit });
+        break;
+      }
+      
+      if (i + chunkSize < elements.length) {
+        await this.yieldToMain();
+      }
+    }
+    
+    return issues;
+  }
+  
+  
+  
+  
+  private isMemoryExceeded(limit?: number): boolean {
+    if (!limit || !('memory' in performance)) return false;
+    return (performance as any).memory.usedJSHeapSize > limit;
+  }
+  
+  private yieldToMain(): Promise<void> {
+    return new Promise(resolve => {
+      const scheduler = typeof window !== 'undefined' ? (window as any).scheduler : undefined;
+      if (scheduler && 'yield' in scheduler) {
+        scheduler.yield().then(resolve);
+      } else {
+        setTimeout(resolve, 0);
+      }
+    });
+  }
+  
+  
+  
+  
   private selectElements(context: EvaluationContext): Element[] {
     const { sampling } = this.config;
     const elements: Element[] = [];
@@ -219,6 +390,7 @@ export class EvaluationEngine extends EventEmitter {
         });
       }
       
+      this.originals.set(clone, el);
       return clone;
     });
   }
@@ -245,30 +417,47 @@ export class EvaluationEngine extends EventEmitter {
 
 
   private async evaluateRules(
+    id: string,
     elements: Element[],
+    rules: CustomRule[],
     context: EvaluationContext
   ): Promise<AccessibilityIssue[]> {
     const issues: AccessibilityIssue[] = [];
-    const rules = this.registry.getActiveRules();
     
     
-    if (this.workerPool && this.config.performance.useWorkers) {
-      return this.evaluateWithWorkers(elements, rules, context);
+    const useWorkers = !!this.workerPool && this.config.performance.useWorkers;
+    const workerRules = useWorkers ? rules.filter(isWorkerSafe) : [];
+    const mainThreadRules = useWorkers ? rules.filter(rule => !isWorkerSafe(rule)) : rules;
+    
+    if (workerRules.length > 0) {
+      issues.push(...await this.evaluateWithWorkers(id, elements, workerRules, context));
+      this.monitor.count(id, 'rulesExecuted', elements.length * workerRules.length);
     }
     
     
     for (const element of elements) {
-      for (const rule of rules) {
+      if (context.signal.aborted) break;
+      
+      for (const rule of mainThreadRules) {
+        if (context.signal.aborted) break;
+        
         try {
           const result = await rule.evaluate(element, context);
+          this.monitor.count(id, 'rulesExecuted');
           
           if (!result.passed && result.violation) {
-            issues.push(this.createIssue(element, rule, result.violation));
+            const issue = this.createIssue(element, rule, result.violation);
+            this.countOutcome(id, issue.outcome!);
+            issues.push(issue);
+          } else {
+            this.countOutcome(id, result.outcome ?? 'passed');
           }
         } catch (error) {
           this.emit('rule:error', { rule: rule.id, element, error });
         }
       }
+      
+      this.monitor.count(id, 'elementsEvaluated');
     }
     
     return issues;
@@ -278,53 +467,137 @@ export class EvaluationEngine extends EventEmitter {
 
 
   private async evaluateWithWorkers(
+    id: string,
     elements: Element[],
     rules: CustomRule[],
     context: EvaluationContext
   ): Promise<AccessibilityIssue[]> {
+    const snapshots = elements.map((element, index) => this.serializeElement(element, index));
+    const serializedContext = this.serializeContext(context);
     
-    const tasks = elements.flatMap(element =>
+    const tasks: WorkerTask[] = snapshots.flatMap(snapshot =>
       rules.map(rule => ({
-        element: this.serializeElement(element),
+        elementIndex: snapshot.index,
         ruleId: rule.id,
-        context: this.serializeContext(context)
+        snapshot,
+        context: serializedContext
       }))
     );
     
     
-    const batchSize = this.config.performance.batchSize || 100;
-    const results = await this.workerPool!.processBatches(tasks, batchSize);
+    let results: WorkerResult[];
+    try {
+      this.workerPool!.registerRules(rules.map(rule => serializeRule(rule)!));
+      const batchSize = this.config.performance.batchSize || 100;
+      results = await this.workerPool!.processBatches(tasks, batchSize);
+    } catch (error) {
+      this.emit('worker:error', { error });
+      results = await this.evaluateSnapshotsOnMainThread(tasks, rules);
+    }
+    
     
+    const rulesById = new Map(rules.map(rule => [rule.id, rule]));
+    const issues: AccessibilityIssue[] = [];
+    
+    for (const result of results) {
+      if (result.error) {
+        this.emit('rule:error', {
+          rule: result.ruleId,
+          element: elements[result.elementIndex ?? -1],
+          error: new Error(result.error)
+        });
+        continue;
+      }
+      
+      if (!result.passed && result.violation) {
+        const issue = this.createIssueFromWorkerResult(result, elements, rulesById);
+        if (issue) {
+          this.countOutcome(id, issue.outcome!);
+          issues.push(issue);
+        }
+      } else {
+        this.countOutcome(id, 'passed');
+      }
+    }
+    
+    return issues;
+  }
+  
+  
+
+
+  private async evaluateSnapshotsOnMainThread(
+    tasks: WorkerTask[],
+    rules: CustomRule[]
+  ): Promise<WorkerResult[]> {
+    const rulesById = new Map(rules.map(rule => [rule.id, rule]));
+    const results: WorkerResult[] = [];
+    
+    for (const task of tasks) {
+      const rule = rulesById.get(task.ruleId);
+      if (!rule?.evaluateSnapshot) continue;
+      
+      try {
+        const outcome = await rule.evaluateSnapshot(task.snapshot, task.context);
+        results.push({
+          passed: outcome.passed,
+          violation: outcome.violation,
+          ruleId: task.ruleId,
+          elementIndex: task.elementIndex
+        });
+      } catch (error) {
+        results.push({
+          passed: true,
+          ruleId: task.ruleId,
+          elementIndex: task.elementIndex,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
     
-    return results
-      .filter(r => !r.passed && r.violation)
-      .map(r => this.createIssueFromWorkerResult(r));
+    return results;
   }
   
   
 
 
-  private serializeElement(element: Element): any {
+  private serializeElement(element: Element, index: number): ElementSnapshot {
+    const source = this.originals.get(element) ?? element;
+    const rect = source.getBoundingClientRect();
+    const computed = window.getComputedStyle(source);
+    const computedStyle: Record<string, string> = {};
+    
+    for (const property of SNAPSHOT_STYLE_PROPERTIES) {
+      computedStyle[property] = computed.getPropertyValue(property);
+    }
+    
     return {
-      tagName: element.tagName,
-      attributes: Array.from(element.attributes).map(attr => ({
-        name: attr.name,
-        value: attr.value
-      })),
-      textContent: element.textContent,
-      innerHTML: element.innerHTML,
-      computedStyle: window.getComputedStyle(element)
+      index,
+      selector: this.generateSelector(source) || element.tagName.toLowerCase(),
+      tagName: element.tagName.toLowerCase(),
+      attributes: Object.fromEntries(
+        Array.from(element.attributes).map(attr => [attr.name, attr.value])
+      ),
+      computedStyle,
+      text: element.textContent?.trim().slice(0, 500) || '',
+      bounds: {
+        x: rect.x,
+        y: rect.y,
+        width: rect.width,
+        height: rect.height
+      }
     };
   }
   
   
 
 
-  private serializeContext(context: EvaluationContext): any {
+  private serializeContext(context: EvaluationContext): SerializedEvaluationContext {
     return {
-      
       wcagVersion: this.config.evaluation.wcag,
-      wcagLevel: this.config.evaluation.level
+      wcagLevel: this.config.evaluation.level,
+      viewport: { ...context.viewport },
+      timestamp: context.timestamp
     };
   }
   
@@ -337,7 +610,7 @@ export class EvaluationEngine extends EventEmitter {
     violation: any
   ): AccessibilityIssue {
     const id = `issue-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-    const issueType = this.inferIssueType(rule);
+    const issueType = violation?.type || this.inferIssueType(rule, violation?.category);
 
     
     const severityMap: Record<string, 'error' | 'warning' | 'info'> = {
@@ -346,8 +619,12 @@ export class EvaluationEngine extends EventEmitter {
       moderate: 'warning',
       minor: 'info'
     };
-    const severity = severityMap[rule.severity] || 'warning';
+    const severity = ISSUE_SEVERITIES.includes(violation?.severity)
+      ? violation.severity
+      : severityMap[rule.severity] || 'warning';
 
+    const criteria: string[] = violation?.wcagCriteria?.length ? violation.wcagCriteria : (rule.wcagCriteria ?? []);
+    const incomplete = violation?.outcome === 'incomplete' || !!violation?.details?.needsReview || rule.automation === 'manual';
     const elementRef = this.getElementReference(element);
 
     return {
@@ -355,19 +632,23 @@ export class EvaluationEngine extends EventEmitter {
       timestamp: Date.now(),
       type: issueType,
       severity,
-      wcagLevel: 'AA' as const,
-      wcagCriteria: Array.isArray(rule.wcagCriteria) ? rule.wcagCriteria.join(', ') : (rule.wcagCriteria || ''),
+      wcagLevel: this.inferWcagLevel(rule, criteria),
+      wcagCriteria: criteria.join(', '),
       selector: elementRef.selector,
       message: violation?.message || `${rule.id}: accessibility violation`,
+      outcome: incomplete ? 'incomplete' : 'failed',
       rule: rule.id,
+      ruleId: rule.id,
       element: elementRef,
+      details: violation?.details,
       metadata: {
         violation,
-        fixes: this.generateFixes(element, rule, violation),
+        fixes: this.generateFixes(element, rule, violation, elementRef.selector),
         firstSeen: Date.now(),
         lastSeen: Date.now(),
         occurrences: 1,
         impactScore: this.calculateImpactScore(element, rule, violation),
+        automation: rule.automation,
         related: []
       }
     };
@@ -377,29 +658,46 @@ export class EvaluationEngine extends EventEmitter {
 
 
   private getElementReference(element: Element): { selector: string; tagName: string; attributes: Record<string, string>; text: string; bounds: DOMRect } {
+    const source = this.originals.get(element) ?? element;
+    
     return {
-      selector: this.generateSelector(element) || element.tagName.toLowerCase(),
+      selector: this.generateSelector(source) || element.tagName.toLowerCase(),
       tagName: element.tagName.toLowerCase(),
       attributes: Object.fromEntries(
         Array.from(element.attributes).map(attr => [attr.name, attr.value])
       ),
       text: element.textContent?.trim().slice(0, 100) || '',
-      bounds: element.getBoundingClientRect()
+      bounds: source.getBoundingClientRect()
     };
   }
   
   
 
 
-  private createIssueFromWorkerResult(result: any): AccessibilityIssue {
+  private createIssueFromWorkerResult(
+    result: WorkerResult,
+    elements: Element[],
+    rulesById: Map<string, CustomRule>
+  ): AccessibilityIssue | null {
+    const element = elements[result.elementIndex ?? -1];
+    const rule = result.ruleId ? rulesById.get(result.ruleId) : undefined;
+    
+    if (!element || !rule) return null;
     
-    return {} as AccessibilityIssue;
+    return this.createIssue(element, rule, result.violation);
   }
   
   
 
 
-  private inferIssueType(rule: CustomRule): any {
+  private countOutcome(id: string, outcome: ResultOutcome): void {
+    const counts = this.outcomeCounts.get(id);
+    if (counts) counts[outcome]++;
+  }
+  
+  private inferIssueType(rule: CustomRule, category?: string): AccessibilityIssue['type'] {
+    const byCategory = CATEGORY_TYPES[(category ?? rule.category ?? '').toLowerCase()];
+    if (byCategory) return byCategory;
     
     if (rule.id.includes('contrast')) return 'contrast';
     if (rule.id.includes('keyboard')) return 'keyboard';
@@ -410,6 +708,18 @@ export class EvaluationEngine extends EventEmitter {
   
 
 
+  private inferWcagLevel(rule: CustomRule, criteria: string[]): 'A' | 'AA' | 'AAA' {
+    if (rule.wcagLevel) return rule.wcagLevel;
+    
+    const levels = criteria.map(id => getCriterion(id)?.level).filter(Boolean);
+    if (levels.includes('A')) return 'A';
+    if (levels.includes('AA')) return 'AA';
+    return levels.length > 0 ? 'AAA' : 'AA';
+  }
+  
+  
+  
+  
   private getElementInfo(element: Element): any {
     const rect = element.getBoundingClientRect();
     
@@ -428,8 +738,9 @@ export class EvaluationEngine extends EventEmitter {
 
 
   private generateSelector(element: Element): string {
-    
-    return '';
+    return getUniqueSelector(element, {
+      excludeAttributes: this.config.privacy.excludeAttributes
+    });
   }
   
   
@@ -473,9 +784,12 @@ export class EvaluationEngine extends EventEmitter {
   
 
 
-  private generateFixes(element: Element, rule: CustomRule, violation: any): any[] {
-    
-    return [];
+  private generateFixes(element: Element, rule: CustomRule, violation: any, selector: string): FixProposal[] {
+    const source = this.originals.get(element) ?? element;
+    return proposeFixes(source, {
+      ...violation,
+      wcagCriteria: violation?.wcagCriteria?.length ? violation.wcagCriteria : rule.wcagCriteria
+    }, { selector });
   }
   
   
@@ -502,7 +816,17 @@ export class EvaluationEngine extends EventEmitter {
   
 
 
+  getRegistry(): RuleRegistry {
+    return this.registry;
+  }
+  
+  
+
+
   async destroy(): Promise<void> {
+    this.cancelAll();
+    Array.from(this.plugins.keys()).forEach(id => this.unregisterPlugin(id));
+    
     if (this.workerPool) {
       await this.workerPool.terminate();
     }
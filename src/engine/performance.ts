@@ -4,24 +4,32 @@
 
 import type { PerformanceMetrics } from '../types';
 
+type CountedMetric = 'elementsEvaluated' | 'rulesExecuted';
+
 export class PerformanceMonitor {
-  private metrics: Map<string, { start: number; end?: number }> = new Map();
+  private metrics: Map<string, { start: number; end?: number; elementsEvaluated: number; rulesExecuted: number }> = new Map();
 
   constructor(_options?: Record<string, any>) {}
 
   start(id: string): void {
-    this.metrics.set(id, { start: performance.now() });
+    this.metrics.set(id, { start: performance.now(), elementsEvaluated: 0, rulesExecuted: 0 });
+  }
+
+  count(id: string, metric: CountedMetric, amount = 1): void {
+    const record = this.metrics.get(id);
+    if (record) record[metric] += amount;
   }
 
   stop(id: string): PerformanceMetrics {
     const record = this.metrics.get(id);
     const end = performance.now();
     const duration = record ? end - record.start : 0;
+    if (record) record.end = end;
 
     return {
       duration,
-      elementsEvaluated: 0,
-      rulesExecuted: 0,
+      elementsEvaluated: record?.elementsEvaluated ?? 0,
+      rulesExecuted: record?.rulesExecuted ?? 0,
       memoryUsed: 0,
       cpuUsage: 0,
       workerUtilization: 0
@@ -34,8 +42,8 @@ export class PerformanceMonitor {
 
     return {
       duration: record.end ? record.end - record.start : performance.now() - record.start,
-      elementsEvaluated: 0,
-      rulesExecuted: 0,
+      elementsEvaluated: record.elementsEvaluated,
+      rulesExecuted: record.rulesExecuted,
       memoryUsed: 0,
       cpuUsage: 0,
       workerUtilization: 0
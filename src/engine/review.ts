@@ -0,0 +1,165 @@
+import type { EvaluationResult, ResultOutcome, ReviewRecord, ReviewVerdict } from '../types';
+
+export interface ReviewStorage {
+  load(): ReviewRecord[] | Promise<ReviewRecord[]>;
+  save(records: ReviewRecord[]): void | Promise<void>;
+}
+
+export interface ReviewOptions {
+  reviewer?: string;
+  note?: string;
+}
+
+type ReviewableResult = Pick<EvaluationResult, 'selector' | 'type' | 'wcagCriteria'> &
+  Partial<Pick<EvaluationResult, 'ruleId' | 'outcome' | 'severity' | 'details' | 'metadata' | 'message'>> & {
+    rule?: string;
+  };
+
+const KEY_SEPARATOR = '::';
+
+
+
+
+export function getResultOutcome(result: ReviewableResult): ResultOutcome {
+  if (result.outcome) return result.outcome;
+  if (result.details?.needsReview || result.metadata?.needsReview) return 'incomplete';
+  return result.severity === 'info' ? 'passed' : 'failed';
+}
+
+export function getReviewRuleId(result: ReviewableResult): string {
+  return result.ruleId ?? result.rule ?? `${result.type}:${result.wcagCriteria}`;
+}
+
+export function getReviewKey(result: ReviewableResult): string {
+  return `${getReviewRuleId(result)}${KEY_SEPARATOR}${result.selector}`;
+}
+
+
+
+
+export function createMemoryReviewStorage(initial: ReviewRecord[] = []): ReviewStorage {
+  let records = [...initial];
+  return {
+    load: () => [...records],
+    save: next => { records = [...next]; }
+  };
+}
+
+
+
+
+export function createLocalReviewStorage(
+  key = 'a11y-engine:reviews',
+  storage: Storage | undefined = globalThis.localStorage
+): ReviewStorage {
+  return {
+    load: () => {
+      const raw = storage?.getItem(key);
+      if (!raw) return [];
+      try {
+        const parsed = JSON.parse(raw);
+        return Array.isArray(parsed) ? parsed : [];
+      } catch {
+        return [];
+      }
+    },
+    save: records => storage?.setItem(key, JSON.stringify(records))
+  };
+}
+
+
+
+
+export class ReviewStore {
+  private storage: ReviewStorage;
+  private records = new Map<string, ReviewRecord>();
+  private loaded = false;
+
+  constructor(storage: ReviewStorage = createMemoryReviewStorage()) {
+    this.storage = storage;
+
+    const records = storage.load();
+    if (Array.isArray(records)) this.setRecords(records);
+  }
+
+  async load(): Promise<void> {
+    this.setRecords(await this.storage.load());
+  }
+
+
+
+
+  async record(result: ReviewableResult, verdict: ReviewVerdict, options: ReviewOptions = {}): Promise<ReviewRecord> {
+    await this.ensureLoaded();
+
+    const record: ReviewRecord = {
+      ruleId: getReviewRuleId(result),
+      selector: result.selector,
+      verdict,
+      reviewer: options.reviewer,
+      note: options.note,
+      reviewedAt: Date.now(),
+      message: result.message
+    };
+
+    this.records.set(getReviewKey(result), record);
+    await this.persist();
+    return record;
+  }
+
+  async remove(result: ReviewableResult): Promise<boolean> {
+    await this.ensureLoaded();
+
+    const removed = this.records.delete(getReviewKey(result));
+    if (removed) await this.persist();
+    return removed;
+  }
+
+  get(result: ReviewableResult): ReviewRecord | undefined {
+    this.assertLoaded();
+    return this.records.get(getReviewKey(result));
+  }
+
+  list(): ReviewRecord[] {
+    this.assertLoaded();
+    return Array.from(this.records.values());
+  }
+
+
+
+
+  apply<T extends EvaluationResult>(results: T[]): T[] {
+    return results.map(result => {
+      if (getResultOutcome(result) !== 'incomplete') return result;
+
+      const review = this.get(result);
+      return review ? { ...result, outcome: review.verdict, review } : result;
+    });
+  }
+
+  pending<T extends EvaluationResult>(results: T[]): T[] {
+    return results.filter(result => getResultOutcome(result) === 'incomplete' && !this.get(result));
+  }
+
+  private setRecords(records: ReviewRecord[]): void {
+    this.records = new Map(records.map(record => [
+      `${record.ruleId}${KEY_SEPARATOR}${record.selector}`,
+      record
+    ]));
+    this.loaded = true;
+  }
+
+  private assertLoaded(): void {
+    if (!this.loaded) {
+      throw new Error('ReviewStore storage loads asynchronously; await load() before reading reviews');
+    }
+  }
+
+  private async ensureLoaded(): Promise<void> {
+    if (!this.loaded) await this.load();
+  }
+
+  private async persist(): Promise<void> {
+    await this.storage.save(this.list());
+  }
+}
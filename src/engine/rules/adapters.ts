@@ -0,0 +1,104 @@
+import type {
+  CustomRule,
+  EvaluationContext,
+  EvaluationResult,
+  EvaluationRule,
+  ResultOutcome,
+  RuleResult
+} from '../../types';
+
+export type AnyRule = CustomRule | EvaluationRule;
+
+export interface RuleViolation {
+  message: string;
+  severity?: 'error' | 'warning' | 'info';
+  type?: EvaluationResult['type'];
+  category?: string;
+  wcagCriteria?: string[];
+  details?: Record<string, any>;
+  [key: string]: any;
+}
+
+export interface RuleOutcome {
+  passed: boolean;
+  violation?: RuleViolation;
+  /** Omitted for plain passes and failures; set for 'incomplete' and 'inapplicable'. */
+  outcome?: ResultOutcome;
+}
+
+const IMPACTS: CustomRule['severity'][] = ['critical', 'serious', 'moderate', 'minor'];
+
+const SEVERITY_TO_IMPACT: Record<string, CustomRule['severity']> = {
+  error: 'serious',
+  warning: 'moderate',
+  info: 'minor'
+};
+
+const adapted = new WeakSet<CustomRule>();
+
+
+
+
+export function toImpact(severity?: AnyRule['severity']): CustomRule['severity'] {
+  if (!severity) return 'moderate';
+  if ((IMPACTS as string[]).includes(severity)) return severity as CustomRule['severity'];
+  return SEVERITY_TO_IMPACT[severity] ?? 'moderate';
+}
+
+
+
+
+export function normalizeRuleOutcome(outcome: unknown): RuleOutcome {
+  if (!outcome || typeof outcome !== 'object') return { passed: true };
+
+  const value = outcome as Record<string, any>;
+
+  if (typeof value.passed === 'boolean') {
+    return value as RuleOutcome;
+  }
+
+  const result = value as EvaluationResult | RuleResult;
+  const isFullResult = 'id' in result && 'type' in result && 'wcagLevel' in result && 'selector' in result;
+  const criteria = result.wcagCriteria;
+  const incomplete = result.outcome === 'incomplete' || !!result.details?.needsReview;
+
+  return {
+    passed: false,
+    ...(incomplete ? { outcome: 'incomplete' as const } : {}),
+    violation: {
+      ...result,
+      message: result.message,
+      severity: result.severity,
+      type: isFullResult ? (result as EvaluationResult).type : undefined,
+      wcagCriteria: Array.isArray(criteria)
+        ? criteria
+        : typeof criteria === 'string' && criteria
+          ? criteria.split(/\s*,\s*/)
+          : undefined
+    }
+  };
+}
+
+
+
+
+export function adaptRule(rule: AnyRule): CustomRule {
+  if (adapted.has(rule as CustomRule)) return rule as CustomRule;
+
+  const { selector, condition } = rule as EvaluationRule;
+  const evaluate = rule.evaluate as (element: Element, context: EvaluationContext) => Promise<unknown>;
+
+  const wrapped: CustomRule = {
+    ...rule,
+    severity: toImpact(rule.severity),
+    evaluate: async (element: Element, context: EvaluationContext) => {
+      if (selector && !element.matches(selector)) return { passed: true, outcome: 'inapplicable' };
+      if (condition && !condition(element, context)) return { passed: true, outcome: 'inapplicable' };
+
+      return normalizeRuleOutcome(await evaluate(element, context));
+    }
+  };
+
+  adapted.add(wrapped);
+  return wrapped;
+}
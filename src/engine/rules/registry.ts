@@ -1,8 +1,11 @@
-
-
-
-
 import type { CustomRule } from '../../types';
+import {
+  getCriterion,
+  isCriterionInScope,
+  isLevelIncluded,
+  isVersionIncluded
+} from './criteria';
+import type { WcagLevel, WcagVersion } from './criteria';
 
 export interface RegistryOptions {
   wcag?: '2.1' | '2.2';
@@ -10,10 +13,26 @@ export interface RegistryOptions {
   customRules?: CustomRule[];
 }
 
+export interface RuleFilter {
+  id?: string | string[];
+  tag?: string | string[];
+  category?: string | string[];
+}
+
 export class RuleRegistry {
   private rules: Map<string, CustomRule> = new Map();
+  private wcag: WcagVersion;
+  private level: WcagLevel;
+  private enabledIds: Set<string> = new Set();
+  private disabledIds: Set<string> = new Set();
+  private disabledTags: Set<string> = new Set();
+  private disabledCategories: Set<string> = new Set();
 
-  constructor(_options?: RegistryOptions) {}
+  constructor(options: RegistryOptions = {}) {
+    this.wcag = options.wcag ?? '2.2';
+    this.level = options.level ?? 'AA';
+    options.customRules?.forEach(rule => this.register(rule));
+  }
 
   register(rule: CustomRule): void {
     this.rules.set(rule.id, rule);
@@ -27,11 +46,78 @@ export class RuleRegistry {
     return this.rules.get(ruleId);
   }
 
+
+
+
+  configure(options: Pick<RegistryOptions, 'wcag' | 'level'>): void {
+    if (options.wcag) this.wcag = options.wcag;
+    if (options.level) this.level = options.level;
+  }
+
+
+
+
+  enable(filter: RuleFilter): void {
+    toArray(filter.id).forEach(id => {
+      this.disabledIds.delete(id);
+      this.enabledIds.add(id);
+    });
+    toArray(filter.tag).forEach(tag => this.disabledTags.delete(tag));
+    toArray(filter.category).forEach(category => this.disabledCategories.delete(category));
+  }
+
+  disable(filter: RuleFilter): void {
+    toArray(filter.id).forEach(id => {
+      this.enabledIds.delete(id);
+      this.disabledIds.add(id);
+    });
+    toArray(filter.tag).forEach(tag => this.disabledTags.add(tag));
+    toArray(filter.category).forEach(category => this.disabledCategories.add(category));
+  }
+
+
+
+
+  isActive(ruleId: string): boolean {
+    const rule = this.rules.get(ruleId);
+    return !!rule && this.isRuleActive(rule);
+  }
+
+
+
+
+  isInScope(rule: CustomRule): boolean {
+    if (rule.wcagLevel || rule.wcagVersion) {
+      const levelOk = !rule.wcagLevel || isLevelIncluded(rule.wcagLevel, this.level);
+      const versionOk = !rule.wcagVersion || isVersionIncluded(rule.wcagVersion, this.wcag);
+      return levelOk && versionOk;
+    }
+
+    const known = (rule.wcagCriteria ?? []).filter(id => getCriterion(id));
+    if (known.length === 0) return true;
+
+    return known.some(id => isCriterionInScope(id, this.wcag, this.level));
+  }
+
   getActiveRules(): CustomRule[] {
-    return Array.from(this.rules.values());
+    return Array.from(this.rules.values()).filter(rule => this.isRuleActive(rule));
   }
 
   getAllRules(): CustomRule[] {
     return Array.from(this.rules.values());
   }
+
+  private isRuleActive(rule: CustomRule): boolean {
+    if (this.enabledIds.has(rule.id)) return true;
+    if (this.disabledIds.has(rule.id)) return false;
+    if (rule.tags?.some(tag => this.disabledTags.has(tag))) return false;
+    if (rule.category && this.disabledCategories.has(rule.category)) return false;
+
+    return this.isInScope(rule);
+  }
+}
+
+function toArray(value?: string | string[]): string[] {
+  if (value === undefined) return [];
+  return Array.isArray(value) ? value : [value];
 }
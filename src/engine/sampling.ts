@@ -0,0 +1,75 @@
+import type { SamplingStrategy } from '../types';
+
+
+
+
+export function sampleElements(elements: Element[], sampling?: SamplingStrategy): Element[] {
+  if (!sampling) return elements;
+
+  const strategy = sampling.type || sampling.strategy || 'viewport';
+  const rate = sampling.rate || 1.0;
+
+  switch (strategy) {
+    case 'viewport':
+    case 'adaptive':
+      return viewportSampling(elements, rate);
+    case 'random':
+      return randomSampling(elements, rate);
+    case 'priority':
+      return prioritySampling(elements, rate);
+    default:
+      return elements;
+  }
+}
+
+function viewportSampling(elements: Element[], rate: number): Element[] {
+  const viewport = {
+    top: window.scrollY,
+    bottom: window.scrollY + window.innerHeight,
+    left: window.scrollX,
+    right: window.scrollX + window.innerWidth
+  };
+
+  const scored = elements.map(el => {
+    const rect = el.getBoundingClientRect();
+    const inViewport =
+      rect.top < viewport.bottom &&
+      rect.bottom > viewport.top &&
+      rect.left < viewport.right &&
+      rect.right > viewport.left;
+
+    return { element: el, score: inViewport ? 1 : 0.1 };
+  });
+
+  return takeTopScored(scored, elements.length, rate);
+}
+
+function randomSampling(elements: Element[], rate: number): Element[] {
+  const sampleSize = Math.ceil(elements.length * rate);
+  const shuffled = [...elements].sort(() => Math.random() - 0.5);
+  return shuffled.slice(0, sampleSize);
+}
+
+function prioritySampling(elements: Element[], rate: number): Element[] {
+  const scored = elements.map(el => {
+    let score = 0;
+
+    if (el.matches('a, button, input, select, textarea')) score += 3;
+    if (el.hasAttribute('role') || el.hasAttribute('aria-label')) score += 2;
+    if (el.matches('h1, h2, h3, h4, h5, h6')) score += 2;
+    if (el.matches('form, label')) score += 1;
+
+    return { element: el, score };
+  });
+
+  return takeTopScored(scored, elements.length, rate);
+}
+
+function takeTopScored(
+  scored: Array<{ element: Element; score: number }>,
+  total: number,
+  rate: number
+): Element[] {
+  scored.sort((a, b) => b.score - a.score);
+  return scored.slice(0, Math.ceil(total * rate)).map(s => s.element);
+}
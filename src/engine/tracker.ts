@@ -0,0 +1,183 @@
+import type { EvaluationResult, IssueDelta, IssueLifecycle } from '../types';
+import { EventEmitter } from './events';
+import { getResultOutcome, getReviewRuleId } from './review';
+
+export interface TrackedIssue<T extends EvaluationResult = EvaluationResult> {
+  id: string;
+  fingerprint: string;
+  scope: string;
+  status: 'open' | 'resolved';
+  firstSeen: number;
+  lastSeen: number;
+  occurrences: number;
+  resolvedAt?: number;
+  /** Number of times the issue came back after being resolved. */
+  regressions: number;
+  /** The most recent result for the issue, with lifecycle metadata applied. */
+  issue: T;
+}
+
+export interface TrackOptions {
+  /** Groups issues, usually by page; only issues in the same scope can be resolved by a run. */
+  scope?: string;
+  /**
+   * Whether the results cover everything evaluated in the scope. Partial
+   * results, such as a single streaming batch, never resolve issues.
+   */
+  complete?: boolean;
+  /**
+   * Selectors the run actually evaluated, for sampled runs. When set, only
+   * issues on these selectors can be resolved.
+   */
+  evaluated?: Iterable<string>;
+  timestamp?: number;
+}
+
+export interface TrackResult<T extends EvaluationResult> {
+  /** The input results with stable ids and lifecycle metadata; passing results are returned as-is. */
+  issues: T[];
+  delta: IssueDelta<T>;
+}
+
+const DEFAULT_SCOPE = '';
+
+
+
+
+export function hashFingerprint(parts: string[]): string {
+  let hash = 0x811c9dc5;
+  for (const char of parts.join('\u0000')) {
+    hash ^= char.codePointAt(0)!;
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash.toString(16).padStart(8, '0');
+}
+
+export function hashFingerprint64(parts: string[]): string {
+  let hash = 0xcbf29ce484222325n;
+  for (const char of parts.join('\u0000')) {
+    hash ^= BigInt(char.codePointAt(0)!);
+    hash = BigInt.asUintN(64, hash * 0x100000001b3n);
+  }
+  return hash.toString(16).padStart(16, '0');
+}
+
+export function getIssueFingerprint(
+  result: Pick<EvaluationResult, 'selector' | 'type' | 'wcagCriteria' | 'ruleId'> & { rule?: string },
+  scope = DEFAULT_SCOPE
+): string {
+  return hashFingerprint([scope, getReviewRuleId(result), result.selector]);
+}
+
+function isIssue(result: EvaluationResult): boolean {
+  const outcome = getResultOutcome(result);
+  return outcome === 'failed' || outcome === 'incomplete';
+}
+
+
+
+
+export class IssueTracker extends EventEmitter {
+  private issues = new Map<string, TrackedIssue>();
+
+  track<T extends EvaluationResult>(results: T[], options: TrackOptions = {}): TrackResult<T> {
+    const scope = options.scope ?? DEFAULT_SCOPE;
+    const now = options.timestamp ?? Date.now();
+    const delta: IssueDelta<T> = { added: [], updated: [], resolved: [] };
+    const seen = new Map<string, T>();
+    const events: Array<[string, TrackedIssue]> = [];
+
+    const issues = results.map(result => {
+      if (!isIssue(result)) return result;
+
+      const fingerprint = getIssueFingerprint(result, scope);
+      const duplicate = seen.get(fingerprint);
+      if (duplicate) return duplicate;
+
+      const existing = this.issues.get(fingerprint);
+      let lifecycle: IssueLifecycle;
+      let record: TrackedIssue;
+
+      if (!existing) {
+        lifecycle = 'new';
+        record = {
+          id: `issue-${fingerprint}`,
+          fingerprint,
+          scope,
+          status: 'open',
+          firstSeen: now,
+          lastSeen: now,
+          occurrences: 1,
+          regressions: 0,
+          issue: result
+        };
+        this.issues.set(fingerprint, record);
+      } else {
+        record = existing;
+        lifecycle = record.status === 'resolved' ? 'regressed' : 'recurring';
+        record.status = 'open';
+        record.lastSeen = now;
+        record.occurrences++;
+        record.resolvedAt = undefined;
+        if (lifecycle === 'regressed') record.regressions++;
+      }
+
+      const tracked = this.annotate(result, record, lifecycle);
+      record.issue = tracked;
+      seen.set(fingerprint, tracked);
+
+      if (lifecycle === 'recurring') {
+        delta.updated.push({ id: record.id, lastSeen: now, occurrences: record.occurrences });
+      } else {
+        delta.added.push(tracked);
+        events.push([`issue:${lifecycle}`, record]);
+      }
+      return tracked;
+    });
+
+    if (options.complete ?? true) {
+      const evaluated = options.evaluated ? new Set(options.evaluated) : null;
+      this.issues.forEach(record => {
+        if (record.scope !== scope || record.status !== 'open' || seen.has(record.fingerprint)) return;
+        if (evaluated && !evaluated.has(record.issue.selector)) return;
+
+        record.status = 'resolved';
+        record.resolvedAt = now;
+        record.issue = this.annotate(record.issue, record, 'resolved');
+        delta.resolved.push(record.id);
+        events.push(['issue:resolved', record]);
+      });
+    }
+
+    events.forEach(([event, record]) => this.emit(event, record));
+    return { issues, delta };
+  }
+
+  get(id: string): TrackedIssue | undefined {
+    return this.issues.get(id.replace(/^issue-/, ''));
+  }
+
+  list(status?: TrackedIssue['status']): TrackedIssue[] {
+    const records = Array.from(this.issues.values());
+    return status ? records.filter(record => record.status === status) : records;
+  }
+
+  clear(): void {
+    this.issues.clear();
+  }
+
+  private annotate<T extends EvaluationResult>(result: T, record: TrackedIssue, lifecycle: IssueLifecycle): T {
+    return {
+      ...result,
+      id: record.id,
+      metadata: {
+        ...result.metadata,
+        fingerprint: record.fingerprint,
+        firstSeen: record.firstSeen,
+        lastSeen: record.lastSeen,
+        occurrences: record.occurrences,
+        lifecycle
+      }
+    };
+  }
+}
@@ -1,6 +1,5 @@
-
-
-
+import type { CustomRule, ElementSnapshot, SerializedEvaluationContext } from '../types';
+import { hashFingerprint } from './tracker';
 
 export interface WorkerResult {
   passed: boolean;
@@ -11,25 +10,327 @@ export interface WorkerResult {
   };
   elementIndex?: number;
   ruleId?: string;
+  error?: string;
+}
+
+export interface WorkerTask {
+  elementIndex: number;
+  ruleId: string;
+  snapshot: ElementSnapshot;
+  context: SerializedEvaluationContext;
+}
+
+export interface SerializedRule {
+  id: string;
+  source: string;
+}
+
+interface PoolWorker {
+  post(message: unknown): void;
+  terminate(): void | Promise<unknown>;
+  /** Keeps Node alive while the worker has batches in flight; absent in browsers. */
+  setActive?(active: boolean): void;
+}
+
+interface PendingBatch {
+  worker: PoolWorker;
+  resolve: (results: WorkerResult[]) => void;
+  reject: (error: Error) => void;
+}
+
+
+// Runs inside the worker. Kept as plain JS source so it can be loaded from a
+// Blob URL in browsers and through `eval: true` in worker_threads.
+const WORKER_RUNTIME = `
+const rules = new Map();
+
+function compileRule(source) {
+  const src = source.trim();
+  try {
+    return new Function('return (' + src + ');')();
+  } catch (_) {
+    const holder = new Function('return ({' + src + '});')();
+    return holder[Object.keys(holder)[0]];
+  }
+}
+
+async function handle(message) {
+  if (!message) return;
+
+  if (message.type === 'rules') {
+    rules.clear();
+    for (const rule of message.rules) {
+      try {
+        rules.set(rule.id, compileRule(rule.source));
+      } catch (error) {
+        rules.set(rule.id, new Error('Failed to compile rule ' + rule.id + ': ' + (error && error.message)));
+      }
+    }
+    return;
+  }
+
+  if (message.type === 'batch') {
+    const results = [];
+    for (const task of message.tasks) {
+      const evaluate = rules.get(task.ruleId);
+      if (typeof evaluate !== 'function') {
+        results.push({
+          passed: true,
+          ruleId: task.ruleId,
+          elementIndex: task.elementIndex,
+          error: evaluate instanceof Error ? evaluate.message : 'Unknown rule ' + task.ruleId
+        });
+        continue;
+      }
+      try {
+        const outcome = await evaluate(task.snapshot, task.context);
+        results.push({
+          passed: !!(outcome && outcome.passed),
+          violation: outcome ? outcome.violation : undefined,
+          ruleId: task.ruleId,
+          elementIndex: task.elementIndex
+        });
+      } catch (error) {
+        results.push({
+          passed: true,
+          ruleId: task.ruleId,
+          elementIndex: task.elementIndex,
+          error: String(error && error.message ? error.message : error)
+        });
+      }
+    }
+    post({ type: 'result', id: message.id, results });
+  }
+}
+`;
+
+const BROWSER_PRELUDE = `
+const post = (message) => self.postMessage(message);
+self.onmessage = (event) => { handle(event.data); };
+`;
+
+const NODE_PRELUDE = `
+const { parentPort } = require('worker_threads');
+const post = (message) => parentPort.postMessage(message);
+parentPort.on('message', (message) => { handle(message); });
+`;
+
+
+
+
+export function isWorkerSafe(rule: CustomRule): boolean {
+  return rule.workerSafe === true && typeof rule.evaluateSnapshot === 'function';
+}
+
+
+
+
+export function serializeRule(rule: CustomRule): SerializedRule | null {
+  if (!isWorkerSafe(rule)) return null;
+
+  return {
+    id: rule.id,
+    source: rule.evaluateSnapshot!.toString()
+  };
 }
 
 export class WorkerPool {
   private maxWorkers: number;
+  private workers: PoolWorker[] = [];
+  private starting?: Promise<PoolWorker[]>;
+  private rules: SerializedRule[] = [];
+  private rulesSignature = '';
+  private pending: Map<number, PendingBatch> = new Map();
+  private messageId = 0;
+  private busyTime = 0;
+  private wallTime = 0;
 
   constructor(maxWorkers: number = 4) {
-    this.maxWorkers = maxWorkers;
+    this.maxWorkers = Math.max(1, maxWorkers);
+  }
+
+
+
+
+  static isSupported(): boolean {
+    if (typeof globalThis.Worker === 'function' && typeof Blob !== 'undefined' &&
+        typeof URL !== 'undefined' && typeof URL.createObjectURL === 'function') {
+      return true;
+    }
+    return typeof process !== 'undefined' && !!process.versions?.node;
+  }
+
+
+
+
+  registerRules(rules: SerializedRule[]): void {
+    const signature = rules.map(rule => `${rule.id}:${hashFingerprint([rule.source])}`).join('|');
+    if (signature === this.rulesSignature) return;
+
+    this.rules = rules;
+    this.rulesSignature = signature;
+    this.workers.forEach(worker => worker.post({ type: 'rules', rules }));
+  }
+
+  async processBatches(tasks: WorkerTask[], batchSize: number): Promise<WorkerResult[]> {
+    if (tasks.length === 0) return [];
+
+    const workers = await this.ensureWorkers();
+    const size = Math.max(1, batchSize);
+    const batches: WorkerTask[][] = [];
+    for (let i = 0; i < tasks.length; i += size) {
+      batches.push(tasks.slice(i, i + size));
+    }
+
+    const started = performance.now();
+    const settled = await Promise.all(
+      batches.map((batch, index) => this.dispatch(workers[index % workers.length], batch))
+    );
+    const elapsed = performance.now() - started;
+
+    this.wallTime += elapsed * workers.length;
+    return settled.flat();
   }
 
-  async processBatches<T>(tasks: T[], _batchSize: number): Promise<WorkerResult[]> {
-    
-    return [];
+
+
+
+  getUtilization(): number {
+    if (this.wallTime === 0) return 0;
+    return Math.min(1, this.busyTime / this.wallTime);
   }
 
   async terminate(): Promise<void> {
-    
+    const workers = this.workers;
+    this.workers = [];
+    this.starting = undefined;
+
+    this.pending.forEach(batch => batch.reject(new Error('Worker pool terminated')));
+    this.pending.clear();
+
+    await Promise.all(workers.map(worker => worker.terminate()));
   }
 
   getWorkerCount(): number {
     return this.maxWorkers;
   }
+
+
+
+
+  private dispatch(worker: PoolWorker, tasks: WorkerTask[]): Promise<WorkerResult[]> {
+    const id = ++this.messageId;
+    const started = performance.now();
+
+    return new Promise<WorkerResult[]>((resolve, reject) => {
+      this.pending.set(id, {
+        worker,
+        resolve: results => {
+          this.busyTime += performance.now() - started;
+          resolve(results);
+        },
+        reject
+      });
+      worker.setActive?.(true);
+      worker.post({ type: 'batch', id, tasks });
+    });
+  }
+
+
+
+
+  private ensureWorkers(): Promise<PoolWorker[]> {
+    if (!this.starting) {
+      this.starting = (async () => {
+        const workers = this.workers;
+        while (workers.length < this.maxWorkers) {
+          const worker = await this.createWorker();
+          worker.post({ type: 'rules', rules: this.rules });
+          workers.push(worker);
+        }
+        return workers;
+      })();
+
+      const reset = () => {
+        this.starting = undefined;
+      };
+      this.starting.then(reset, reset);
+    }
+    return this.starting;
+  }
+
+
+
+
+  private async createWorker(): Promise<PoolWorker> {
+    if (typeof globalThis.Worker === 'function' && typeof Blob !== 'undefined' &&
+        typeof URL !== 'undefined' && typeof URL.createObjectURL === 'function') {
+      const blob = new Blob([WORKER_RUNTIME + BROWSER_PRELUDE], { type: 'text/javascript' });
+      const url = URL.createObjectURL(blob);
+      const worker = new Worker(url);
+      const pooled: PoolWorker = {
+        post: message => worker.postMessage(message),
+        terminate: () => {
+          worker.terminate();
+          URL.revokeObjectURL(url);
+        }
+      };
+
+      worker.onmessage = event => this.handleMessage(event.data);
+      worker.onerror = event => this.retire(pooled, new Error(event.message || 'Worker error'));
+
+      return pooled;
+    }
+
+    if (typeof process !== 'undefined' && process.versions?.node) {
+      const { Worker: NodeWorker } = await import('node:worker_threads');
+      const worker = new NodeWorker(WORKER_RUNTIME + NODE_PRELUDE, { eval: true });
+      const pooled: PoolWorker = {
+        post: message => worker.postMessage(message),
+        terminate: () => worker.terminate(),
+        setActive: active => active ? worker.ref() : worker.unref()
+      };
+
+      worker.on('message', message => this.handleMessage(message));
+      worker.on('error', error => this.retire(pooled, error));
+      worker.on('exit', code => this.retire(pooled, new Error(`Worker exited with code ${code}`)));
+      worker.unref();
+
+      return pooled;
+    }
+
+    throw new Error('No worker implementation available in this environment');
+  }
+
+  private handleMessage(message: { type: string; id: number; results?: WorkerResult[] }): void {
+    if (!message || message.type !== 'result') return;
+
+    const batch = this.pending.get(message.id);
+    if (!batch) return;
+
+    this.pending.delete(message.id);
+    this.updateActivity(batch.worker);
+    batch.resolve(message.results || []);
+  }
+
+  private updateActivity(worker: PoolWorker): void {
+    const busy = Array.from(this.pending.values()).some(batch => batch.worker === worker);
+    worker.setActive?.(busy);
+  }
+
+
+
+
+  private retire(worker: PoolWorker, error: Error): void {
+    const index = this.workers.indexOf(worker);
+    if (index === -1) return;
+
+    this.workers.splice(index, 1);
+    this.pending.forEach((batch, id) => {
+      if (batch.worker !== worker) return;
+      this.pending.delete(id);
+      batch.reject(error);
+    });
+    void Promise.resolve(worker.terminate()).catch(() => undefined);
+  }
 }
@@ -30,6 +30,24 @@ export {
 
 
 export { getComputedColor, getEffectiveBackgroundColor } from './contrast.js';
+export {
+  getApcaContrast,
+  getApcaMinimumLc,
+  meetsApca,
+  evaluateContrastModels,
+  APCA_NON_TEXT_LC,
+  type ContrastModel,
+  type ContrastModelEvaluation
+} from './utils/color/apca.js';
+
+
+export { getUniqueSelector, resolveSelector, isStableClassName, type SelectorOptions } from './utils/selector.js';
+
+
+export * from './aria/index.js';
+
+
+export * from './keyboard/index.js';
 
 
 
@@ -49,6 +67,58 @@ export {
 
 
 export { EventEmitter } from './engine/events.js';
+export { RuleRegistry, type RuleFilter, type RegistryOptions } from './engine/rules/registry.js';
+export { adaptRule, normalizeRuleOutcome, type AnyRule, type RuleOutcome } from './engine/rules/adapters.js';
+export {
+  ReviewStore,
+  createMemoryReviewStorage,
+  createLocalReviewStorage,
+  getResultOutcome,
+  getReviewKey,
+  type ReviewStorage,
+  type ReviewOptions
+} from './engine/review.js';
+export {
+  IssueTracker,
+  getIssueFingerprint,
+  type TrackedIssue,
+  type TrackOptions,
+  type TrackResult
+} from './engine/tracker.js';
+export {
+  proposeFixes,
+  proposeContrastFixes,
+  findContrastFix,
+  formatOklch,
+  applyFix,
+  applyPatch,
+  type ContrastFix,
+  type ContrastColors,
+  type ContrastFixTarget,
+  type FixOptions
+} from './engine/fixes.js';
+export {
+  WCAG_CRITERIA,
+  getCriterion,
+  isCriterionInScope,
+  type SuccessCriterion,
+  type WcagLevel,
+  type WcagVersion
+} from './engine/rules/criteria.js';
+export * from './config/types.js';
+export { validateConfig, assertValidConfig } from './config/schema.js';
+export {
+  DEFAULT_CONFIG,
+  defineConfig,
+  resolveConfig,
+  mergeSettings,
+  matchesRoute,
+  toEngineConfig,
+  toEvaluationConfig,
+  toMonitorOptions,
+  toReportConfig,
+  toPreprocessorOptions
+} from './config/resolve.js';
 
 
 export { AccessibilityOrchestrator } from './AccessibilityOrchestrator.js';
@@ -64,7 +134,7 @@ import type {
 import { EventEmitter } from './engine/events.js';
 
 
-export interface AccessibilityConfig extends EvaluationConfig {
+export interface AccessibilityStreamConfig extends EvaluationConfig {
   streaming?: {
     endpoint?: string;
     batchSize?: number;
@@ -96,13 +166,13 @@ export interface AccessibilityConfig extends EvaluationConfig {
 
 
 export class AccessibilityStream extends EventEmitter {
-  private config: AccessibilityConfig;
+  private config: AccessibilityStreamConfig;
   private isRunning = false;
   private evaluationQueue: Element[][] = [];
   private isProcessing = false;
   private samplingInterval?: ReturnType<typeof setInterval>;
 
-  constructor(config: AccessibilityConfig) {
+  constructor(config: AccessibilityStreamConfig) {
     super();
     this.config = config;
   }
@@ -176,7 +246,7 @@ export class AccessibilityStream extends EventEmitter {
     return results;
   }
 
-  updateConfig(config: Partial<AccessibilityConfig>): void {
+  updateConfig(config: Partial<AccessibilityStreamConfig>): void {
     this.config = { ...this.config, ...config };
     this.emit('config-updated', this.config);
   }
@@ -217,7 +287,7 @@ export class AccessibilityStream extends EventEmitter {
 }
 
 
-export function createAccessibilityStream(config: AccessibilityConfig): AccessibilityStream {
+export function createAccessibilityStream(config: AccessibilityStreamConfig): AccessibilityStream {
   return new AccessibilityStream(config);
 }
 
@@ -0,0 +1,366 @@
+import type { RGB } from '../utils/color/types';
+import { parseColor } from '../utils/color/parser';
+import { getContrastRatio } from '../utils/color/contrast';
+import { alphaBlend, rgbToHex } from '../utils/color/conversion';
+import { resolveAdjacentBackground, resolveBackground } from '../utils/color/background';
+import { getUniqueSelector } from '../utils/selector';
+import { isRendered } from './focus-order';
+
+/** Minimum contrast between focused and unfocused pixels required by 2.4.13. */
+export const FOCUS_CHANGE_CONTRAST = 3;
+
+const SIDES = ['top', 'right', 'bottom', 'left'] as const;
+const SAMPLE_GRID = 5;
+
+const TRACKED_PROPERTIES = [
+  'outline-style',
+  'outline-width',
+  'outline-color',
+  'outline-offset',
+  'box-shadow',
+  ...SIDES.flatMap(side => [`border-${side}-style`, `border-${side}-width`, `border-${side}-color`]),
+  'background-color',
+  'color',
+  'text-decoration-line'
+];
+
+export type FocusIndicatorKind = 'outline' | 'box-shadow' | 'border' | 'background';
+
+export interface FocusStyleChange {
+  property: string;
+  unfocused: string;
+  focused: string;
+}
+
+export interface FocusIndicatorPart {
+  kind: FocusIndicatorKind;
+  /** Area in CSS px², or null when the element has no layout box to measure. */
+  area: number | null;
+  /** Contrast between the indicator pixels in the focused and unfocused states. */
+  changeContrast: number | null;
+  color: string | null;
+}
+
+export interface FocusAppearanceMeasurement {
+  selector: string;
+  /** Whether focus actually landed on the element; nothing else is meaningful when it did not. */
+  focusable: boolean;
+  changes: FocusStyleChange[];
+  parts: FocusIndicatorPart[];
+  /** Whether any style that affects rendering changes on focus. */
+  visible: boolean;
+  /** Combined area of indicator parts that reach the 3:1 change contrast. */
+  indicatorArea: number | null;
+  /** Area of a 2 CSS px perimeter around the unfocused element, the 2.4.13 minimum. */
+  requiredArea: number | null;
+  /** Best change contrast among the indicator parts. */
+  changeContrast: number | null;
+  /** Share of the focused element covered by fixed or sticky content, from 0 to 1. */
+  obscuredFraction: number;
+  obscuredBy: string[];
+  rect: { width: number; height: number } | null;
+}
+
+export interface FocusAppearanceViolation {
+  criterion: '2.4.7' | '2.4.11' | '2.4.12' | '2.4.13';
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface FocusAppearanceResult {
+  measurement: FocusAppearanceMeasurement;
+  violations: FocusAppearanceViolation[];
+}
+
+export interface FocusAppearanceOptions {
+  /** Candidate overlays; defaults to every fixed or sticky element in the document. */
+  overlays?: Element[];
+  /** State captured while the element was unfocused, so an already focused element is measured without moving focus. */
+  unfocused?: UnfocusedState;
+}
+
+export interface UnfocusedState {
+  styles: StyleSnapshot;
+  box: DOMRect;
+}
+
+type StyleSnapshot = Record<string, string>;
+
+
+
+
+export function captureUnfocusedState(element: Element): UnfocusedState {
+  return { styles: snapshot(element), box: element.getBoundingClientRect() };
+}
+
+
+
+
+export function measureFocusAppearance(
+  element: Element,
+  options: FocusAppearanceOptions = {}
+): FocusAppearanceMeasurement {
+  const target = element as HTMLElement;
+  const doc = element.ownerDocument;
+  const previous = doc.activeElement as HTMLElement | null;
+
+  if (previous === target && !options.unfocused) target.blur();
+  const { styles: unfocused, box } = options.unfocused ?? captureUnfocusedState(element);
+
+  if (doc.activeElement !== target) target.focus({ preventScroll: true });
+  const focusable = doc.activeElement === target;
+  const focused = snapshot(element);
+  const focusedBox = element.getBoundingClientRect();
+  const overlays = options.overlays ?? findOverlays(doc);
+  const obscured = measureObscured(element, focusedBox, overlays);
+
+  if (previous && previous !== target && typeof previous.focus === 'function') {
+    previous.focus({ preventScroll: true });
+  } else if (previous !== target) {
+    target.blur();
+  }
+
+  const changes = TRACKED_PROPERTIES
+    .filter(property => unfocused[property] !== focused[property])
+    .map(property => ({ property, unfocused: unfocused[property], focused: focused[property] }));
+
+  const rect = box.width > 0 && box.height > 0 ? { width: box.width, height: box.height } : null;
+  const parts = measureParts(element, unfocused, focused, rect);
+  const contrasts = parts.map(part => part.changeContrast).filter((value): value is number => value !== null);
+
+  return {
+    selector: getUniqueSelector(element),
+    focusable,
+    changes,
+    parts,
+    visible: parts.some(part => part.changeContrast === null || part.changeContrast > 1) ||
+      changes.some(change => change.property === 'text-decoration-line' || change.property === 'color'),
+    indicatorArea: rect
+      ? parts
+        .filter(part => (part.changeContrast ?? 0) >= FOCUS_CHANGE_CONTRAST)
+        .reduce((sum, part) => sum + (part.area ?? 0), 0)
+      : null,
+    requiredArea: rect ? 4 * (rect.width + rect.height) : null,
+    changeContrast: contrasts.length > 0 ? Math.max(...contrasts) : null,
+    obscuredFraction: obscured.fraction,
+    obscuredBy: obscured.overlays.map(overlay => getUniqueSelector(overlay)),
+    rect
+  };
+}
+
+
+
+
+export function evaluateFocusAppearance(
+  element: Element,
+  options: FocusAppearanceOptions = {}
+): FocusAppearanceResult {
+  const measurement = measureFocusAppearance(element, options);
+  const violations: FocusAppearanceViolation[] = [];
+  if (!measurement.focusable) return { measurement, violations };
+
+  if (!measurement.visible) {
+    violations.push({
+      criterion: '2.4.7',
+      severity: 'error',
+      message: 'Element has no visible focus indicator'
+    });
+  } else if (measurement.indicatorArea !== null && measurement.requiredArea !== null &&
+    measurement.indicatorArea < measurement.requiredArea) {
+    const contrast = measurement.changeContrast?.toFixed(2) ?? 'unknown';
+    violations.push({
+      criterion: '2.4.13',
+      severity: 'warning',
+      message: `Focus indicator covers ${Math.round(measurement.indicatorArea)}px² at ${FOCUS_CHANGE_CONTRAST}:1 change contrast ` +
+        `(best change contrast ${contrast}:1); at least ${Math.round(measurement.requiredArea)}px² is required`
+    });
+  }
+
+  if (measurement.obscuredFraction >= 1) {
+    violations.push({
+      criterion: '2.4.11',
+      severity: 'error',
+      message: `Focused element is entirely hidden by ${measurement.obscuredBy.join(', ')}`
+    });
+  } else if (measurement.obscuredFraction > 0) {
+    violations.push({
+      criterion: '2.4.12',
+      severity: 'warning',
+      message: `Focused element is ${Math.round(measurement.obscuredFraction * 100)}% hidden by ${measurement.obscuredBy.join(', ')}`
+    });
+  }
+
+  return { measurement, violations };
+}
+
+
+
+
+export function findOverlays(doc: Document = document): Element[] {
+  return Array.from(doc.body?.querySelectorAll('*') ?? []).filter(candidate => {
+    const position = window.getComputedStyle(candidate).position;
+    return (position === 'fixed' || position === 'sticky') && isRendered(candidate);
+  });
+}
+
+function snapshot(element: Element): StyleSnapshot {
+  const styles = window.getComputedStyle(element);
+  return Object.fromEntries(TRACKED_PROPERTIES.map(property => [property, styles.getPropertyValue(property)]));
+}
+
+
+
+
+function measureParts(
+  element: Element,
+  unfocused: StyleSnapshot,
+  focused: StyleSnapshot,
+  rect: { width: number; height: number } | null
+): FocusIndicatorPart[] {
+  const adjacent = resolveAdjacentBackground(element).color;
+  const own = resolveBackground(element).color;
+  const parts: FocusIndicatorPart[] = [];
+  const width = rect?.width ?? 0;
+  const height = rect?.height ?? 0;
+
+  const outline = readOutline(focused);
+  const before = readOutline(unfocused);
+  if (outline && (!before || before.color !== outline.color || before.width !== outline.width || before.offset !== outline.offset)) {
+    const color = toOpaque(outline.color, adjacent);
+    const previous = before && before.offset === outline.offset ? toOpaque(before.color, adjacent) : adjacent;
+    const inner = Math.max(0, outline.offset);
+    parts.push({
+      kind: 'outline',
+      area: rect ? ringArea(width + 2 * inner, height + 2 * inner, outline.width) : null,
+      changeContrast: color && previous ? getContrastRatio(color, previous) : null,
+      color: color ? toHex(color) : null
+    });
+  }
+
+  if (focused['box-shadow'] !== unfocused['box-shadow']) {
+    for (const shadow of parseShadows(focused['box-shadow'])) {
+      const backdrop = shadow.inset ? own : adjacent;
+      const color = toOpaque(shadow.color, backdrop);
+      const reach = shadow.spread + shadow.blur / 2;
+      if (reach <= 0) continue;
+
+      parts.push({
+        kind: 'box-shadow',
+        area: rect
+          ? shadow.inset
+            ? width * height - Math.max(0, width - 2 * reach) * Math.max(0, height - 2 * reach)
+            : ringArea(width, height, reach)
+          : null,
+        changeContrast: color && backdrop ? getContrastRatio(color, backdrop) : null,
+        color: color ? toHex(color) : null
+      });
+    }
+  }
+
+  for (const side of SIDES) {
+    const style = focused[`border-${side}-style`];
+    const sideWidth = parseFloat(focused[`border-${side}-width`]) || 0;
+    const colorChanged = focused[`border-${side}-color`] !== unfocused[`border-${side}-color`];
+    const widthChanged = focused[`border-${side}-width`] !== unfocused[`border-${side}-width`];
+    if (!style || style === 'none' || style === 'hidden' || sideWidth <= 0 || (!colorChanged && !widthChanged)) continue;
+
+    const hadBorder = unfocused[`border-${side}-style`] && unfocused[`border-${side}-style`] !== 'none';
+    const color = toOpaque(focused[`border-${side}-color`], own);
+    const previous = hadBorder ? toOpaque(unfocused[`border-${side}-color`], own) : own;
+    parts.push({
+      kind: 'border',
+      area: rect ? sideWidth * (side === 'top' || side === 'bottom' ? width : height) : null,
+      changeContrast: color && previous ? getContrastRatio(color, previous) : null,
+      color: color ? toHex(color) : null
+    });
+  }
+
+  if (focused['background-color'] !== unfocused['background-color']) {
+    const backdrop = adjacent;
+    const color = toOpaque(focused['background-color'], backdrop);
+    const previous = toOpaque(unfocused['background-color'] || 'transparent', backdrop) ?? backdrop;
+    parts.push({
+      kind: 'background',
+      area: rect ? width * height : null,
+      changeContrast: color && previous ? getContrastRatio(color, previous) : null,
+      color: color ? toHex(color) : null
+    });
+  }
+
+  return parts;
+}
+
+function readOutline(styles: StyleSnapshot): { color: string; width: number; offset: number } | null {
+  const style = styles['outline-style'];
+  const width = parseFloat(styles['outline-width']) || 0;
+  if (!style || style === 'none' || width <= 0) return null;
+
+  return { color: styles['outline-color'], width, offset: parseFloat(styles['outline-offset']) || 0 };
+}
+
+
+
+
+function parseShadows(value: string): Array<{ color: string; blur: number; spread: number; inset: boolean }> {
+  if (!value || value === 'none') return [];
+
+  return value.split(/,(?![^(]*\))/).map(shadow => {
+    const color = shadow.match(/(#[0-9a-f]{3,8}|(?:rgba?|hsla?|oklch|oklab)\([^)]*\)|\b[a-z]+\b(?<!inset))/i)?.[1] ?? 'currentcolor';
+    const lengths = shadow.replace(color, '').match(/-?\d*\.?\d+(px)?/g)?.map(parseFloat) ?? [];
+    return {
+      color,
+      blur: Math.max(0, lengths[2] ?? 0),
+      spread: lengths[3] ?? 0,
+      inset: /\binset\b/.test(shadow)
+    };
+  });
+}
+
+function ringArea(width: number, height: number, thickness: number): number {
+  return (width + 2 * thickness) * (height + 2 * thickness) - width * height;
+}
+
+function toOpaque(value: string, backdrop: RGB | null): RGB | null {
+  const color = parseColor(value);
+  if (!color || !backdrop) return null;
+  return alphaBlend({ ...color, a: color.a ?? 1 }, backdrop);
+}
+
+function toHex(color: RGB): string {
+  return rgbToHex({ r: color.r, g: color.g, b: color.b });
+}
+
+
+
+
+function measureObscured(
+  element: Element,
+  box: DOMRect,
+  overlays: Element[]
+): { fraction: number; overlays: Element[] } {
+  if (!(box.width > 0 && box.height > 0)) return { fraction: 0, overlays: [] };
+
+  const covering = overlays
+    .filter(overlay => overlay !== element && !overlay.contains(element) && !element.contains(overlay))
+    .map(overlay => ({ overlay, rect: overlay.getBoundingClientRect() }))
+    .filter(({ rect }) => rect.width > 0 && rect.height > 0 &&
+      rect.left < box.right && rect.right > box.left && rect.top < box.bottom && rect.bottom > box.top);
+
+  if (covering.length === 0) return { fraction: 0, overlays: [] };
+
+  const used = new Set<Element>();
+  let hidden = 0;
+  for (let row = 0; row < SAMPLE_GRID; row++) {
+    for (let column = 0; column < SAMPLE_GRID; column++) {
+      const x = box.left + (column + 0.5) * box.width / SAMPLE_GRID;
+      const y = box.top + (row + 0.5) * box.height / SAMPLE_GRID;
+      const hit = covering.find(({ rect }) => x >= rect.left && x <= rect.right && y >= rect.top && y <= rect.bottom);
+      if (hit) {
+        hidden++;
+        used.add(hit.overlay);
+      }
+    }
+  }
+
+  return { fraction: hidden / (SAMPLE_GRID * SAMPLE_GRID), overlays: Array.from(used) };
+}
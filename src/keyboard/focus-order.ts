@@ -0,0 +1,378 @@
+import { getUniqueSelector } from '../utils/selector';
+
+export interface FocusRect {
+  top: number;
+  left: number;
+  width: number;
+  height: number;
+}
+
+export type FocusScope = 'document' | 'shadow-root' | 'iframe';
+
+export interface FocusStop {
+  element: Element;
+  selector: string;
+  /** Effective tabindex; 0 for natively focusable elements without the attribute. */
+  tabIndex: number;
+  /** Position among all stops in composed tree order, ignoring tabindex. */
+  domIndex: number;
+  /** Innermost focus navigation scope the element belongs to. */
+  scope: FocusScope;
+  /** Border box in top-level viewport coordinates, or null when the element has no layout box. */
+  rect: FocusRect | null;
+}
+
+export interface FocusOrderOptions {
+  /** Navigate into same-origin iframes (default true). Other iframes stay a single stop. */
+  includeFrames?: boolean;
+  /** Vertical distance in pixels within which boxes are read as the same line (default 8). */
+  lineTolerance?: number;
+}
+
+export type FocusJumpReason = 'positive-tabindex' | 'visual-order';
+
+export interface FocusOrderJump {
+  from: FocusStop;
+  to: FocusStop;
+  fromVisualIndex: number;
+  toVisualIndex: number;
+  reason: FocusJumpReason;
+}
+
+export interface FocusOrderAnalysis {
+  /** Stops in the order sequential focus navigation visits them. */
+  sequence: FocusStop[];
+  /** Stops with a layout box in visual reading order. */
+  visualOrder: FocusStop[];
+  /** Steps in the sequence that move backwards in the visual reading order. */
+  jumps: FocusOrderJump[];
+  /** False when no stop has a measurable box, e.g. in a DOM without layout. */
+  layoutAvailable: boolean;
+  /** Iframes whose documents could not be entered, such as cross-origin frames. */
+  opaqueFrames: Element[];
+}
+
+interface ScopeEntry {
+  tabIndex: number;
+  stop: FocusStop | null;
+  nested: FocusStop[];
+}
+
+interface WalkContext {
+  options: Required<FocusOrderOptions>;
+  treeOrder: FocusStop[];
+  opaqueFrames: Element[];
+  offset: { top: number; left: number };
+}
+
+const DISABLEABLE = new Set(['BUTTON', 'INPUT', 'SELECT', 'TEXTAREA', 'OPTGROUP', 'OPTION', 'FIELDSET']);
+const SKIPPED = new Set(['SCRIPT', 'STYLE', 'TEMPLATE', 'NOSCRIPT', 'HEAD']);
+
+
+
+
+export function getTabSequence(root: Element | Document = document, options: FocusOrderOptions = {}): FocusStop[] {
+  return walkTabSequence(root, resolveOptions(options)).sequence;
+}
+
+
+
+
+export function analyzeFocusOrder(
+  root: Element | Document = document,
+  options: FocusOrderOptions = {}
+): FocusOrderAnalysis {
+  const opts = resolveOptions(options);
+  const { sequence, opaqueFrames } = walkTabSequence(root, opts);
+
+  const direction = (isDocument(root) ? root.documentElement : root)
+    ?.closest('[dir]')?.getAttribute('dir');
+  const visualOrder = getVisualOrder(sequence, opts.lineTolerance, direction === 'rtl');
+
+  const visualIndex = new Map(visualOrder.map((stop, index) => [stop, index]));
+  const measured = sequence.filter(stop => visualIndex.has(stop));
+
+  const jumps: FocusOrderJump[] = [];
+  for (let i = 1; i < measured.length; i++) {
+    const from = measured[i - 1];
+    const to = measured[i];
+    const fromVisualIndex = visualIndex.get(from)!;
+    const toVisualIndex = visualIndex.get(to)!;
+
+    if (toVisualIndex < fromVisualIndex) {
+      jumps.push({
+        from,
+        to,
+        fromVisualIndex,
+        toVisualIndex,
+        reason: from.tabIndex > 0 || to.tabIndex > 0 ? 'positive-tabindex' : 'visual-order'
+      });
+    }
+  }
+
+  return {
+    sequence,
+    visualOrder,
+    jumps,
+    layoutAvailable: visualOrder.length > 0,
+    opaqueFrames
+  };
+}
+
+
+
+
+export function getVisualOrder(stops: FocusStop[], lineTolerance = 8, rtl = false): FocusStop[] {
+  const measured = stops
+    .filter(stop => stop.rect && (stop.rect.width > 0 || stop.rect.height > 0))
+    .sort((a, b) => a.rect!.top - b.rect!.top || a.domIndex - b.domIndex);
+
+  const lines: FocusStop[][] = [];
+  for (const stop of measured) {
+    const line = lines[lines.length - 1];
+    if (line && stop.rect!.top - line[0].rect!.top <= lineTolerance) {
+      line.push(stop);
+    } else {
+      lines.push([stop]);
+    }
+  }
+
+  return lines.flatMap(line => line.sort((a, b) => rtl
+    ? (b.rect!.left + b.rect!.width) - (a.rect!.left + a.rect!.width)
+    : a.rect!.left - b.rect!.left
+  ));
+}
+
+
+
+
+export function isInSequentialFocusOrder(element: Element): boolean {
+  const tabIndex = getEffectiveTabIndex(element);
+  return tabIndex !== null && tabIndex >= 0 && isRendered(element);
+}
+
+function resolveOptions(options: FocusOrderOptions): Required<FocusOrderOptions> {
+  return { includeFrames: true, lineTolerance: 8, ...options };
+}
+
+function walkTabSequence(
+  root: Element | Document,
+  options: Required<FocusOrderOptions>
+): { sequence: FocusStop[]; opaqueFrames: Element[] } {
+  const context: WalkContext = { options, treeOrder: [], opaqueFrames: [], offset: { top: 0, left: 0 } };
+
+  const start = isDocument(root) ? root.body ?? root.documentElement : root;
+  if (!start || isExcludedByAncestor(start)) return { sequence: [], opaqueFrames: [] };
+
+  const sequence = navigateScope([start], 'document', context);
+  context.treeOrder.forEach((stop, index) => { stop.domIndex = index; });
+
+  return { sequence, opaqueFrames: context.opaqueFrames };
+}
+
+
+
+
+function navigateScope(roots: Element[], scope: FocusScope, context: WalkContext): FocusStop[] {
+  const entries: ScopeEntry[] = [];
+
+  const visit = (element: Element) => {
+    if (SKIPPED.has(element.tagName) || isExcluded(element)) return;
+
+    const tabIndex = getEffectiveTabIndex(element);
+    const style = window.getComputedStyle(element);
+    const visible = style.visibility !== 'hidden' && style.visibility !== 'collapse';
+
+    if (element.tagName === 'IFRAME') {
+      visitFrame(element as HTMLIFrameElement, tabIndex, visible, scope, context, entries);
+      return;
+    }
+
+    const shadowRoot = (element as HTMLElement).shadowRoot;
+    const isSlot = element.tagName === 'SLOT';
+
+    const stop = tabIndex !== null && tabIndex >= 0 && visible ? createStop(element, tabIndex, scope, context) : null;
+
+    if (shadowRoot || isSlot) {
+      const ownerTabIndex = tabIndex ?? 0;
+      const nested = ownerTabIndex < 0
+        ? []
+        : shadowRoot
+          ? navigateScope(Array.from(shadowRoot.children), 'shadow-root', context)
+          : navigateScope(getSlotContent(element as HTMLSlotElement), scope, context);
+      entries.push({ tabIndex: ownerTabIndex, stop, nested });
+      return;
+    }
+
+    if (stop) entries.push({ tabIndex: stop.tabIndex, stop, nested: [] });
+    Array.from(element.children).forEach(visit);
+  };
+
+  roots.forEach(visit);
+
+  const positive = entries
+    .filter(entry => entry.tabIndex > 0)
+    .sort((a, b) => a.tabIndex - b.tabIndex);
+  const ordered = [...positive, ...entries.filter(entry => entry.tabIndex === 0)];
+
+  return ordered.flatMap(entry => entry.stop ? [entry.stop, ...entry.nested] : entry.nested);
+}
+
+function visitFrame(
+  frame: HTMLIFrameElement,
+  tabIndex: number | null,
+  visible: boolean,
+  scope: FocusScope,
+  context: WalkContext,
+  entries: ScopeEntry[]
+) {
+  if (tabIndex !== null && tabIndex < 0) return;
+
+  let frameDocument: Document | null = null;
+  if (context.options.includeFrames) {
+    try {
+      frameDocument = frame.contentDocument;
+    } catch {
+      frameDocument = null;
+    }
+  }
+
+  if (!frameDocument?.body) {
+    context.opaqueFrames.push(frame);
+    if (visible) {
+      const stop = createStop(frame, tabIndex ?? 0, scope, context);
+      entries.push({ tabIndex: stop.tabIndex, stop, nested: [] });
+    }
+    return;
+  }
+
+  const box = frame.getBoundingClientRect();
+  const outer = context.offset;
+  context.offset = { top: outer.top + box.top, left: outer.left + box.left };
+  const nested = navigateScope([frameDocument.body], 'iframe', context);
+  context.offset = outer;
+
+  entries.push({ tabIndex: tabIndex ?? 0, stop: null, nested });
+}
+
+function createStop(element: Element, tabIndex: number, scope: FocusScope, context: WalkContext): FocusStop {
+  const box = element.getBoundingClientRect();
+  const stop: FocusStop = {
+    element,
+    selector: getUniqueSelector(element),
+    tabIndex,
+    domIndex: -1,
+    scope,
+    rect: box.width > 0 || box.height > 0
+      ? {
+        top: box.top + context.offset.top,
+        left: box.left + context.offset.left,
+        width: box.width,
+        height: box.height
+      }
+      : null
+  };
+  context.treeOrder.push(stop);
+  return stop;
+}
+
+function getSlotContent(slot: HTMLSlotElement): Element[] {
+  const assigned = typeof slot.assignedElements === 'function' ? slot.assignedElements({ flatten: true }) : [];
+  return assigned.length > 0 ? assigned : Array.from(slot.children);
+}
+
+
+
+
+function getEffectiveTabIndex(element: Element): number | null {
+  if (isDisabled(element)) return null;
+
+  const attribute = element.getAttribute('tabindex');
+  if (attribute !== null && /^\s*[+-]?\d+\s*$/.test(attribute)) {
+    return parseInt(attribute, 10);
+  }
+
+  return isNativelyFocusable(element) ? 0 : null;
+}
+
+function isNativelyFocusable(element: Element): boolean {
+  switch (element.tagName) {
+    case 'A':
+    case 'AREA':
+      return element.hasAttribute('href');
+    case 'INPUT':
+      return (element.getAttribute('type') || '').toLowerCase() !== 'hidden';
+    case 'BUTTON':
+    case 'SELECT':
+    case 'TEXTAREA':
+    case 'IFRAME':
+      return true;
+    case 'SUMMARY':
+      return isDetailsSummary(element);
+    case 'AUDIO':
+    case 'VIDEO':
+      return element.hasAttribute('controls');
+  }
+
+  const editable = element.getAttribute('contenteditable');
+  return editable === '' || editable === 'true' || editable === 'plaintext-only';
+}
+
+function isDisabled(element: Element): boolean {
+  if (!DISABLEABLE.has(element.tagName)) return false;
+  if (element.hasAttribute('disabled')) return true;
+
+  for (let fieldset = element.parentElement?.closest('fieldset[disabled]'); fieldset;
+    fieldset = fieldset.parentElement?.closest('fieldset[disabled]')) {
+    const legend = Array.from(fieldset.children).find(child => child.tagName === 'LEGEND');
+    if (!legend?.contains(element)) return true;
+  }
+
+  return false;
+}
+
+function isDetailsSummary(element: Element): boolean {
+  const details = element.parentElement;
+  return details?.tagName === 'DETAILS' &&
+    Array.from(details.children).find(child => child.tagName === 'SUMMARY') === element;
+}
+
+
+
+
+function isExcluded(element: Element): boolean {
+  if (element.hasAttribute('inert') || element.hasAttribute('hidden')) return true;
+  if (window.getComputedStyle(element).display === 'none') return true;
+
+  const parent = element.parentElement;
+  return parent?.tagName === 'DETAILS' && !parent.hasAttribute('open') && !isDetailsSummary(element);
+}
+
+function isExcludedByAncestor(element: Element): boolean {
+  for (let current = getFlatTreeParent(element); current; current = getFlatTreeParent(current)) {
+    if (isExcluded(current)) return true;
+  }
+  return false;
+}
+
+
+
+
+export function isRendered(element: Element): boolean {
+  if (isExcluded(element) || isExcludedByAncestor(element)) return false;
+
+  const visibility = window.getComputedStyle(element).visibility;
+  return visibility !== 'hidden' && visibility !== 'collapse';
+}
+
+function getFlatTreeParent(element: Element): Element | null {
+  if (element.assignedSlot) return element.assignedSlot;
+  if (element.parentElement) return element.parentElement;
+
+  const root = element.getRootNode() as ShadowRoot;
+  return root.nodeType === Node.DOCUMENT_FRAGMENT_NODE && root.host ? root.host : null;
+}
+
+function isDocument(root: Element | Document): root is Document {
+  return root.nodeType === Node.DOCUMENT_NODE;
+}
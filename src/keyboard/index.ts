@@ -0,0 +1,42 @@
+export {
+  getTabSequence,
+  analyzeFocusOrder,
+  getVisualOrder,
+  isInSequentialFocusOrder,
+  type FocusStop,
+  type FocusRect,
+  type FocusScope,
+  type FocusOrderOptions,
+  type FocusOrderJump,
+  type FocusJumpReason,
+  type FocusOrderAnalysis
+} from './focus-order';
+
+export {
+  probeKeyboardTrap,
+  probeKeyboardTraps,
+  findKeyboardProbeTargets,
+  type ProbeKey,
+  type ProbeStep,
+  type ProbeTargetKind,
+  type KeyboardProbeFinding,
+  type KeyboardProbeFindingType,
+  type KeyboardProbeOptions,
+  type KeyboardProbeResult
+} from './trap-probe';
+
+export {
+  measureFocusAppearance,
+  evaluateFocusAppearance,
+  captureUnfocusedState,
+  findOverlays,
+  FOCUS_CHANGE_CONTRAST,
+  type FocusAppearanceMeasurement,
+  type FocusAppearanceOptions,
+  type FocusAppearanceResult,
+  type FocusAppearanceViolation,
+  type FocusIndicatorKind,
+  type FocusIndicatorPart,
+  type FocusStyleChange,
+  type UnfocusedState
+} from './focus-appearance';
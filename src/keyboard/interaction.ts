@@ -0,0 +1,112 @@
+export interface KeyPressOptions {
+  shiftKey?: boolean;
+  /** Browser default behaviour to emulate when no handler cancels the keydown. */
+  defaultAction?: () => void;
+}
+
+
+
+
+export function pressKey(target: Element, key: string, options: KeyPressOptions = {}): boolean {
+  const init: KeyboardEventInit = {
+    key,
+    code: getKeyCode(key),
+    shiftKey: options.shiftKey ?? false,
+    bubbles: true,
+    cancelable: true,
+    composed: true
+  };
+
+  const handled = !target.dispatchEvent(new KeyboardEvent('keydown', init));
+  if (!handled) options.defaultAction?.();
+
+  (target.ownerDocument.activeElement ?? target).dispatchEvent(new KeyboardEvent('keyup', init));
+  return handled;
+}
+
+
+
+
+export async function withRestoredState<T>(doc: Document, run: () => Promise<T>): Promise<T> {
+  const restore = recordState(doc);
+  try {
+    return await run();
+  } finally {
+    restore();
+  }
+}
+
+
+
+
+export function withRestoredStateSync<T>(doc: Document, run: () => T): T {
+  const restore = recordState(doc);
+  try {
+    return run();
+  } finally {
+    restore();
+  }
+}
+
+export function settle(ms = 0): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function recordState(doc: Document): () => void {
+  const originalFocus = doc.activeElement;
+  const mutations: MutationRecord[] = [];
+  const observer = new MutationObserver(records => mutations.push(...records));
+  observer.observe(doc, {
+    subtree: true,
+    childList: true,
+    attributes: true,
+    attributeOldValue: true,
+    characterData: true,
+    characterDataOldValue: true
+  });
+
+  return () => {
+    mutations.push(...observer.takeRecords());
+    observer.disconnect();
+    undoMutations(mutations);
+    restoreFocus(doc, originalFocus);
+  };
+}
+
+function getKeyCode(key: string): string {
+  if (key.length !== 1) return key;
+  if (key === ' ') return 'Space';
+  return /[a-z]/i.test(key) ? `Key${key.toUpperCase()}` : /\d/.test(key) ? `Digit${key}` : key;
+}
+
+
+
+
+function undoMutations(records: MutationRecord[]) {
+  for (const record of [...records].reverse()) {
+    if (record.type === 'attributes' && record.attributeName) {
+      const target = record.target as Element;
+      if (record.oldValue === null) {
+        target.removeAttribute(record.attributeName);
+      } else {
+        target.setAttribute(record.attributeName, record.oldValue);
+      }
+    } else if (record.type === 'characterData') {
+      (record.target as CharacterData).data = record.oldValue ?? '';
+    } else if (record.type === 'childList') {
+      record.addedNodes.forEach(node => node.parentNode?.removeChild(node));
+      record.removedNodes.forEach(node => {
+        const reference = record.nextSibling?.parentNode === record.target ? record.nextSibling : null;
+        record.target.insertBefore(node, reference);
+      });
+    }
+  }
+}
+
+function restoreFocus(doc: Document, element: Element | null) {
+  if (element && element !== doc.body && element.isConnected) {
+    (element as HTMLElement).focus();
+  } else {
+    (doc.activeElement as HTMLElement | null)?.blur?.();
+  }
+}
@@ -0,0 +1,284 @@
+import { computeAccessibleName } from '../aria';
+import { getUniqueSelector } from '../utils/selector';
+import { getTabSequence, isRendered } from './focus-order';
+import { pressKey, settle, withRestoredState } from './interaction';
+
+export type ProbeKey = 'Tab' | 'Shift+Tab' | 'Escape';
+
+export type ProbeTargetKind = 'modal' | 'dialog' | 'menu' | 'widget';
+
+export type KeyboardProbeFindingType = 'keyboard-trap' | 'focus-not-contained' | 'focus-not-restored';
+
+export interface ProbeStep {
+  key: ProbeKey;
+  /** Selector of the element that received the key, null for the document body. */
+  from: string | null;
+  /** Selector of the element focused afterwards, null when focus left the page or was lost. */
+  to: string | null;
+  /** Whether a page handler cancelled the key's default focus movement. */
+  handled: boolean;
+  /** Whether focus is still inside the probed container. */
+  inside: boolean;
+}
+
+export interface KeyboardProbeFinding {
+  type: KeyboardProbeFindingType;
+  wcagCriteria: string;
+  message: string;
+}
+
+export interface KeyboardProbeResult {
+  container: Element;
+  selector: string;
+  kind: ProbeTargetKind;
+  steps: ProbeStep[];
+  /** Whether Escape closed the container or moved focus out of it. */
+  closedByEscape: boolean;
+  findings: KeyboardProbeFinding[];
+}
+
+export interface KeyboardProbeOptions {
+  /** Control that opened the container; defaults to an element whose aria-controls references it. */
+  trigger?: Element | null;
+  /** Tab presses in each direction; defaults to the container's stop count plus two. */
+  maxSteps?: number;
+  /** Milliseconds to wait after each key so framework updates can settle (default 0). */
+  settleTime?: number;
+}
+
+const TARGET_SELECTOR = [
+  '[role="dialog"]',
+  '[role="alertdialog"]',
+  'dialog[open]',
+  '[role="menu"]',
+  '[role="menubar"]',
+  '[role="listbox"]',
+  '[role="tree"]',
+  '[role="treegrid"]',
+  '[role="grid"]',
+  '[role="tablist"]',
+  '[role="toolbar"]',
+  '[role="radiogroup"]'
+].join(', ');
+
+const CLOSE_NAME = /close|cancel|dismiss|^(x|×|✕)$/i;
+
+
+
+
+export function findKeyboardProbeTargets(root: Element | Document = document): Element[] {
+  return Array.from(root.querySelectorAll(TARGET_SELECTOR))
+    .filter(element => isRendered(element) && getFocusStart(element) !== null);
+}
+
+
+
+
+export async function probeKeyboardTrap(
+  container: Element,
+  options: KeyboardProbeOptions = {}
+): Promise<KeyboardProbeResult> {
+  const kind = getProbeKind(container);
+  const result: KeyboardProbeResult = {
+    container,
+    selector: getUniqueSelector(container),
+    kind,
+    steps: [],
+    closedByEscape: false,
+    findings: []
+  };
+
+  const start = getFocusStart(container);
+  if (!start) return result;
+
+  const doc = container.ownerDocument;
+  const trigger = options.trigger === undefined ? findTrigger(container) : options.trigger;
+  const innerStops = getTabSequence(container).length;
+  const maxSteps = options.maxSteps ?? innerStops + 2;
+
+  const send = async (key: ProbeKey) => {
+    const step = sendKey(container, key);
+    await settle(options.settleTime ?? 0);
+    step.to = describeFocus(doc.activeElement);
+    step.inside = container.contains(doc.activeElement);
+    result.steps.push(step);
+    return step;
+  };
+
+  await withRestoredState(doc, async () => {
+    (trigger as HTMLElement | null)?.focus?.();
+
+    let leftForward = false;
+    (start as HTMLElement).focus();
+    for (let i = 0; i < maxSteps && !leftForward; i++) {
+      leftForward = !(await send('Tab')).inside;
+    }
+
+    let leftBackward = false;
+    (start as HTMLElement).focus();
+    for (let i = 0; i < maxSteps && !leftBackward; i++) {
+      leftBackward = !(await send('Shift+Tab')).inside;
+    }
+
+    const movedOut = result.steps.filter(step => !step.inside);
+    const escapedTo = movedOut.find(step => step.to !== null);
+
+    (start as HTMLElement).focus();
+    await send('Escape');
+    result.closedByEscape = !container.isConnected || !isRendered(container) ||
+      !container.contains(doc.activeElement);
+
+    if (kind === 'modal') {
+      if (escapedTo) {
+        result.findings.push({
+          type: 'focus-not-contained',
+          wcagCriteria: '2.4.3',
+          message: `Focus moved out of the modal dialog to ${escapedTo.to} while it was open`
+        });
+      }
+
+      if (!result.closedByEscape && !hasCloseControl(container)) {
+        result.findings.push({
+          type: 'keyboard-trap',
+          wcagCriteria: '2.1.2',
+          message: 'Focus cannot leave the modal dialog: Escape does not close it and it has no close button'
+        });
+      }
+    } else if (!leftForward && !leftBackward && !result.closedByEscape) {
+      result.findings.push({
+        type: 'keyboard-trap',
+        wcagCriteria: '2.1.2',
+        message: `Focus cannot leave the ${kind} with Tab, Shift+Tab or Escape`
+      });
+    }
+
+    const closed = !container.isConnected || !isRendered(container);
+    if (closed && (kind === 'modal' || kind === 'dialog' || kind === 'menu')) {
+      const active = doc.activeElement;
+      if (trigger && active !== trigger) {
+        result.findings.push({
+          type: 'focus-not-restored',
+          wcagCriteria: '2.4.3',
+          message: `Focus did not return to ${getUniqueSelector(trigger)} after the ${kind} closed`
+        });
+      } else if (!trigger && (!active || active === doc.body)) {
+        result.findings.push({
+          type: 'focus-not-restored',
+          wcagCriteria: '2.4.3',
+          message: `Focus was lost to the document after the ${kind} closed`
+        });
+      }
+    }
+  });
+
+  return result;
+}
+
+
+
+
+export async function probeKeyboardTraps(
+  root: Element | Document = document,
+  options: Omit<KeyboardProbeOptions, 'trigger'> = {}
+): Promise<KeyboardProbeResult[]> {
+  const results: KeyboardProbeResult[] = [];
+  for (const target of findKeyboardProbeTargets(root)) {
+    if (target.isConnected && isRendered(target)) {
+      results.push(await probeKeyboardTrap(target, options));
+    }
+  }
+  return results;
+}
+
+
+
+
+function sendKey(container: Element, key: ProbeKey): ProbeStep {
+  const doc = container.ownerDocument;
+  const target = doc.activeElement ?? doc.body;
+  const shiftKey = key === 'Shift+Tab';
+  const scope = isFocusScope(container) ? container : doc;
+
+  const handled = key === 'Escape'
+    ? pressKey(target, 'Escape')
+    : pressKey(target, 'Tab', {
+      shiftKey,
+      defaultAction: () => {
+        const next = getNextInSequence(scope, target, !shiftKey);
+        if (next) {
+          (next as HTMLElement).focus();
+        } else {
+          (target as HTMLElement).blur?.();
+        }
+      }
+    });
+
+  return { key, from: describeFocus(target), to: null, handled, inside: false };
+}
+
+function getNextInSequence(scope: Element | Document, current: Element, forward: boolean): Element | null {
+  const sequence = getTabSequence(scope).map(stop => stop.element);
+  const index = sequence.indexOf(current);
+
+  if (index >= 0) {
+    return sequence[forward ? index + 1 : index - 1] ?? null;
+  }
+
+  const following = (element: Element) =>
+    !!(current.compareDocumentPosition(element) & Node.DOCUMENT_POSITION_FOLLOWING);
+
+  return forward
+    ? sequence.find(following) ?? null
+    : [...sequence].reverse().find(element => element !== current && !following(element)) ?? null;
+}
+
+// `showModal()` makes the rest of the page inert, which `:modal` exposes; aria-modal containers
+// with `inert` surroundings need no scope because the tab sequence already skips inert subtrees.
+function isFocusScope(container: Element): boolean {
+  return container.tagName === 'DIALOG' && matchesModal(container);
+}
+
+function getFocusStart(container: Element): Element | null {
+  const first = getTabSequence(container)[0]?.element;
+  if (first) return first;
+
+  const programmatic = container.querySelector('[tabindex]');
+  if (programmatic && isRendered(programmatic)) return programmatic;
+
+  return container.hasAttribute('tabindex') ? container : null;
+}
+
+function getProbeKind(container: Element): ProbeTargetKind {
+  const role = container.getAttribute('role');
+
+  if (container.getAttribute('aria-modal') === 'true' || matchesModal(container)) return 'modal';
+  if (role === 'dialog' || role === 'alertdialog' || container.tagName === 'DIALOG') return 'dialog';
+  if (role === 'menu' || role === 'menubar') return 'menu';
+  return 'widget';
+}
+
+function matchesModal(container: Element): boolean {
+  try {
+    return container.matches(':modal');
+  } catch {
+    return false;
+  }
+}
+
+function findTrigger(container: Element): Element | null {
+  if (!container.id) return null;
+  return Array.from(container.ownerDocument.querySelectorAll('[aria-controls]')).find(element =>
+    element.getAttribute('aria-controls')!.split(/\s+/).includes(container.id)
+  ) ?? null;
+}
+
+function hasCloseControl(container: Element): boolean {
+  return getTabSequence(container).some(stop => {
+    const label = computeAccessibleName(stop.element).trim();
+    return CLOSE_NAME.test(label) || CLOSE_NAME.test(stop.element.getAttribute('aria-label') ?? '');
+  });
+}
+
+function describeFocus(element: Element | null): string | null {
+  return element && element !== element.ownerDocument.body ? getUniqueSelector(element) : null;
+}
@@ -4,6 +4,7 @@
 
 
 import type { EvaluationPlugin } from '../types';
+import { isValidRole } from '../aria';
 
 const plugin: EvaluationPlugin = {
   id: 'aria-validator',
@@ -20,23 +21,7 @@ const plugin: EvaluationPlugin = {
       selector: '[role]',
       evaluate: async (element: Element) => {
         const role = element.getAttribute('role');
-        const validRoles = [
-          'alert', 'alertdialog', 'application', 'article', 'banner',
-          'button', 'cell', 'checkbox', 'columnheader', 'combobox',
-          'complementary', 'contentinfo', 'definition', 'dialog', 'directory',
-          'document', 'feed', 'figure', 'form', 'grid', 'gridcell',
-          'group', 'heading', 'img', 'link', 'list', 'listbox',
-          'listitem', 'log', 'main', 'marquee', 'math', 'menu',
-          'menubar', 'menuitem', 'menuitemcheckbox', 'menuitemradio',
-          'navigation', 'none', 'note', 'option', 'presentation',
-          'progressbar', 'radio', 'radiogroup', 'region', 'row',
-          'rowgroup', 'rowheader', 'scrollbar', 'search', 'searchbox',
-          'separator', 'slider', 'spinbutton', 'status', 'switch',
-          'tab', 'table', 'tablist', 'tabpanel', 'term', 'textbox',
-          'timer', 'toolbar', 'tooltip', 'tree', 'treegrid', 'treeitem'
-        ];
-        
-        if (role && !validRoles.includes(role)) {
+        if (role && !role.trim().toLowerCase().split(/\s+/).some(isValidRole)) {
           return {
             severity: 'error',
             message: `Invalid ARIA role: ${role}`,
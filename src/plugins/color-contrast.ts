@@ -3,72 +3,140 @@
 
 
 
-import type { EvaluationPlugin } from '../types';
+import type { EvaluationPlugin, EvaluationRule, RuleResult } from '../types';
+import type { RGB } from '../utils/color/types';
+import { getContrastRatio, isLargeText } from '../utils/color/contrast';
+import { rgbToHex } from '../utils/color/conversion';
+import { resolveBackground, resolveForeground } from '../utils/color/background';
 
-const plugin: EvaluationPlugin = {
-  id: 'color-contrast',
-  name: 'Color Contrast Checker',
-  version: '1.0.0',
-  rules: [
-    {
-      id: 'color-contrast-text',
-      name: 'Text must have sufficient color contrast',
-      description: 'Text must meet WCAG AA contrast ratios',
+interface ContrastThresholds {
+  criterion: string;
+  normal: number;
+  large: number;
+}
+
+const MINIMUM: ContrastThresholds = { criterion: '1.4.3', normal: 4.5, large: 3 };
+const ENHANCED: ContrastThresholds = { criterion: '1.4.6', normal: 7, large: 4.5 };
+
+const EXCLUDED_ELEMENTS = new Set(['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE', 'TITLE', 'OPTION']);
+
+
+
+
+function hasOwnText(element: Element): boolean {
+  if (EXCLUDED_ELEMENTS.has(element.tagName)) return false;
+
+  return Array.from(element.childNodes).some(
+    node => node.nodeType === Node.TEXT_NODE && !!node.textContent?.trim()
+  );
+}
+
+function isExempt(element: Element): boolean {
+  if (element.closest('[aria-hidden="true"], [hidden]')) return true;
+  if (element.closest('button:disabled, input:disabled, select:disabled, textarea:disabled, fieldset:disabled')) return true;
+  if (element.closest('[aria-disabled="true"]')) return true;
+
+  const styles = window.getComputedStyle(element);
+  return styles.display === 'none' || styles.visibility === 'hidden';
+}
+
+
+
+
+async function evaluateContrast(element: Element, thresholds: ContrastThresholds): Promise<RuleResult | null> {
+  const styles = window.getComputedStyle(element);
+  const largeText = isLargeText(styles.fontSize || '16px', styles.fontWeight || '400');
+  const requiredRatio = largeText ? thresholds.large : thresholds.normal;
+
+  const background = resolveBackground(element);
+  if (!background.color) {
+    return {
+      severity: 'warning',
+      message: background.reason === 'background-image'
+        ? 'Unable to determine text contrast: the background is an image or gradient'
+        : 'Unable to determine text contrast: the background color could not be parsed',
       category: 'Color',
+      wcagCriteria: [thresholds.criterion],
+      details: {
+        reason: background.reason,
+        needsReview: true,
+        requiredRatio,
+        isLargeText: largeText
+      }
+    };
+  }
+
+  if (background.opacity === 0) return null;
+
+  const foreground = resolveForeground(element, background.color, background.opacity);
+  if (!foreground) {
+    return {
+      severity: 'warning',
+      message: 'Unable to determine text contrast: the text color could not be parsed',
+      category: 'Color',
+      wcagCriteria: [thresholds.criterion],
+      details: {
+        reason: 'unparseable-color',
+        needsReview: true,
+        color: styles.color,
+        requiredRatio,
+        isLargeText: largeText
+      }
+    };
+  }
+
+  const ratio = getContrastRatio(foreground, background.color);
+
+  if (ratio < requiredRatio) {
+    return {
       severity: 'error',
-      wcagCriteria: ['1.4.3'],
-      selector: '*',
-      condition: (element: Element) => {
-        
-        const text = element.textContent?.trim();
-        return !!text && element.children.length === 0;
-      },
-      evaluate: async (element: Element) => {
-        const styles = window.getComputedStyle(element);
-        const fontSize = parseFloat(styles.fontSize);
-        const fontWeight = styles.fontWeight;
-        const isLargeText = fontSize >= 18 || (fontSize >= 14 && fontWeight === 'bold');
-        
-        
-        const fgColor = styles.color;
-        const bgColor = styles.backgroundColor;
-        
-        
-        if (!fgColor || !bgColor || bgColor === 'transparent') {
-          return null;
-        }
-        
-        
-        const ratio = getContrastRatio(fgColor, bgColor);
-        const requiredRatio = isLargeText ? 3 : 4.5;
-        
-        if (ratio < requiredRatio) {
-          return {
-            severity: 'error',
-            message: `Insufficient color contrast: ${ratio.toFixed(2)}:1 (required: ${requiredRatio}:1)`,
-            category: 'Color',
-            wcagCriteria: ['1.4.3'],
-            details: {
-              foreground: fgColor,
-              background: bgColor,
-              ratio,
-              requiredRatio,
-              isLargeText
-            }
-          };
-        }
-        
-        return null;
+      message: `Insufficient color contrast: ${ratio.toFixed(2)}:1 (required: ${requiredRatio}:1)`,
+      category: 'Color',
+      wcagCriteria: [thresholds.criterion],
+      details: {
+        foreground: toHex(foreground),
+        background: toHex(background.color),
+        ratio,
+        requiredRatio,
+        isLargeText: largeText
       }
-    }
-  ]
-};
+    };
+  }
 
+  return null;
+}
+
+function toHex(color: RGB): string {
+  return rgbToHex({ r: color.r, g: color.g, b: color.b });
+}
 
-function getContrastRatio(fg: string, bg: string): number {
-  
-  
-  return 5; 
+function createRule(
+  id: string,
+  name: string,
+  level: 'AA' | 'AAA',
+  thresholds: ContrastThresholds
+): EvaluationRule {
+  return {
+    id,
+    name,
+    description: `Text must meet WCAG ${level} contrast ratios`,
+    category: 'Color',
+    severity: 'error',
+    wcagCriteria: [thresholds.criterion],
+    selector: '*',
+    condition: (element: Element) => hasOwnText(element) && !isExempt(element),
+    evaluate: (element: Element) => evaluateContrast(element, thresholds)
+  };
 }
 
+const plugin: EvaluationPlugin = {
+  id: 'color-contrast',
+  name: 'Color Contrast Checker',
+  version: '1.1.0',
+  rules: [
+    createRule('color-contrast-text', 'Text must have sufficient color contrast', 'AA', MINIMUM),
+    createRule('color-contrast-enhanced', 'Text must have enhanced color contrast', 'AAA', ENHANCED)
+  ]
+};
+
 export default plugin;
@@ -1,4 +1,44 @@
 export { default as AriaValidatorPlugin } from './aria-validator.js';
 export { default as ColorContrastPlugin } from './color-contrast.js';
+export { default as NonTextContrastPlugin } from './non-text-contrast.js';
 export { default as KeyboardNavigationPlugin } from './keyboard-navigation.js';
 export { default as WcagAAPlugin } from './wcag-aa.js';
+export {
+  default as Wcag22Plugin,
+  createWcag22Plugin,
+  createTargetSizeRule,
+  createConsistentHelpRule,
+  findHelpMechanisms
+} from './wcag-22.js';
+export * from './widgets/index.js';
+
+import type { EvaluationPlugin } from '../types.js';
+import AriaValidatorPlugin from './aria-validator.js';
+import ColorContrastPlugin from './color-contrast.js';
+import NonTextContrastPlugin from './non-text-contrast.js';
+import KeyboardNavigationPlugin from './keyboard-navigation.js';
+import WcagAAPlugin from './wcag-aa.js';
+import Wcag22Plugin from './wcag-22.js';
+import { WIDGET_PATTERN_PLUGINS } from './widgets/index.js';
+
+export const BUNDLED_PLUGINS: EvaluationPlugin[] = [
+  WcagAAPlugin,
+  Wcag22Plugin,
+  AriaValidatorPlugin,
+  ColorContrastPlugin,
+  NonTextContrastPlugin,
+  KeyboardNavigationPlugin,
+  ...WIDGET_PATTERN_PLUGINS
+];
+
+
+
+
+export function resolvePlugins(plugins: Array<string | EvaluationPlugin>): EvaluationPlugin[] {
+  return plugins.map(plugin => {
+    if (typeof plugin !== 'string') return plugin;
+    const bundled = BUNDLED_PLUGINS.find(candidate => candidate.id === plugin);
+    if (!bundled) throw new Error(`Unknown plugin "${plugin}"; available: ${BUNDLED_PLUGINS.map(p => p.id).join(', ')}`);
+    return bundled;
+  });
+}
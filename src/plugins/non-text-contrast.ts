@@ -0,0 +1,456 @@
+
+
+
+
+
+import type { EvaluationPlugin, EvaluationRule, RuleResult } from '../types';
+import type { RGB } from '../utils/color/types';
+import { parseColor } from '../utils/color/parser';
+import { getContrastRatio } from '../utils/color/contrast';
+import { alphaBlend, rgbToHex } from '../utils/color/conversion';
+import {
+  resolveAdjacentBackground,
+  resolveBackground,
+  resolveForeground
+} from '../utils/color/background';
+import type { BackgroundResolution } from '../utils/color/background';
+import { getUniqueSelector } from '../utils/selector';
+import { withRestoredState } from '../keyboard/interaction';
+
+const REQUIRED_RATIO = 3;
+const CRITERION = '1.4.11';
+
+const SIDES = ['top', 'right', 'bottom', 'left'] as const;
+const AUTHOR_PAINT = /^(border|background)/;
+const SVG_SHAPES = 'path, rect, circle, ellipse, polygon, polyline, line';
+const TEXT_INPUTS = 'input:not([type]), input[type="text"], input[type="email"], input[type="password"], ' +
+  'input[type="search"], input[type="tel"], input[type="url"], input[type="number"], ' +
+  'input[type="date"], input[type="time"], input[type="datetime-local"], input[type="month"], input[type="week"]';
+
+type PaintResult = { color: RGB } | { unresolved: string };
+
+
+
+
+function isInert(element: Element): boolean {
+  if (element.closest('[aria-hidden="true"], [hidden]')) return true;
+  return !!(element as HTMLInputElement).disabled || !!element.closest('[aria-disabled="true"], fieldset:disabled');
+}
+
+function isRendered(styles: CSSStyleDeclaration): boolean {
+  return styles.display !== 'none' && styles.visibility !== 'hidden';
+}
+
+function isExempt(element: Element): boolean {
+  return isInert(element) || !isRendered(window.getComputedStyle(element));
+}
+
+
+
+
+function hasNativeAppearance(element: Element): boolean {
+  const styles = window.getComputedStyle(element) as CSSStyleDeclaration & { webkitAppearance?: string };
+  const appearance = styles.appearance || styles.webkitAppearance || '';
+  return appearance !== 'none';
+}
+
+function isUserAgentStyled(element: Element): boolean {
+  return hasNativeAppearance(element) && !hasAuthorPaint(element);
+}
+
+function hasAuthorPaint(element: Element): boolean {
+  if (setsPaint((element as HTMLElement).style)) return true;
+
+  return Array.from(element.ownerDocument.styleSheets).some(sheet => {
+    try {
+      return matchesPaintRule(element, sheet.cssRules);
+    } catch {
+      return false;
+    }
+  });
+}
+
+function matchesPaintRule(element: Element, rules: CSSRuleList): boolean {
+  return Array.from(rules).some(rule => {
+    const { selectorText, style } = rule as CSSStyleRule;
+    if (selectorText && style && matchesSelector(element, selectorText) && setsPaint(style)) return true;
+
+    const nested = (rule as CSSGroupingRule).cssRules;
+    return !!nested && matchesPaintRule(element, nested);
+  });
+}
+
+function matchesSelector(element: Element, selector: string): boolean {
+  try {
+    return element.matches(selector);
+  } catch {
+    return false;
+  }
+}
+
+function setsPaint(style: CSSStyleDeclaration | undefined): boolean {
+  return !!style && Array.from(style).some(property => AUTHOR_PAINT.test(property));
+}
+
+
+
+
+function toOpaque(value: string, backdrop: RGB, opacity: number): RGB | null {
+  const color = parseColor(value);
+  if (!color) return null;
+  return alphaBlend({ ...color, a: (color.a ?? 1) * opacity }, backdrop);
+}
+
+function toHex(color: RGB): string {
+  return rgbToHex({ r: color.r, g: color.g, b: color.b });
+}
+
+function unresolved(background: BackgroundResolution, message: string): RuleResult {
+  return {
+    severity: 'warning',
+    message,
+    category: 'Color',
+    wcagCriteria: [CRITERION],
+    details: {
+      reason: background.reason ?? 'unparseable-color',
+      needsReview: true,
+      source: background.source ? getUniqueSelector(background.source) : undefined,
+      requiredRatio: REQUIRED_RATIO
+    }
+  };
+}
+
+function violation(message: string, details: Record<string, any>): RuleResult {
+  return {
+    severity: 'error',
+    message,
+    category: 'Color',
+    wcagCriteria: [CRITERION],
+    details: { ...details, requiredRatio: REQUIRED_RATIO }
+  };
+}
+
+
+
+
+function getBorderRatio(element: Element, adjacent: RGB, opacity: number): number | null {
+  const styles = window.getComputedStyle(element);
+  let ratio: number | null = null;
+
+  for (const side of SIDES) {
+    const style = styles.getPropertyValue(`border-${side}-style`);
+    const width = parseFloat(styles.getPropertyValue(`border-${side}-width`));
+    if (!style || style === 'none' || style === 'hidden' || !(width > 0)) continue;
+
+    const color = toOpaque(styles.getPropertyValue(`border-${side}-color`), adjacent, opacity);
+    if (!color) continue;
+
+    const sideRatio = getContrastRatio(color, adjacent);
+    ratio = ratio === null ? sideRatio : Math.min(ratio, sideRatio);
+  }
+
+  return ratio;
+}
+
+
+
+
+function checkBoundary(element: Element, label: string): RuleResult | null {
+  const adjacent = resolveAdjacentBackground(element);
+  if (!adjacent.color) {
+    return unresolved(adjacent, `Unable to determine ${label} contrast: the adjacent background is an image or gradient`);
+  }
+
+  const own = resolveBackground(element);
+  if (!own.color) {
+    return unresolved(own, `Unable to determine ${label} contrast: the ${label} background is an image or gradient`);
+  }
+
+  const borderRatio = getBorderRatio(element, adjacent.color, own.opacity);
+  const backgroundRatio = getContrastRatio(own.color, adjacent.color);
+  const best = Math.max(borderRatio ?? 0, backgroundRatio);
+
+  if (best >= REQUIRED_RATIO) return null;
+
+  return violation(
+    `Insufficient ${label} boundary contrast: ${best.toFixed(2)}:1 (required: ${REQUIRED_RATIO}:1)`,
+    {
+      component: label,
+      ratio: best,
+      borderRatio,
+      backgroundRatio,
+      adjacent: toHex(adjacent.color),
+      background: toHex(own.color)
+    }
+  );
+}
+
+
+
+
+function resolvePaint(shape: Element, property: 'fill' | 'stroke', backdrop: RGB, opacity: number): PaintResult | null {
+  const computed = window.getComputedStyle(shape).getPropertyValue(property).trim();
+  const value = computed || shape.getAttribute(property)?.trim() || (property === 'fill' ? 'black' : 'none');
+
+  if (value === 'none' || value === 'transparent') return null;
+  if (value.startsWith('url(')) return { unresolved: value };
+
+  const shapeStyles = window.getComputedStyle(shape);
+  const paintOpacity = parseFloat(
+    shapeStyles.getPropertyValue(`${property}-opacity`) || shape.getAttribute(`${property}-opacity`) || '1'
+  );
+  const effectiveOpacity = opacity * (Number.isNaN(paintOpacity) ? 1 : paintOpacity);
+
+  if (value.toLowerCase() === 'currentcolor') {
+    const color = resolveForeground(shape, backdrop, effectiveOpacity);
+    return color ? { color } : { unresolved: value };
+  }
+
+  const color = toOpaque(value, backdrop, effectiveOpacity);
+  return color ? { color } : { unresolved: value };
+}
+
+interface PaintSample {
+  shape: Element;
+  property: 'fill' | 'stroke';
+  color: RGB;
+  ratio: number;
+}
+
+function samplePaints(svg: Element, backdrop: RGB): { samples: PaintSample[]; unresolved: string[] } {
+  const samples: PaintSample[] = [];
+  const unresolvedPaints: string[] = [];
+
+  svg.querySelectorAll(SVG_SHAPES).forEach(shape => {
+    if (shape.closest('[aria-hidden="true"]') !== svg.closest('[aria-hidden="true"]')) return;
+    if (shape.closest('defs, clipPath, mask, marker, pattern')) return;
+
+    const opacity = resolveBackground(shape).opacity;
+    if (opacity === 0) return;
+
+    for (const property of ['fill', 'stroke'] as const) {
+      const paint = resolvePaint(shape, property, backdrop, opacity);
+      if (!paint) continue;
+
+      if ('unresolved' in paint) {
+        unresolvedPaints.push(paint.unresolved);
+      } else {
+        samples.push({ shape, property, color: paint.color, ratio: getContrastRatio(paint.color, backdrop) });
+      }
+    }
+  });
+
+  return { samples, unresolved: unresolvedPaints };
+}
+
+function hasTextContent(element: Element): boolean {
+  const walker = document.createTreeWalker(element, NodeFilter.SHOW_TEXT);
+  let node: Node | null;
+
+  while ((node = walker.nextNode())) {
+    if (node.parentElement?.closest('svg')) continue;
+    if (node.textContent?.trim()) return true;
+  }
+
+  return false;
+}
+
+
+
+
+function getSwitchThumb(track: Element): Element | null {
+  for (const child of Array.from(track.querySelectorAll('*'))) {
+    const background = window.getComputedStyle(child).backgroundColor;
+    const color = background ? parseColor(background) : null;
+    if (color && (color.a ?? 1) > 0) return child;
+  }
+  return null;
+}
+
+const rules: EvaluationRule[] = [
+  {
+    id: 'non-text-contrast-form-controls',
+    name: 'Form control boundaries must have sufficient contrast',
+    description: 'Text fields, selects and author-styled checkboxes and radios need a 3:1 visual boundary',
+    category: 'Color',
+    severity: 'error',
+    wcagCriteria: [CRITERION],
+    selector: `${TEXT_INPUTS}, select, textarea, input[type="checkbox"], input[type="radio"]`,
+    condition: (element: Element) => {
+      if (isExempt(element) || element.getAttribute('role') === 'switch') return false;
+      if (element.matches('input[type="checkbox"], input[type="radio"]')) return !hasNativeAppearance(element);
+      return !isUserAgentStyled(element);
+    },
+    evaluate: async (element: Element) => {
+      const label = element.matches('input[type="checkbox"]') ? 'checkbox'
+        : element.matches('input[type="radio"]') ? 'radio button'
+        : 'form field';
+
+      return checkBoundary(element, label);
+    }
+  },
+
+  {
+    id: 'non-text-contrast-focus-indicator',
+    name: 'Focus indicators must have sufficient contrast',
+    description: 'Outline and box-shadow focus rings need 3:1 contrast against the adjacent background',
+    category: 'Color',
+    severity: 'error',
+    wcagCriteria: [CRITERION],
+    selector: 'a[href], button, input, select, textarea, [tabindex]:not([tabindex="-1"])',
+    condition: (element: Element) => !isInert(element) && typeof (element as HTMLElement).focus === 'function',
+    evaluate: async (element: Element) => {
+      const { rendered, outlineStyle, outlineWidth, outlineColor, boxShadow } =
+        await withRestoredState(element.ownerDocument, async () => {
+          (element as HTMLElement).focus({ preventScroll: true });
+          const styles = window.getComputedStyle(element);
+          return {
+            rendered: isRendered(styles),
+            outlineStyle: styles.outlineStyle,
+            outlineWidth: parseFloat(styles.outlineWidth),
+            outlineColor: styles.outlineColor,
+            boxShadow: styles.boxShadow
+          };
+        });
+
+      if (!rendered) return null;
+
+      let ring: string | null = null;
+      if (outlineStyle && outlineStyle !== 'none' && outlineStyle !== 'auto' && outlineWidth > 0) {
+        ring = outlineColor;
+      } else if (boxShadow && boxShadow !== 'none') {
+        ring = boxShadow.match(/(#[0-9a-f]{3,8}|(?:rgba?|hsla?|oklch|oklab)\([^)]*\))/i)?.[1] ?? null;
+      }
+
+      if (!ring || ring.toLowerCase() === 'currentcolor' || ring === 'invert') return null;
+
+      const adjacent = resolveAdjacentBackground(element);
+      if (!adjacent.color) {
+        return unresolved(adjacent, 'Unable to determine focus indicator contrast: the adjacent background is an image or gradient');
+      }
+
+      const color = toOpaque(ring, adjacent.color, 1);
+      if (!color) return null;
+
+      const ratio = getContrastRatio(color, adjacent.color);
+      if (ratio >= REQUIRED_RATIO) return null;
+
+      return violation(
+        `Insufficient focus indicator contrast: ${ratio.toFixed(2)}:1 (required: ${REQUIRED_RATIO}:1)`,
+        { component: 'focus indicator', ratio, indicator: toHex(color), adjacent: toHex(adjacent.color) }
+      );
+    }
+  },
+
+  {
+    id: 'non-text-contrast-icon',
+    name: 'Icon-only controls must have sufficient contrast',
+    description: 'SVG icons that are the only content of a control need 3:1 contrast against their background',
+    category: 'Color',
+    severity: 'error',
+    wcagCriteria: [CRITERION],
+    selector: 'button, a[href], [role="button"], [role="link"]',
+    condition: (element: Element) => !isExempt(element) && !!element.querySelector('svg') && !hasTextContent(element),
+    evaluate: async (element: Element) => {
+      const background = resolveBackground(element);
+      if (!background.color) {
+        return unresolved(background, 'Unable to determine icon contrast: the background is an image or gradient');
+      }
+
+      const { samples, unresolved: unresolvedPaints } = samplePaints(element.querySelector('svg')!, background.color);
+      if (samples.length === 0) {
+        return unresolvedPaints.length > 0
+          ? unresolved({ ...background, reason: 'unparseable-color' }, 'Unable to determine icon contrast: the icon uses a paint server')
+          : null;
+      }
+
+      const best = samples.reduce((a, b) => (b.ratio > a.ratio ? b : a));
+      if (best.ratio >= REQUIRED_RATIO) return null;
+
+      return violation(
+        `Insufficient icon contrast: ${best.ratio.toFixed(2)}:1 (required: ${REQUIRED_RATIO}:1)`,
+        { component: 'icon', ratio: best.ratio, icon: toHex(best.color), background: toHex(background.color) }
+      );
+    }
+  },
+
+  {
+    id: 'non-text-contrast-switch',
+    name: 'Toggle switches must have sufficient contrast',
+    description: 'Switch tracks need 3:1 against the page and thumbs 3:1 against the track',
+    category: 'Color',
+    severity: 'error',
+    wcagCriteria: [CRITERION],
+    selector: '[role="switch"]',
+    condition: (element: Element) =>
+      !isExempt(element) && !(element.matches('input[type="checkbox"]') && hasNativeAppearance(element)),
+    evaluate: async (element: Element) => {
+      const boundary = checkBoundary(element, 'switch track');
+      if (boundary) return boundary;
+
+      const thumb = getSwitchThumb(element);
+      if (!thumb) return null;
+
+      const track = resolveBackground(element);
+      const knob = resolveBackground(thumb);
+      if (!track.color || !knob.color) {
+        return unresolved(knob.color ? track : knob, 'Unable to determine switch thumb contrast: the background is an image or gradient');
+      }
+
+      const ratio = getContrastRatio(knob.color, track.color);
+      if (ratio >= REQUIRED_RATIO) return null;
+
+      return violation(
+        `Insufficient switch thumb contrast: ${ratio.toFixed(2)}:1 (required: ${REQUIRED_RATIO}:1)`,
+        { component: 'switch thumb', ratio, thumb: toHex(knob.color), track: toHex(track.color) }
+      );
+    }
+  },
+
+  {
+    id: 'non-text-contrast-graphics',
+    name: 'Chart and graphic strokes must have sufficient contrast',
+    description: 'Data marks in meaningful SVG graphics need 3:1 contrast against the chart background',
+    category: 'Color',
+    severity: 'error',
+    wcagCriteria: [CRITERION],
+    selector: 'svg[role="img"], svg[role="graphics-document"], svg[role="figure"]',
+    condition: (element: Element) => !isExempt(element) && !element.closest('button, a[href], [role="button"], [role="link"]'),
+    evaluate: async (element: Element) => {
+      const background = resolveBackground(element);
+      if (!background.color) {
+        return unresolved(background, 'Unable to determine graphic contrast: the background is an image or gradient');
+      }
+
+      const { samples } = samplePaints(element, background.color);
+      const failing = samples.filter(sample => sample.ratio < REQUIRED_RATIO);
+      if (samples.length === 0 || failing.length === 0) return null;
+
+      const lowest = Math.min(...failing.map(sample => sample.ratio));
+
+      return violation(
+        `${failing.length} graphic part${failing.length === 1 ? '' : 's'} below ${REQUIRED_RATIO}:1 contrast (lowest: ${lowest.toFixed(2)}:1)`,
+        {
+          component: 'graphic',
+          ratio: lowest,
+          background: toHex(background.color),
+          parts: failing.map(sample => ({
+            selector: getUniqueSelector(sample.shape),
+            property: sample.property,
+            color: toHex(sample.color),
+            ratio: sample.ratio
+          }))
+        }
+      );
+    }
+  }
+];
+
+const plugin: EvaluationPlugin = {
+  id: 'non-text-contrast',
+  name: 'Non-text Contrast Checker',
+  version: '1.0.0',
+  rules
+};
+
+export default plugin;
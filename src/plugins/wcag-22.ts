@@ -0,0 +1,542 @@
+
+
+
+
+
+import type { EvaluationContext, EvaluationPlugin, EvaluationRule, RuleResult } from '../types';
+import { computeAccessibleName } from '../aria';
+import { isInSequentialFocusOrder, isRendered } from '../keyboard/focus-order';
+import { evaluateFocusAppearance, findOverlays } from '../keyboard/focus-appearance';
+import { withRestoredState } from '../keyboard/interaction';
+import { getUniqueSelector } from '../utils/selector';
+
+export type TargetSizeLevel = 'AA' | 'AAA';
+
+export interface TargetSizeOptions {
+  /** 'AA' applies the 24×24 minimum of 2.5.8, 'AAA' the 44×44 minimum of 2.5.5 (default 'AA'). */
+  level?: TargetSizeLevel;
+}
+
+export interface Wcag22PluginOptions {
+  targetSize?: TargetSizeLevel;
+  /** Help mechanisms seen per page, shared between runs to compare pages for 3.2.6. */
+  helpHistory?: HelpHistory;
+}
+
+export type HelpKind = 'phone' | 'email' | 'chat' | 'contact' | 'help';
+
+export interface HelpMechanism {
+  kind: HelpKind;
+  /** Landmark region the mechanism sits in, or 'body' outside any landmark. */
+  region: string;
+  selector: string;
+}
+
+export type HelpHistory = Map<string, HelpMechanism[]>;
+
+interface TargetBox {
+  element: Element;
+  rect: DOMRect;
+  undersized: boolean;
+}
+
+const TARGET_SIZE = {
+  AA: { minimum: 24, criterion: '2.5.8', severity: 'error' },
+  AAA: { minimum: 44, criterion: '2.5.5', severity: 'warning' }
+} as const;
+
+const TARGET_SELECTOR = [
+  'a[href]',
+  'area[href]',
+  'button',
+  'input:not([type="hidden"])',
+  'select',
+  'textarea',
+  'summary',
+  '[role="button"]',
+  '[role="link"]',
+  '[role="checkbox"]',
+  '[role="radio"]',
+  '[role="switch"]',
+  '[role="tab"]',
+  '[role="menuitem"]',
+  '[role="menuitemcheckbox"]',
+  '[role="menuitemradio"]',
+  '[role="option"]',
+  '[role="slider"]',
+  '[onclick]'
+].join(', ');
+
+const NATIVE_CONTROLS = 'input, select, textarea, button, summary';
+
+const FOCUSABLE_SELECTOR = 'a[href], area[href], button, input, select, textarea, summary, iframe, [tabindex], [contenteditable]';
+
+const DRAGGABLE_SELECTOR = '[draggable="true"], [ondragstart], [aria-grabbed]';
+const MOVE_CONTROL_NAME = /\b(move|up|down|left|right|reorder|sort|first|last|earlier|later|previous|next)\b/i;
+
+const HELP_CANDIDATES = 'a[href], button, [role="button"], [role="link"]';
+const HELP_NAMES: Array<[HelpKind, RegExp]> = [
+  ['chat', /\b(live )?chat\b/i],
+  ['contact', /\bcontact\b/i],
+  ['help', /\b(help|support|faq|frequently asked)\b/i]
+];
+const HELP_REGIONS = 'header, footer, nav, main, aside, [role="banner"], [role="contentinfo"], ' +
+  '[role="navigation"], [role="main"], [role="complementary"]';
+
+const REENTRY_NAME = /\b(confirm|re-?enter|repeat|retype|re-?type|verify|again)\b/i;
+const PASTE_BLOCKING_HANDLER = /return\s+false|preventDefault/;
+
+const overlayCache = new WeakMap<EvaluationContext, Element[]>();
+const targetCache = new WeakMap<EvaluationContext, { minimum: number; targets: TargetBox[] }>();
+
+
+
+
+function isDisabled(element: Element): boolean {
+  return !!(element as HTMLInputElement).disabled || !!element.closest('[aria-disabled="true"], fieldset:disabled');
+}
+
+function isInlineInText(element: Element): boolean {
+  if ((window.getComputedStyle(element).display || 'inline') !== 'inline') return false;
+
+  const block = element.parentElement;
+  if (!block) return false;
+
+  return Array.from(block.childNodes).some(node =>
+    node !== element && node.nodeType === Node.TEXT_NODE && !!node.textContent?.trim()
+  );
+}
+
+
+
+
+function isUserAgentSized(element: Element): boolean {
+  if (!element.matches(NATIVE_CONTROLS)) return false;
+
+  const styles = window.getComputedStyle(element) as CSSStyleDeclaration & { webkitAppearance?: string };
+  const appearance = styles.appearance || styles.webkitAppearance || '';
+  const inline = (element as HTMLElement).style;
+  return appearance !== 'none' && !inline?.width && !inline?.height && !inline?.padding;
+}
+
+function hasBox(rect: DOMRect): boolean {
+  return rect.width > 0 && rect.height > 0;
+}
+
+
+
+
+function getTargets(doc: Document, minimum: number): TargetBox[] {
+  return Array.from(doc.querySelectorAll(TARGET_SELECTOR))
+    .filter(element => !isDisabled(element) && isRendered(element))
+    .map(element => {
+      const rect = element.getBoundingClientRect();
+      return { element, rect, undersized: rect.width < minimum || rect.height < minimum };
+    })
+    .filter(target => hasBox(target.rect));
+}
+
+function getCachedTargets(doc: Document, minimum: number, context: EvaluationContext | undefined): TargetBox[] {
+  if (!context || context.document !== doc) return getTargets(doc, minimum);
+
+  const cached = targetCache.get(context);
+  if (cached?.minimum === minimum) return cached.targets;
+
+  const targets = getTargets(doc, minimum);
+  targetCache.set(context, { minimum, targets });
+  return targets;
+}
+
+function center(rect: DOMRect): { x: number; y: number } {
+  return { x: rect.left + rect.width / 2, y: rect.top + rect.height / 2 };
+}
+
+function distanceToRect(point: { x: number; y: number }, rect: DOMRect): number {
+  const dx = Math.max(rect.left - point.x, 0, point.x - rect.right);
+  const dy = Math.max(rect.top - point.y, 0, point.y - rect.bottom);
+  return Math.hypot(dx, dy);
+}
+
+
+
+
+function findCrowdingNeighbors(target: TargetBox, others: TargetBox[], minimum: number) {
+  const radius = minimum / 2;
+  const origin = center(target.rect);
+
+  return others
+    .filter(other => other.element !== target.element &&
+      !other.element.contains(target.element) && !target.element.contains(other.element))
+    .map(other => {
+      const distance = other.undersized
+        ? Math.hypot(origin.x - center(other.rect).x, origin.y - center(other.rect).y)
+        : distanceToRect(origin, other.rect);
+      const limit = other.undersized ? minimum : radius;
+      return { other, distance, limit };
+    })
+    .filter(({ distance, limit }) => distance < limit)
+    .map(({ other, distance }) => ({
+      selector: getUniqueSelector(other.element),
+      distance: Math.round(distance * 100) / 100,
+      width: other.rect.width,
+      height: other.rect.height
+    }));
+}
+
+
+
+
+export function createTargetSizeRule(options: TargetSizeOptions = {}): EvaluationRule {
+  const level = options.level ?? 'AA';
+  const { minimum, criterion, severity } = TARGET_SIZE[level];
+
+  return {
+    id: level === 'AA' ? 'wcag-22-target-size' : 'wcag-22-target-size-enhanced',
+    name: `Pointer targets must be at least ${minimum}×${minimum} CSS pixels`,
+    description: level === 'AA'
+      ? 'Undersized targets need enough spacing that a 24px circle around each does not touch another target'
+      : 'Pointer targets need a 44×44 CSS pixel hit area',
+    category: 'Target Size',
+    severity,
+    wcagCriteria: [criterion],
+    automation: 'automated',
+    selector: TARGET_SELECTOR,
+    condition: (element: Element) =>
+      !isDisabled(element) && !isInlineInText(element) && !isUserAgentSized(element) && isRendered(element),
+    evaluate: async (element: Element, context: EvaluationContext) => {
+      const rect = element.getBoundingClientRect();
+      if (!hasBox(rect) || (rect.width >= minimum && rect.height >= minimum)) return null;
+
+      const size = `${Math.round(rect.width * 10) / 10}×${Math.round(rect.height * 10) / 10}`;
+      const details: Record<string, any> = {
+        width: rect.width,
+        height: rect.height,
+        minimum,
+        level
+      };
+
+      if (level === 'AAA') {
+        return {
+          severity,
+          message: `Target is ${size} CSS px (required: ${minimum}×${minimum})`,
+          category: 'Target Size',
+          wcagCriteria: [criterion],
+          details
+        };
+      }
+
+      const target: TargetBox = { element, rect, undersized: true };
+      const neighbors = findCrowdingNeighbors(target, getCachedTargets(element.ownerDocument, minimum, context), minimum);
+      if (neighbors.length === 0) return null;
+
+      return {
+        severity,
+        message: `Target is ${size} CSS px and too close to ${neighbors.length} other target${neighbors.length === 1 ? '' : 's'} ` +
+          `(required: ${minimum}×${minimum} or ${minimum}px spacing)`,
+        category: 'Target Size',
+        wcagCriteria: [criterion],
+        details: { ...details, neighbors }
+      };
+    }
+  };
+}
+
+
+
+
+function manualReview(message: string, criterion: string, category: string, details: Record<string, any>): RuleResult {
+  return {
+    severity: 'warning',
+    message,
+    category,
+    wcagCriteria: [criterion],
+    details: { ...details, needsReview: true }
+  };
+}
+
+function getOverlays(doc: Document, context: EvaluationContext | undefined): Element[] {
+  if (!context || context.document !== doc) return findOverlays(doc);
+
+  const cached = overlayCache.get(context);
+  if (cached) return cached;
+
+  const overlays = findOverlays(doc);
+  overlayCache.set(context, overlays);
+  return overlays;
+}
+
+const focusNotObscuredRule: EvaluationRule = {
+  id: 'wcag-22-focus-not-obscured',
+  name: 'Focused elements must not be hidden by author content',
+  description: 'Sticky headers, footers and other fixed content must not entirely cover the focused element',
+  category: 'Keyboard',
+  severity: 'error',
+  wcagCriteria: ['2.4.11'],
+  automation: 'automated',
+  selector: FOCUSABLE_SELECTOR,
+  condition: (element: Element) => isInSequentialFocusOrder(element),
+  evaluate: async (element: Element, context: EvaluationContext) => {
+    const overlays = getOverlays(element.ownerDocument, context);
+    if (overlays.length === 0) return null;
+
+    const { measurement, violations } = await withRestoredState(element.ownerDocument, async () =>
+      evaluateFocusAppearance(element, { overlays }));
+    const hidden = violations.find(violation => violation.criterion === '2.4.11');
+    if (!hidden) return null;
+
+    return {
+      severity: 'error',
+      message: hidden.message,
+      category: 'Keyboard',
+      wcagCriteria: ['2.4.11'],
+      details: {
+        obscuredFraction: measurement.obscuredFraction,
+        obscuredBy: measurement.obscuredBy
+      }
+    };
+  }
+};
+
+
+
+
+function hasMoveControls(element: Element): boolean {
+  const scope = element.parentElement ?? element;
+  return Array.from(scope.querySelectorAll('button, [role="button"], a[href]')).some(control =>
+    !control.matches(DRAGGABLE_SELECTOR) && MOVE_CONTROL_NAME.test(computeAccessibleName(control))
+  );
+}
+
+const draggingMovementsRule: EvaluationRule = {
+  id: 'wcag-22-dragging-movements',
+  name: 'Dragging must have a single-pointer alternative',
+  description: 'Functionality operated by dragging must also be operable with single clicks or taps',
+  category: 'Input Modalities',
+  severity: 'warning',
+  wcagCriteria: ['2.5.7'],
+  automation: 'manual',
+  selector: DRAGGABLE_SELECTOR,
+  condition: (element: Element) => isRendered(element) && !element.closest('input[type="range"]'),
+  evaluate: async (element: Element) => {
+    if (hasMoveControls(element)) return null;
+
+    return manualReview(
+      'Element can be dragged but no single-pointer alternative was found next to it; confirm it can be operated without dragging',
+      '2.5.7',
+      'Input Modalities',
+      {
+        draggable: element.getAttribute('draggable'),
+        handler: element.hasAttribute('ondragstart') ? 'ondragstart' : null
+      }
+    );
+  }
+};
+
+
+
+
+function getHelpKind(element: Element): HelpKind | null {
+  const href = element.getAttribute('href')?.trim().toLowerCase() ?? '';
+  if (href.startsWith('tel:')) return 'phone';
+  if (href.startsWith('mailto:')) return 'email';
+
+  const name = computeAccessibleName(element);
+  return HELP_NAMES.find(([, pattern]) => pattern.test(name))?.[0] ?? null;
+}
+
+function getRegion(element: Element): string {
+  const region = element.closest(HELP_REGIONS);
+  if (!region) return 'body';
+  return region.getAttribute('role') ?? region.tagName.toLowerCase();
+}
+
+
+
+
+export function findHelpMechanisms(root: Element | Document = document): HelpMechanism[] {
+  const seen = new Set<HelpKind>();
+  const mechanisms: HelpMechanism[] = [];
+
+  root.querySelectorAll(HELP_CANDIDATES).forEach(element => {
+    const kind = getHelpKind(element);
+    if (!kind || seen.has(kind) || !isRendered(element)) return;
+
+    seen.add(kind);
+    mechanisms.push({ kind, region: getRegion(element), selector: getUniqueSelector(element) });
+  });
+
+  return mechanisms;
+}
+
+function getPageKey(doc: Document): string {
+  const location = doc.location;
+  return location ? `${location.origin}${location.pathname}` : doc.URL;
+}
+
+
+
+
+export function createConsistentHelpRule(history: HelpHistory = new Map()): EvaluationRule {
+  return {
+    id: 'wcag-22-consistent-help',
+    name: 'Help mechanisms must appear in a consistent order',
+    description: 'Contact details, help links and chat must keep the same relative order on every page that offers them',
+    category: 'Navigation',
+    severity: 'warning',
+    wcagCriteria: ['3.2.6'],
+    automation: 'manual',
+    selector: 'body',
+    evaluate: async (element: Element) => {
+      const doc = element.ownerDocument;
+      const page = getPageKey(doc);
+      const mechanisms = findHelpMechanisms(element);
+      if (mechanisms.length === 0) return null;
+
+      const previous = Array.from(history.entries()).find(([key, seen]) => key !== page && seen.length > 0);
+      history.set(page, mechanisms);
+      if (!previous) return null;
+
+      const [previousPage, previousMechanisms] = previous;
+      const shared = mechanisms.filter(mechanism => previousMechanisms.some(other => other.kind === mechanism.kind));
+      const previousShared = previousMechanisms.filter(other => shared.some(mechanism => mechanism.kind === other.kind));
+
+      const describe = (list: HelpMechanism[]) => list.map(mechanism => `${mechanism.kind}@${mechanism.region}`);
+      const order = describe(shared);
+      const previousOrder = describe(previousShared);
+      if (order.join() === previousOrder.join()) return null;
+
+      return manualReview(
+        `Help mechanisms appear as ${order.join(', ')} but as ${previousOrder.join(', ')} on ${previousPage}; ` +
+          'confirm their relative order is consistent',
+        '3.2.6',
+        'Navigation',
+        { page, previousPage, order, previousOrder }
+      );
+    }
+  };
+}
+
+
+
+
+function getFieldLabel(element: Element): string {
+  return [
+    computeAccessibleName(element),
+    element.getAttribute('name') ?? '',
+    element.id
+  ].join(' ').replace(/[_-]+/g, ' ');
+}
+
+const redundantEntryRule: EvaluationRule = {
+  id: 'wcag-22-redundant-entry',
+  name: 'Users should not have to re-enter information',
+  description: 'Information already provided in the same process should be auto-populated or available to select',
+  category: 'Forms',
+  severity: 'warning',
+  wcagCriteria: ['3.3.7'],
+  automation: 'manual',
+  selector: 'input:not([type="hidden"]):not([type="password"]):not([type="checkbox"]):not([type="radio"]), textarea',
+  condition: (element: Element) => isRendered(element) && REENTRY_NAME.test(getFieldLabel(element)),
+  evaluate: async (element: Element) => manualReview(
+    'Field asks for information again; confirm it is auto-populated or the re-entry is essential',
+    '3.3.7',
+    'Forms',
+    { label: computeAccessibleName(element), autocomplete: element.getAttribute('autocomplete') }
+  )
+};
+
+
+
+
+async function blocksPaste(element: Element): Promise<boolean> {
+  if (PASTE_BLOCKING_HANDLER.test(element.getAttribute('onpaste') ?? '')) return true;
+
+  return withRestoredState(element.ownerDocument, async () => {
+    try {
+      return !element.dispatchEvent(createPasteEvent());
+    } catch {
+      return false;
+    }
+  });
+}
+
+
+
+
+function createPasteEvent(): Event {
+  const init = { bubbles: true, cancelable: true, composed: true };
+  if (typeof ClipboardEvent === 'function' && typeof DataTransfer === 'function') {
+    try {
+      return new ClipboardEvent('paste', { ...init, clipboardData: new DataTransfer() });
+    } catch {
+      // Some DOM implementations cannot construct a DataTransfer outside a user gesture.
+    }
+  }
+  const event = new Event('paste', init);
+  Object.defineProperty(event, 'clipboardData', {
+    value: { types: [], files: [], items: [], getData: () => '', setData: () => undefined }
+  });
+  return event;
+}
+
+const accessibleAuthenticationRule: EvaluationRule = {
+  id: 'wcag-22-accessible-authentication',
+  name: 'Authentication must not block password managers or pasting',
+  description: 'Password and one-time-code fields must accept pasted and autofilled values',
+  category: 'Forms',
+  severity: 'error',
+  wcagCriteria: ['3.3.8'],
+  automation: 'automated',
+  selector: 'input[type="password"], input[autocomplete="one-time-code"]',
+  condition: (element: Element) => isRendered(element) && !(element as HTMLInputElement).disabled,
+  evaluate: async (element: Element) => {
+    if (await blocksPaste(element)) {
+      return {
+        severity: 'error',
+        message: 'Authentication field blocks pasting, so users cannot paste from a password manager',
+        category: 'Forms',
+        wcagCriteria: ['3.3.8'],
+        details: { blocked: 'paste' }
+      };
+    }
+
+    const autocomplete = element.getAttribute('autocomplete')?.trim().toLowerCase();
+    if (autocomplete === 'off' || autocomplete === 'false') {
+      return {
+        severity: 'warning',
+        message: 'Authentication field disables autocomplete, which can stop password managers filling it',
+        category: 'Forms',
+        wcagCriteria: ['3.3.8'],
+        details: { blocked: 'autocomplete', autocomplete }
+      };
+    }
+
+    return null;
+  }
+};
+
+
+
+
+export function createWcag22Plugin(options: Wcag22PluginOptions = {}): EvaluationPlugin {
+  const rules = [
+    focusNotObscuredRule,
+    draggingMovementsRule,
+    createTargetSizeRule(),
+    createConsistentHelpRule(options.helpHistory),
+    redundantEntryRule,
+    accessibleAuthenticationRule
+  ];
+  if (options.targetSize === 'AAA') rules.push(createTargetSizeRule({ level: 'AAA' }));
+
+  return {
+    id: 'wcag-22',
+    name: 'WCAG 2.2',
+    version: '1.0.0',
+    rules
+  };
+}
+
+const plugin = createWcag22Plugin();
+
+export default plugin;
@@ -3,6 +3,7 @@
 
 
 import type { EvaluationPlugin, EvaluationRule, EvaluationContext } from '../types';
+import { computeAccessibleName } from '../aria';
 
 const plugin: EvaluationPlugin = {
   id: 'wcag-aa',
@@ -59,11 +60,9 @@ const plugin: EvaluationPlugin = {
       selector: 'a[href]',
       evaluate: async (element: Element) => {
         const link = element as HTMLAnchorElement;
-        const text = link.textContent?.trim() || '';
-        const ariaLabel = link.getAttribute('aria-label');
-        const ariaLabelledby = link.getAttribute('aria-labelledby');
+        const text = computeAccessibleName(link);
         
-        if (!text && !ariaLabel && !ariaLabelledby) {
+        if (!text) {
           return {
             severity: 'error',
             message: 'Link has no discernible text',
@@ -102,23 +101,8 @@ const plugin: EvaluationPlugin = {
       selector: 'input:not([type="hidden"]):not([type="submit"]):not([type="button"]), select, textarea',
       evaluate: async (element: Element) => {
         const input = element as HTMLInputElement;
-        const id = input.id;
-        const ariaLabel = input.getAttribute('aria-label');
-        const ariaLabelledby = input.getAttribute('aria-labelledby');
-        const title = input.getAttribute('title');
         
-        
-        let hasLabel = false;
-        if (id) {
-          hasLabel = !!document.querySelector(`label[for="${id}"]`);
-        }
-        
-        
-        if (!hasLabel) {
-          hasLabel = !!input.closest('label');
-        }
-        
-        if (!hasLabel && !ariaLabel && !ariaLabelledby && !title) {
+        if (!computeAccessibleName(input, { ignorePlaceholder: true })) {
           return {
             severity: 'error',
             message: 'Form input missing label',
@@ -183,15 +167,11 @@ const plugin: EvaluationPlugin = {
       selector: 'button, [role="button"]',
       evaluate: async (element: Element) => {
         const button = element as HTMLButtonElement;
-        const text = button.textContent?.trim() || '';
-        const ariaLabel = button.getAttribute('aria-label');
-        const ariaLabelledby = button.getAttribute('aria-labelledby');
-        const title = button.getAttribute('title');
         
         
         const hasSvgIcon = button.querySelector('svg');
         
-        if (!text && !ariaLabel && !ariaLabelledby && !title) {
+        if (!computeAccessibleName(button)) {
           return {
             severity: 'error',
             message: hasSvgIcon 
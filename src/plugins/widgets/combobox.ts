@@ -0,0 +1,130 @@
+import type { EvaluationPlugin, RuleResult } from '../../types';
+import { checkActiveDescendant, describeItem } from './pattern';
+import { pressKey, withRestoredState } from '../../keyboard/interaction';
+import { isInSequentialFocusOrder, isRendered } from '../../keyboard/focus-order';
+
+const SELECTOR = '[role="combobox"]';
+
+function getPopup(combobox: Element): Element | null {
+  const ids = (combobox.getAttribute('aria-controls') || combobox.getAttribute('aria-owns') || '').trim();
+  if (!ids) return null;
+  return combobox.ownerDocument.getElementById(ids.split(/\s+/)[0]);
+}
+
+function getOptions(popup: Element | null): Element[] {
+  return popup
+    ? Array.from(popup.querySelectorAll('[role="option"], [role="gridcell"], [role="treeitem"]')).filter(isRendered)
+    : [];
+}
+
+function isExpanded(combobox: Element): boolean {
+  const popup = getPopup(combobox);
+  return combobox.getAttribute('aria-expanded') === 'true' && !!popup && isRendered(popup);
+}
+
+function failure(message: string, criterion: string, details: Record<string, any>): RuleResult {
+  return {
+    severity: 'error',
+    message,
+    category: criterion === '4.1.2' ? 'ARIA' : 'Keyboard',
+    wcagCriteria: [criterion],
+    details
+  };
+}
+
+const plugin: EvaluationPlugin = {
+  id: 'widget-combobox',
+  name: 'Combobox Pattern',
+  version: '1.0.0',
+  description: 'Keyboard interaction checks for the ARIA Authoring Practices combobox pattern',
+  rules: [
+    {
+      id: 'combobox-popup',
+      name: 'Combobox must reference its popup',
+      description: 'A combobox needs aria-expanded and aria-controls pointing at an existing popup',
+      category: 'ARIA',
+      severity: 'error',
+      wcagCriteria: ['4.1.2'],
+      selector: SELECTOR,
+      condition: element => isRendered(element),
+      evaluate: async (element: Element) => {
+        if (!element.hasAttribute('aria-expanded')) {
+          return failure('Combobox is missing aria-expanded', '4.1.2', { attribute: 'aria-expanded' });
+        }
+
+        const controls = element.getAttribute('aria-controls') || element.getAttribute('aria-owns');
+        if (!controls?.trim()) {
+          return failure('Combobox does not reference its popup with aria-controls', '4.1.2', { attribute: 'aria-controls' });
+        }
+        if (!getPopup(element)) {
+          return failure(`Combobox popup "${controls.trim()}" does not exist`, '4.1.2', { controls });
+        }
+
+        return null;
+      }
+    },
+    {
+      id: 'combobox-active-descendant',
+      name: 'Combobox aria-activedescendant must reference an option in its popup',
+      description: 'aria-activedescendant on a combobox must point at a rendered option inside the controlled popup',
+      category: 'ARIA',
+      severity: 'error',
+      wcagCriteria: ['4.1.2'],
+      selector: SELECTOR,
+      condition: element => isRendered(element) && !!element.getAttribute('aria-activedescendant')?.trim(),
+      evaluate: async (element: Element) => {
+        const popup = getPopup(element);
+        return checkActiveDescendant(element, popup, getOptions(popup), 'option');
+      }
+    },
+    {
+      id: 'combobox-arrow-keys',
+      name: 'Combobox must open and navigate its popup from the keyboard',
+      description: 'ArrowDown must open the popup and move the active option while focus stays on the combobox; Escape must close it',
+      category: 'Keyboard',
+      severity: 'error',
+      wcagCriteria: ['2.1.1'],
+      selector: SELECTOR,
+      condition: element => isRendered(element) && isInSequentialFocusOrder(element) && !!getPopup(element),
+      evaluate: async (element: Element) => withRestoredState(element.ownerDocument, async () => {
+        const doc = element.ownerDocument;
+        (element as HTMLElement).focus();
+
+        pressKey(element, 'ArrowDown');
+        if (!isExpanded(element)) {
+          return failure('Pressing ArrowDown does not open the combobox popup', '2.1.1', { key: 'ArrowDown' });
+        }
+
+        if (!element.getAttribute('aria-activedescendant')) {
+          pressKey(element, 'ArrowDown');
+        }
+
+        if (doc.activeElement !== element) {
+          return failure(
+            `Focus moved to ${describeItem(doc.activeElement)}; DOM focus must stay on the combobox`,
+            '2.1.1',
+            { key: 'ArrowDown', focused: describeItem(doc.activeElement) }
+          );
+        }
+
+        const options = getOptions(getPopup(element));
+        const active = element.getAttribute('aria-activedescendant');
+        if (!active || !options.some(option => option.id === active)) {
+          return failure('Pressing ArrowDown does not make an option active with aria-activedescendant', '2.1.1', {
+            key: 'ArrowDown',
+            activedescendant: active
+          });
+        }
+
+        pressKey(element, 'Escape');
+        if (isExpanded(element)) {
+          return failure('Pressing Escape does not close the combobox popup', '2.1.1', { key: 'Escape' });
+        }
+
+        return null;
+      })
+    }
+  ]
+};
+
+export default plugin;
@@ -0,0 +1,99 @@
+import type { EvaluationPlugin } from '../../types';
+import { pressKey, withRestoredState } from '../../keyboard/interaction';
+import { isInSequentialFocusOrder, isRendered } from '../../keyboard/focus-order';
+
+const SELECTOR = 'button[aria-expanded], [role="button"][aria-expanded]';
+
+
+
+
+function isDisclosure(element: Element): boolean {
+  const popup = element.getAttribute('aria-haspopup');
+  return isRendered(element) && (!popup || popup === 'false') && !element.closest('[role="menu"], [role="menubar"]');
+}
+
+function activate(element: Element, key: 'Enter' | ' ') {
+  const native = element.tagName === 'BUTTON';
+  pressKey(element, key, { defaultAction: native ? () => (element as HTMLElement).click() : undefined });
+}
+
+const plugin: EvaluationPlugin = {
+  id: 'widget-disclosure',
+  name: 'Disclosure Pattern',
+  version: '1.0.0',
+  description: 'Keyboard interaction checks for the ARIA Authoring Practices disclosure pattern',
+  rules: [
+    {
+      id: 'disclosure-controls',
+      name: 'Disclosure button must reference the content it shows',
+      description: 'aria-controls on a disclosure button must point at an existing element',
+      category: 'ARIA',
+      severity: 'error',
+      wcagCriteria: ['4.1.2'],
+      selector: SELECTOR,
+      condition: element => isDisclosure(element) && element.hasAttribute('aria-controls'),
+      evaluate: async (element: Element) => {
+        const ids = element.getAttribute('aria-controls')!.trim().split(/\s+/).filter(Boolean);
+        const missing = ids.filter(id => !element.ownerDocument.getElementById(id));
+
+        if (ids.length === 0 || missing.length > 0) {
+          return {
+            severity: 'error',
+            message: `Disclosure button controls missing element${missing.length === 1 ? '' : 's'}: ${missing.join(', ') || '(empty)'}`,
+            category: 'ARIA',
+            wcagCriteria: ['4.1.2'],
+            details: { controls: ids, missing }
+          };
+        }
+
+        return null;
+      }
+    },
+    {
+      id: 'disclosure-toggle',
+      name: 'Disclosure button must toggle with Enter and Space',
+      description: 'Enter and Space must toggle aria-expanded on a disclosure button',
+      category: 'Keyboard',
+      severity: 'error',
+      wcagCriteria: ['2.1.1'],
+      selector: SELECTOR,
+      condition: element => isDisclosure(element) && element.getAttribute('aria-disabled') !== 'true',
+      evaluate: async (element: Element) => {
+        if (!isInSequentialFocusOrder(element)) {
+          return {
+            severity: 'error',
+            message: 'Disclosure button cannot be reached with Tab',
+            category: 'Keyboard',
+            wcagCriteria: ['2.1.1'],
+            details: { tabindex: element.getAttribute('tabindex') }
+          };
+        }
+
+        return withRestoredState(element.ownerDocument, async () => {
+          (element as HTMLElement).focus();
+
+          for (const key of ['Enter', ' '] as const) {
+            const before = element.getAttribute('aria-expanded');
+            activate(element, key);
+            const after = element.getAttribute('aria-expanded');
+
+            if (after === before) {
+              const name = key === ' ' ? 'Space' : key;
+              return {
+                severity: 'error',
+                message: `Pressing ${name} does not toggle aria-expanded`,
+                category: 'Keyboard',
+                wcagCriteria: ['2.1.1'],
+                details: { key: name, expanded: before }
+              };
+            }
+          }
+
+          return null;
+        });
+      }
+    }
+  ]
+};
+
+export default plugin;
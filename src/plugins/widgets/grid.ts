@@ -0,0 +1,78 @@
+import type { EvaluationRule } from '../../types';
+import { createCompositePlugin, enterWidget, focusTarget, getCurrentItem, getItems, describeItem, type CompositePattern } from './pattern';
+import { pressKey, withRestoredState } from '../../keyboard/interaction';
+import { isRendered } from '../../keyboard/focus-order';
+
+const CELLS = '[role="gridcell"], [role="columnheader"], [role="rowheader"]';
+
+function getRow(cell: Element): Element | null {
+  return cell.closest('[role="row"]');
+}
+
+function getRowCells(row: Element, items: Element[]): Element[] {
+  return items.filter(item => getRow(item) === row);
+}
+
+const pattern: CompositePattern = {
+  id: 'grid',
+  name: 'Grid',
+  containerSelector: '[role="grid"], [role="treegrid"]',
+  itemSelector: CELLS,
+  itemLabel: 'cell',
+  orientation: 'horizontal',
+  activeDescendant: true,
+  homeEnd: true,
+  typeahead: false,
+  lineItems: (_container, current, items) => {
+    const row = getRow(current);
+    return row ? getRowCells(row, items) : items;
+  }
+};
+
+const rowNavigation: EvaluationRule = {
+  id: 'grid-row-navigation',
+  name: 'Grid must support moving between rows',
+  description: 'ArrowDown and ArrowUp must move to the cell in the same column of the adjacent row',
+  category: 'Keyboard',
+  severity: 'error',
+  wcagCriteria: ['2.1.1'],
+  selector: pattern.containerSelector,
+  condition: element => isRendered(element) && element.querySelectorAll('[role="row"]').length > 1,
+  evaluate: async (element: Element) => withRestoredState(element.ownerDocument, async () => {
+    const items = getItems(pattern, element);
+    const start = enterWidget(pattern, element, items);
+    const row = start && getRow(start);
+    if (!start || !row) return null;
+
+    const rows = Array.from(element.querySelectorAll('[role="row"]'))
+      .filter(candidate => getRowCells(candidate, items).length > 0);
+    const rowIndex = rows.indexOf(row);
+    const column = getRowCells(row, items).indexOf(start);
+
+    const key = rowIndex < rows.length - 1 ? 'ArrowDown' : 'ArrowUp';
+    const targetRow = rows[key === 'ArrowDown' ? rowIndex + 1 : rowIndex - 1];
+    if (!targetRow) return null;
+
+    const targetCells = getRowCells(targetRow, items);
+    const expected = targetCells[Math.min(column, targetCells.length - 1)];
+
+    pressKey(focusTarget(element), key);
+    const actual = getCurrentItem(items);
+
+    if (actual !== expected) {
+      return {
+        severity: 'error',
+        message: `Pressing ${key} does not move to the same column in the ${key === 'ArrowDown' ? 'next' : 'previous'} row`,
+        category: 'Keyboard',
+        wcagCriteria: ['2.1.1'],
+        details: { pattern: pattern.id, key, expected: describeItem(expected), actual: describeItem(actual) }
+      };
+    }
+
+    return null;
+  })
+};
+
+const plugin = createCompositePlugin(pattern, [rowNavigation]);
+
+export default plugin;
@@ -0,0 +1,36 @@
+import type { EvaluationPlugin } from '../../types';
+import TabsPatternPlugin from './tabs';
+import MenuPatternPlugin from './menu';
+import ListboxPatternPlugin from './listbox';
+import ComboboxPatternPlugin from './combobox';
+import TreePatternPlugin from './tree';
+import GridPatternPlugin from './grid';
+import RadioGroupPatternPlugin from './radio-group';
+import SliderPatternPlugin from './slider';
+import DisclosurePatternPlugin from './disclosure';
+
+export {
+  TabsPatternPlugin,
+  MenuPatternPlugin,
+  ListboxPatternPlugin,
+  ComboboxPatternPlugin,
+  TreePatternPlugin,
+  GridPatternPlugin,
+  RadioGroupPatternPlugin,
+  SliderPatternPlugin,
+  DisclosurePatternPlugin
+};
+
+export { createCompositePlugin, type CompositePattern, type WidgetOrientation } from './pattern';
+
+export const WIDGET_PATTERN_PLUGINS: EvaluationPlugin[] = [
+  TabsPatternPlugin,
+  MenuPatternPlugin,
+  ListboxPatternPlugin,
+  ComboboxPatternPlugin,
+  TreePatternPlugin,
+  GridPatternPlugin,
+  RadioGroupPatternPlugin,
+  SliderPatternPlugin,
+  DisclosurePatternPlugin
+];
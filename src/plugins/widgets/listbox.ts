@@ -0,0 +1,22 @@
+import { createCompositePlugin } from './pattern';
+
+function isComboboxPopup(listbox: Element): boolean {
+  return !!listbox.id && Array.from(listbox.ownerDocument.querySelectorAll('[role="combobox"][aria-controls]'))
+    .some(combobox => combobox.getAttribute('aria-controls')!.split(/\s+/).includes(listbox.id));
+}
+
+const plugin = createCompositePlugin({
+  id: 'listbox',
+  name: 'Listbox',
+  containerSelector: '[role="listbox"]',
+  itemSelector: '[role="option"]',
+  itemLabel: 'option',
+  orientation: 'vertical',
+  activeDescendant: true,
+  homeEnd: true,
+  typeahead: true,
+  activeItemSelector: '[aria-selected="true"]',
+  exclude: isComboboxPopup
+});
+
+export default plugin;
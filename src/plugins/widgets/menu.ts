@@ -0,0 +1,16 @@
+import { createCompositePlugin } from './pattern';
+
+const plugin = createCompositePlugin({
+  id: 'menu',
+  name: 'Menu',
+  containerSelector: '[role="menu"], [role="menubar"]',
+  itemSelector: '[role="menuitem"], [role="menuitemcheckbox"], [role="menuitemradio"]',
+  itemLabel: 'menu item',
+  orientation: container => container.getAttribute('role') === 'menubar' ? 'horizontal' : 'vertical',
+  activeDescendant: true,
+  homeEnd: true,
+  typeahead: true,
+  requiresTabStop: container => container.getAttribute('role') === 'menubar'
+});
+
+export default plugin;
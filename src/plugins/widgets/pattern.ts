@@ -0,0 +1,351 @@
+import type { EvaluationPlugin, EvaluationRule, RuleResult } from '../../types';
+import { computeAccessibleName } from '../../aria';
+import { isInSequentialFocusOrder, isRendered } from '../../keyboard/focus-order';
+import { pressKey, withRestoredState } from '../../keyboard/interaction';
+import { getUniqueSelector } from '../../utils/selector';
+
+export type WidgetOrientation = 'horizontal' | 'vertical';
+
+export interface CompositePattern {
+  /** Prefix for plugin and rule ids, e.g. `tabs`. */
+  id: string;
+  name: string;
+  containerSelector: string;
+  itemSelector: string;
+  /** Human-readable item name used in messages, e.g. `tab`. */
+  itemLabel: string;
+  orientation: WidgetOrientation | ((container: Element) => WidgetOrientation);
+  /** Whether the pattern may manage focus with aria-activedescendant instead of roving tabindex. */
+  activeDescendant: boolean;
+  homeEnd: boolean;
+  typeahead: boolean;
+  /** Items marking the widget's current value; the Tab stop should sit on one of them. */
+  activeItemSelector?: string;
+  /** Whether the container must be reachable with Tab (false for popup menus). */
+  requiresTabStop?: (container: Element) => boolean;
+  /** Containers matching the selector that belong to another pattern, e.g. a combobox popup. */
+  exclude?: (container: Element) => boolean;
+  /** Items that arrow keys and Home/End move between, e.g. the cells of one grid row. */
+  lineItems?: (container: Element, current: Element, items: Element[]) => Element[];
+}
+
+const ARROWS: Record<WidgetOrientation, { next: string; previous: string }> = {
+  horizontal: { next: 'ArrowRight', previous: 'ArrowLeft' },
+  vertical: { next: 'ArrowDown', previous: 'ArrowUp' }
+};
+
+
+
+
+export function createCompositePlugin(pattern: CompositePattern, extraRules: EvaluationRule[] = []): EvaluationPlugin {
+  const applies = (element: Element) => isRendered(element) && !pattern.exclude?.(element);
+
+  const rules: EvaluationRule[] = [
+    {
+      id: `${pattern.id}-focus-management`,
+      name: `${pattern.name} must expose exactly one Tab stop`,
+      description: `Roving tabindex must leave one ${pattern.itemLabel} in the Tab sequence`,
+      category: 'Keyboard',
+      severity: 'error',
+      wcagCriteria: ['2.1.1'],
+      selector: pattern.containerSelector,
+      condition: element => applies(element) && !element.hasAttribute('aria-activedescendant'),
+      evaluate: async element => checkRovingTabindex(pattern, element)
+    },
+    {
+      id: `${pattern.id}-arrow-keys`,
+      name: `${pattern.name} must support arrow key navigation`,
+      description: `Arrow keys must move focus between ${pattern.itemLabel}s`,
+      category: 'Keyboard',
+      severity: 'error',
+      wcagCriteria: ['2.1.1'],
+      selector: pattern.containerSelector,
+      condition: element => applies(element) && getItems(pattern, element).length > 1,
+      evaluate: async element => checkArrowKeys(pattern, element)
+    }
+  ];
+
+  if (pattern.activeDescendant) {
+    rules.push({
+      id: `${pattern.id}-active-descendant`,
+      name: `${pattern.name} aria-activedescendant must reference one of its ${pattern.itemLabel}s`,
+      description: 'aria-activedescendant must point at a rendered item owned by the focused container',
+      category: 'ARIA',
+      severity: 'error',
+      wcagCriteria: ['4.1.2'],
+      selector: pattern.containerSelector,
+      condition: element => applies(element) && !!element.getAttribute('aria-activedescendant')?.trim(),
+      evaluate: async element => checkActiveDescendant(element, element, getItems(pattern, element), pattern.itemLabel)
+    });
+  }
+
+  if (pattern.homeEnd) {
+    rules.push({
+      id: `${pattern.id}-home-end`,
+      name: `${pattern.name} should support Home and End`,
+      description: `Home and End should move to the first and last ${pattern.itemLabel}`,
+      category: 'Keyboard',
+      severity: 'warning',
+      wcagCriteria: ['2.1.1'],
+      selector: pattern.containerSelector,
+      condition: element => applies(element) && getItems(pattern, element).length > 2,
+      evaluate: async element => checkHomeEnd(pattern, element)
+    });
+  }
+
+  if (pattern.typeahead) {
+    rules.push({
+      id: `${pattern.id}-typeahead`,
+      name: `${pattern.name} should support typeahead`,
+      description: `Typing a character should move to the next ${pattern.itemLabel} whose name starts with it`,
+      category: 'Keyboard',
+      severity: 'warning',
+      wcagCriteria: ['2.1.1'],
+      selector: pattern.containerSelector,
+      condition: element => applies(element) && getItems(pattern, element).length > 1,
+      evaluate: async element => checkTypeahead(pattern, element)
+    });
+  }
+
+  return {
+    id: `widget-${pattern.id}`,
+    name: `${pattern.name} Pattern`,
+    version: '1.0.0',
+    description: `Keyboard interaction checks for the ARIA Authoring Practices ${pattern.name.toLowerCase()} pattern`,
+    rules: [...rules, ...extraRules]
+  };
+}
+
+
+
+
+export function getItems(pattern: CompositePattern, container: Element): Element[] {
+  return Array.from(container.querySelectorAll(pattern.itemSelector))
+    .filter(item => item.closest(pattern.containerSelector) === container && isRendered(item));
+}
+
+export function getOrientation(pattern: CompositePattern, container: Element): WidgetOrientation {
+  const explicit = container.getAttribute('aria-orientation');
+  if (explicit === 'horizontal' || explicit === 'vertical') return explicit;
+  return typeof pattern.orientation === 'function' ? pattern.orientation(container) : pattern.orientation;
+}
+
+
+
+
+export function getCurrentItem(items: Element[]): Element | null {
+  const active = items[0]?.ownerDocument.activeElement;
+  if (!active) return null;
+
+  const descendant = active.getAttribute('aria-activedescendant');
+  if (descendant) return items.find(item => item.id === descendant) ?? null;
+
+  return items.find(item => item === active || item.contains(active)) ?? null;
+}
+
+
+
+
+export function enterWidget(pattern: CompositePattern, container: Element, items: Element[]): Element | null {
+  const usesDescendant = container.hasAttribute('aria-activedescendant') ||
+    (pattern.activeDescendant && isInSequentialFocusOrder(container));
+
+  if (usesDescendant) {
+    (container as HTMLElement).focus();
+    if (!getCurrentItem(items)) {
+      pressKey(container, ARROWS[getOrientation(pattern, container)].next);
+    }
+    return getCurrentItem(items);
+  }
+
+  const entry = items.find(isInSequentialFocusOrder) ??
+    (pattern.activeItemSelector ? items.find(item => item.matches(pattern.activeItemSelector!)) : undefined) ??
+    items[0];
+  (entry as HTMLElement).focus();
+  return getCurrentItem(items);
+}
+
+export function focusTarget(container: Element): Element {
+  return container.ownerDocument.activeElement ?? container;
+}
+
+export function describeItem(element: Element | null): string | null {
+  return element ? getUniqueSelector(element) : null;
+}
+
+function checkRovingTabindex(pattern: CompositePattern, container: Element): RuleResult | null {
+  const items = getItems(pattern, container);
+  if (items.length === 0) return null;
+
+  const stops = items.filter(isInSequentialFocusOrder);
+  const label = pattern.itemLabel;
+
+  if (stops.length === 0) {
+    if (pattern.activeDescendant && isInSequentialFocusOrder(container)) return null;
+    if (pattern.requiresTabStop && !pattern.requiresTabStop(container)) return null;
+
+    return {
+      severity: 'error',
+      message: `None of the ${items.length} ${label}s can be reached with Tab`,
+      category: 'Keyboard',
+      wcagCriteria: ['2.1.1'],
+      details: { items: items.length, tabStops: 0 }
+    };
+  }
+
+  if (stops.length > 1) {
+    return {
+      severity: 'error',
+      message: `${stops.length} ${label}s are in the Tab sequence; roving tabindex should leave only one`,
+      category: 'Keyboard',
+      wcagCriteria: ['2.1.1'],
+      details: { items: items.length, tabStops: stops.length, stops: stops.map(describeItem) }
+    };
+  }
+
+  const activeItems = pattern.activeItemSelector
+    ? items.filter(item => item.matches(pattern.activeItemSelector!))
+    : [];
+  if (activeItems.length > 0 && !activeItems.includes(stops[0])) {
+    return {
+      severity: 'error',
+      message: `The Tab stop is on ${describeItem(stops[0])} instead of the active ${label} ${describeItem(activeItems[0])}`,
+      category: 'Keyboard',
+      wcagCriteria: ['2.1.1'],
+      details: { tabStop: describeItem(stops[0]), activeItem: describeItem(activeItems[0]) }
+    };
+  }
+
+  return null;
+}
+
+
+
+
+export function checkActiveDescendant(
+  owner: Element,
+  scope: Element | null,
+  items: Element[],
+  itemLabel: string
+): RuleResult | null {
+  const id = owner.getAttribute('aria-activedescendant')!.trim();
+  const target = owner.ownerDocument.getElementById(id);
+
+  const failure = (message: string): RuleResult => ({
+    severity: 'error',
+    message,
+    category: 'ARIA',
+    wcagCriteria: ['4.1.2'],
+    details: { activedescendant: id }
+  });
+
+  if (!target) return failure(`aria-activedescendant references missing element "${id}"`);
+  if (!scope || !scope.contains(target)) {
+    return failure(`aria-activedescendant "${id}" is outside the ${scope === owner ? 'widget' : 'controlled popup'}`);
+  }
+  if (!items.includes(target)) {
+    return failure(`aria-activedescendant "${id}" does not reference a rendered ${itemLabel}`);
+  }
+  if (owner.getAttribute('tabindex') === null && !isInSequentialFocusOrder(owner)) {
+    return failure('Element with aria-activedescendant must be focusable');
+  }
+
+  return null;
+}
+
+async function checkArrowKeys(pattern: CompositePattern, container: Element): Promise<RuleResult | null> {
+  const { next, previous } = ARROWS[getOrientation(pattern, container)];
+
+  return withRestoredState(container.ownerDocument, async () => {
+    const items = getItems(pattern, container);
+    const start = enterWidget(pattern, container, items);
+    if (!start) {
+      return keyFailure(pattern, next, `Pressing ${next} does not make any ${pattern.itemLabel} active`, null, null);
+    }
+
+    const line = pattern.lineItems ? pattern.lineItems(container, start, items) : items;
+    const index = line.indexOf(start);
+    const forwardFirst = index < line.length - 1;
+    const moves = forwardFirst
+      ? [[next, line[index + 1]], [previous, start]] as const
+      : [[previous, line[index - 1]], [next, start]] as const;
+
+    for (const [key, expected] of moves) {
+      if (!expected) continue;
+      pressKey(focusTarget(container), key);
+      const actual = getCurrentItem(items);
+      if (actual !== expected) {
+        const direction = key === next ? 'next' : 'previous';
+        return keyFailure(pattern, key, `Pressing ${key} does not move to the ${direction} ${pattern.itemLabel}`, expected, actual);
+      }
+    }
+
+    return null;
+  });
+}
+
+async function checkHomeEnd(pattern: CompositePattern, container: Element): Promise<RuleResult | null> {
+  return withRestoredState(container.ownerDocument, async () => {
+    const items = getItems(pattern, container);
+    const start = enterWidget(pattern, container, items);
+    if (!start) return null;
+
+    const line = pattern.lineItems ? pattern.lineItems(container, start, items) : items;
+    for (const [key, expected] of [['End', line[line.length - 1]], ['Home', line[0]]] as const) {
+      pressKey(focusTarget(container), key);
+      const actual = getCurrentItem(items);
+      if (actual !== expected) {
+        const position = key === 'Home' ? 'first' : 'last';
+        return {
+          ...keyFailure(pattern, key, `Pressing ${key} does not move to the ${position} ${pattern.itemLabel}`, expected, actual),
+          severity: 'warning'
+        };
+      }
+    }
+
+    return null;
+  });
+}
+
+async function checkTypeahead(pattern: CompositePattern, container: Element): Promise<RuleResult | null> {
+  return withRestoredState(container.ownerDocument, async () => {
+    const items = getItems(pattern, container);
+    const start = enterWidget(pattern, container, items);
+    if (!start) return null;
+
+    const initial = (item: Element) => computeAccessibleName(item).trim().charAt(0).toLowerCase();
+    const startIndex = items.indexOf(start);
+    const ordered = [...items.slice(startIndex + 1), ...items.slice(0, startIndex)];
+    const expected = ordered.find(item => /\p{L}|\d/u.test(initial(item)) && initial(item) !== initial(start));
+    if (!expected) return null;
+
+    const character = initial(expected);
+    pressKey(focusTarget(container), character);
+    const actual = getCurrentItem(items);
+
+    if (actual !== expected) {
+      return {
+        ...keyFailure(pattern, character, `Typing "${character}" does not move to the next ${pattern.itemLabel} starting with it`, expected, actual),
+        severity: 'warning'
+      };
+    }
+
+    return null;
+  });
+}
+
+function keyFailure(
+  pattern: CompositePattern,
+  key: string,
+  message: string,
+  expected: Element | null,
+  actual: Element | null
+): RuleResult {
+  return {
+    severity: 'error',
+    message,
+    category: 'Keyboard',
+    wcagCriteria: ['2.1.1'],
+    details: { pattern: pattern.id, key, expected: describeItem(expected), actual: describeItem(actual) }
+  };
+}
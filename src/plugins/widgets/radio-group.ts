@@ -0,0 +1,56 @@
+import type { EvaluationRule } from '../../types';
+import { createCompositePlugin, enterWidget, focusTarget, getItems, describeItem, type CompositePattern } from './pattern';
+import { pressKey, withRestoredState } from '../../keyboard/interaction';
+import { isRendered } from '../../keyboard/focus-order';
+
+const pattern: CompositePattern = {
+  id: 'radio-group',
+  name: 'Radio Group',
+  containerSelector: '[role="radiogroup"]',
+  itemSelector: '[role="radio"]',
+  itemLabel: 'radio button',
+  orientation: 'vertical',
+  activeDescendant: false,
+  homeEnd: false,
+  typeahead: false,
+  activeItemSelector: '[aria-checked="true"]'
+};
+
+const selectionFollowsFocus: EvaluationRule = {
+  id: 'radio-group-selection-follows-focus',
+  name: 'Arrow keys must check the focused radio button',
+  description: 'Moving through a radio group with arrow keys must check the newly focused radio button',
+  category: 'Keyboard',
+  severity: 'error',
+  wcagCriteria: ['2.1.1'],
+  selector: pattern.containerSelector,
+  condition: element => isRendered(element) && getItems(pattern, element).length > 1,
+  evaluate: async (element: Element) => withRestoredState(element.ownerDocument, async () => {
+    const items = getItems(pattern, element);
+    const start = enterWidget(pattern, element, items);
+    if (!start) return null;
+
+    const index = items.indexOf(start);
+    const key = index < items.length - 1 ? 'ArrowDown' : 'ArrowUp';
+    pressKey(focusTarget(element), key);
+
+    const focused = element.ownerDocument.activeElement;
+    if (!focused || focused === start || !items.includes(focused)) return null;
+
+    if (focused.getAttribute('aria-checked') !== 'true') {
+      return {
+        severity: 'error',
+        message: `Pressing ${key} moves focus to ${describeItem(focused)} without checking it`,
+        category: 'Keyboard',
+        wcagCriteria: ['2.1.1'],
+        details: { key, focused: describeItem(focused), checked: focused.getAttribute('aria-checked') }
+      };
+    }
+
+    return null;
+  })
+};
+
+const plugin = createCompositePlugin(pattern, [selectionFollowsFocus]);
+
+export default plugin;
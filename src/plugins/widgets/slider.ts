@@ -0,0 +1,106 @@
+import type { EvaluationPlugin, RuleResult } from '../../types';
+import { pressKey, withRestoredState } from '../../keyboard/interaction';
+import { isInSequentialFocusOrder, isRendered } from '../../keyboard/focus-order';
+
+interface SliderRange {
+  min: number;
+  max: number;
+  now: number;
+}
+
+const SELECTOR = '[role="slider"]';
+
+function readRange(slider: Element): SliderRange {
+  const read = (name: string, fallback: number) => {
+    const value = parseFloat(slider.getAttribute(name) ?? '');
+    return Number.isNaN(value) ? fallback : value;
+  };
+
+  const min = read('aria-valuemin', 0);
+  const max = read('aria-valuemax', 100);
+  return { min, max, now: read('aria-valuenow', NaN) };
+}
+
+function failure(message: string, details: Record<string, any>): RuleResult {
+  return { severity: 'error', message, category: 'Keyboard', wcagCriteria: ['2.1.1'], details };
+}
+
+const plugin: EvaluationPlugin = {
+  id: 'widget-slider',
+  name: 'Slider Pattern',
+  version: '1.0.0',
+  description: 'Keyboard interaction checks for the ARIA Authoring Practices slider pattern',
+  rules: [
+    {
+      id: 'slider-value',
+      name: 'Slider must expose a value within its range',
+      description: 'aria-valuenow must be present and between aria-valuemin and aria-valuemax',
+      category: 'ARIA',
+      severity: 'error',
+      wcagCriteria: ['4.1.2'],
+      selector: SELECTOR,
+      condition: element => isRendered(element),
+      evaluate: async (element: Element) => {
+        const range = readRange(element);
+
+        if (Number.isNaN(range.now)) {
+          return { severity: 'error', message: 'Slider is missing aria-valuenow', category: 'ARIA', wcagCriteria: ['4.1.2'], details: { ...range } };
+        }
+        if (range.now < range.min || range.now > range.max) {
+          return {
+            severity: 'error',
+            message: `Slider value ${range.now} is outside its range ${range.min}–${range.max}`,
+            category: 'ARIA',
+            wcagCriteria: ['4.1.2'],
+            details: { ...range }
+          };
+        }
+
+        return null;
+      }
+    },
+    {
+      id: 'slider-keys',
+      name: 'Slider must be operable with arrow keys, Home and End',
+      description: 'Arrow keys must step the value and Home/End must jump to the minimum and maximum',
+      category: 'Keyboard',
+      severity: 'error',
+      wcagCriteria: ['2.1.1'],
+      selector: SELECTOR,
+      condition: element => isRendered(element) && element.getAttribute('aria-disabled') !== 'true',
+      evaluate: async (element: Element) => {
+        if (!isInSequentialFocusOrder(element)) {
+          return failure('Slider cannot be reached with Tab', { tabindex: element.getAttribute('tabindex') });
+        }
+
+        return withRestoredState(element.ownerDocument, async () => {
+          (element as HTMLElement).focus();
+          const { min, max } = readRange(element);
+
+          const steps: Array<[string, (before: number, after: number) => boolean, string]> = [
+            ['End', (_before, after) => after === max, 'set the maximum value'],
+            ['ArrowLeft', (before, after) => after < before, 'decrease the value'],
+            ['ArrowRight', (before, after) => after > before, 'increase the value'],
+            ['ArrowDown', (before, after) => after < before, 'decrease the value'],
+            ['ArrowUp', (before, after) => after > before, 'increase the value'],
+            ['Home', (_before, after) => after === min, 'set the minimum value']
+          ];
+
+          for (const [key, moved, expectation] of steps) {
+            const before = readRange(element).now;
+            pressKey(element, key);
+            const after = readRange(element).now;
+
+            if (!moved(before, after)) {
+              return failure(`Pressing ${key} does not ${expectation}`, { key, before, after, min, max });
+            }
+          }
+
+          return null;
+        });
+      }
+    }
+  ]
+};
+
+export default plugin;
@@ -0,0 +1,16 @@
+import { createCompositePlugin } from './pattern';
+
+const plugin = createCompositePlugin({
+  id: 'tabs',
+  name: 'Tabs',
+  containerSelector: '[role="tablist"]',
+  itemSelector: '[role="tab"]',
+  itemLabel: 'tab',
+  orientation: 'horizontal',
+  activeDescendant: false,
+  homeEnd: true,
+  typeahead: false,
+  activeItemSelector: '[aria-selected="true"]'
+});
+
+export default plugin;
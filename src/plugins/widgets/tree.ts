@@ -0,0 +1,16 @@
+import { createCompositePlugin } from './pattern';
+
+const plugin = createCompositePlugin({
+  id: 'tree',
+  name: 'Tree View',
+  containerSelector: '[role="tree"]',
+  itemSelector: '[role="treeitem"]',
+  itemLabel: 'tree item',
+  orientation: 'vertical',
+  activeDescendant: true,
+  homeEnd: true,
+  typeahead: true,
+  activeItemSelector: '[aria-selected="true"]'
+});
+
+export default plugin;
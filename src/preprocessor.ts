@@ -3,10 +3,22 @@ import { parseColor, getContrastRatio } from './contrast.js';
 import path from 'path';
 import fs from 'fs';
 import type { MemoryStats } from './types.js';
+import type { SourceFinding } from './reporting/types.js';
 
 
+export interface PreprocessorOptions {
+  enabled?: boolean;
+  /** Stylesheet, relative to the project root, that theme colour tokens are read from. */
+  cssPath?: string;
+  /** Contrast below this level's minimum is reported as an error rather than a warning. */
+  level?: 'AA' | 'AAA';
+  /** Receives each component's issues with source positions, e.g. for a SARIF report. */
+  onFindings?: (findings: SourceFinding[]) => void;
+}
+
 interface PreprocessorIssue {
   type: 'error' | 'warning';
+  rule: string;
   message: string;
   line?: number;
   column?: number;
@@ -55,6 +67,7 @@ let memoryStats: MemoryStats = {
 
 
 let issues: PreprocessorIssue[] = [];
+let source = '';
 
 
 
@@ -75,12 +88,12 @@ function checkMemoryPressure(): void {
 
 
 
-function loadThemeColors(): Record<string, { light: string; dark: string }> {
+function loadThemeColors(cssFile: string): Record<string, { light: string; dark: string }> {
   try {
     checkMemoryPressure();
     
     const projectRoot = process.cwd();
-    const cssPath = path.join(projectRoot, 'src', 'app.css');
+    const cssPath = path.join(projectRoot, cssFile);
     
     if (fs.existsSync(cssPath)) {
       
@@ -119,9 +132,23 @@ function loadThemeColors(): Record<string, { light: string; dark: string }> {
 
 
 
+function locate(element: any): { line?: number; column?: number } {
+  if (typeof element.start !== 'number') {
+    return { line: element.start?.line, column: element.start?.column };
+  }
+
+  const before = source.slice(0, element.start);
+  const lineStart = before.lastIndexOf('\n') + 1;
+  return { line: before.split('\n').length, column: element.start - lineStart + 1 };
+}
+
+
+
+
 function validateColorContrast(
   element: any, 
-  themeColors: Record<string, { light: string; dark: string }>
+  themeColors: Record<string, { light: string; dark: string }>,
+  level: 'AA' | 'AAA'
 ): void {
   
   const bgColor = element.attributes?.bg || element.attributes?.['bg-surface-50'] || 'surface';
@@ -137,19 +164,19 @@ function validateColorContrast(
     if (bgColorParsed && textColorParsed) {
       const contrast = getContrastRatio(textColorParsed, bgColorParsed);
       
-      if (contrast < WCAG_REQUIREMENTS.normal.AA) {
+      if (contrast < WCAG_REQUIREMENTS.normal[level]) {
         issues.push({
           type: 'error',
-          message: `Insufficient contrast ratio: ${contrast.toFixed(2)} (minimum 4.5:1)`,
-          line: element.start?.line,
-          column: element.start?.column
+          rule: 'color-contrast',
+          message: `Insufficient contrast ratio: ${contrast.toFixed(2)} (minimum ${WCAG_REQUIREMENTS.normal[level]}:1)`,
+          ...locate(element)
         });
       } else if (contrast < WCAG_REQUIREMENTS.normal.AAA) {
         issues.push({
           type: 'warning',
+          rule: 'color-contrast',
           message: `Low contrast ratio: ${contrast.toFixed(2)} (AAA requires 7:1)`,
-          line: element.start?.line,
-          column: element.start?.column
+          ...locate(element)
         });
       }
     }
@@ -169,9 +196,9 @@ function validateAriaAttributes(element: any): void {
     if (!hasText) {
       issues.push({
         type: 'error',
+        rule: 'button-name',
         message: 'Button missing aria-label or text content',
-        line: element.start?.line,
-        column: element.start?.column
+        ...locate(element)
       });
     }
   }
@@ -179,9 +206,9 @@ function validateAriaAttributes(element: any): void {
   if (tag === 'img' && !element.attributes?.alt && !element.attributes?.['aria-label']) {
     issues.push({
       type: 'error',
+      rule: 'image-alt',
       message: 'Image missing alt text or aria-label',
-      line: element.start?.line,
-      column: element.start?.column
+      ...locate(element)
     });
   }
   
@@ -194,9 +221,9 @@ function validateAriaAttributes(element: any): void {
       if (level > 2) {
         issues.push({
           type: 'warning',
+          rule: 'heading-order',
           message: `Possible skipped heading level: h${level}`,
-          line: element.start?.line,
-          column: element.start?.column
+          ...locate(element)
         });
       }
     }
@@ -216,9 +243,9 @@ function validateKeyboardAccessibility(element: any): void {
     if (!hasTabindex && !element.attributes?.role) {
       issues.push({
         type: 'warning',
+        rule: 'focusable-interactive',
         message: `Interactive ${tag} element missing keyboard accessibility (tabindex or role)`,
-        line: element.start?.line,
-        column: element.start?.column
+        ...locate(element)
       });
     }
   }
@@ -227,9 +254,9 @@ function validateKeyboardAccessibility(element: any): void {
   if (hasTabindex && parseInt(element.attributes.tabindex) > 0) {
     issues.push({
       type: 'warning',
+      rule: 'tabindex',
       message: 'Positive tabindex values can disrupt keyboard navigation order',
-      line: element.start?.line,
-      column: element.start?.column
+      ...locate(element)
     });
   }
 }
@@ -237,13 +264,17 @@ function validateKeyboardAccessibility(element: any): void {
 
 
 
-function validateAccessibility(ast: any, themeColors: Record<string, { light: string; dark: string }>): void {
+function validateAccessibility(
+  ast: any,
+  themeColors: Record<string, { light: string; dark: string }>,
+  level: 'AA' | 'AAA'
+): void {
   issues = []; 
   
   
   function traverse(node: any) {
     if (node.type === 'Element') {
-      validateColorContrast(node, themeColors);
+      validateColorContrast(node, themeColors, level);
       validateAriaAttributes(node);
       validateKeyboardAccessibility(node);
     }
@@ -277,24 +308,35 @@ function formatIssues(filename: string): void {
 
 
 
-export function accessibilityPreprocessor() {
+export function accessibilityPreprocessor(options: PreprocessorOptions = {}) {
+  const { enabled = true, cssPath = 'src/app.css', level = 'AA', onFindings } = options;
+
   return {
     name: 'accessibility',
     markup: async function ({ content, filename }: { content: string; filename: string }) {
       try {
         
-        if (!filename || !filename.endsWith('.svelte') || process.env.NODE_ENV === 'test') {
+        if (!enabled || !filename || !filename.endsWith('.svelte') || process.env.NODE_ENV === 'test') {
           return { code: content };
         }
         
         
-        const themeColors = loadThemeColors();
+        const themeColors = loadThemeColors(cssPath);
         
         
         const ast = parse(content, { filename });
         
-        validateAccessibility(ast, themeColors);
+        source = content;
+        validateAccessibility(ast, themeColors, level);
         formatIssues(filename);
+        onFindings?.(issues.map(issue => ({
+          ruleId: issue.rule,
+          level: issue.type,
+          message: issue.message,
+          file: path.relative(process.cwd(), filename),
+          line: issue.line,
+          column: issue.column
+        })));
         
         
         return { code: content };
@@ -13,6 +13,8 @@ export interface ReportData {
     minorIssues: number;
     byTheme: Map<string, { passed: number; failed: number }>;
     byRoute: Map<string, { passed: number; failed: number }>;
+    /** Extra dimensions such as viewport or locale, keyed by dimension name. */
+    byDimension?: Map<string, Map<string, { passed: number; failed: number }>>;
     byComponent: Map<string, number>;
   };
 }
@@ -317,6 +319,7 @@ export class HtmlReportGenerator {
           ${this.generateThemeChart(summary.byTheme)}
         </div>
       </div>
+${this.generateDimensionCharts(summary.byDimension)}
 
       <div class="chart-container">
         <h2>Top Components with Issues</h2>
@@ -381,7 +384,7 @@ export class HtmlReportGenerator {
       const percentage = (data.failed / total) * 100;
       items.push(`
         <div class="bar-item">
-          <div class="bar-label">${theme}</div>
+          <div class="bar-label">${this.escapeHtml(theme)}</div>
           <div class="bar-container">
             <div class="bar-fill" style="width: ${percentage}%; background: var(--color-fail)"></div>
             <div class="bar-value">${data.failed}/${total}</div>
@@ -392,6 +395,17 @@ export class HtmlReportGenerator {
     return items.join('');
   }
 
+  private generateDimensionCharts(dimensions?: Map<string, Map<string, { passed: number; failed: number }>>): string {
+    return Array.from(dimensions ?? [], ([name, data]) => `
+      <div class="chart-container">
+        <h2>Issues by ${this.escapeHtml(name.charAt(0).toUpperCase() + name.slice(1))}</h2>
+        <div class="bar-chart">
+          ${this.generateThemeChart(data)}
+        </div>
+      </div>
+`).join('');
+  }
+
   private generateComponentChart(componentData: Map<string, number>): string {
     const sorted = Array.from(componentData.entries())
       .sort((a, b) => b[1] - a[1])
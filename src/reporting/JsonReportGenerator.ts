@@ -1,4 +1,21 @@
-import type { AccessibilityTestResult } from './types';
+import type { AccessibilityTestResult, FixableNodeResult, ReportCatalog } from './types';
+import type { FixProposal } from '../types';
+import {
+  discoverDimensions,
+  getExtraDimensions,
+  isExtraDimension,
+  summarizeDimension,
+  type DimensionSummary,
+  type ReportDimension
+} from './dimensions';
+import {
+  compareToBaseline,
+  createBaseline,
+  type Baseline,
+  type BaselineComparison,
+  type BaselineIssue,
+  type SuppressedIssue
+} from './baseline';
 import type { Result } from 'axe-core';
 
 export interface JsonReport {
@@ -21,24 +38,24 @@ export interface JsonReport {
       moderate: number;
       minor: number;
     };
+    /** Elements axe could not decide on and that need manual review. */
+    incomplete: number;
   };
+  /** Every dimension the results vary across, including catalog values without results. */
+  dimensions: ReportDimension[];
   results: {
-    byTheme: Record<string, ThemeResult>;
+    byTheme: Record<string, DimensionSummary>;
     byRoute: Record<string, RouteResult>;
+    /** Extra dimensions such as viewport or locale, keyed by dimension name. */
+    byDimension: Record<string, Record<string, DimensionSummary>>;
     byComponent: Record<string, ComponentResult>;
   };
   violations: ViolationDetail[];
+  needsReview: ViolationDetail[];
   contrastFailures: ContrastFailure[];
   actionableItems: ActionableItem[];
 }
 
-interface ThemeResult {
-  passed: number;
-  failed: number;
-  violations: number;
-  criticalIssues: number;
-}
-
 interface RouteResult {
   passed: number;
   failed: number;
@@ -69,6 +86,8 @@ interface ElementDetail {
   failureSummary: string;
   route: string;
   theme: string;
+  dimensions?: Record<string, string>;
+  fixes?: FixProposal[];
 }
 
 interface ContrastFailure {
@@ -96,10 +115,13 @@ interface ActionableItem {
 }
 
 export class JsonReportGenerator {
-  generateReport(results: AccessibilityTestResult[]): JsonReport {
+  generateReport(results: AccessibilityTestResult[], catalog?: ReportCatalog): JsonReport {
     const timestamp = new Date();
+    const dimensions = discoverDimensions(results, catalog);
+    const [themes, routes] = ['theme', 'route'].map(name => dimensions.find(dimension => dimension.name === name)!);
     const summary = this.calculateSummary(results);
     const violations = this.extractViolations(results);
+    const needsReview = this.extractViolations(results, 'incomplete');
     const contrastFailures = this.extractContrastFailures(results);
     const actionableItems = this.generateActionableItems(violations, contrastFailures);
 
@@ -111,27 +133,35 @@ export class JsonReportGenerator {
         environment: process.env.NODE_ENV || 'test'
       },
       summary,
+      dimensions,
       results: {
-        byTheme: this.groupByTheme(results),
-        byRoute: this.groupByRoute(results),
+        byTheme: this.groupByDimension(results, themes),
+        byRoute: this.groupByRoute(results, routes),
+        byDimension: Object.fromEntries(dimensions
+          .filter(isExtraDimension)
+          .map(dimension => [dimension.name, this.groupByDimension(results, dimension)])),
         byComponent: this.groupByComponent(violations)
       },
       violations,
+      needsReview,
       contrastFailures,
       actionableItems
     };
   }
 
-  generateCICDReport(results: AccessibilityTestResult[]): CICDReport {
+  generateCICDReport(results: AccessibilityTestResult[], baseline?: Baseline): CICDReport {
     const report = this.generateReport(results);
-    const hasFailures = report.summary.failed > 0;
-    const hasCriticalIssues = report.summary.violations.critical > 0;
+    const comparison = compareToBaseline(results, baseline ?? createBaseline([]));
+    const hasFailures = comparison.new.length > 0;
+    const hasCriticalIssues = comparison.new.some(issue => issue.impact === 'critical');
     
     return {
       status: hasFailures ? 'failed' : 'passed',
       blocking: hasCriticalIssues,
       summary: {
-        message: this.generateSummaryMessage(report.summary),
+        message: baseline
+          ? this.generateBaselineMessage(comparison)
+          : this.generateSummaryMessage(report.summary),
         successRate: report.summary.successRate,
         criticalIssues: report.summary.violations.critical,
         totalViolations: report.summary.violations.total
@@ -142,8 +172,19 @@ export class JsonReportGenerator {
         critical_violations: report.summary.violations.critical,
         serious_violations: report.summary.violations.serious,
         contrast_failures: report.contrastFailures.length,
-        test_duration_ms: report.summary.duration
+        test_duration_ms: report.summary.duration,
+        new_issues: comparison.new.length,
+        suppressed_issues: comparison.suppressed.length
       },
+      baseline: baseline
+        ? {
+          new: comparison.new,
+          fixed: comparison.fixed,
+          unchanged: comparison.unchanged.length
+        }
+        : undefined,
+      suppressed: comparison.suppressed,
+      unjustifiedSuppressions: comparison.unjustified,
       artifacts: {
         fullReport: 'accessibility-report.html',
         jsonReport: 'accessibility-report.json',
@@ -165,12 +206,17 @@ export class JsonReportGenerator {
       minor: 0
     };
 
+    let incomplete = 0;
+
     results.forEach(result => {
       result.axeResults.violations.forEach(violation => {
         violations.total += violation.nodes.length;
         const impact = violation.impact || 'minor';
         violations[impact as keyof typeof violations] += violation.nodes.length;
       });
+      (result.axeResults.incomplete ?? []).forEach(item => {
+        incomplete += item.nodes.length;
+      });
     });
 
     return {
@@ -179,15 +225,19 @@ export class JsonReportGenerator {
       failed: totalTests - passed,
       successRate: (passed / totalTests) * 100,
       duration: totalDuration,
-      violations
+      violations,
+      incomplete
     };
   }
 
-  private extractViolations(results: AccessibilityTestResult[]): ViolationDetail[] {
+  private extractViolations(
+    results: AccessibilityTestResult[],
+    outcome: 'violations' | 'incomplete' = 'violations'
+  ): ViolationDetail[] {
     const violationMap = new Map<string, ViolationDetail>();
 
     results.forEach(result => {
-      result.axeResults.violations.forEach(violation => {
+      (result.axeResults[outcome] ?? []).forEach(violation => {
         const existing = violationMap.get(violation.id) || {
           id: violation.id,
           impact: violation.impact || 'minor',
@@ -201,13 +251,16 @@ export class JsonReportGenerator {
 
         existing.occurrences += violation.nodes.length;
         
-        violation.nodes.forEach(node => {
+        const dimensions = getExtraDimensions(result);
+        violation.nodes.forEach((node: FixableNodeResult) => {
           existing.affectedElements.push({
             selector: node.target.join(' '),
             html: node.html,
             failureSummary: node.failureSummary || '',
             route: result.route,
-            theme: result.theme
+            theme: result.theme,
+            ...(dimensions ? { dimensions } : {}),
+            ...(node.fixes?.length ? { fixes: node.fixes } : {})
           });
         });
 
@@ -322,38 +375,18 @@ export class JsonReportGenerator {
     return 'large';
   }
 
-  private groupByTheme(results: AccessibilityTestResult[]): Record<string, ThemeResult> {
-    const themes: Record<string, ThemeResult> = {};
-    
-    results.forEach(result => {
-      if (!themes[result.theme]) {
-        themes[result.theme] = {
-          passed: 0,
-          failed: 0,
-          violations: 0,
-          criticalIssues: 0
-        };
-      }
-      
-      const themeResult = themes[result.theme];
-      if (result.axeResults.violations.length === 0) {
-        themeResult.passed++;
-      } else {
-        themeResult.failed++;
-        result.axeResults.violations.forEach(v => {
-          themeResult.violations += v.nodes.length;
-          if (v.impact === 'critical') {
-            themeResult.criticalIssues += v.nodes.length;
-          }
-        });
-      }
-    });
-    
-    return themes;
+  private groupByDimension(
+    results: AccessibilityTestResult[],
+    dimension: ReportDimension
+  ): Record<string, DimensionSummary> {
+    return Object.fromEntries(summarizeDimension(results, dimension));
   }
 
-  private groupByRoute(results: AccessibilityTestResult[]): Record<string, RouteResult> {
+  private groupByRoute(results: AccessibilityTestResult[], dimension: ReportDimension): Record<string, RouteResult> {
     const routes: Record<string, RouteResult> = {};
+    dimension.values.forEach(route => {
+      routes[route] = { passed: 0, failed: 0, violations: 0, themes: {} };
+    });
     
     results.forEach(result => {
       if (!routes[result.route]) {
@@ -427,6 +460,15 @@ export class JsonReportGenerator {
     return `✅ All accessibility tests passed! Success rate: ${summary.successRate.toFixed(1)}%`;
   }
 
+  private generateBaselineMessage(comparison: BaselineComparison): string {
+    if (comparison.new.length > 0) {
+      return `⚠️ ${comparison.new.length} new accessibility issues are not in the baseline ` +
+        `(${comparison.fixed.length} fixed, ${comparison.unchanged.length} known).`;
+    }
+    return `✅ No new accessibility issues. ${comparison.fixed.length} baseline issues fixed, ` +
+      `${comparison.unchanged.length} known issues remain.`;
+  }
+
   private generateAnnotations(violations: ViolationDetail[]): Annotation[] {
     return violations
       .filter(v => v.impact === 'critical' || v.impact === 'serious')
@@ -444,7 +486,10 @@ export class JsonReportGenerator {
     
     return results
       .filter(r => r.axeResults.violations.length > 0)
-      .map(r => `screenshots/${r.route.replace(/\//g, '-')}-${r.theme}.png`);
+      .map(r => {
+        const extra = Object.values(getExtraDimensions(r) ?? {}).map(value => `-${value}`).join('');
+        return `screenshots/${r.route.replace(/\//g, '-')}-${r.theme}${extra}.png`;
+      });
   }
 }
 
@@ -459,6 +504,14 @@ interface CICDReport {
   };
   annotations: Annotation[];
   metrics: Record<string, number>;
+  /** Present when the run was compared with a baseline. */
+  baseline?: {
+    new: BaselineIssue[];
+    fixed: BaselineIssue[];
+    unchanged: number;
+  };
+  suppressed: SuppressedIssue[];
+  unjustifiedSuppressions: BaselineIssue[];
   artifacts: {
     fullReport: string;
     jsonReport: string;
@@ -0,0 +1,212 @@
+import type { NodeResult, Result } from 'axe-core';
+import type { AccessibilityTestResult } from './types';
+import { describeResult, getExtraDimensions } from './dimensions';
+import type { TestCaseResult, TestRunResult } from '../validators/ContrastTestRunner';
+import { getCriterion } from '../engine/rules/criteria';
+
+export interface JunitOptions {
+  /** Name of the root `testsuites` element. */
+  name?: string;
+}
+
+interface JunitCase {
+  name: string;
+  classname: string;
+  time: number;
+  failure?: { message: string; type: string; details: string };
+  error?: { message: string; details: string };
+  skipped?: string;
+}
+
+interface JunitSuite {
+  name: string;
+  time: number;
+  timestamp?: string;
+  properties?: Record<string, string>;
+  cases: JunitCase[];
+}
+
+export class JunitReportGenerator {
+  generateReport(results: AccessibilityTestResult[], options: JunitOptions = {}): string {
+    const suites = results.map(result => {
+      const classname = describeResult(result);
+      return {
+        name: classname,
+        time: result.duration / 1000,
+        timestamp: result.timestamp.toISOString(),
+        properties: { route: result.route, theme: result.theme, ...getExtraDimensions(result) },
+        cases: this.toRuleCases(result, classname)
+      };
+    });
+
+    return this.render(options.name ?? 'Accessibility', suites);
+  }
+
+  generateTestRunReport(results: TestRunResult[], options: JunitOptions = {}): string {
+    const suites = results.map(run => ({
+      name: run.suite,
+      time: run.duration / 1000,
+      cases: run.results.map(test => this.toContrastCase(test, run.suite))
+    }));
+
+    return this.render(options.name ?? 'Contrast', suites);
+  }
+
+  private toRuleCases(result: AccessibilityTestResult, classname: string): JunitCase[] {
+    const { violations, incomplete = [], passes = [], inapplicable = [] } = result.axeResults;
+    const cases = new Map<string, JunitCase>();
+    const add = (rule: Result, build: () => Omit<JunitCase, 'name' | 'classname' | 'time'>) => {
+      if (cases.has(rule.id)) return;
+      cases.set(rule.id, { name: rule.id, classname, time: 0, ...build() });
+    };
+
+    violations.forEach(rule => add(rule, () => ({
+      failure: {
+        message: `${rule.help} (${rule.nodes.length} element${rule.nodes.length === 1 ? '' : 's'})`,
+        type: rule.impact || 'minor',
+        details: this.describeNodes(rule, rule.nodes)
+      }
+    })));
+    incomplete.forEach(rule => add(rule, () => ({ skipped: `Needs review: ${rule.help}` })));
+    passes.forEach(rule => add(rule, () => ({})));
+    inapplicable.forEach(rule => add(rule, () => ({ skipped: 'Not applicable' })));
+
+    return Array.from(cases.values());
+  }
+
+  private toContrastCase(test: TestCaseResult, classname: string): JunitCase {
+    const base = { name: test.name, classname, time: test.duration / 1000 };
+    const criterion = this.formatCriterion(test.wcagCriterion);
+
+    if (test.skipped) return { ...base, skipped: test.failures.join('; ') || 'Skipped' };
+    if (test.error) {
+      return { ...base, error: { message: test.error.message, details: test.error.stack ?? test.error.message } };
+    }
+    if (test.passed) return base;
+
+    const messages = [
+      ...test.failures,
+      ...(test.validation?.errors ?? []).map(error => typeof error === 'string' ? error : error.message)
+    ];
+    const ratio = test.validation?.ratio;
+    return {
+      ...base,
+      failure: {
+        message: messages[0] ?? 'Contrast validation failed',
+        type: 'contrast',
+        details: [
+          ...(test.selector ? [`Selector: ${test.selector}`] : []),
+          ...(ratio !== undefined ? [`Ratio: ${ratio.toFixed(2)}:1`] : []),
+          `WCAG: ${criterion}`,
+          ...messages.map(message => `- ${message}`)
+        ].join('\n')
+      }
+    };
+  }
+
+  private describeNodes(rule: Result, nodes: NodeResult[]): string {
+    const criteria = rule.tags
+      .map(tag => tag.match(/^wcag(\d)(\d)(\d+)$/))
+      .filter((match): match is RegExpMatchArray => !!match)
+      .map(([, principle, guideline, criterion]) => this.formatCriterion(`${principle}.${guideline}.${criterion}`));
+
+    return [
+      ...(criteria.length ? [`WCAG: ${criteria.join(', ')}`] : []),
+      ...(rule.helpUrl ? [`Help: ${rule.helpUrl}`] : []),
+      ...nodes.map(node => `${node.target.map(String).join(' ')}: ${node.failureSummary || rule.help}`)
+    ].join('\n');
+  }
+
+  private formatCriterion(id: string): string {
+    const criterion = getCriterion(id);
+    return criterion ? `${id} ${criterion.title} (${criterion.level})` : id;
+  }
+
+  private render(name: string, suites: JunitSuite[]): string {
+    const count = (suite: JunitSuite, test: (testCase: JunitCase) => boolean) => suite.cases.filter(test).length;
+    const totals = { tests: 0, failures: 0, errors: 0, skipped: 0, time: 0 };
+    const body = suites.map(suite => {
+      const stats = {
+        tests: suite.cases.length,
+        failures: count(suite, testCase => !!testCase.failure),
+        errors: count(suite, testCase => !!testCase.error),
+        skipped: count(suite, testCase => testCase.skipped !== undefined)
+      };
+      totals.tests += stats.tests;
+      totals.failures += stats.failures;
+      totals.errors += stats.errors;
+      totals.skipped += stats.skipped;
+      totals.time += suite.time;
+
+      const attributes = this.attributes({
+        name: suite.name,
+        tests: stats.tests,
+        failures: stats.failures,
+        errors: stats.errors,
+        skipped: stats.skipped,
+        time: this.seconds(suite.time),
+        timestamp: suite.timestamp
+      });
+      const properties = suite.properties
+        ? [
+          '    <properties>',
+          ...Object.entries(suite.properties).map(([key, value]) => `      <property${this.attributes({ name: key, value })}/>`),
+          '    </properties>'
+        ]
+        : [];
+
+      return [
+        `  <testsuite${attributes}>`,
+        ...properties,
+        ...suite.cases.map(testCase => this.renderCase(testCase)),
+        '  </testsuite>'
+      ].join('\n');
+    });
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<testsuites${this.attributes({ name, ...totals, time: this.seconds(totals.time) })}>`,
+      ...body,
+      '</testsuites>',
+      ''
+    ].join('\n');
+  }
+
+  private renderCase(testCase: JunitCase): string {
+    const open = `    <testcase${this.attributes({ name: testCase.name, classname: testCase.classname, time: this.seconds(testCase.time) })}`;
+
+    if (testCase.failure) {
+      const { message, type, details } = testCase.failure;
+      return `${open}>\n      <failure${this.attributes({ message, type })}>${this.escape(details)}</failure>\n    </testcase>`;
+    }
+    if (testCase.error) {
+      const { message, details } = testCase.error;
+      return `${open}>\n      <error${this.attributes({ message })}>${this.escape(details)}</error>\n    </testcase>`;
+    }
+    if (testCase.skipped !== undefined) {
+      return `${open}>\n      <skipped${this.attributes({ message: testCase.skipped })}/>\n    </testcase>`;
+    }
+    return `${open}/>`;
+  }
+
+  private attributes(values: Record<string, string | number | undefined>): string {
+    return Object.entries(values)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => ` ${key}="${this.escape(String(value))}"`)
+      .join('');
+  }
+
+  private seconds(value: number): string {
+    return value.toFixed(3);
+  }
+
+  private escape(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&apos;')
+      .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+  }
+}
@@ -1,5 +1,7 @@
-import type { AccessibilityTestResult, ContrastTestResult } from './types';
+import type { AccessibilityTestResult, ContrastTestResult, ReportCatalog } from './types';
+import type { ReportDimension } from './dimensions';
 import type { Result } from 'axe-core';
+import type { FixPatch, FixProposal } from '../types';
 import { JsonReportGenerator } from './JsonReportGenerator';
 
 export class MarkdownReportGenerator {
@@ -9,8 +11,8 @@ export class MarkdownReportGenerator {
     this.jsonGenerator = new JsonReportGenerator();
   }
 
-  generateReport(results: AccessibilityTestResult[]): string {
-    const report = this.jsonGenerator.generateReport(results);
+  generateReport(results: AccessibilityTestResult[], catalog?: ReportCatalog): string {
+    const report = this.jsonGenerator.generateReport(results, catalog);
     const timestamp = new Date();
     
     let markdown = `# Accessibility Report
@@ -37,14 +39,22 @@ ${this.generateThemeResults(report)}
 
 ${this.generateRouteResults(report)}
 
-## Top Issues
+${this.generateDimensionResults(report)}## Top Issues
 
 ${this.generateTopIssues(report)}
 
+## Needs Review
+
+${this.generateNeedsReview(report)}
+
 ## Actionable Items
 
 ${this.generateActionableItems(report)}
 
+## Suggested Fixes
+
+${this.generateSuggestedFixes(report)}
+
 ## Contrast Failures
 
 ${this.generateContrastFailures(report)}
@@ -99,6 +109,7 @@ ${summary.violations.critical > 0 ?
 | Passed | ${summary.passed} |
 | Failed | ${summary.failed} |
 | Success Rate | ${summary.successRate.toFixed(1)}% |
+| Needs Review | ${summary.incomplete} |
 | Test Duration | ${(summary.duration / 1000).toFixed(2)}s |
 `;
   }
@@ -128,7 +139,7 @@ ${summary.violations.critical > 0 ?
       markdown += `| ${theme} | ${data.passed} | ${data.failed} | ${data.violations} | ${data.criticalIssues} |\n`;
     });
     
-    return markdown;
+    return markdown + this.generateUntested(report, 'theme');
   }
 
   private generateRouteResults(report: any): string {
@@ -148,7 +159,28 @@ ${summary.violations.critical > 0 ?
         markdown += `| ${route} | ${data.passed} | ${data.failed} | ${data.violations} | ${themeStatus} |\n`;
       });
     
-    return markdown;
+    return markdown + this.generateUntested(report, 'route');
+  }
+
+  private generateDimensionResults(report: any): string {
+    return Object.entries(report.results.byDimension).map(([name, values]: [string, any]) => {
+      const title = name.charAt(0).toUpperCase() + name.slice(1);
+      const rows = Object.entries(values)
+        .map(([value, data]: [string, any]) =>
+          `| ${value} | ${data.passed} | ${data.failed} | ${data.violations} | ${data.criticalIssues} |\n`)
+        .join('');
+      return `## Results by ${title}
+
+| ${title} | Passed | Failed | Violations | Critical Issues |
+|------|--------|--------|------------|-----------------|
+${rows}${this.generateUntested(report, name)}
+`;
+    }).join('');
+  }
+
+  private generateUntested(report: any, name: string): string {
+    const dimension = report.dimensions.find((entry: ReportDimension) => entry.name === name);
+    return dimension?.untested.length ? `\n_Not tested: ${dimension.untested.join(', ')}_\n` : '';
   }
 
   private generateTopIssues(report: any): string {
@@ -175,6 +207,26 @@ ${summary.violations.critical > 0 ?
     return markdown;
   }
 
+  private generateNeedsReview(report: any): string {
+    const { needsReview } = report;
+    if (needsReview.length === 0) {
+      return 'No results need manual review.\n';
+    }
+
+    let markdown = `
+These checks could not be decided automatically. Verify each element by hand.
+
+| Rule | Impact | Elements | Help |
+|------|--------|----------|------|
+`;
+
+    needsReview.forEach((item: any) => {
+      markdown += `| ${item.id} | ${item.impact} | ${item.occurrences} | [${item.help}](${item.helpUrl}) |\n`;
+    });
+
+    return markdown;
+  }
+
   private generateActionableItems(report: any): string {
     const { actionableItems } = report;
     let markdown = `
@@ -216,6 +268,39 @@ ${summary.violations.critical > 0 ?
     return markdown;
   }
 
+  private generateSuggestedFixes(report: any): string {
+    const rows: string[] = [];
+    report.violations.forEach((violation: any) => {
+      violation.affectedElements.forEach((element: any) => {
+        (element.fixes ?? []).forEach((fix: FixProposal) => {
+          const patches = fix.patches.map(patch => `\`${this.formatPatch(patch)}\``).join('<br>');
+          rows.push(`| ${violation.id} | ${element.selector} | ${element.route} | ${fix.description} | ${Math.round(fix.confidence * 100)}% | ${patches} |`);
+        });
+      });
+    });
+
+    if (rows.length === 0) {
+      return 'No automatic fixes were proposed.\n';
+    }
+
+    return `
+Patches are proposed from the rendered page. Check each one against the source before applying it, especially low-confidence ones.
+
+| Rule | Element | Route | Fix | Confidence | Patches |
+|------|---------|-------|-----|------------|---------|
+${rows.join('\n')}
+`;
+  }
+
+  private formatPatch(patch: FixPatch): string {
+    if (patch.type === 'style') {
+      return `${patch.selector} { ${patch.property}: ${patch.value} }`;
+    }
+    return patch.value === null
+      ? `${patch.selector}: remove ${patch.name}`
+      : `${patch.selector}: ${patch.name}="${patch.value}"`;
+  }
+
   private generateContrastFailures(report: any): string {
     const { contrastFailures } = report;
     if (contrastFailures.length === 0) {
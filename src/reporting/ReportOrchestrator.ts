@@ -1,8 +1,12 @@
 import { HtmlReportGenerator } from './HtmlReportGenerator';
 import { JsonReportGenerator } from './JsonReportGenerator';
 import { MarkdownReportGenerator } from './MarkdownReportGenerator';
-import type { AccessibilityTestResult } from './types';
-import { writeFileSync, mkdirSync } from 'fs';
+import { SarifReportGenerator } from './SarifReportGenerator';
+import { JunitReportGenerator } from './JunitReportGenerator';
+import type { AccessibilityTestResult, ReportCatalog, SourceFinding } from './types';
+import { discoverDimensions, isExtraDimension, summarizeDimension, type ReportDimension } from './dimensions';
+import { createBaseline, parseBaseline, serializeBaseline, type Baseline } from './baseline';
+import { existsSync, readFileSync, writeFileSync, mkdirSync } from 'fs';
 import { join } from 'path';
 
 
@@ -24,7 +28,15 @@ const noopLogger: A11yLogger = {
 
 export interface ReportConfig {
   outputDir: string;
-  formats: ('html' | 'json' | 'markdown')[];
+  formats: ('html' | 'json' | 'markdown' | 'sarif' | 'junit')[];
+  /** Baseline of accepted issues; CI only fails on issues missing from it. */
+  baselinePath?: string;
+  /** Rewrite the baseline from this run instead of comparing against it. */
+  updateBaseline?: boolean;
+  /** Themes, routes and extra dimensions the run was expected to cover, in display order. */
+  catalog?: ReportCatalog;
+  /** Source-level findings, e.g. from the Svelte preprocessor, added to the SARIF report. */
+  sourceFindings?: SourceFinding[];
   sendToLoki?: boolean;
   generateScreenshots?: boolean;
   githubIntegration?: {
@@ -43,12 +55,16 @@ export class ReportOrchestrator {
   private htmlGenerator: HtmlReportGenerator;
   private jsonGenerator: JsonReportGenerator;
   private markdownGenerator: MarkdownReportGenerator;
+  private sarifGenerator: SarifReportGenerator;
+  private junitGenerator: JunitReportGenerator;
   private logger: A11yLogger;
 
   constructor(logger?: A11yLogger) {
     this.htmlGenerator = new HtmlReportGenerator();
     this.jsonGenerator = new JsonReportGenerator();
     this.markdownGenerator = new MarkdownReportGenerator();
+    this.sarifGenerator = new SarifReportGenerator();
+    this.junitGenerator = new JunitReportGenerator();
     this.logger = logger ?? noopLogger;
   }
 
@@ -60,7 +76,7 @@ export class ReportOrchestrator {
     const outputs: ReportOutputs = {
       timestamp,
       paths: {},
-      summary: this.generateSummary(results)
+      summary: this.generateSummary(results, config.catalog)
     };
 
     
@@ -68,32 +84,54 @@ export class ReportOrchestrator {
 
     
     if (config.formats.includes('html')) {
-      const htmlReport = this.generateHtmlReport(results, timestamp);
+      const htmlReport = this.htmlGenerator.generateReport({ results, timestamp, summary: outputs.summary });
       const htmlPath = join(config.outputDir, `accessibility-report-${timestamp.getTime()}.html`);
       writeFileSync(htmlPath, htmlReport);
       outputs.paths.html = htmlPath;
     }
 
     if (config.formats.includes('json')) {
-      const jsonReport = this.jsonGenerator.generateReport(results);
+      const jsonReport = this.jsonGenerator.generateReport(results, config.catalog);
       const jsonPath = join(config.outputDir, `accessibility-report-${timestamp.getTime()}.json`);
       writeFileSync(jsonPath, JSON.stringify(jsonReport, null, 2));
       outputs.paths.json = jsonPath;
 
       
-      const cicdReport = this.jsonGenerator.generateCICDReport(results);
+      const cicdReport = this.jsonGenerator.generateCICDReport(results, this.loadBaseline(config));
       const cicdPath = join(config.outputDir, `accessibility-ci-report-${timestamp.getTime()}.json`);
       writeFileSync(cicdPath, JSON.stringify(cicdReport, null, 2));
       outputs.paths.cicd = cicdPath;
     }
 
+    if (config.baselinePath && config.updateBaseline) {
+      writeFileSync(config.baselinePath, serializeBaseline(createBaseline(results)));
+      outputs.paths.baseline = config.baselinePath;
+    }
+
     if (config.formats.includes('markdown')) {
-      const markdownReport = this.markdownGenerator.generateReport(results);
+      const markdownReport = this.markdownGenerator.generateReport(results, config.catalog);
       const markdownPath = join(config.outputDir, `accessibility-report-${timestamp.getTime()}.md`);
       writeFileSync(markdownPath, markdownReport);
       outputs.paths.markdown = markdownPath;
     }
 
+    if (config.formats.includes('sarif')) {
+      const sarifReport = this.sarifGenerator.generateReport(results, {
+        baseline: this.loadBaseline(config),
+        sourceFindings: config.sourceFindings
+      });
+      const sarifPath = join(config.outputDir, `accessibility-report-${timestamp.getTime()}.sarif`);
+      writeFileSync(sarifPath, JSON.stringify(sarifReport, null, 2));
+      outputs.paths.sarif = sarifPath;
+    }
+
+    if (config.formats.includes('junit')) {
+      const junitReport = this.junitGenerator.generateReport(results);
+      const junitPath = join(config.outputDir, `accessibility-report-${timestamp.getTime()}.junit.xml`);
+      writeFileSync(junitPath, junitReport);
+      outputs.paths.junit = junitPath;
+    }
+
     
     if (config.sendToLoki) {
       await this.sendToLoki(results, outputs.summary);
@@ -112,17 +150,12 @@ export class ReportOrchestrator {
     return outputs;
   }
 
-  private generateHtmlReport(results: AccessibilityTestResult[], timestamp: Date): string {
-    const summary = this.generateSummary(results);
-    const reportData = {
-      results,
-      timestamp,
-      summary
-    };
-    return this.htmlGenerator.generateReport(reportData);
+  private loadBaseline(config: ReportConfig): Baseline | undefined {
+    if (!config.baselinePath || config.updateBaseline || !existsSync(config.baselinePath)) return undefined;
+    return parseBaseline(readFileSync(config.baselinePath, 'utf-8'));
   }
 
-  private generateSummary(results: AccessibilityTestResult[]) {
+  private generateSummary(results: AccessibilityTestResult[], catalog?: ReportCatalog): ReportOutputs['summary'] {
     const totalTests = results.length;
     const passed = results.filter(r => r.axeResults.violations.length === 0).length;
     const failed = totalTests - passed;
@@ -131,30 +164,11 @@ export class ReportOrchestrator {
     let majorIssues = 0;
     let minorIssues = 0;
 
-    const byTheme = new Map<string, { passed: number; failed: number }>();
-    const byRoute = new Map<string, { passed: number; failed: number }>();
+    const dimensions = discoverDimensions(results, catalog);
+    const byDimension = new Map(dimensions.map(dimension => [dimension.name, summarizeDimension(results, dimension)]));
     const byComponent = new Map<string, number>();
 
     results.forEach(result => {
-      
-      const themeStats = byTheme.get(result.theme) || { passed: 0, failed: 0 };
-      if (result.axeResults.violations.length === 0) {
-        themeStats.passed++;
-      } else {
-        themeStats.failed++;
-      }
-      byTheme.set(result.theme, themeStats);
-
-      
-      const routeStats = byRoute.get(result.route) || { passed: 0, failed: 0 };
-      if (result.axeResults.violations.length === 0) {
-        routeStats.passed++;
-      } else {
-        routeStats.failed++;
-      }
-      byRoute.set(result.route, routeStats);
-
-      
       result.axeResults.violations.forEach(violation => {
         const impact = violation.impact || 'minor';
         if (impact === 'critical') criticalIssues += violation.nodes.length;
@@ -179,8 +193,12 @@ export class ReportOrchestrator {
       criticalIssues,
       majorIssues,
       minorIssues,
-      byTheme,
-      byRoute,
+      dimensions,
+      byTheme: byDimension.get('theme')!,
+      byRoute: byDimension.get('route')!,
+      byDimension: new Map(dimensions
+        .filter(isExtraDimension)
+        .map(dimension => [dimension.name, byDimension.get(dimension.name)!])),
       byComponent
     };
   }
@@ -300,7 +318,10 @@ export interface ReportOutputs {
     html?: string;
     json?: string;
     markdown?: string;
+    sarif?: string;
+    junit?: string;
     cicd?: string;
+    baseline?: string;
   };
   summary: {
     totalTests: number;
@@ -309,8 +330,11 @@ export interface ReportOutputs {
     criticalIssues: number;
     majorIssues: number;
     minorIssues: number;
+    dimensions: ReportDimension[];
     byTheme: Map<string, { passed: number; failed: number }>;
     byRoute: Map<string, { passed: number; failed: number }>;
+    /** Extra dimensions such as viewport or locale, keyed by dimension name. */
+    byDimension: Map<string, Map<string, { passed: number; failed: number }>>;
     byComponent: Map<string, number>;
   };
 }
@@ -0,0 +1,292 @@
+import type { NodeResult, Result } from 'axe-core';
+import type { AccessibilityTestResult, FixableNodeResult, SourceFinding } from './types';
+import type { FixPatch, FixProposal } from '../types';
+import { compareToBaseline, createBaseline, getFingerprint, type Baseline } from './baseline';
+import { getExtraDimensions } from './dimensions';
+import { hashFingerprint64 } from '../engine/tracker';
+
+export type SarifLevel = 'error' | 'warning' | 'note' | 'none';
+
+export interface SarifMessage {
+  text: string;
+}
+
+export interface SarifReportingDescriptor {
+  id: string;
+  name?: string;
+  shortDescription?: SarifMessage;
+  fullDescription?: SarifMessage;
+  helpUri?: string;
+  defaultConfiguration?: { level: SarifLevel };
+  properties?: { tags?: string[]; [key: string]: unknown };
+}
+
+export interface SarifLocation {
+  physicalLocation?: {
+    artifactLocation: { uri: string };
+    region?: { startLine: number; startColumn?: number };
+  };
+  logicalLocations?: Array<{ name: string; fullyQualifiedName?: string; kind?: string }>;
+}
+
+export interface SarifSuppression {
+  kind: 'inSource' | 'external';
+  status?: 'accepted' | 'underReview' | 'rejected';
+  justification?: string;
+}
+
+export interface SarifReplacement {
+  deletedRegion: { snippet: { text: string } };
+  insertedContent: { text: string };
+}
+
+export interface SarifFix {
+  description: SarifMessage;
+  artifactChanges: Array<{ artifactLocation: { uri: string }; replacements: SarifReplacement[] }>;
+  properties: { id: string; confidence: number; patches: FixPatch[] };
+}
+
+export interface SarifResult {
+  ruleId: string;
+  ruleIndex: number;
+  level: SarifLevel;
+  kind: 'fail' | 'review';
+  message: SarifMessage;
+  locations: SarifLocation[];
+  partialFingerprints: Record<string, string>;
+  suppressions?: SarifSuppression[];
+  fixes?: SarifFix[];
+  properties?: Record<string, unknown>;
+}
+
+export interface SarifLog {
+  $schema: string;
+  version: '2.1.0';
+  runs: Array<{
+    tool: {
+      driver: {
+        name: string;
+        informationUri: string;
+        version?: string;
+        rules: SarifReportingDescriptor[];
+      };
+    };
+    results: SarifResult[];
+  }>;
+}
+
+export interface SarifOptions {
+  /** Issues in the baseline are reported with an external suppression instead of being dropped. */
+  baseline?: Baseline;
+  /** Findings with source positions, such as those collected by the Svelte preprocessor. */
+  sourceFindings?: SourceFinding[];
+  toolVersion?: string;
+}
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+const TOOL_NAME = 'tinyland-a11y-engine';
+const TOOL_URI = 'https://github.com/tinyland-inc/tinyland-a11y-engine';
+const FINGERPRINT_KEY = 'a11yFingerprint/v2';
+
+const IMPACT_LEVELS: Record<string, SarifLevel> = {
+  critical: 'error',
+  serious: 'error',
+  moderate: 'warning',
+  minor: 'note'
+};
+
+export class SarifReportGenerator {
+  generateReport(results: AccessibilityTestResult[], options: SarifOptions = {}): SarifLog {
+    const rules: SarifReportingDescriptor[] = [];
+    const ruleIndex = new Map<string, number>();
+    const addRule = (descriptor: SarifReportingDescriptor): number => {
+      if (!ruleIndex.has(descriptor.id)) {
+        ruleIndex.set(descriptor.id, rules.length);
+        rules.push(descriptor);
+      }
+      return ruleIndex.get(descriptor.id)!;
+    };
+
+    const suppressions = this.collectSuppressions(results, options.baseline);
+    const sarifResults: SarifResult[] = [];
+    const seen = new Set<string>();
+
+    results.forEach(result => {
+      const dimensions = getExtraDimensions(result);
+      const groups: Array<[Result[], SarifResult['kind']]> = [
+        [result.axeResults.violations, 'fail'],
+        [result.axeResults.incomplete ?? [], 'review']
+      ];
+
+      groups.forEach(([violations, kind]) => violations.forEach(violation => {
+        const index = addRule(this.toDescriptor(violation));
+
+        violation.nodes.forEach(node => {
+          const selector = node.target.map(String).join(' ');
+          const fingerprint = getFingerprint(violation.id, selector, result.route, result.theme, dimensions);
+          if (seen.has(`${kind}:${fingerprint}`)) return;
+          seen.add(`${kind}:${fingerprint}`);
+
+          const suppression = kind === 'fail' ? suppressions.get(fingerprint) : undefined;
+          const fixes = kind === 'fail' ? this.toFixes(node, result.route) : [];
+          sarifResults.push({
+            ruleId: violation.id,
+            ruleIndex: index,
+            level: kind === 'review' ? 'none' : this.toLevel(violation.impact),
+            kind,
+            message: { text: node.failureSummary || violation.help },
+            locations: [{
+              logicalLocations: [{
+                name: selector,
+                fullyQualifiedName: `${result.route} ${selector}`,
+                kind: 'element'
+              }]
+            }],
+            partialFingerprints: { [FINGERPRINT_KEY]: fingerprint },
+            ...(suppression ? { suppressions: [suppression] } : {}),
+            ...(fixes.length ? { fixes } : {}),
+            properties: {
+              route: result.route,
+              theme: result.theme,
+              ...dimensions,
+              impact: violation.impact || 'minor',
+              html: node.html
+            }
+          });
+        });
+      }));
+    });
+
+    options.sourceFindings?.forEach(finding => {
+      const fingerprint = hashFingerprint64([
+        finding.ruleId,
+        finding.file,
+        String(finding.line ?? ''),
+        String(finding.column ?? ''),
+        finding.message
+      ]);
+      if (seen.has(`source:${fingerprint}`)) return;
+      seen.add(`source:${fingerprint}`);
+
+      sarifResults.push({
+        ruleId: finding.ruleId,
+        ruleIndex: addRule({
+          id: finding.ruleId,
+          shortDescription: { text: finding.message },
+          defaultConfiguration: { level: finding.level }
+        }),
+        level: finding.level,
+        kind: 'fail',
+        message: { text: finding.message },
+        locations: [{
+          physicalLocation: {
+            artifactLocation: { uri: finding.file.split('\\').join('/') },
+            ...(finding.line ? { region: { startLine: finding.line, startColumn: finding.column } } : {})
+          }
+        }],
+        partialFingerprints: { [FINGERPRINT_KEY]: fingerprint }
+      });
+    });
+
+    return {
+      $schema: SARIF_SCHEMA,
+      version: '2.1.0',
+      runs: [{
+        tool: {
+          driver: {
+            name: TOOL_NAME,
+            informationUri: TOOL_URI,
+            ...(options.toolVersion ? { version: options.toolVersion } : {}),
+            rules
+          }
+        },
+        results: sarifResults
+      }]
+    };
+  }
+
+  private toDescriptor(violation: Result): SarifReportingDescriptor {
+    return {
+      id: violation.id,
+      name: violation.help,
+      shortDescription: { text: violation.help },
+      fullDescription: { text: violation.description },
+      ...(violation.helpUrl ? { helpUri: violation.helpUrl } : {}),
+      defaultConfiguration: { level: this.toLevel(violation.impact) },
+      properties: { tags: ['accessibility', ...violation.tags] }
+    };
+  }
+
+  private toFixes(node: FixableNodeResult, route: string): SarifFix[] {
+    const selector = String(node.target[0]);
+    return (node.fixes ?? []).flatMap(fix => {
+      const replacement = this.toReplacement(node, fix, selector);
+      if (!replacement) return [];
+      return [{
+        description: { text: fix.description },
+        artifactChanges: [{ artifactLocation: { uri: route }, replacements: [replacement] }],
+        properties: { id: fix.id, confidence: fix.confidence, patches: fix.patches }
+      }];
+    });
+  }
+
+  private toReplacement(node: NodeResult, fix: FixProposal, selector: string): SarifReplacement | null {
+    const startTag = node.html.match(/^<[a-z][^<>]*>/i)?.[0];
+    if (!startTag || !fix.patches.every(patch => patch.selector === selector)) return null;
+
+    return {
+      deletedRegion: { snippet: { text: startTag } },
+      insertedContent: { text: fix.patches.reduce(patchStartTag, startTag) }
+    };
+  }
+
+  private toLevel(impact: string | null | undefined): SarifLevel {
+    return IMPACT_LEVELS[impact || 'minor'] ?? 'warning';
+  }
+
+  private collectSuppressions(results: AccessibilityTestResult[], baseline?: Baseline): Map<string, SarifSuppression> {
+    const comparison = compareToBaseline(results, baseline ?? createBaseline([]));
+    const suppressions = new Map<string, SarifSuppression>();
+
+    comparison.suppressed.forEach(issue => suppressions.set(issue.fingerprint, {
+      kind: 'inSource',
+      status: 'accepted',
+      justification: issue.justification
+    }));
+    if (baseline) {
+      comparison.unchanged.forEach(issue => suppressions.set(issue.fingerprint, {
+        kind: 'external',
+        status: 'accepted',
+        justification: 'Present in the accessibility baseline'
+      }));
+    }
+
+    return suppressions;
+  }
+}
+
+function patchStartTag(tag: string, patch: FixPatch): string {
+  if (patch.type === 'attribute') {
+    return setAttribute(tag, patch.name, patch.value);
+  }
+  const style = readAttribute(tag, 'style')?.trim().replace(/;$/, '');
+  return setAttribute(tag, 'style', `${style ? `${style}; ` : ''}${patch.property}: ${patch.value}`);
+}
+
+function attributePattern(name: string): RegExp {
+  const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`\\s${escaped}(?:\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s"'>]+)))?(?=[\\s/>])`, 'i');
+}
+
+function readAttribute(tag: string, name: string): string | undefined {
+  const match = tag.match(attributePattern(name));
+  if (!match) return undefined;
+  return (match[1] ?? match[2] ?? match[3] ?? '').replace(/&quot;/g, '"').replace(/&amp;/g, '&');
+}
+
+function setAttribute(tag: string, name: string, value: string | null): string {
+  const stripped = tag.replace(attributePattern(name), '');
+  if (value === null) return stripped;
+  const escaped = value.replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+  return stripped.replace(/\s*(\/?>)$/, ` ${name}="${escaped}"$1`);
+}
@@ -0,0 +1,261 @@
+import type { AxeResults, NodeResult } from 'axe-core';
+import type { AccessibilityTestResult } from './types';
+import { getExtraDimensions } from './dimensions';
+import { hashFingerprint64 } from '../engine/tracker';
+
+export const IGNORE_ATTRIBUTE = 'data-a11y-ignore';
+export const IGNORE_REASON_ATTRIBUTE = 'data-a11y-ignore-reason';
+
+const BASELINE_VERSION = 2;
+
+export interface BaselineIssue {
+  fingerprint: string;
+  ruleId: string;
+  selector: string;
+  route: string;
+  theme: string;
+  /** Extra dimensions such as viewport or locale, when the run had any. */
+  dimensions?: Record<string, string>;
+  impact: string;
+}
+
+export interface Baseline {
+  version: typeof BASELINE_VERSION;
+  createdAt: string;
+  issues: BaselineIssue[];
+}
+
+export interface SuppressedIssue extends BaselineIssue {
+  justification: string;
+}
+
+export interface BaselineComparison {
+  /** Issues not in the baseline; these fail CI. */
+  new: BaselineIssue[];
+  /** Baseline issues that no longer occur. */
+  fixed: BaselineIssue[];
+  /** Issues present both in the baseline and in this run. */
+  unchanged: BaselineIssue[];
+  /** Issues ignored through a justified `data-a11y-ignore` attribute. */
+  suppressed: SuppressedIssue[];
+  /** Issues whose `data-a11y-ignore` lacks a justification; they are still counted. */
+  unjustified: BaselineIssue[];
+}
+
+interface CollectedIssues {
+  active: BaselineIssue[];
+  suppressed: SuppressedIssue[];
+  unjustified: BaselineIssue[];
+}
+
+export interface Suppression {
+  rules: string[];
+  justification: string;
+}
+
+export type SuppressibleNode = NodeResult & {
+  /** Suppression resolved against the live DOM, including `data-a11y-ignore` on ancestors. */
+  suppression?: Suppression | null;
+};
+
+
+
+
+export function getFingerprint(
+  ruleId: string,
+  selector: string,
+  route: string,
+  theme: string,
+  dimensions?: Record<string, string>
+): string {
+  const extra = Object.keys(dimensions ?? {}).sort().map(name => `${name}=${dimensions![name]}`);
+  return hashFingerprint64([ruleId, selector, route, theme, ...extra]);
+}
+
+
+
+
+export function parseSuppression(
+  ignore: string | null | undefined,
+  reason: string | null | undefined
+): Suppression | null {
+  if (ignore === null || ignore === undefined) return null;
+
+  const rules = ignore.split(/[\s,]+/).filter(Boolean);
+  if (rules.length === 0) return null;
+
+  return { rules, justification: reason?.trim() ?? '' };
+}
+
+
+
+
+export function getSuppression(element: Element, ruleId: string): Suppression | null {
+  for (let current = element.closest(`[${IGNORE_ATTRIBUTE}]`); current;
+    current = current.parentElement?.closest(`[${IGNORE_ATTRIBUTE}]`) ?? null) {
+    const suppression = parseSuppression(current.getAttribute(IGNORE_ATTRIBUTE), current.getAttribute(IGNORE_REASON_ATTRIBUTE));
+    if (suppression && matchesRule(suppression, ruleId)) return suppression;
+  }
+  return null;
+}
+
+function matchesRule(suppression: Suppression, ruleId: string): boolean {
+  return suppression.rules.includes('*') || suppression.rules.includes(ruleId);
+}
+
+
+
+
+export function annotateSuppressions(axeResults: AxeResults, root: ParentNode): AxeResults {
+  axeResults.violations.forEach(violation => {
+    violation.nodes.forEach(node => {
+      const element = resolveTarget(root, node);
+      if (element) (node as SuppressibleNode).suppression = getSuppression(element, violation.id);
+    });
+  });
+  return axeResults;
+}
+
+function resolveTarget(root: ParentNode, node: NodeResult): Element | null {
+  if (node.target.length !== 1 || typeof node.target[0] !== 'string') return null;
+  try {
+    return root.querySelector(node.target[0]);
+  } catch {
+    return null;
+  }
+}
+
+function resolveSuppression(node: SuppressibleNode, ruleId: string): Suppression | null {
+  if (node.suppression !== undefined) return node.suppression;
+  const suppression = readSuppressionFromHtml(node.html);
+  return suppression && matchesRule(suppression, ruleId) ? suppression : null;
+}
+
+
+
+
+function readSuppressionFromHtml(html: string): Suppression | null {
+  const openingTag = html.match(/^<[^>]*>/)?.[0] ?? '';
+  const read = (name: string) => {
+    const match = openingTag.match(new RegExp(`\\s${name}(?:\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+)))?`, 'i'));
+    if (!match) return null;
+    return decodeEntities(match[1] ?? match[2] ?? match[3] ?? '');
+  };
+
+  return parseSuppression(read(IGNORE_ATTRIBUTE), read(IGNORE_REASON_ATTRIBUTE));
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+
+
+
+function collectIssues(results: AccessibilityTestResult[]): CollectedIssues {
+  const collected: CollectedIssues = { active: [], suppressed: [], unjustified: [] };
+  const seen = new Set<string>();
+
+  results.forEach(result => {
+    result.axeResults.violations.forEach(violation => {
+      violation.nodes.forEach(node => {
+        const selector = node.target.map(String).join(' ');
+        const dimensions = getExtraDimensions(result);
+        const fingerprint = getFingerprint(violation.id, selector, result.route, result.theme, dimensions);
+        if (seen.has(fingerprint)) return;
+        seen.add(fingerprint);
+
+        const issue: BaselineIssue = {
+          fingerprint,
+          ruleId: violation.id,
+          selector,
+          route: result.route,
+          theme: result.theme,
+          ...(dimensions ? { dimensions } : {}),
+          impact: violation.impact || 'minor'
+        };
+
+        const suppression = resolveSuppression(node, violation.id);
+        if (suppression) {
+          if (suppression.justification) {
+            collected.suppressed.push({ ...issue, justification: suppression.justification });
+            return;
+          }
+          collected.unjustified.push(issue);
+        }
+
+        collected.active.push(issue);
+      });
+    });
+  });
+
+  return collected;
+}
+
+
+
+
+export function createBaseline(results: AccessibilityTestResult[]): Baseline {
+  return {
+    version: BASELINE_VERSION,
+    createdAt: new Date().toISOString(),
+    issues: sortIssues(collectIssues(results).active)
+  };
+}
+
+
+
+
+export function compareToBaseline(results: AccessibilityTestResult[], baseline: Baseline): BaselineComparison {
+  const { active, suppressed, unjustified } = collectIssues(results);
+  const known = new Set(baseline.issues.map(issue => issue.fingerprint));
+  const current = new Set(active.map(issue => issue.fingerprint));
+
+  return {
+    new: active.filter(issue => !known.has(issue.fingerprint)),
+    fixed: baseline.issues.filter(issue => !current.has(issue.fingerprint)),
+    unchanged: active.filter(issue => known.has(issue.fingerprint)),
+    suppressed,
+    unjustified
+  };
+}
+
+
+
+
+export function serializeBaseline(baseline: Baseline): string {
+  return `${JSON.stringify({ ...baseline, issues: sortIssues(baseline.issues) }, null, 2)}\n`;
+}
+
+export function parseBaseline(json: string): Baseline {
+  const data = JSON.parse(json);
+  if ((data?.version !== BASELINE_VERSION && data?.version !== 1) || !Array.isArray(data.issues)) {
+    throw new Error(`Unsupported accessibility baseline: expected version ${BASELINE_VERSION} with an issues array`);
+  }
+  if (data.version === 1) {
+    return { ...data, version: BASELINE_VERSION, issues: data.issues.map(refingerprint) };
+  }
+  return data as Baseline;
+}
+
+function refingerprint(issue: BaselineIssue): BaselineIssue {
+  return {
+    ...issue,
+    fingerprint: getFingerprint(issue.ruleId, issue.selector, issue.route, issue.theme, issue.dimensions)
+  };
+}
+
+function sortIssues(issues: BaselineIssue[]): BaselineIssue[] {
+  return [...issues].sort((a, b) =>
+    a.route.localeCompare(b.route) ||
+    a.theme.localeCompare(b.theme) ||
+    JSON.stringify(a.dimensions ?? {}).localeCompare(JSON.stringify(b.dimensions ?? {})) ||
+    a.ruleId.localeCompare(b.ruleId) ||
+    a.selector.localeCompare(b.selector)
+  );
+}
@@ -0,0 +1,105 @@
+import type { AccessibilityTestResult, ReportCatalog } from './types';
+
+const CORE_DIMENSIONS = ['theme', 'route'];
+
+export interface ReportDimension {
+  name: string;
+  /** Values with results: catalog entries first, then in order of appearance. */
+  values: string[];
+  /** Catalog values no result was recorded for. */
+  untested: string[];
+}
+
+export interface DimensionSummary {
+  passed: number;
+  failed: number;
+  violations: number;
+  criticalIssues: number;
+}
+
+
+
+
+export function getDimensionValues(result: AccessibilityTestResult): Record<string, string> {
+  return { ...result.dimensions, theme: result.theme, route: result.route };
+}
+
+
+
+
+export function getExtraDimensions(result: AccessibilityTestResult): Record<string, string> | undefined {
+  const extra = Object.entries(result.dimensions ?? {})
+    .filter(([name]) => !CORE_DIMENSIONS.includes(name))
+    .sort(([a], [b]) => a.localeCompare(b));
+  return extra.length ? Object.fromEntries(extra) : undefined;
+}
+
+export function isExtraDimension(dimension: ReportDimension): boolean {
+  return !CORE_DIMENSIONS.includes(dimension.name);
+}
+
+
+
+
+export function describeResult(result: AccessibilityTestResult): string {
+  const labels = [result.theme, ...Object.entries(getExtraDimensions(result) ?? {}).map(([name, value]) => `${name}=${value}`)];
+  return `${result.route} [${labels.join(', ')}]`;
+}
+
+
+
+
+export function discoverDimensions(results: AccessibilityTestResult[], catalog: ReportCatalog = {}): ReportDimension[] {
+  const expected = new Map<string, readonly string[]>([
+    ['theme', catalog.themes ?? []],
+    ['route', catalog.routes ?? []],
+    ...Object.entries(catalog.dimensions ?? {})
+  ]);
+  const found = new Map<string, Set<string>>(Array.from(expected.keys(), name => [name, new Set<string>()]));
+
+  results.forEach(result => {
+    Object.entries(getDimensionValues(result)).forEach(([name, value]) => {
+      if (!found.has(name)) found.set(name, new Set());
+      found.get(name)!.add(value);
+    });
+  });
+
+  return Array.from(found, ([name, values]) => {
+    const known = expected.get(name) ?? [];
+    return {
+      name,
+      values: [...known.filter(value => values.has(value)), ...Array.from(values).filter(value => !known.includes(value))],
+      untested: known.filter(value => !values.has(value))
+    };
+  });
+}
+
+
+
+
+export function summarizeDimension(
+  results: AccessibilityTestResult[],
+  dimension: ReportDimension
+): Map<string, DimensionSummary> {
+  const summary = new Map<string, DimensionSummary>(
+    dimension.values.map(value => [value, { passed: 0, failed: 0, violations: 0, criticalIssues: 0 }])
+  );
+
+  results.forEach(result => {
+    const stats = summary.get(getDimensionValues(result)[dimension.name]);
+    if (!stats) return;
+
+    const { violations } = result.axeResults;
+    if (violations.length === 0) {
+      stats.passed++;
+      return;
+    }
+    stats.failed++;
+    violations.forEach(violation => {
+      stats.violations += violation.nodes.length;
+      if (violation.impact === 'critical') stats.criticalIssues += violation.nodes.length;
+    });
+  });
+
+  return summary;
+}
@@ -1,6 +1,25 @@
 export { HtmlReportGenerator } from './HtmlReportGenerator';
 export { JsonReportGenerator } from './JsonReportGenerator';
 export { MarkdownReportGenerator } from './MarkdownReportGenerator';
+export { SarifReportGenerator } from './SarifReportGenerator';
+export { JunitReportGenerator } from './JunitReportGenerator';
 export { ReportOrchestrator } from './ReportOrchestrator';
 export type { ReportConfig, ReportOutputs } from './ReportOrchestrator';
-export type { JsonReport } from './JsonReportGenerator';
\ No newline at end of file
+export type { JsonReport } from './JsonReportGenerator';
+export type { SarifLog, SarifResult, SarifReportingDescriptor, SarifOptions } from './SarifReportGenerator';
+export type { JunitOptions } from './JunitReportGenerator';
+export type { AccessibilityTestResult, ContrastTestResult, ReportCatalog, SourceFinding } from './types';
+export { discoverDimensions, describeResult, getDimensionValues, getExtraDimensions, summarizeDimension } from './dimensions';
+export type { ReportDimension, DimensionSummary } from './dimensions';
+export {
+  createBaseline,
+  compareToBaseline,
+  serializeBaseline,
+  parseBaseline,
+  getFingerprint,
+  getSuppression,
+  annotateSuppressions,
+  IGNORE_ATTRIBUTE,
+  IGNORE_REASON_ATTRIBUTE
+} from './baseline';
+export type { Baseline, BaselineIssue, BaselineComparison, SuppressedIssue, Suppression, SuppressibleNode } from './baseline';
@@ -3,52 +3,16 @@
 
 
 
-import type { AxeResults } from 'axe-core';
+import type { AxeResults, NodeResult } from 'axe-core';
+import type { FixProposal } from '../types';
 
 
-export const THEMES = [
-  'stonewall',
-  'gold-nouveau',
-  'modern-navy',
-  'rocket',
-  'skeleton',
-  'crimson',
-  'hamlindigo',
-  'sahara',
-  'seafoam',
-  'vintage',
-  'wintry'
-] as const;
 
-export type Theme = typeof THEMES[number];
-
-
-export const ROUTES = [
-  '/',
-  '/about',
-  '/contact',
-  '/accessibility',
-  '/posts',
-  '/resources',
-  '/members',
-  '/events',
-  '/calendar',
-  '/profile',
-  '/blog/welcome-to-stonewall-underground',
-  '/blog/supporting-trans-youth',
-  '/admin/login',
-  '/admin/dashboard',
-  '/admin/posts',
-  '/admin/events',
-  '/admin/files'
-] as const;
-
-export type Route = typeof ROUTES[number];
-
-
-export interface AccessibilityTestResult {
-  theme: Theme;
-  route: Route;
+export interface AccessibilityTestResult<TTheme extends string = string, TRoute extends string = string> {
+  theme: TTheme;
+  route: TRoute;
+  /** Further axes the page was tested across, e.g. `{ viewport: 'mobile', locale: 'de' }`. */
+  dimensions?: Record<string, string>;
   axeResults: AxeResults;
   contrastResults: ContrastTestResult[];
   visualResults?: VisualTestResult;
@@ -56,6 +20,19 @@ export interface AccessibilityTestResult {
   duration: number;
 }
 
+export type FixableNodeResult = NodeResult & {
+  /** Patches proposed for the element, attached by runners that evaluate live elements. */
+  fixes?: FixProposal[];
+};
+
+export interface ReportCatalog {
+  /** Themes the run was expected to cover; ones without results are reported as untested. */
+  themes?: readonly string[];
+  routes?: readonly string[];
+  /** Expected values of extra dimensions, keyed by dimension name. */
+  dimensions?: Record<string, readonly string[]>;
+}
+
 export interface ContrastTestResult {
   selector: string;
   foreground: string;
@@ -77,3 +54,13 @@ export interface VisualTestResult {
   diffPercentage: number;
   passed: boolean;
 }
+
+export interface SourceFinding {
+  ruleId: string;
+  level: 'error' | 'warning';
+  message: string;
+  /** Path relative to the project root, as code-scanning tools expect. */
+  file: string;
+  line?: number;
+  column?: number;
+}
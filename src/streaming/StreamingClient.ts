@@ -1,4 +1,4 @@
-import type { StreamMessage, EvaluationResult } from '../types';
+import type { StreamMessage, EvaluationResult, IssueDelta } from '../types';
 
 
 
@@ -96,6 +96,23 @@ export class StreamingClient {
       data: results
     };
     
+    this.enqueue(message);
+  }
+  
+  
+
+
+  sendDelta(delta: IssueDelta<EvaluationResult>) {
+    const message: StreamMessage = {
+      type: 'delta',
+      timestamp: Date.now(),
+      data: delta
+    };
+    
+    this.enqueue(message);
+  }
+  
+  private enqueue(message: StreamMessage) {
     this.messageQueue.push(message);
     
     
@@ -14,12 +14,18 @@ import type {
   ConfigUpdate,
   ErrorData,
   BatchSummary,
-  PerformanceMetrics
+  PerformanceMetrics,
+  IssueDelta,
+  EvaluationDelta
 } from '../types';
 import { EventEmitter } from '../engine/events';
 import { MessageQueue } from './queue';
 import { Compressor } from './compression';
 import { ReconnectStrategy } from './reconnect';
+import { getResultOutcome } from '../engine/review';
+import { IssueTracker, type TrackOptions } from '../engine/tracker';
+
+const ISSUE_EVENTS = ['issue:new', 'issue:resolved', 'issue:regressed'];
 
 export class StreamingProtocol extends EventEmitter {
   private config: AccessibilityConfig;
@@ -34,13 +40,23 @@ export class StreamingProtocol extends EventEmitter {
   private heartbeatInterval?: number;
   private batchBuffer: AccessibilityIssue[] = [];
   private batchTimer?: number;
+  private issueTracker: IssueTracker;
+  private resolvedSinceFlush = 0;
   
-  constructor(config: AccessibilityConfig) {
+  constructor(config: AccessibilityConfig, tracker: IssueTracker = new IssueTracker()) {
     super();
     this.config = config;
     this.queue = new MessageQueue(config.performance.batchSize || 50);
     this.compressor = new Compressor(config.performance.compression || 'none');
     this.reconnectStrategy = new ReconnectStrategy();
+    this.issueTracker = tracker;
+    ISSUE_EVENTS.forEach(event => {
+      this.issueTracker.on(event, (issue: unknown) => this.emit(event, issue));
+    });
+  }
+  
+  get tracker(): IssueTracker {
+    return this.issueTracker;
   }
   
   
@@ -299,9 +315,16 @@ export class StreamingProtocol extends EventEmitter {
   
 
 
-  async sendIssues(issues: AccessibilityIssue[]): Promise<void> {
+  async sendIssues(issues: AccessibilityIssue[], options: TrackOptions = {}): Promise<void> {
+    const { issues: tracked, delta } = this.issueTracker.track(issues, { complete: false, ...options });
+    
+    if (this.config.performance.streamDeltas) {
+      await this.sendDelta(delta);
+      return;
+    }
     
-    this.batchBuffer.push(...issues);
+    this.resolvedSinceFlush += delta.resolved.length;
+    this.batchBuffer.push(...tracked);
     
     
     if (this.batchTimer) {
@@ -327,13 +350,15 @@ export class StreamingProtocol extends EventEmitter {
     
     
     const issues = [...this.batchBuffer];
+    const resolved = this.resolvedSinceFlush;
     this.batchBuffer = [];
+    this.resolvedSinceFlush = 0;
     
     
     const batch: EvaluationBatch = {
       sequence: ++this.sequenceNumber,
       issues,
-      summary: this.createBatchSummary(issues),
+      summary: this.createBatchSummary(issues, resolved),
       metrics: this.createBatchMetrics()
     };
     
@@ -355,21 +380,57 @@ export class StreamingProtocol extends EventEmitter {
   
 
 
-  private createBatchSummary(issues: AccessibilityIssue[]): BatchSummary {
+  private async sendDelta(delta: IssueDelta): Promise<void> {
+    if (!delta.added.length && !delta.updated.length && !delta.resolved.length) return;
+    
+    const open = this.issueTracker.list('open').map(record => record.issue as AccessibilityIssue);
+    const payload: EvaluationDelta = {
+      sequence: ++this.sequenceNumber,
+      delta,
+      summary: {
+        ...this.createBatchSummary(open),
+        newIssues: delta.added.length,
+        resolvedIssues: delta.resolved.length
+      }
+    };
+    
+    const message: StreamMessage = {
+      type: 'delta',
+      id: this.generateMessageId(),
+      timestamp: Date.now(),
+      payload
+    };
+    
+    if (this.isConnected) {
+      await this.sendMessage(message);
+    } else {
+      this.queue.enqueue(message);
+    }
+  }
+  
+  
+
+
+  private createBatchSummary(issues: AccessibilityIssue[], resolved = 0): BatchSummary {
     const bySeverity: any = {};
     const byType: any = {};
+    const byOutcome: any = {};
     
     issues.forEach(issue => {
+      const outcome = getResultOutcome(issue);
       bySeverity[issue.severity] = (bySeverity[issue.severity] || 0) + 1;
       byType[issue.type] = (byType[issue.type] || 0) + 1;
+      byOutcome[outcome] = (byOutcome[outcome] || 0) + 1;
     });
     
     return {
       totalIssues: issues.length,
       bySeverity,
       byType,
-      newIssues: issues.filter(i => i.metadata?.occurrences === 1).length,
-      resolvedIssues: 0 
+      byOutcome,
+      needsReview: issues.filter(issue => getResultOutcome(issue) === 'incomplete' && !issue.review).length,
+      newIssues: issues.filter(i => i.metadata?.lifecycle === 'new' || i.metadata?.lifecycle === 'regressed').length,
+      resolvedIssues: resolved
     };
   }
   
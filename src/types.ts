@@ -81,12 +81,16 @@ export interface EvaluationPlugin {
 
 export interface RuleResult {
   severity: 'error' | 'warning' | 'info';
+  /** Set to 'incomplete' when the rule cannot decide; `details.needsReview` implies it. */
+  outcome?: ResultOutcome;
   message: string;
   category?: string;
   wcagCriteria?: string | string[];
   details?: Record<string, any>;
 }
 
+export type RuleAutomation = 'automated' | 'manual';
+
 export interface EvaluationRule {
   id: string;
   name?: string;
@@ -96,6 +100,8 @@ export interface EvaluationRule {
   wcagCriteria?: string[];
   selector?: string;
   condition?: (element: Element, context: EvaluationContext) => boolean;
+  /** Whether a finding is a verdict ('automated') or a prompt for a human check ('manual'). */
+  automation?: RuleAutomation;
   evaluate: (element: Element, context: EvaluationContext) => Promise<EvaluationResult | RuleResult | null>;
 }
 
@@ -120,6 +126,51 @@ export interface MemoryStats {
 }
 
 
+/**
+ * How a check concluded. 'incomplete' means the check could not decide and the
+ * item needs human review; 'inapplicable' means the rule did not apply.
+ */
+export type ResultOutcome = 'passed' | 'failed' | 'incomplete' | 'inapplicable';
+
+export type ReviewVerdict = 'passed' | 'failed';
+
+export interface ReviewRecord {
+  ruleId: string;
+  selector: string;
+  verdict: ReviewVerdict;
+  reviewer?: string;
+  note?: string;
+  reviewedAt: number;
+  /** Message of the result when it was reviewed, kept for context. */
+  message?: string;
+}
+
+export interface AttributePatch {
+  type: 'attribute';
+  selector: string;
+  name: string;
+  /** `null` removes the attribute. */
+  value: string | null;
+}
+
+export interface StylePatch {
+  type: 'style';
+  selector: string;
+  property: string;
+  value: string;
+}
+
+export type FixPatch = AttributePatch | StylePatch;
+
+export interface FixProposal {
+  id: string;
+  description: string;
+  /** 0–1; how likely the patch is what an author would write. */
+  confidence: number;
+  patches: FixPatch[];
+  details?: Record<string, any>;
+}
+
 export interface EvaluationResult {
   id: string;
   timestamp?: number;
@@ -132,6 +183,10 @@ export interface EvaluationResult {
   line?: number;
   column?: number;
   ruleId?: string;
+  /** Defaults to 'failed' for errors and warnings when absent. */
+  outcome?: ResultOutcome;
+  /** Human verdict recorded for an incomplete result. */
+  review?: ReviewRecord;
   metadata?: Record<string, any>;
   details?: Record<string, any>;
   element?: ElementReference | {
@@ -168,6 +223,14 @@ export interface ContrastEvaluation extends EvaluationResult {
     themeInfo?: unknown;
     isNearIdentical?: boolean;
     isInvisible?: boolean;
+    contrastModel?: 'wcag2' | 'apca' | 'both';
+    /** APCA lightness contrast (Lc); negative for light text on a dark background. */
+    apca?: number;
+    requiredLc?: number | null;
+    /** Set when WCAG 2 and APCA disagree and the analyzer runs both models. */
+    modelDisagreement?: string;
+    /** Set when the background could not be determined and a human must check the text. */
+    needsReview?: boolean;
     computedStyles?: Record<string, string | number>;
   };
 }
@@ -186,7 +249,7 @@ export interface SamplingStrategy {
 }
 
 export interface StreamMessage {
-  type: 'evaluation' | 'heartbeat' | 'config' | 'error' | 'result' | 'progress' | 'complete';
+  type: 'evaluation' | 'delta' | 'heartbeat' | 'config' | 'error' | 'result' | 'progress' | 'complete';
   
   id?: string;
   timestamp: number;
@@ -209,6 +272,8 @@ export interface EvaluationConfig {
   maxMemoryMB: number;
   evaluationInterval: number;
   viewportOnly: boolean;
+  /** Stream issue deltas instead of the full result list after each evaluation. */
+  streamDeltas?: boolean;
 }
 
 export interface EvaluationStats {
@@ -233,6 +298,8 @@ export interface BatchEvaluationResult {
     rulesApplied: number;
     wcagVersion: string;
     wcagLevel: string;
+    /** Number of element/rule checks that ended in each outcome. */
+    outcomes?: Record<ResultOutcome, number>;
   };
 }
 
@@ -258,10 +325,36 @@ export interface BatchSummary {
   totalIssues: number;
   bySeverity: Record<string, number>;
   byType: Record<string, number>;
+  byOutcome?: Record<string, number>;
+  /** Issues whose outcome is 'incomplete' and which have no human verdict yet. */
+  needsReview?: number;
   newIssues: number;
   resolvedIssues: number;
 }
 
+export type IssueLifecycle = 'new' | 'recurring' | 'regressed' | 'resolved';
+
+export interface IssueUpdate {
+  id: string;
+  lastSeen: number;
+  occurrences: number;
+}
+
+export interface IssueDelta<T extends EvaluationResult = AccessibilityIssue> {
+  /** Issues seen for the first time, or again after being resolved. */
+  added: T[];
+  /** Issues that were already open; only the fields that change are sent. */
+  updated: IssueUpdate[];
+  /** Ids of issues that no longer occur. */
+  resolved: string[];
+}
+
+export interface EvaluationDelta {
+  sequence: number;
+  delta: IssueDelta;
+  summary: BatchSummary;
+}
+
 export interface HeartbeatData {
   health: 'healthy' | 'degraded' | 'unhealthy';
   uptime: number;
@@ -303,7 +396,47 @@ export interface CustomRule {
   id: string;
   severity: 'critical' | 'serious' | 'moderate' | 'minor';
   wcagCriteria?: string[];
-  evaluate: (element: Element, context: any) => Promise<{ passed: boolean; violation?: any }>;
+  /** Overrides the level derived from `wcagCriteria` when filtering by conformance level. */
+  wcagLevel?: 'A' | 'AA' | 'AAA';
+  /** WCAG version that introduced the rule's requirement. */
+  wcagVersion?: '2.0' | '2.1' | '2.2';
+  tags?: string[];
+  category?: string;
+  automation?: RuleAutomation;
+  evaluate: (element: Element, context: any) => Promise<{ passed: boolean; violation?: any; outcome?: ResultOutcome }>;
+  /**
+   * Marks the rule as safe to run off the main thread. Worker-safe rules must
+   * provide `evaluateSnapshot`, which is shipped to workers as source text, so
+   * it may only use its arguments — no closures, imports or DOM access.
+   */
+  workerSafe?: boolean;
+  evaluateSnapshot?: (
+    snapshot: ElementSnapshot,
+    context: SerializedEvaluationContext
+  ) => { passed: boolean; violation?: any } | Promise<{ passed: boolean; violation?: any }>;
+}
+
+
+export interface ElementSnapshot {
+  index: number;
+  selector: string;
+  tagName: string;
+  attributes: Record<string, string>;
+  computedStyle: Record<string, string>;
+  text: string;
+  bounds: {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+  };
+}
+
+export interface SerializedEvaluationContext {
+  wcagVersion: string;
+  wcagLevel: string;
+  viewport: ViewportInfo;
+  timestamp: number;
 }
 
 
@@ -344,7 +477,13 @@ export interface AccessibilityConfig {
     
     level: 'A' | 'AA' | 'AAA';
     
-    customRules?: CustomRule[];
+    customRules?: Array<CustomRule | EvaluationRule>;
+    
+    plugins?: EvaluationPlugin[];
+    /** Rule ids to run; every other rule is disabled and WCAG level filtering is skipped for these. */
+    rules?: string[];
+    /** Rule ids that never run, even when listed in `rules`. */
+    disabledRules?: string[];
   };
   
   sampling: SamplingConfig;
@@ -358,6 +497,8 @@ export interface AccessibilityConfig {
     batchSize?: number;
     
     compression?: 'none' | 'gzip' | 'deflate';
+    /** Stream issue deltas instead of full issue lists. */
+    streamDeltas?: boolean;
   };
   
   privacy: {
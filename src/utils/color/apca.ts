@@ -0,0 +1,200 @@
+
+
+
+
+
+import type { RGB } from './types';
+import { alphaBlend } from './conversion';
+
+export type ContrastModel = 'wcag2' | 'apca' | 'both';
+
+const MAIN_TRC = 2.4;
+const R_COEF = 0.2126729;
+const G_COEF = 0.7151522;
+const B_COEF = 0.072175;
+
+const NORM_BG = 0.56;
+const NORM_TXT = 0.57;
+const REV_TXT = 0.62;
+const REV_BG = 0.65;
+
+const BLACK_THRESHOLD = 0.022;
+const BLACK_CLAMP = 1.414;
+const SCALE = 1.14;
+const LOW_OFFSET = 0.027;
+const LOW_CLIP = 0.1;
+const DELTA_Y_MIN = 0.0005;
+
+/** Minimum Lc used for non-text elements such as borders, icons and focus rings. */
+export const APCA_NON_TEXT_LC = 45;
+
+const FONT_SIZES = [14, 15, 16, 18, 21, 24, 28, 32, 36, 42, 48, 60, 72, 96];
+
+
+const FONT_LOOKUP: Array<Array<number | null>> = [
+	[null, null, null, 100, 100, 90, 75, null, null],
+	[null, null, null, 100, 90, 75, 70, null, null],
+	[null, null, null, 90, 75, 70, 60, 60, null],
+	[null, null, 100, 75, 70, 60, 55, 55, 55],
+	[null, null, 90, 70, 60, 55, 50, 50, 50],
+	[null, null, 75, 60, 55, 50, 45, 45, 45],
+	[null, 100, 70, 55, 50, 45, 43, 43, 43],
+	[null, 90, 65, 50, 45, 43, 40, 40, 40],
+	[null, 75, 60, 45, 43, 40, 38, 38, 38],
+	[100, 70, 55, 43, 40, 38, 35, 35, 35],
+	[90, 60, 50, 40, 38, 35, 33, 33, 33],
+	[75, 55, 45, 38, 35, 33, 30, 30, 30],
+	[60, 50, 40, 35, 33, 30, 30, 30, 30],
+	[50, 45, 35, 33, 30, 30, 30, 30, 30]
+];
+
+
+
+
+export function getApcaLuminance(rgb: RGB): number {
+	const channel = (value: number) => Math.pow(value / 255, MAIN_TRC);
+	return R_COEF * channel(rgb.r) + G_COEF * channel(rgb.g) + B_COEF * channel(rgb.b);
+}
+
+
+
+
+
+
+export function getApcaContrast(text: RGB, background: RGB): number {
+	const fg = text.a !== undefined && text.a < 1 ? alphaBlend(text, background) : text;
+
+	const yText = softClamp(getApcaLuminance(fg));
+	const yBackground = softClamp(getApcaLuminance(background));
+
+	if (Math.abs(yBackground - yText) < DELTA_Y_MIN) return 0;
+
+	if (yBackground > yText) {
+		const sapc = (Math.pow(yBackground, NORM_BG) - Math.pow(yText, NORM_TXT)) * SCALE;
+		return sapc < LOW_CLIP ? 0 : (sapc - LOW_OFFSET) * 100;
+	}
+
+	const sapc = (Math.pow(yBackground, REV_BG) - Math.pow(yText, REV_TXT)) * SCALE;
+	return sapc > -LOW_CLIP ? 0 : (sapc + LOW_OFFSET) * 100;
+}
+
+
+
+
+
+
+export function getApcaMinimumLc(fontSize: number, fontWeight: number | string): number | null {
+	const weight = typeof fontWeight === 'string' ? parseWeight(fontWeight) : fontWeight;
+	const column = Math.min(8, Math.max(0, Math.floor(weight / 100) - 1));
+
+	const size = Number.isFinite(fontSize) ? fontSize : 16;
+
+	let row = -1;
+	for (let i = 0; i < FONT_SIZES.length && FONT_SIZES[i] <= size + 0.01; i++) {
+		row = i;
+	}
+
+	return row < 0 ? null : FONT_LOOKUP[row][column];
+}
+
+
+
+
+export function meetsApca(
+	text: RGB,
+	background: RGB,
+	fontSize: number,
+	fontWeight: number | string
+): boolean {
+	const required = getApcaMinimumLc(fontSize, fontWeight);
+	return required !== null && Math.abs(getApcaContrast(text, background)) >= required;
+}
+
+function softClamp(y: number): number {
+	return y > BLACK_THRESHOLD ? y : y + Math.pow(BLACK_THRESHOLD - y, BLACK_CLAMP);
+}
+
+function parseWeight(fontWeight: string): number {
+	if (fontWeight === 'bold' || fontWeight === 'bolder') return 700;
+	if (fontWeight === 'lighter') return 300;
+	return parseInt(fontWeight) || 400;
+}
+
+export interface ContrastModelEvaluation {
+	model: ContrastModel;
+	ratio: number;
+	requiredRatio: number;
+	wcag2Passes: boolean;
+	apca: number;
+	/** Null when the font is too small or thin for any APCA level. */
+	requiredLc: number | null;
+	apcaPasses: boolean;
+	passes: boolean;
+	/** True when WCAG 2 and APCA reach different verdicts for the same colors. */
+	disagreement: boolean;
+}
+
+
+
+
+export function evaluateContrastModels(
+	model: ContrastModel,
+	ratio: number,
+	requiredRatio: number,
+	apca: number,
+	requiredLc: number | null
+): ContrastModelEvaluation {
+	const wcag2Passes = ratio >= requiredRatio;
+	const apcaPasses = requiredLc !== null && Math.abs(apca) >= requiredLc;
+
+	const passes = model === 'wcag2'
+		? wcag2Passes
+		: model === 'apca'
+			? apcaPasses
+			: wcag2Passes && apcaPasses;
+
+	return {
+		model,
+		ratio,
+		requiredRatio,
+		wcag2Passes,
+		apca,
+		requiredLc,
+		apcaPasses,
+		passes,
+		disagreement: wcag2Passes !== apcaPasses
+	};
+}
+
+
+
+
+export function describeContrastFailure(evaluation: ContrastModelEvaluation): string {
+	const parts: string[] = [];
+
+	if (evaluation.model !== 'apca' && !evaluation.wcag2Passes) {
+		parts.push(`contrast ratio ${evaluation.ratio.toFixed(2)}:1 is below ${evaluation.requiredRatio}:1`);
+	}
+
+	if (evaluation.model !== 'wcag2' && !evaluation.apcaPasses) {
+		parts.push(evaluation.requiredLc === null
+			? `APCA Lc ${Math.abs(evaluation.apca).toFixed(1)} cannot be used at this font size and weight`
+			: `APCA Lc ${Math.abs(evaluation.apca).toFixed(1)} is below Lc ${evaluation.requiredLc}`);
+	}
+
+	return parts.join('; ');
+}
+
+
+
+
+export function describeContrastDisagreement(evaluation: ContrastModelEvaluation): string | null {
+	if (!evaluation.disagreement) return null;
+
+	const lc = `APCA Lc ${Math.abs(evaluation.apca).toFixed(1)}`;
+	const ratio = `WCAG 2 ${evaluation.ratio.toFixed(2)}:1`;
+
+	return evaluation.wcag2Passes
+		? `${ratio} passes but ${lc} fails (needs Lc ${evaluation.requiredLc ?? 'n/a'})`
+		: `${lc} passes but ${ratio} fails (needs ${evaluation.requiredRatio}:1)`;
+}
@@ -0,0 +1,110 @@
+
+
+
+
+
+import type { RGB } from './types';
+import { parseColor } from './parser';
+import { alphaBlend } from './conversion';
+
+const CANVAS: RGB = { r: 255, g: 255, b: 255, a: 1 };
+const INITIAL_COLOR: RGB = { r: 0, g: 0, b: 0, a: 1 };
+
+export type UnresolvedBackgroundReason = 'background-image' | 'unparseable-color';
+
+export interface BackgroundResolution {
+	/** Opaque background behind the element, or null when it cannot be determined. */
+	color: RGB | null;
+	/** Product of the element's own opacity and that of every ancestor. */
+	opacity: number;
+	reason?: UnresolvedBackgroundReason;
+	/** Element whose styles made the background indeterminate. */
+	source?: Element;
+}
+
+
+
+
+
+export function resolveBackground(element: Element): BackgroundResolution {
+	const chain: Element[] = [];
+	for (let current: Element | null = element; current; current = current.parentElement) {
+		chain.push(current);
+	}
+
+	const styles = chain.map((el) => window.getComputedStyle(el));
+	const opacities = styles.map((style) => parseOpacity(style.opacity));
+
+
+	const cumulative: number[] = new Array(chain.length);
+	for (let i = chain.length - 1, product = 1; i >= 0; i--) {
+		product *= opacities[i];
+		cumulative[i] = product;
+	}
+
+	const layers: RGB[] = [];
+
+	for (let i = 0; i < chain.length; i++) {
+		const style = styles[i];
+
+		if (hasBackgroundImage(style.backgroundImage)) {
+			return { color: null, opacity: cumulative[0], reason: 'background-image', source: chain[i] };
+		}
+
+		const value = style.backgroundColor;
+		if (!value || value === 'transparent') continue;
+
+		const color = parseColor(value);
+		if (!color) {
+			return { color: null, opacity: cumulative[0], reason: 'unparseable-color', source: chain[i] };
+		}
+
+		const alpha = (color.a ?? 1) * cumulative[i];
+		if (alpha <= 0) continue;
+
+		layers.push({ ...color, a: alpha });
+		if (alpha >= 1) break;
+	}
+
+	let result = CANVAS;
+	for (let i = layers.length - 1; i >= 0; i--) {
+		result = alphaBlend(layers[i], result);
+	}
+
+	return { color: result, opacity: cumulative[0] };
+}
+
+
+
+
+
+export function resolveAdjacentBackground(element: Element): BackgroundResolution {
+	return element.parentElement
+		? resolveBackground(element.parentElement)
+		: { color: CANVAS, opacity: 1 };
+}
+
+
+
+
+
+export function resolveForeground(element: Element, background: RGB, opacity = 1): RGB | null {
+	let value = '';
+	for (let current: Element | null = element; current && !value; current = current.parentElement) {
+		value = window.getComputedStyle(current).color;
+	}
+
+	const color = value ? parseColor(value) : INITIAL_COLOR;
+	if (!color) return null;
+
+	return alphaBlend({ ...color, a: (color.a ?? 1) * opacity }, background);
+}
+
+function parseOpacity(value: string): number {
+	const opacity = parseFloat(value);
+	return Number.isNaN(opacity) ? 1 : Math.min(1, Math.max(0, opacity));
+}
+
+function hasBackgroundImage(value: string): boolean {
+	return !!value && value !== 'none' && value !== 'initial';
+}
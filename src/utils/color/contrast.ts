@@ -7,6 +7,7 @@ import type { RGB, ContrastResult, WCAGLevel } from './types';
 import { luminanceCache, contrastCache } from './cache';
 import { parseColor } from './parser';
 import { alphaBlend } from './conversion';
+import { getApcaContrast } from './apca';
 
 
 
@@ -51,7 +52,7 @@ export function getContrastRatio(color1: string | RGB, color2: string | RGB): nu
 	}
 
 	
-	const cacheKey = `${rgb1.r},${rgb1.g},${rgb1.b}|${rgb2.r},${rgb2.g},${rgb2.b}`;
+	const cacheKey = `${rgb1.r},${rgb1.g},${rgb1.b},${rgb1.a ?? 1}|${rgb2.r},${rgb2.g},${rgb2.b}`;
 
 	
 	const cached = contrastCache.get(cacheKey);
@@ -101,13 +102,17 @@ export function meetsWCAG(
 
 export function analyzeContrast(color1: string | RGB, color2: string | RGB): ContrastResult {
 	const ratio = getContrastRatio(color1, color2);
+	const fg = typeof color1 === 'string' ? parseColor(color1) : color1;
+	const bg = typeof color2 === 'string' ? parseColor(color2) : color2;
+
 	return {
 		ratio,
 		meetsAA: ratio >= 4.5,
 		meetsAAA: ratio >= 7,
 		meetsAALarge: ratio >= 3,
 		meetsAAALarge: ratio >= 4.5,
-		meetsUIComponent: ratio >= 3
+		meetsUIComponent: ratio >= 3,
+		apca: fg && bg ? getApcaContrast(fg, bg) : 0
 	};
 }
 
@@ -117,11 +122,16 @@ export function analyzeContrast(color1: string | RGB, color2: string | RGB): Con
 
 export function isLargeText(fontSize: string | number, fontWeight: string | number): boolean {
 	const size = typeof fontSize === 'string' ? parseFloat(fontSize) : fontSize;
-	const weight = typeof fontWeight === 'string' ? parseInt(fontWeight) || 400 : fontWeight;
+	const weight = typeof fontWeight === 'string' ? parseFontWeight(fontWeight) : fontWeight;
 
 	return size >= 24 || (size >= 18.66 && weight >= 700);
 }
 
+function parseFontWeight(fontWeight: string): number {
+	if (fontWeight === 'bold' || fontWeight === 'bolder') return 700;
+	return parseInt(fontWeight) || 400;
+}
+
 
 
 
@@ -85,6 +85,8 @@ export interface ContrastResult {
 	meetsAAALarge: boolean;
 	
 	meetsUIComponent: boolean;
+	/** APCA lightness contrast (Lc); negative for light text on a dark background. */
+	apca: number;
 }
 
 
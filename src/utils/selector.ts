@@ -0,0 +1,278 @@
+
+
+
+export interface SelectorOptions {
+  /** Extra class-name patterns to treat as unstable. */
+  ignoreClasses?: RegExp[];
+  /** Attributes tried, in order, before falling back to classes and position. */
+  stableAttributes?: string[];
+  /** Maximum number of classes combined in one compound selector. */
+  maxClasses?: number;
+  /** Attributes that must never appear in a selector (e.g. privacy-redacted ones). */
+  excludeAttributes?: string[];
+}
+
+/** Separator between the selector of a shadow host and the selector inside its shadow root. */
+export const SHADOW_SEPARATOR = ' >>> ';
+
+const DEFAULT_STABLE_ATTRIBUTES = [
+  'data-testid',
+  'data-test-id',
+  'data-test',
+  'data-cy',
+  'data-qa',
+  'name'
+];
+
+const QUALIFYING_ATTRIBUTES = ['role', 'type', 'aria-label'];
+
+const HASHED_CLASS_PATTERNS = [
+  /^svelte-[a-z0-9]+$/i,
+  /^s-[a-z0-9_-]{6,}$/i,
+  /^css-[a-z0-9]+$/i,
+  /^sc-[a-z0-9]+$/i,
+  /^jsx-\d+$/,
+  /^_?[a-z0-9]+_[a-z0-9_-]*__[a-z0-9_-]{4,}$/i,
+  /^[a-z0-9_-]*[0-9][a-z][0-9][a-z0-9]{3,}$/i,
+  /^a11y-/,
+  /^contrast-(error|success|indicator|report)$/
+];
+
+const HASHED_ID_PATTERNS = [
+  /^:.*:$/,
+  /^radix-/,
+  /^svelte-[a-z0-9]+/i,
+  /^[a-z]*-?(?=[0-9a-f]*\d)[0-9a-f]{8,}$/i,
+  /\d{4,}/
+];
+
+const UTILITY_KEYWORDS = new Set([
+  'flex', 'inline-flex', 'grid', 'inline-grid', 'block', 'inline-block', 'inline',
+  'hidden', 'contents', 'table', 'relative', 'absolute', 'fixed', 'sticky', 'static',
+  'container', 'truncate', 'sr-only', 'not-sr-only', 'italic', 'underline',
+  'uppercase', 'lowercase', 'capitalize', 'grow', 'shrink', 'visible', 'invisible',
+  'antialiased', 'border', 'rounded', 'shadow', 'outline', 'transition', 'isolate'
+]);
+
+const UTILITY_PREFIXES = /^-?((m|p)[trblxyse]?|w|h|min-w|min-h|max-w|max-h|size|gap|gap-x|gap-y|space-x|space-y|inset|inset-x|inset-y|top|left|right|bottom|start|end|z|order|col|col-span|col-start|row|row-span|grid-cols|grid-rows|basis|flex|grow|shrink|rounded|rounded-[trbl]{1,2}|border|border-[trblxy]|ring|ring-offset|shadow|opacity|leading|tracking|font|text|bg|from|via|to|fill|stroke|outline|outline-offset|decoration|duration|delay|ease|translate-x|translate-y|rotate|scale|skew-x|skew-y|origin|cursor|select|overflow|overflow-x|overflow-y|object|aspect|columns|break|divide-x|divide-y|divide|place-content|place-items|place-self|justify|justify-items|justify-self|items|content|self|align|whitespace|list|backdrop-blur|blur|transition|animate|line-clamp|scroll-m|scroll-p|snap|touch|will-change|accent|caret|mix-blend|bg-blend)-(.+)$/;
+
+const UTILITY_VALUE = /^(\d+(\.\d+)?|\d+\/\d+|px|auto|full|screen|svh|dvh|min|max|fit|none|xs|sm|md|lg|xl|\dxl|base|thin|light|normal|medium|semibold|bold|extrabold|black|center|start|end|between|around|evenly|stretch|baseline|wrap|nowrap|reverse|col|row|left|right|top|bottom|x|y|hidden|visible|scroll|clip|pointer|default|transparent|current|inherit|white|black|[a-z]+-\d{2,3}(\/\d+)?|.*-\d+(\.\d+)?)$/;
+
+
+
+
+export function isStableClassName(className: string, extraPatterns: RegExp[] = []): boolean {
+  if (!className) return false;
+
+
+  if (/[:[\]/!@]/.test(className)) return false;
+
+  if (HASHED_CLASS_PATTERNS.some(pattern => pattern.test(className))) return false;
+  if (extraPatterns.some(pattern => pattern.test(className))) return false;
+
+  if (UTILITY_KEYWORDS.has(className)) return false;
+
+  const utility = UTILITY_PREFIXES.exec(className);
+  if (utility && UTILITY_VALUE.test(utility[utility.length - 1])) return false;
+
+  return true;
+}
+
+
+
+
+export function isStableId(id: string): boolean {
+  if (!id) return false;
+  return !HASHED_ID_PATTERNS.some(pattern => pattern.test(id));
+}
+
+
+
+
+export function cssEscape(value: string): string {
+  if (typeof CSS !== 'undefined' && typeof CSS.escape === 'function') {
+    return CSS.escape(value);
+  }
+
+  return value
+    .replace(/^(\d)/, '\\3$1 ')
+    .replace(/^-(\d)/, '-\\3$1 ')
+    .replace(/[^a-zA-Z0-9_\u0080-\uFFFF-]/g, char => `\\${char}`);
+}
+
+
+
+
+export function getUniqueSelector(element: Element, options: SelectorOptions = {}): string {
+  const root = element.getRootNode() as Document | ShadowRoot;
+
+  if (root.nodeType !== 9 && !isShadowRoot(root)) {
+    return getCandidates(element, options)[0];
+  }
+
+  const local = getSelectorWithinRoot(element, root, options);
+
+  if (isShadowRoot(root)) {
+    return `${getUniqueSelector(root.host, options)}${SHADOW_SEPARATOR}${local}`;
+  }
+
+  return local;
+}
+
+
+
+
+export function resolveSelector(
+  selector: string,
+  root: Document | ShadowRoot | Element = document
+): Element | null {
+  const parts = selector.split(SHADOW_SEPARATOR);
+  let scope: Document | ShadowRoot | Element = root;
+  let found: Element | null = null;
+
+  for (let i = 0; i < parts.length; i++) {
+    try {
+      found = scope.querySelector(parts[i]);
+    } catch {
+      return null;
+    }
+
+    if (!found) return null;
+
+    if (i < parts.length - 1) {
+      if (!found.shadowRoot) return null;
+      scope = found.shadowRoot;
+    }
+  }
+
+  return found;
+}
+
+
+
+
+function getSelectorWithinRoot(
+  element: Element,
+  root: Document | ShadowRoot,
+  options: SelectorOptions
+): string {
+  const tagName = element.tagName.toLowerCase();
+  if (tagName === 'html' || tagName === 'body' || tagName === 'head') {
+    return tagName;
+  }
+
+
+  for (const candidate of getCandidates(element, options)) {
+    if (isUnique(candidate, element, root)) return candidate;
+  }
+
+
+  const path: string[] = [];
+  let current: Element | null = element;
+
+  while (current && current.parentNode) {
+    const segment = getPathSegment(current, options);
+    path.unshift(segment.selector);
+
+    const selector = path.join(' > ');
+    if (segment.anchored || isUnique(selector, element, root)) {
+      return selector;
+    }
+
+    const parent: Element | null = current.parentElement;
+    if (!parent) break;
+    current = parent;
+  }
+
+  return path.join(' > ');
+}
+
+function getCandidates(element: Element, options: SelectorOptions): string[] {
+  const tagName = element.tagName.toLowerCase();
+  const candidates: string[] = [];
+  const excluded = options.excludeAttributes ?? [];
+
+  if (element.id && isStableId(element.id) && !excluded.includes('id')) {
+    candidates.push(`#${cssEscape(element.id)}`);
+  }
+
+
+  for (const attr of options.stableAttributes ?? DEFAULT_STABLE_ATTRIBUTES) {
+    if (excluded.includes(attr)) continue;
+    const value = element.getAttribute(attr);
+    if (value) {
+      candidates.push(`${tagName}[${attr}="${escapeAttributeValue(value)}"]`);
+    }
+  }
+
+  const classes = getStableClasses(element, options);
+  if (classes.length > 0) {
+    candidates.push(`${tagName}${classes.map(c => `.${cssEscape(c)}`).join('')}`);
+  }
+
+  candidates.push(tagName);
+
+  for (const attr of QUALIFYING_ATTRIBUTES) {
+    if (excluded.includes(attr)) continue;
+    const value = element.getAttribute(attr);
+    if (value && value.length <= 60) {
+      candidates.push(`${tagName}[${attr}="${escapeAttributeValue(value)}"]`);
+    }
+  }
+
+  return candidates;
+}
+
+function getPathSegment(element: Element, options: SelectorOptions): { selector: string; anchored: boolean } {
+  const tagName = element.tagName.toLowerCase();
+
+  if (element.id && isStableId(element.id) && !options.excludeAttributes?.includes('id')) {
+    const root = element.getRootNode() as Document | ShadowRoot;
+    const idSelector = `#${cssEscape(element.id)}`;
+    if (isUnique(idSelector, element, root)) {
+      return { selector: idSelector, anchored: true };
+    }
+  }
+
+  if (tagName === 'body' || tagName === 'html') {
+    return { selector: tagName, anchored: true };
+  }
+
+  const classes = getStableClasses(element, options);
+  let selector = `${tagName}${classes.map(c => `.${cssEscape(c)}`).join('')}`;
+
+  const parent = element.parentElement;
+  if (parent) {
+    const siblings = Array.from(parent.children).filter(
+      sibling => sibling.tagName === element.tagName
+    );
+    if (siblings.length > 1) {
+      selector = `${tagName}:nth-of-type(${siblings.indexOf(element) + 1})`;
+    }
+  }
+
+  return { selector, anchored: false };
+}
+
+function getStableClasses(element: Element, options: SelectorOptions): string[] {
+  return Array.from(element.classList)
+    .filter(className => isStableClassName(className, options.ignoreClasses))
+    .slice(0, options.maxClasses ?? 3);
+}
+
+function isUnique(selector: string, element: Element, root: Document | ShadowRoot): boolean {
+  try {
+    const matches = root.querySelectorAll(selector);
+    return matches.length === 1 && matches[0] === element;
+  } catch {
+    return false;
+  }
+}
+
+function isShadowRoot(node: Node): node is ShadowRoot {
+  return node.nodeType === 11 && 'host' in node;
+}
+
+function escapeAttributeValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+}
@@ -2,7 +2,15 @@
 
 
 
-import { parseColor, getContrastRatio, analyzeContrast, type RGB } from './utils/color/index.js';
+import type { RGB } from './utils/color/types.js';
+import { parseColor } from './utils/color/parser.js';
+import { analyzeContrast, getContrastRatio } from './utils/color/contrast.js';
+import {
+  evaluateFocusAppearance,
+  FOCUS_CHANGE_CONTRAST,
+  type FocusAppearanceOptions
+} from './keyboard/focus-appearance.js';
+import type { ResultOutcome } from './types.js';
 
 
 const checkContrast = analyzeContrast;
@@ -23,6 +31,8 @@ export interface ValidationWarning {
 
 export interface ValidationResult {
   valid: boolean;
+  /** 'incomplete' when the check could not decide and needs human review. */
+  outcome?: ResultOutcome;
   ratio?: number;
   errors: (string | ValidationError)[];
   warnings: (string | ValidationWarning)[];
@@ -254,62 +264,36 @@ export function validateThemeConsistency(
 
 export function validateFocusIndicator(
   element: HTMLElement,
-  context: ValidationContext = {}
+  context: ValidationContext = {},
+  options: FocusAppearanceOptions = {}
 ): ValidationResult {
   const errors: string[] = [];
   const warnings: string[] = [];
-  const metadata: Record<string, any> = {};
-  
-  const styles = window.getComputedStyle(element);
-  const focusStyles = window.getComputedStyle(element, ':focus');
-  
-  
-  const outline = focusStyles.outline;
-  const outlineWidth = parseFloat(focusStyles.outlineWidth);
-  const outlineStyle = focusStyles.outlineStyle;
-  
-  metadata.outline = {
-    width: outlineWidth,
-    style: outlineStyle,
-    color: focusStyles.outlineColor
-  };
+  const { measurement, violations } = evaluateFocusAppearance(element, options);
+  const metadata: Record<string, any> = { ...measurement };
+
+  if (!measurement.focusable) {
+    return { valid: true, errors, warnings: ['Element is not focusable'], metadata };
+  }
   
   
-  if (outlineStyle === 'none' || outlineWidth === 0) {
-    
-    const hasBoxShadow = focusStyles.boxShadow !== 'none';
-    const hasBorderChange = focusStyles.border !== styles.border;
-    const hasBackgroundChange = focusStyles.backgroundColor !== styles.backgroundColor;
-    
-    metadata.alternativeIndicators = {
-      boxShadow: hasBoxShadow,
-      borderChange: hasBorderChange,
-      backgroundChange: hasBackgroundChange
-    };
-    
-    if (!hasBoxShadow && !hasBorderChange && !hasBackgroundChange) {
+  violations.forEach(violation => {
+    if (violation.criterion === '2.4.7') {
       errors.push(
         'Focus indicator removed without providing alternative. ' +
         'Elements must have visible focus indicators for keyboard navigation.'
       );
+    } else if (violation.severity === 'error') {
+      errors.push(violation.message);
+    } else {
+      warnings.push(violation.message);
     }
-  }
+  });
   
   
-  if (focusStyles.outlineColor && focusStyles.backgroundColor) {
-    const focusResult = validateContrast(
-      focusStyles.outlineColor,
-      focusStyles.backgroundColor,
-      { ...context, element: 'focus indicator' }
-    );
-    
-    if (!focusResult.valid) {
-      errors.push('Focus indicator has insufficient contrast');
-      
-      focusResult.errors.forEach(e => {
-        errors.push(typeof e === 'string' ? e : e.message);
-      });
-    }
+  if (measurement.visible && measurement.changeContrast !== null &&
+    measurement.changeContrast < FOCUS_CHANGE_CONTRAST) {
+    errors.push('Focus indicator has insufficient contrast');
   }
   
   return {
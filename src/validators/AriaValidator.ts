@@ -4,6 +4,25 @@
 
 
 import type { EvaluationResult } from '../types';
+import { getUniqueSelector } from '../utils/selector';
+import {
+  ARIA_ATTRIBUTES,
+  computeAccessibleName,
+  describeAriaValueType,
+  getAccessibilityParent,
+  getAriaAttributes,
+  getExplicitRole,
+  getImplicitRole,
+  getOwnedElements,
+  getRole,
+  getRoleDefinition,
+  isAbstractRole,
+  isAttributeSupported,
+  isHiddenFromAccessibilityTree,
+  isValidAriaAttribute,
+  isValidRole,
+  validateAriaValue
+} from '../aria';
 
 export interface AriaValidationOptions {
   checkRoles?: boolean;
@@ -13,6 +32,14 @@ export interface AriaValidationOptions {
   checkLandmarks?: boolean;
 }
 
+interface AriaFailure {
+  ruleId: string;
+  severity: EvaluationResult['severity'];
+  message: string;
+  wcagCriteria?: string;
+  details?: Record<string, unknown>;
+}
+
 export class AriaValidator {
   private options: AriaValidationOptions;
 
@@ -32,22 +59,21 @@ export class AriaValidator {
 
   validate(container: Element): EvaluationResult[] {
     const results: EvaluationResult[] = [];
-    const elements = container.querySelectorAll('[role], [aria-label], [aria-labelledby], [aria-describedby], [aria-hidden], [aria-expanded], [aria-pressed], [aria-selected], [aria-checked]');
 
-    elements.forEach((element, index) => {
-      const issues = this.validateElement(element);
-      if (issues.length > 0) {
+    container.querySelectorAll('*').forEach(element => {
+      for (const failure of this.validateElement(element)) {
         results.push({
-          id: `aria-${index}`,
+          id: `aria-${results.length}`,
           type: 'aria',
-          severity: 'warning',
-          message: issues.join('; '),
+          severity: failure.severity,
+          message: failure.message,
           selector: this.getSelector(element),
-          wcagLevel: 'AA',
-          wcagCriteria: '4.1.2',
+          wcagLevel: 'A',
+          wcagCriteria: failure.wcagCriteria ?? '4.1.2',
+          ruleId: failure.ruleId,
           details: {
             element: element.tagName.toLowerCase(),
-            issues
+            ...failure.details
           }
         });
       }
@@ -59,179 +85,234 @@ export class AriaValidator {
   
 
 
-  private validateElement(element: Element): string[] {
-    const issues: string[] = [];
-    const role = element.getAttribute('role');
+  private validateElement(element: Element): AriaFailure[] {
+    const failures: AriaFailure[] = [];
+    const explicitRole = getExplicitRole(element);
 
     
-    if (role && this.options.checkRoles) {
-      if (!this.isValidRole(role)) {
-        issues.push(`Invalid ARIA role: ${role}`);
+    if (this.options.checkRoles) {
+      failures.push(...this.validateRoleAttribute(element));
+
+      if (explicitRole && !isHiddenFromAccessibilityTree(element)) {
+        failures.push(...this.validateRoleStructure(element, explicitRole));
       }
     }
 
     
     if (this.options.checkLabels) {
       if (this.isInteractiveElement(element) && !this.hasAccessibleName(element)) {
-        issues.push('Interactive element missing accessible name (aria-label or aria-labelledby)');
+        failures.push({
+          ruleId: 'aria-accessible-name',
+          severity: 'error',
+          message: 'Interactive element missing accessible name (aria-label or aria-labelledby)'
+        });
       }
     }
 
     
     if (this.options.checkStates) {
-      const stateIssues = this.validateAriaStates(element);
-      issues.push(...stateIssues);
+      failures.push(...this.validateAriaValues(element));
     }
 
     
-    if (this.options.checkProperties && role) {
-      const propIssues = this.validateRoleProperties(element, role);
-      issues.push(...propIssues);
+    if (this.options.checkProperties) {
+      const role = getRole(element);
+      if (role) {
+        failures.push(...this.validateRoleProperties(element, role, explicitRole === role));
+      }
     }
 
-    return issues;
+    return failures;
   }
 
   
 
 
-  private isValidRole(role: string): boolean {
-    const validRoles = [
-      'alert', 'alertdialog', 'application', 'article', 'banner', 'button',
-      'cell', 'checkbox', 'columnheader', 'combobox', 'complementary',
-      'contentinfo', 'definition', 'dialog', 'directory', 'document',
-      'feed', 'figure', 'form', 'grid', 'gridcell', 'group', 'heading',
-      'img', 'link', 'list', 'listbox', 'listitem', 'log', 'main', 'marquee',
-      'math', 'menu', 'menubar', 'menuitem', 'menuitemcheckbox', 'menuitemradio',
-      'navigation', 'none', 'note', 'option', 'presentation', 'progressbar',
-      'radio', 'radiogroup', 'region', 'row', 'rowgroup', 'rowheader',
-      'scrollbar', 'search', 'searchbox', 'separator', 'slider', 'spinbutton',
-      'status', 'switch', 'tab', 'table', 'tablist', 'tabpanel', 'term',
-      'textbox', 'timer', 'toolbar', 'tooltip', 'tree', 'treegrid', 'treeitem'
-    ];
-    return validRoles.includes(role);
-  }
-
-  
+  private validateRoleAttribute(element: Element): AriaFailure[] {
+    const value = element.getAttribute('role');
+    if (value === null || !value.trim()) return [];
 
+    const tokens = value.trim().toLowerCase().split(/\s+/);
+    const failures: AriaFailure[] = [];
 
-  private isInteractiveElement(element: Element): boolean {
-    const tagName = element.tagName.toLowerCase();
-    const role = element.getAttribute('role');
+    for (const token of tokens.filter(isAbstractRole)) {
+      failures.push({
+        ruleId: 'aria-abstract-role',
+        severity: 'error',
+        message: `Abstract ARIA role "${token}" must not be used in content`,
+        details: { role: token }
+      });
+    }
 
-    const interactiveTags = ['button', 'a', 'input', 'select', 'textarea'];
-    const interactiveRoles = ['button', 'link', 'checkbox', 'radio', 'textbox', 'combobox', 'slider', 'switch', 'menuitem'];
+    if (!tokens.some(isValidRole) && failures.length === 0) {
+      failures.push({
+        ruleId: 'aria-valid-role',
+        severity: 'error',
+        message: `Invalid ARIA role: ${value}`,
+        details: { role: value }
+      });
+    }
 
-    return interactiveTags.includes(tagName) ||
-           (role !== null && interactiveRoles.includes(role));
+    return failures;
   }
 
   
 
 
-  private hasAccessibleName(element: Element): boolean {
-    
-    if (element.hasAttribute('aria-label') && element.getAttribute('aria-label')?.trim()) {
-      return true;
-    }
+  private validateRoleStructure(element: Element, role: string): AriaFailure[] {
+    const failures: AriaFailure[] = [];
+    const definition = getRoleDefinition(role)!;
 
-    
-    const labelledBy = element.getAttribute('aria-labelledby');
-    if (labelledBy) {
-      const labelElement = document.getElementById(labelledBy);
-      if (labelElement && labelElement.textContent?.trim()) {
-        return true;
-      }
-    }
+    if (definition.requiredContext) {
+      const parent = getAccessibilityParent(element);
+      const parentRole = parent ? getRole(parent) : null;
 
-    
-    if (element.textContent?.trim()) {
-      return true;
+      if (!parentRole || !definition.requiredContext.includes(parentRole)) {
+        failures.push({
+          ruleId: 'aria-required-context',
+          severity: 'error',
+          wcagCriteria: '1.3.1',
+          message: `Role "${role}" must be contained in ${formatRoles(definition.requiredContext)}`,
+          details: { role, parentRole, requiredContext: definition.requiredContext }
+        });
+      }
     }
 
-    
-    if (element.hasAttribute('title') && element.getAttribute('title')?.trim()) {
-      return true;
-    }
+    if (definition.requiredOwned && element.getAttribute('aria-busy') !== 'true') {
+      const ownedRoles = getOwnedElements(element).map(getRole);
 
-    
-    if (element.tagName.toLowerCase() === 'input') {
-      const id = element.getAttribute('id');
-      if (id) {
-        const label = document.querySelector(`label[for="${id}"]`);
-        if (label && label.textContent?.trim()) {
-          return true;
-        }
+      if (!ownedRoles.some(owned => owned !== null && definition.requiredOwned!.includes(owned))) {
+        failures.push({
+          ruleId: 'aria-required-children',
+          severity: 'error',
+          wcagCriteria: '1.3.1',
+          message: `Role "${role}" must own at least one element with ${formatRoles(definition.requiredOwned)}`,
+          details: { role, ownedRoles, requiredOwned: definition.requiredOwned }
+        });
       }
     }
 
-    return false;
+    return failures;
   }
 
   
 
 
-  private validateAriaStates(element: Element): string[] {
-    const issues: string[] = [];
-    const booleanStates = ['aria-hidden', 'aria-expanded', 'aria-pressed', 'aria-selected', 'aria-checked', 'aria-disabled', 'aria-required'];
+  private validateAriaValues(element: Element): AriaFailure[] {
+    const failures: AriaFailure[] = [];
 
-    for (const state of booleanStates) {
-      const value = element.getAttribute(state);
-      if (value !== null && !['true', 'false', 'mixed'].includes(value)) {
-        issues.push(`Invalid ${state} value: "${value}" (expected true, false, or mixed)`);
+    for (const attribute of getAriaAttributes(element)) {
+      if (!isValidAriaAttribute(attribute)) {
+        failures.push({
+          ruleId: 'aria-valid-attr',
+          severity: 'error',
+          message: `Unknown ARIA attribute: ${attribute}`,
+          details: { attribute }
+        });
+        continue;
+      }
+
+      const value = element.getAttribute(attribute) ?? '';
+      if (!value.trim()) continue;
+
+      if (!validateAriaValue(attribute, value)) {
+        failures.push({
+          ruleId: 'aria-valid-attr-value',
+          severity: 'error',
+          message: `Invalid ${attribute} value: "${value}" (expected ${describeAriaValueType(attribute)})`,
+          details: { attribute, value }
+        });
       }
     }
 
-    return issues;
+    return failures;
   }
 
   
 
 
-  private validateRoleProperties(element: Element, role: string): string[] {
-    const issues: string[] = [];
+  private isInteractiveElement(element: Element): boolean {
+    const tagName = element.tagName.toLowerCase();
+    const role = element.getAttribute('role');
+
+    const interactiveTags = ['button', 'a', 'input', 'select', 'textarea'];
+    const interactiveRoles = ['button', 'link', 'checkbox', 'radio', 'textbox', 'combobox', 'slider', 'switch', 'menuitem'];
+
+    return interactiveTags.includes(tagName) ||
+           (role !== null && interactiveRoles.includes(role));
+  }
+
+  
+
+
+  private hasAccessibleName(element: Element): boolean {
+    return computeAccessibleName(element, { ignorePlaceholder: true }) !== '';
+  }
+
+  
 
-    
-    const requiredProps: Record<string, string[]> = {
-      'checkbox': ['aria-checked'],
-      'combobox': ['aria-expanded'],
-      'heading': ['aria-level'],
-      'meter': ['aria-valuenow'],
-      'option': ['aria-selected'],
-      'progressbar': ['aria-valuenow'],
-      'radio': ['aria-checked'],
-      'scrollbar': ['aria-controls', 'aria-valuenow'],
-      'slider': ['aria-valuenow'],
-      'spinbutton': ['aria-valuenow'],
-      'switch': ['aria-checked']
-    };
 
-    const required = requiredProps[role];
-    if (required) {
-      for (const prop of required) {
-        if (!element.hasAttribute(prop)) {
-          issues.push(`Role "${role}" requires ${prop} attribute`);
+  private validateRoleProperties(element: Element, role: string, isExplicit: boolean): AriaFailure[] {
+    const failures: AriaFailure[] = [];
+    const definition = getRoleDefinition(role);
+    if (!definition) return failures;
+
+    
+    if (isExplicit && definition.requiredAttributes && getImplicitRole(element) !== role) {
+      for (const prop of definition.requiredAttributes) {
+        if (isCollapsedComboboxControls(element, role, prop)) continue;
+        if (!element.getAttribute(prop)?.trim()) {
+          failures.push({
+            ruleId: 'aria-required-attr',
+            severity: 'error',
+            message: `Role "${role}" requires ${prop} attribute`,
+            details: { role, attribute: prop }
+          });
         }
       }
     }
 
-    return issues;
+    for (const attribute of getAriaAttributes(element)) {
+      if (!isValidAriaAttribute(attribute)) continue;
+
+      if (definition.prohibitedAttributes?.includes(attribute)) {
+        failures.push({
+          ruleId: 'aria-prohibited-attr',
+          severity: 'warning',
+          message: `${attribute} is prohibited on role "${role}"`,
+          details: { role, attribute }
+        });
+      } else if (!isAttributeSupported(role, attribute, !!ARIA_ATTRIBUTES[attribute].global)) {
+        failures.push({
+          ruleId: 'aria-allowed-attr',
+          severity: 'warning',
+          message: `${attribute} is not supported on role "${role}"`,
+          details: { role, attribute }
+        });
+      }
+    }
+
+    return failures;
   }
 
   
 
 
   private getSelector(element: Element): string {
-    const id = element.id;
-    if (id) {
-      return `#${id}`;
-    }
+    return getUniqueSelector(element);
+  }
+}
 
-    const tagName = element.tagName.toLowerCase();
-    const classList = Array.from(element.classList).join('.');
 
-    return classList ? `${tagName}.${classList}` : tagName;
-  }
+
+
+// ARIA 1.2 lets a collapsed combobox omit aria-controls while its popup is not rendered.
+function isCollapsedComboboxControls(element: Element, role: string, attribute: string): boolean {
+  return role === 'combobox' && attribute === 'aria-controls' && element.getAttribute('aria-expanded') !== 'true';
+}
+
+function formatRoles(roles: string[]): string {
+  return roles.length === 1 ? `role "${roles[0]}"` : `one of the roles ${roles.map(r => `"${r}"`).join(', ')}`;
 }
 
 
@@ -21,6 +21,7 @@ import { ContrastValidator, type ExtendedValidationOptions } from './ContrastVal
 
 type ValidationOptions = ExtendedValidationOptions;
 import { ThemeContrastValidator } from './ThemeContrastValidator.js';
+import { JunitReportGenerator } from '../reporting/JunitReportGenerator.js';
 
 export interface ContrastTestCase {
   name: string;
@@ -56,6 +57,9 @@ export interface TestRunResult {
 
 export interface TestCaseResult {
   name: string;
+  selector?: string;
+  /** Success criterion the case checks: 1.4.3, 1.4.6 at AAA, or 1.4.11 for non-text components. */
+  wcagCriterion: string;
   passed: boolean;
   skipped: boolean;
   duration: number;
@@ -135,6 +139,7 @@ export class ContrastTestRunner {
   private async runTest(test: ContrastTestCase): Promise<TestCaseResult> {
     const startTime = performance.now();
     const failures: string[] = [];
+    const subject = { name: test.name, selector: test.selector, wcagCriterion: getCriterionId(test.options) };
     
     try {
       
@@ -152,7 +157,7 @@ export class ContrastTestRunner {
         validation = this.validateColors(test.foreground, test.background, test.options);
       } else {
         return {
-          name: test.name,
+          ...subject,
           passed: false,
           skipped: true,
           duration: 0,
@@ -184,7 +189,7 @@ export class ContrastTestRunner {
       const endTime = performance.now();
 
       return {
-        name: test.name,
+        ...subject,
         passed: failures.length === 0 && validation.valid,
         skipped: false,
         duration: endTime - startTime,
@@ -195,7 +200,7 @@ export class ContrastTestRunner {
       const endTime = performance.now();
       
       return {
-        name: test.name,
+        ...subject,
         passed: false,
         skipped: false,
         duration: endTime - startTime,
@@ -368,6 +373,13 @@ export class ContrastTestRunner {
   
 
 
+  generateJUnitReport(results: TestRunResult[]): string {
+    return new JunitReportGenerator().generateTestRunReport(results);
+  }
+
+  
+
+
   generateReport(results: TestRunResult[]): string {
     const report: string[] = [];
     
@@ -512,6 +524,12 @@ export class ContrastTestRunner {
   }
 }
 
+function getCriterionId(options?: ValidationOptions): string {
+  const { level = 'AA', componentType = 'text' } = options || {};
+  if (componentType === 'ui-component' || componentType === 'graphic' || componentType === 'icon') return '1.4.11';
+  return level === 'AAA' ? '1.4.6' : '1.4.3';
+}
+
 
 
 
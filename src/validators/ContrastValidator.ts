@@ -16,6 +16,15 @@ import {
 } from '../contrast.js';
 
 import type { ValidationResult, ValidationError, ValidationWarning } from '../validators.js';
+import {
+  type ContrastModel,
+  type ContrastModelEvaluation,
+  APCA_NON_TEXT_LC,
+  getApcaMinimumLc,
+  evaluateContrastModels,
+  describeContrastFailure,
+  describeContrastDisagreement
+} from '../utils/color/apca.js';
 
 export interface ExtendedValidationOptions {
   level?: 'AA' | 'AAA';
@@ -27,6 +36,9 @@ export interface ExtendedValidationOptions {
   checkImages?: boolean;
   checkPatterns?: boolean;
   samplePoints?: number; 
+  contrastModel?: ContrastModel;
+  fontSize?: number;
+  fontWeight?: number | string;
 }
 
 export interface GradientInfo {
@@ -178,6 +190,7 @@ export class ContrastValidator {
 
       return {
         valid,
+        outcome: valid ? 'passed' : 'incomplete',
         ratio: minRatio,
         errors,
         warnings,
@@ -623,6 +636,7 @@ export class ContrastValidator {
   private createErrorResult(message: string): ValidationResult {
     return {
       valid: false,
+      outcome: 'incomplete',
       ratio: 0,
       errors: [{
         type: 'contrast',
@@ -651,26 +665,9 @@ export class ContrastValidator {
     }
 
     const result = checkContrast(fg, bg);
-    const requiredRatio = this.getRequiredRatio(options);
-    const valid = result.ratio >= requiredRatio;
+    const evaluation = this.evaluateModels(result, options);
 
-    const errors: ValidationError[] = [];
-    if (!valid) {
-      errors.push({
-        type: 'contrast',
-        message: `Contrast ratio ${result.ratio.toFixed(2)}:1 does not meet requirement of ${requiredRatio}:1`,
-        expected: requiredRatio,
-        actual: result.ratio
-      });
-    }
-
-    return {
-      valid,
-      ratio: result.ratio,
-      errors,
-      warnings: [],
-      suggestions: valid ? [] : ['Adjust colors to meet contrast requirements']
-    };
+    return this.createModelResult(evaluation, options, undefined, ['Adjust colors to meet contrast requirements']);
   }
 
   
@@ -691,29 +688,83 @@ export class ContrastValidator {
       return this.createErrorResult('Could not determine background color');
     }
 
+    const styles = window.getComputedStyle(element);
     const result = checkContrast(foreground, background);
-    const requiredRatio = this.getRequiredRatio(options);
-    const valid = result.ratio >= requiredRatio;
+    const evaluation = this.evaluateModels(result, {
+      fontSize: parseFloat(styles.fontSize) || undefined,
+      fontWeight: styles.fontWeight || undefined,
+      ...options
+    });
 
+    return this.createModelResult(evaluation, options, element, ['Adjust foreground or background color']);
+  }
+
+  
+
+
+  protected evaluateModels(result: ContrastResult, options: ExtendedValidationOptions): ContrastModelEvaluation {
+    const { componentType = 'text' } = options;
+    const nonText = componentType === 'ui-component' || componentType === 'graphic' || componentType === 'icon';
+
+    const fontSize = options.fontSize ?? (componentType === 'large-text' ? 24 : 16);
+    const requiredLc = nonText ? APCA_NON_TEXT_LC : getApcaMinimumLc(fontSize, options.fontWeight ?? 400);
+
+    return evaluateContrastModels(
+      options.contrastModel ?? 'wcag2',
+      result.ratio,
+      this.getRequiredRatio(options),
+      result.apca,
+      requiredLc
+    );
+  }
+
+  
+
+
+  private createModelResult(
+    evaluation: ContrastModelEvaluation,
+    options: ExtendedValidationOptions,
+    element: Element | undefined,
+    suggestions: string[]
+  ): ValidationResult {
     const errors: ValidationError[] = [];
     const warnings: ValidationWarning[] = [];
 
-    if (!valid) {
+    if (!evaluation.passes) {
+      const apcaOnly = evaluation.model === 'apca' || (evaluation.model === 'both' && evaluation.wcag2Passes);
       errors.push({
         type: 'contrast',
-        message: `Contrast ratio ${result.ratio.toFixed(2)}:1 does not meet requirement of ${requiredRatio}:1`,
-        element,
-        expected: requiredRatio,
-        actual: result.ratio
+        message: evaluation.model === 'wcag2'
+          ? `Contrast ratio ${evaluation.ratio.toFixed(2)}:1 does not meet requirement of ${evaluation.requiredRatio}:1`
+          : `Contrast does not meet requirement: ${describeContrastFailure(evaluation)}`,
+        ...(element ? { element } : {}),
+        expected: apcaOnly ? evaluation.requiredLc ?? undefined : evaluation.requiredRatio,
+        actual: apcaOnly ? Math.abs(evaluation.apca) : evaluation.ratio
+      });
+    }
+
+    const disagreement = options.contrastModel === 'both' ? describeContrastDisagreement(evaluation) : null;
+    if (disagreement) {
+      warnings.push({
+        type: 'model-disagreement',
+        message: disagreement,
+        suggestion: 'Review this pair visually; WCAG 2 and APCA weigh dark colors differently'
       });
     }
 
     return {
-      valid,
-      ratio: result.ratio,
+      valid: evaluation.passes,
+      ratio: evaluation.ratio,
       errors,
       warnings,
-      suggestions: valid ? [] : ['Adjust foreground or background color']
+      suggestions: evaluation.passes ? [] : suggestions,
+      metadata: {
+        contrastModel: evaluation.model,
+        apca: evaluation.apca,
+        requiredLc: evaluation.requiredLc,
+        wcag2Passes: evaluation.wcag2Passes,
+        apcaPasses: evaluation.apcaPasses
+      }
     };
   }
 }
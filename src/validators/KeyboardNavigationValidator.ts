@@ -1,4 +1,28 @@
 import type { EvaluationResult } from '../types';
+import { getUniqueSelector } from '../utils/selector';
+import { computeAccessibleName } from '../aria';
+import {
+  analyzeFocusOrder,
+  evaluateFocusAppearance,
+  findOverlays,
+  isInSequentialFocusOrder,
+  probeKeyboardTraps,
+  type FocusAppearanceViolation,
+  type FocusOrderAnalysis,
+  type FocusOrderOptions,
+  type KeyboardProbeOptions
+} from '../keyboard';
+import { withRestoredStateSync } from '../keyboard/interaction';
+
+const FOCUS_CRITERIA_LEVELS: Record<FocusAppearanceViolation['criterion'], 'A' | 'AA' | 'AAA'> = {
+  '2.4.7': 'AA',
+  '2.4.11': 'AA',
+  '2.4.12': 'AAA',
+  '2.4.13': 'AAA'
+};
+
+// Stops kept on either side of a focus order jump, so the report shows where it happens.
+const SEQUENCE_CONTEXT = 2;
 
 export class KeyboardNavigationValidator {
   private idCounter = 0;
@@ -30,6 +54,41 @@ export class KeyboardNavigationValidator {
     return results;
   }
 
+  
+  
+  
+  getFocusOrder(container: HTMLElement = document.body, options?: FocusOrderOptions): FocusOrderAnalysis {
+    return analyzeFocusOrder(container, options);
+  }
+
+  
+  
+  
+  
+  async probeKeyboardTraps(
+    container: HTMLElement = document.body,
+    options?: Omit<KeyboardProbeOptions, 'trigger'>
+  ): Promise<EvaluationResult[]> {
+    const probes = await probeKeyboardTraps(container, options);
+
+    return probes.flatMap(probe => probe.findings.map((finding): EvaluationResult => ({
+      id: this.generateId(),
+      timestamp: Date.now(),
+      type: 'keyboard',
+      severity: finding.type === 'keyboard-trap' ? 'error' : 'warning',
+      wcagLevel: 'A',
+      wcagCriteria: finding.wcagCriteria,
+      selector: probe.selector,
+      message: finding.message,
+      metadata: {
+        finding: finding.type,
+        kind: probe.kind,
+        closedByEscape: probe.closedByEscape,
+        steps: probe.steps
+      }
+    })));
+  }
+
   private validateFocusableElements(container: HTMLElement, results: EvaluationResult[]) {
     const focusableSelector = 'a[href], button, input, select, textarea, [tabindex]:not([tabindex="-1"])';
     const focusableElements = container.querySelectorAll(focusableSelector);
@@ -82,50 +141,64 @@ export class KeyboardNavigationValidator {
         });
       }
     });
+
+    
+    const analysis = this.getFocusOrder(container);
+
+    analysis.jumps.forEach(jump => {
+      const fromIndex = analysis.sequence.indexOf(jump.from);
+      const toIndex = analysis.sequence.indexOf(jump.to);
+      results.push({
+        id: this.generateId(),
+        timestamp: Date.now(),
+        type: 'keyboard',
+        severity: 'warning',
+        wcagLevel: 'A',
+        wcagCriteria: '2.4.3',
+        selector: jump.to.selector,
+        message: jump.reason === 'positive-tabindex'
+          ? `Focus moves backwards from ${jump.from.selector} to ${jump.to.selector} because tabindex values override the reading order`
+          : `Focus moves backwards from ${jump.from.selector} to ${jump.to.selector} because DOM order does not match the visual layout`,
+        metadata: {
+          from: jump.from.selector,
+          to: jump.to.selector,
+          fromVisualIndex: jump.fromVisualIndex,
+          toVisualIndex: jump.toVisualIndex,
+          reason: jump.reason,
+          sequenceIndex: fromIndex,
+          sequence: analysis.sequence
+            .slice(Math.max(0, fromIndex - SEQUENCE_CONTEXT), toIndex + SEQUENCE_CONTEXT + 1)
+            .map(stop => stop.selector)
+        }
+      });
+    });
   }
 
   private validateFocusIndicators(container: HTMLElement, results: EvaluationResult[]) {
-    const interactiveElements = container.querySelectorAll(
+    const interactiveElements = Array.from(container.querySelectorAll(
       'a[href], button, input, select, textarea, [tabindex]:not([tabindex="-1"])'
-    );
+    )).filter(isInSequentialFocusOrder);
+    const doc = container.ownerDocument;
+    const overlays = findOverlays(doc);
 
     interactiveElements.forEach(element => {
-      const styles = window.getComputedStyle(element as HTMLElement);
-      const focusElement = element as HTMLElement;
-      
-      
-      const originalTabIndex = focusElement.getAttribute('tabindex');
-      if (!originalTabIndex) {
-        focusElement.setAttribute('tabindex', '-1');
-      }
-      
-      focusElement.focus();
-      const focusStyles = window.getComputedStyle(focusElement);
-      
-      
-      const hasOutline = focusStyles.outlineStyle !== 'none' && focusStyles.outlineWidth !== '0px';
-      const hasBoxShadow = focusStyles.boxShadow !== 'none';
-      const hasBorderChange = styles.border !== focusStyles.border;
-      
-      focusElement.blur();
-      
-      
-      if (!originalTabIndex) {
-        focusElement.removeAttribute('tabindex');
-      }
-      
-      if (!hasOutline && !hasBoxShadow && !hasBorderChange) {
+      const { measurement, violations } = withRestoredStateSync(doc, () => evaluateFocusAppearance(element, { overlays }));
+
+      violations.forEach(violation => {
         results.push({
           id: this.generateId(),
           timestamp: Date.now(),
           type: 'keyboard',
-          severity: 'error',
-          wcagLevel: 'AA',
-          wcagCriteria: '2.4.7',
+          severity: violation.severity,
+          wcagLevel: FOCUS_CRITERIA_LEVELS[violation.criterion],
+          wcagCriteria: violation.criterion,
           selector: this.getSelector(element),
-          message: 'Element appears to lack visible focus indicator'
+          message: violation.criterion === '2.4.7'
+            ? 'Element appears to lack visible focus indicator'
+            : violation.message,
+          metadata: { ...measurement }
         });
-      }
+      });
     });
   }
 
@@ -144,10 +217,8 @@ export class KeyboardNavigationValidator {
       if (!hasCloseButton) {
         const allButtons = modal.querySelectorAll('button');
         for (const btn of allButtons) {
-          const text = btn.textContent?.trim().toLowerCase() || '';
-          const ariaLabel = btn.getAttribute('aria-label')?.toLowerCase() || '';
-          if (text === '\u00d7' || text === 'close' || text === 'cancel' ||
-              text === 'x' || ariaLabel.includes('close') || ariaLabel.includes('cancel')) {
+          const name = computeAccessibleName(btn).toLowerCase();
+          if (name === '\u00d7' || name === 'x' || name.includes('close') || name.includes('cancel')) {
             hasCloseButton = true;
             break;
           }
@@ -268,13 +339,10 @@ export class KeyboardNavigationValidator {
       const inputElement = input as HTMLInputElement;
       
       
-      const hasLabel = inputElement.labels && inputElement.labels.length > 0;
-      const hasAriaLabel = input.hasAttribute('aria-label');
-      const hasAriaLabelledBy = input.hasAttribute('aria-labelledby');
-      const hasTitle = input.hasAttribute('title');
       const hasPlaceholder = input.hasAttribute('placeholder');
+      const name = computeAccessibleName(input, { ignorePlaceholder: true });
       
-      if (!hasLabel && !hasAriaLabel && !hasAriaLabelledBy && !hasTitle) {
+      if (!name) {
         results.push({
           id: this.generateId(),
           timestamp: Date.now(),
@@ -315,30 +383,7 @@ export class KeyboardNavigationValidator {
   }
 
   private getSelector(element: Element): string {
-    if (element.id) {
-      return `#${element.id}`;
-    }
-    
-    let selector = element.tagName.toLowerCase();
-    
-    if (element.className) {
-      const classes = element.className.split(' ').filter(c => c.trim());
-      if (classes.length > 0) {
-        selector += `.${classes.join('.')}`;
-      }
-    }
-    
-    
-    const parent = element.parentElement;
-    if (parent) {
-      const siblings = Array.from(parent.children);
-      const index = siblings.indexOf(element);
-      if (siblings.filter(s => s.tagName === element.tagName).length > 1) {
-        selector += `:nth-child(${index + 1})`;
-      }
-    }
-    
-    return selector;
+    return getUniqueSelector(element);
   }
 
   private generateId(): string {
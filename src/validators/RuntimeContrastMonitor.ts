@@ -13,6 +13,15 @@ import {
 import type { ValidationResult } from '../validators.js';
 import { ContrastValidator } from './ContrastValidator.js';
 import { ThemeContrastValidator } from './ThemeContrastValidator.js';
+import { getUniqueSelector } from '../utils/selector.js';
+import {
+  type ContrastModel,
+  type ContrastModelEvaluation,
+  APCA_NON_TEXT_LC,
+  getApcaMinimumLc,
+  evaluateContrastModels,
+  describeContrastFailure
+} from '../utils/color/apca.js';
 
 export interface MonitorOptions {
   wcagLevel?: 'AA' | 'AAA';
@@ -25,6 +34,7 @@ export interface MonitorOptions {
   observeAttributes?: boolean;
   observeChildren?: boolean;
   observeSubtree?: boolean;
+  contrastModel?: ContrastModel;
 }
 
 export interface ViolationReport {
@@ -38,6 +48,9 @@ export interface ViolationReport {
     required: number;
     foreground: RGB;
     background: RGB;
+    model: ContrastModel;
+    apca: number;
+    requiredLc: number | null;
   };
   context: {
     url: string;
@@ -58,6 +71,8 @@ export interface MonitorStats {
   violationsFixed: number;
   lastCheckTime: number;
   violationsByType: Map<string, number>;
+  /** Elements where WCAG 2 and APCA reached different verdicts. */
+  modelDisagreements: number;
 }
 
 
@@ -91,6 +106,7 @@ export class RuntimeContrastMonitor {
       observeAttributes: true,
       observeChildren: true,
       observeSubtree: true,
+      contrastModel: 'wcag2',
       ...options
     };
 
@@ -100,7 +116,8 @@ export class RuntimeContrastMonitor {
       violationsFound: 0,
       violationsFixed: 0,
       lastCheckTime: Date.now(),
-      violationsByType: new Map()
+      violationsByType: new Map(),
+      modelDisagreements: 0
     };
   }
 
@@ -282,13 +299,22 @@ export class RuntimeContrastMonitor {
     }
 
     const result = checkContrast(foreground, background);
-    const required = this.getRequiredRatio(element);
+    const evaluation = evaluateContrastModels(
+      this.options.contrastModel,
+      result.ratio,
+      this.getRequiredRatio(element),
+      result.apca,
+      this.getRequiredLc(element)
+    );
+    
+    if (evaluation.disagreement) {
+      this.stats.modelDisagreements++;
+    }
     
-    if (result.ratio < required) {
+    if (!evaluation.passes) {
       const violation = this.createViolationReport(
         element,
-        result.ratio,
-        required,
+        evaluation,
         foreground,
         background
       );
@@ -327,11 +353,11 @@ export class RuntimeContrastMonitor {
 
   private createViolationReport(
     element: Element,
-    ratio: number,
-    required: number,
+    evaluation: ContrastModelEvaluation,
     foreground: RGB,
     background: RGB
   ): ViolationReport {
+    const { ratio, requiredRatio: required } = evaluation;
     const selector = this.getElementSelector(element);
     const theme = document.documentElement.getAttribute('data-theme') || 'default';
     
@@ -341,11 +367,16 @@ export class RuntimeContrastMonitor {
       selector,
       violation: {
         type: this.getComponentType(element),
-        message: `Contrast ratio ${ratio.toFixed(2)}:1 below required ${required}:1`,
+        message: evaluation.model === 'wcag2'
+          ? `Contrast ratio ${ratio.toFixed(2)}:1 below required ${required}:1`
+          : `Contrast below required: ${describeContrastFailure(evaluation)}`,
         ratio,
         required,
         foreground,
-        background
+        background,
+        model: evaluation.model,
+        apca: evaluation.apca,
+        requiredLc: evaluation.requiredLc
       },
       context: {
         url: window.location.href,
@@ -554,12 +585,7 @@ export class RuntimeContrastMonitor {
 
 
   private getElementSelector(element: Element): string {
-    const tag = element.tagName.toLowerCase();
-    const id = element.id ? `#${element.id}` : '';
-    const classes = element.className ? 
-      `.${element.className.split(' ').filter(c => c).join('.')}` : '';
-    
-    return `${tag}${id}${classes}`;
+    return getUniqueSelector(element);
   }
 
   
@@ -613,6 +639,21 @@ export class RuntimeContrastMonitor {
     
     return this.options.wcagLevel === 'AAA' ? 7 : 4.5;
   }
+
+  
+
+
+  private getRequiredLc(element: Element): number | null {
+    const styles = window.getComputedStyle(element);
+    const fontSize = parseFloat(styles.fontSize);
+    const textLc = getApcaMinimumLc(fontSize, styles.fontWeight);
+
+    if (['button', 'link', 'form-control'].includes(this.getComponentType(element))) {
+      return Math.min(textLc ?? APCA_NON_TEXT_LC, APCA_NON_TEXT_LC);
+    }
+
+    return textLc;
+  }
 }
 
 
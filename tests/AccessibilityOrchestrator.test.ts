@@ -57,6 +57,7 @@ describe('AccessibilityOrchestrator', () => {
         disconnect: vi.fn(),
         send: vi.fn().mockResolvedValue(undefined),
         sendEvaluation: vi.fn().mockResolvedValue(undefined),
+        sendDelta: vi.fn(),
         sendHeartbeat: vi.fn(),
         getStatus: vi.fn().mockReturnValue({ connected: true, queueSize: 0, retryAttempts: 0 })
       };
@@ -198,6 +199,71 @@ describe('AccessibilityOrchestrator', () => {
     });
   });
 
+  describe('Issue tracking', () => {
+    const failure = (): EvaluationResult => ({
+      id: `contrast-${Math.random()}`,
+      type: 'contrast',
+      severity: 'error',
+      wcagLevel: 'AA',
+      wcagCriteria: '1.4.3',
+      selector: '#hero',
+      message: 'Insufficient contrast'
+    });
+
+    it('should stream deltas with stable issue ids when enabled', async () => {
+      config.streamingEnabled = true;
+      config.streamDeltas = true;
+      orchestrator = new AccessibilityOrchestrator(config, onResultsMock);
+      const client = (StreamingClient as any).mock.results[0].value;
+      const onNew = vi.fn();
+      orchestrator.tracker.on('issue:new', onNew);
+
+      const element = document.createElement('p');
+      element.textContent = 'Hero';
+      mockSampler.sampleElements.mockReturnValue([element]);
+      mockContrastAnalyzer.analyzeElement.mockImplementation(failure);
+
+      await orchestrator.evaluate();
+
+      const [delta] = client.sendDelta.mock.calls[0];
+      expect(client.sendEvaluation).not.toHaveBeenCalled();
+      expect(delta.added).toHaveLength(1);
+      expect(delta.added[0].id).toBe(orchestrator.tracker.list()[0].id);
+      expect(onNew).toHaveBeenCalledTimes(1);
+    });
+
+    it('should only resolve issues on elements the sample evaluated', async () => {
+      const hero = document.createElement('p');
+      hero.id = 'hero';
+      hero.textContent = 'Hero';
+      const footer = document.createElement('p');
+      footer.id = 'footer';
+      footer.textContent = 'Footer';
+      document.body.append(hero, footer);
+      orchestrator = new AccessibilityOrchestrator(config, onResultsMock);
+      vi.stubGlobal('requestIdleCallback', (callback: () => void) => setTimeout(callback));
+      const run = async (sample: Element[]) => {
+        mockSampler.sampleElements.mockReturnValue(sample);
+        await orchestrator.evaluate();
+      };
+
+      mockContrastAnalyzer.analyzeElement.mockImplementation(failure);
+      await run([hero]);
+      expect(orchestrator.tracker.list('open')).toHaveLength(1);
+
+      mockContrastAnalyzer.analyzeElement.mockImplementation(() => null);
+      await run([footer]);
+      expect(orchestrator.tracker.list('open')).toHaveLength(1);
+
+      await run([hero]);
+      expect(orchestrator.tracker.list('resolved')).toHaveLength(1);
+
+      vi.unstubAllGlobals();
+      hero.remove();
+      footer.remove();
+    });
+  });
+
   describe('Statistics', () => {
     beforeEach(() => {
       orchestrator = new AccessibilityOrchestrator(config, onResultsMock);
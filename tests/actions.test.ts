@@ -0,0 +1,31 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { focusCheck } from '../src/actions';
+
+describe('focusCheck', () => {
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('should validate a focused element once without moving focus', () => {
+    document.body.innerHTML = '<button id="save" style="outline: none">Save</button>';
+    const button = document.getElementById('save') as HTMLButtonElement;
+    button.addEventListener('focus', () => button.setAttribute('style', 'outline: 2px solid #000000'));
+    button.addEventListener('blur', () => button.setAttribute('style', 'outline: none'));
+    let focusEvents = 0;
+    let blurEvents = 0;
+    button.addEventListener('focus', () => focusEvents++);
+    button.addEventListener('blur', () => blurEvents++);
+    const action = focusCheck(button, {});
+
+    button.focus();
+
+    const indicator = button.querySelector<HTMLElement>('.focus-indicator-check')!;
+    expect(focusEvents).toBe(1);
+    expect(blurEvents).toBe(0);
+    expect(document.activeElement).toBe(button);
+    expect(indicator.style.display).toBe('block');
+    expect(indicator.style.background).toMatch(/#4ade80|rgb\(74, 222, 128\)/);
+
+    action?.destroy?.();
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { computeAccessibleName, computeAccessibleDescription } from '../../src/aria';
+
+describe('accessible name computation', () => {
+  let container: HTMLDivElement;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    document.body.appendChild(container);
+  });
+
+  afterEach(() => {
+    document.body.removeChild(container);
+  });
+
+  const byId = (id: string) => container.querySelector(`#${id}`)!;
+
+  it('should join multiple aria-labelledby references in order', () => {
+    container.innerHTML = `
+      <span id="first">First Name</span>
+      <span id="required">(Required)</span>
+      <input id="target" aria-labelledby="first required" aria-label="ignored" />
+    `;
+
+    expect(computeAccessibleName(byId('target'))).toBe('First Name (Required)');
+  });
+
+  it('should include hidden content when it is referenced directly', () => {
+    container.innerHTML = `
+      <span id="hidden-label" hidden>Search <span>site</span></span>
+      <button id="target" aria-labelledby="hidden-label"></button>
+    `;
+
+    expect(computeAccessibleName(byId('target'))).toBe('Search site');
+  });
+
+  it('should skip hidden descendants when naming from content', () => {
+    container.innerHTML = `
+      <button id="target">Save <span aria-hidden="true">💾</span><span style="display: none">draft</span></button>
+    `;
+
+    expect(computeAccessibleName(byId('target'))).toBe('Save');
+  });
+
+  it('should use the value of embedded controls inside labels', () => {
+    container.innerHTML = `
+      <label>
+        <input id="target" type="checkbox" />
+        Flash the screen <input type="text" value="5" /> times
+      </label>
+    `;
+
+    expect(computeAccessibleName(byId('target'))).toBe('Flash the screen 5 times');
+  });
+
+  it('should use label[for], alt, legend and figcaption', () => {
+    container.innerHTML = `
+      <label for="email">Email address</label>
+      <input id="email" type="email" />
+      <img id="logo" src="logo.png" alt="Company logo" />
+      <fieldset id="shipping"><legend>Shipping</legend><input /></fieldset>
+      <figure id="chart"><img src="c.png" alt="" /><figcaption>Sales by month</figcaption></figure>
+      <a id="logo-link" href="/"><img src="logo.png" alt="Home" /></a>
+    `;
+
+    expect(computeAccessibleName(byId('email'))).toBe('Email address');
+    expect(computeAccessibleName(byId('logo'))).toBe('Company logo');
+    expect(computeAccessibleName(byId('shipping'))).toBe('Shipping');
+    expect(computeAccessibleName(byId('chart'))).toBe('Sales by month');
+    expect(computeAccessibleName(byId('logo-link'))).toBe('Home');
+  });
+
+  it('should not name roles that disallow name from content', () => {
+    container.innerHTML = `
+      <div id="target" role="textbox">typed text</div>
+      <div id="region" role="region">Unlabeled region</div>
+    `;
+
+    expect(computeAccessibleName(byId('target'))).toBe('');
+    expect(computeAccessibleName(byId('region'))).toBe('');
+  });
+
+  it('should fall back to title and placeholder', () => {
+    container.innerHTML = `
+      <button id="icon" title="Settings"><svg></svg></button>
+      <input id="search" placeholder="Search docs" />
+    `;
+
+    expect(computeAccessibleName(byId('icon'))).toBe('Settings');
+    expect(computeAccessibleName(byId('search'))).toBe('Search docs');
+    expect(computeAccessibleName(byId('search'), { ignorePlaceholder: true })).toBe('');
+  });
+
+  it('should guard against reference cycles', () => {
+    container.innerHTML = `
+      <div id="a" role="button" aria-labelledby="b">Alpha</div>
+      <div id="b" role="button" aria-labelledby="a">Beta</div>
+      <div id="self" role="button" aria-labelledby="self other">Self</div>
+      <span id="other">Reference</span>
+    `;
+
+    expect(computeAccessibleName(byId('a'))).toBe('Beta');
+    expect(computeAccessibleName(byId('self'))).toBe('Self Reference');
+  });
+
+  it('should compute descriptions from references and title', () => {
+    container.innerHTML = `
+      <input id="password" type="password" aria-label="Password" aria-describedby="hint rules" />
+      <span id="hint">At least 8 characters.</span>
+      <span id="rules" hidden>Use a number.</span>
+      <button id="titled" title="Opens in a new window">Docs</button>
+    `;
+
+    expect(computeAccessibleDescription(byId('password'))).toBe('At least 8 characters. Use a number.');
+    expect(computeAccessibleDescription(byId('titled'))).toBe('Opens in a new window');
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  buildAccessibilityTree,
+  formatAccessibilityTree,
+  getNodeElement,
+  walkAccessibilityTree
+} from '../../src/aria';
+import type { AccessibilityNode } from '../../src/aria';
+
+describe('buildAccessibilityTree', () => {
+  let container: HTMLDivElement;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    document.body.appendChild(container);
+  });
+
+  afterEach(() => {
+    document.body.removeChild(container);
+  });
+
+  const roles = (node: AccessibilityNode) => node.children.map(child => child.role);
+
+  it('should compute roles, names, levels and states', () => {
+    container.innerHTML = `
+      <nav aria-label="Primary">
+        <ul>
+          <li><a href="/" aria-current="page">Home</a></li>
+          <li><a href="/docs">Docs</a></li>
+        </ul>
+      </nav>
+      <main>
+        <h1>Settings</h1>
+        <label><input type="checkbox" checked /> Notifications</label>
+        <button aria-expanded="false" aria-controls="panel">More</button>
+        <div id="panel" hidden>Hidden panel</div>
+      </main>
+    `;
+
+    expect(formatAccessibilityTree(buildAccessibilityTree(container))).toBe([
+      '- generic',
+      '  - navigation "Primary"',
+      '    - list',
+      '      - listitem',
+      '        - link "Home" [current=page]',
+      '      - listitem',
+      '        - link "Docs"',
+      '  - main',
+      '    - heading "Settings" [level=1]',
+      '    - checkbox "Notifications" [checked]',
+      '    - button "More"'
+    ].join('\n'));
+  });
+
+  it('should be serializable and keep relationships as selectors', () => {
+    container.innerHTML = `
+      <button aria-controls="menu" aria-haspopup="menu" aria-expanded="true">Options</button>
+      <ul id="menu" role="menu"><li role="menuitem">Copy</li></ul>
+    `;
+
+    const tree = JSON.parse(JSON.stringify(buildAccessibilityTree(container)));
+    const [button, menu] = tree.children;
+
+    expect(button.states).toMatchObject({ expanded: true, haspopup: 'menu', focusable: true });
+    expect(button.relationships.controls).toEqual(['#menu']);
+    expect(menu.children[0]).toMatchObject({ role: 'menuitem', name: 'Copy' });
+  });
+
+  it('should keep generic nodes when pruning is disabled', () => {
+    container.innerHTML = '<div><span>Text</span><button>Go</button></div>';
+
+    const pruned = buildAccessibilityTree(container);
+    const full = buildAccessibilityTree(container, { pruneGeneric: false, includeText: true });
+
+    expect(roles(pruned)).toEqual(['button']);
+    expect(roles(full)).toEqual(['generic']);
+    expect(roles(full.children[0])).toEqual(['generic', 'button']);
+    expect(full.children[0].children[0].children[0]).toMatchObject({ role: 'text', name: 'Text' });
+  });
+
+  it('should re-parent aria-owns targets and report values', () => {
+    container.innerHTML = `
+      <div role="listbox" aria-label="Fruit" aria-owns="late"><div role="option">Apple</div></div>
+      <div id="late" role="option" aria-selected="true">Pear</div>
+      <div role="slider" aria-label="Volume" aria-valuenow="40" aria-valuetext="40 percent"></div>
+    `;
+
+    const tree = buildAccessibilityTree(container);
+    const [listbox, slider] = tree.children;
+
+    expect(tree.children).toHaveLength(2);
+    expect(listbox.children.map(option => option.name)).toEqual(['Apple', 'Pear']);
+    expect(listbox.children[1].states.selected).toBe(true);
+    expect(slider.value).toBe('40 percent');
+  });
+
+  it('should map nodes back to their elements', () => {
+    container.innerHTML = '<button id="save">Save</button>';
+
+    const elements: Element[] = [];
+    walkAccessibilityTree(buildAccessibilityTree(container), node => {
+      const element = getNodeElement(node);
+      if (element) elements.push(element);
+    });
+
+    expect(elements).toContain(container.querySelector('#save'));
+  });
+});
@@ -0,0 +1,223 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { parseCliArgs } from '../../src/cli/args';
+import { resolvePages, toRoute } from '../../src/cli/pages';
+import { globToRegExp } from '../../src/utils/glob';
+import { inlineStylesheets, withDomGlobals } from '../../src/cli/dom';
+import { auditDocument, selectRules } from '../../src/cli/audit';
+import { auditPages, getThresholdFailures, run } from '../../src/cli/index';
+import type { AccessibilityTestResult } from '../../src/reporting/types';
+
+describe('parseCliArgs', () => {
+  it('should collect flags as config overrides', () => {
+    const options = parseCliArgs(['build', '--theme', 'light,dark', '--format', 'json', '--format', 'markdown', '--level', 'AAA']);
+
+    expect(options.inputs).toEqual(['build']);
+    expect(options.overrides).toMatchObject({
+      level: 'AAA',
+      wcag: undefined,
+      themes: ['light', 'dark'],
+      reporting: { formats: ['json', 'markdown'], failOn: undefined, maxViolations: undefined }
+    });
+  });
+
+  it('should reject invalid values', () => {
+    expect(() => parseCliArgs(['a.html', '--level', 'AAAA'])).toThrow(/--level must be one of/);
+    expect(() => parseCliArgs(['a.html', '--max-violations=-1'])).toThrow(/non-negative/);
+    expect(() => parseCliArgs([])).toThrow(/No input pages/);
+  });
+});
+
+describe('pages', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'a11y-cli-'));
+    mkdirSync(join(dir, 'build/about'), { recursive: true });
+    mkdirSync(join(dir, 'build/_app'), { recursive: true });
+    writeFileSync(join(dir, 'build/index.html'), '<html></html>');
+    writeFileSync(join(dir, 'build/about/index.html'), '<html></html>');
+    writeFileSync(join(dir, 'build/contact.html'), '<html></html>');
+    writeFileSync(join(dir, 'build/_app/app.css'), 'body { color: #333; }');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should map build output to routes', () => {
+    expect(toRoute('index.html')).toBe('/');
+    expect(toRoute('about/index.html')).toBe('/about');
+    expect(toRoute('contact.html')).toBe('/contact');
+  });
+
+  it('should collect pages from directories and globs', () => {
+    expect(resolvePages(['build'], dir).map(page => page.route)).toEqual(['/', '/about', '/contact']);
+    expect(resolvePages(['build/**/index.html'], dir).map(page => page.route)).toEqual(['/', '/about']);
+    expect(resolvePages(['build/**'], dir).map(page => page.route)).toEqual(['/', '/about', '/contact']);
+    expect(() => resolvePages(['missing.html'], dir)).toThrow(/No such file/);
+  });
+
+  it('should translate globs', () => {
+    expect(globToRegExp('**/*.html').test('blog/post/index.html')).toBe(true);
+    expect(globToRegExp('*.{html,htm}').test('a.htm')).toBe(true);
+    expect(globToRegExp('*.html').test('blog/a.html')).toBe(false);
+  });
+
+  it('should inline local stylesheets', () => {
+    const [page] = resolvePages(['build/contact.html'], dir);
+    const html = inlineStylesheets(
+      '<link rel="stylesheet" href="/_app/app.css"><link rel="stylesheet" href="https://cdn.example/x.css">',
+      { ...page, root: join(dir, 'build') }
+    );
+
+    expect(html).toContain('<style data-href="/_app/app.css">body { color: #333; }</style>');
+    expect(html).toContain('https://cdn.example/x.css');
+  });
+});
+
+describe('auditDocument', () => {
+  beforeEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('should report rule findings in the axe result shape', async () => {
+    document.body.innerHTML = '<img id="logo" src="/logo.png"><button id="ok">Save</button>';
+    const { axeResults } = await auditDocument(document, selectRules({ rules: ['wcag-aa-img-alt', 'wcag-aa-button-name'] }));
+
+    expect(axeResults.violations).toEqual([
+      expect.objectContaining({
+        id: 'wcag-aa-img-alt',
+        impact: 'serious',
+        tags: expect.arrayContaining(['wcag111', 'wcag2a']),
+        helpUrl: 'https://www.w3.org/WAI/WCAG22/Understanding/non-text-content',
+        nodes: [expect.objectContaining({ target: ['#logo'], failureSummary: 'Image missing alt attribute' })]
+      })
+    ]);
+    expect(axeResults.passes.map(result => result.id)).toEqual(['wcag-aa-button-name']);
+  });
+
+  it('should attach proposed fixes to failing nodes', async () => {
+    document.body.innerHTML = '<img id="logo" src="/logo.png" title="Tinyland">';
+    const { axeResults } = await auditDocument(document, selectRules({ rules: ['wcag-aa-img-alt'] }));
+
+    expect(axeResults.violations[0].nodes[0]).toMatchObject({
+      fixes: [expect.objectContaining({
+        id: 'alt-from-title',
+        patches: [{ type: 'attribute', selector: '#logo', name: 'alt', value: 'Tinyland' }]
+      })]
+    });
+  });
+
+  it('should select rules by plugin and level', () => {
+    const ids = selectRules({ plugins: ['color-contrast'], level: 'AA' }).map(rule => rule.id);
+    expect(ids).toEqual(['color-contrast-text']);
+    expect(selectRules({ plugins: ['color-contrast'], level: 'AAA' }).map(rule => rule.id)).toContain('color-contrast-enhanced');
+    expect(() => selectRules({ plugins: ['nope'] })).toThrow(/Unknown plugin/);
+  });
+});
+
+describe('withDomGlobals', () => {
+  it('should restore globals after the callback', async () => {
+    const original = globalThis.document;
+    const fake = { document: { title: 'fake' } } as unknown as Window;
+
+    const seen = await withDomGlobals(fake, async () => globalThis.document);
+
+    expect(seen).toBe(fake.document);
+    expect(globalThis.document).toBe(original);
+  });
+});
+
+describe('auditPages', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'a11y-cli-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should run interactive widget rules against pages loaded with jsdom', async () => {
+    writeFileSync(join(dir, 'index.html'), `
+      <html><body>
+        <button id="menu-toggle" aria-expanded="false" aria-controls="menu">Menu</button>
+        <ul id="menu" hidden><li>Home</li></ul>
+      </body></html>
+    `);
+    const originalDocument = globalThis.document;
+
+    const [result] = await auditPages(resolvePages(['index.html'], dir), { plugins: ['widget-disclosure'] }, {}, {
+      stdout: () => {},
+      stderr: () => {}
+    });
+
+    expect(result.axeResults.incomplete).toEqual([]);
+    expect(result.axeResults.passes.map(rule => rule.id)).toEqual(['disclosure-controls']);
+    expect(result.axeResults.violations).toEqual([
+      expect.objectContaining({
+        id: 'disclosure-toggle',
+        nodes: [expect.objectContaining({ target: ['#menu-toggle'] })]
+      })
+    ]);
+    expect(globalThis.document).toBe(originalDocument);
+  });
+
+  it('should not print jsdom errors for missing pseudo-element styles', async () => {
+    writeFileSync(join(dir, 'index.html'), '<html><body><button id="save">Save</button></body></html>');
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    try {
+      const [result] = await auditPages(resolvePages(['index.html'], dir), { rules: ['wcag-aa-button-name'] }, {}, {
+        stdout: () => {},
+        stderr: () => {}
+      });
+
+      expect(result.axeResults.passes.map(rule => rule.id)).toEqual(['wcag-aa-button-name']);
+      expect(error).not.toHaveBeenCalled();
+    } finally {
+      error.mockRestore();
+    }
+  });
+});
+
+describe('thresholds', () => {
+  const result = (impact: string): AccessibilityTestResult => ({
+    theme: 'stonewall',
+    route: '/',
+    timestamp: new Date(0),
+    duration: 0,
+    contrastResults: [],
+    axeResults: {
+      violations: [{ id: `rule-${impact}`, impact, nodes: [{ target: ['#a'], html: '<div id="a">' }] }]
+    } as any
+  });
+
+  it('should only count violations at or above the impact threshold', () => {
+    const results = [result('moderate'), result('critical')];
+    expect(getThresholdFailures(results, { failOn: 'serious', maxViolations: 0 }).map(issue => issue.ruleId)).toEqual(['rule-critical']);
+    expect(getThresholdFailures(results, { failOn: 'minor', maxViolations: 0 })).toHaveLength(2);
+  });
+});
+
+describe('run', () => {
+  it('should print usage and exit 2 on bad arguments', async () => {
+    const stderr: string[] = [];
+    const code = await run(['--level', 'B', 'a.html'], { stdout: () => {}, stderr: line => stderr.push(line) });
+
+    expect(code).toBe(2);
+    expect(stderr.join('\n')).toContain('Usage: a11y-engine');
+  });
+
+  it('should require a baseline when updating it', async () => {
+    const stderr: string[] = [];
+    const code = await run(['a.html', '--update-baseline'], { stdout: () => {}, stderr: line => stderr.push(line) });
+
+    expect(code).toBe(2);
+    expect(stderr.join('\n')).toContain('--update-baseline requires --baseline');
+  });
+});
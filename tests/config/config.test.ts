@@ -0,0 +1,180 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { validateConfig } from '../../src/config/schema';
+import {
+  DEFAULT_CONFIG,
+  defineConfig,
+  matchesRoute,
+  resolveConfig,
+  toEngineConfig,
+  toEvaluationConfig,
+  toMonitorOptions,
+  toPreprocessorOptions
+} from '../../src/config/resolve';
+import { findConfigFile, loadConfig } from '../../src/config/load';
+import { selectRules } from '../../src/cli/audit';
+import { EvaluationEngine } from '../../src/engine/index';
+
+describe('validateConfig', () => {
+  it('should accept a full config', () => {
+    expect(validateConfig(defineConfig({
+      level: 'AAA',
+      plugins: ['wcag-aa', { id: 'custom', rules: [] }],
+      sampling: { strategy: 'adaptive', interval: 1000 },
+      reporting: { formats: ['html', 'json'], failOn: 'critical' },
+      routes: [{ match: ['/admin/**', '/settings'], disabledRules: ['wcag-22-target-size'] }],
+      env: { production: { streaming: { enabled: true, endpoint: 'wss://example.test' } } }
+    }))).toEqual([]);
+  });
+
+  it('should report every issue with its path', () => {
+    expect(validateConfig({
+      level: 'B',
+      sampling: { interval: -5, sampleSize: 1.5 },
+      reporting: { formats: ['pdf'] },
+      routes: [{ level: 'AA' }, { match: 4 }],
+      env: { 'ci-nightly': { privacy: { redactText: 'yes' } } },
+      colour: 'blue'
+    })).toEqual([
+      { path: 'level', message: 'must be one of A, AA, AAA, got "B"' },
+      { path: 'sampling.interval', message: 'must be at least 0, got -5' },
+      { path: 'sampling.sampleSize', message: 'must be an integer, got 1.5' },
+      { path: 'reporting.formats[0]', message: 'must be one of html, json, markdown, sarif, junit, got "pdf"' },
+      { path: 'routes[0].match', message: 'is required' },
+      { path: 'routes[1].match', message: 'expected a route glob or an array of route globs, got 4' },
+      { path: 'env["ci-nightly"].privacy.redactText', message: 'expected a boolean, got "yes"' },
+      { path: 'colour', message: 'unknown option "colour"' }
+    ]);
+    expect(validateConfig([])).toEqual([{ path: '', message: 'expected an object, got an array' }]);
+  });
+});
+
+describe('resolveConfig', () => {
+  const config = defineConfig({
+    level: 'AA',
+    reporting: { formats: ['html'] },
+    routes: [
+      { match: '/admin/**', level: 'A', disabledRules: ['color-contrast-text'] },
+      { match: '/admin/reports', reporting: { failOn: 'critical' } }
+    ],
+    env: {
+      production: { enabled: false, streaming: { enabled: true, endpoint: 'https://a11y.example.test' } }
+    }
+  });
+
+  it('should fill in defaults', () => {
+    expect(resolveConfig({}, { env: 'none' })).toEqual(DEFAULT_CONFIG);
+  });
+
+  it('should layer environment, overrides and matching routes', () => {
+    const resolved = resolveConfig(config, {
+      env: 'production',
+      route: '/admin/reports',
+      overrides: { level: 'AAA', reporting: { maxViolations: 3 } }
+    });
+
+    expect(resolved.enabled).toBe(false);
+    expect(resolved.streaming).toMatchObject({ enabled: true, endpoint: 'https://a11y.example.test', batchSize: 50 });
+    expect(resolved.level).toBe('A');
+    expect(resolved.disabledRules).toEqual(['color-contrast-text']);
+    expect(resolved.reporting).toEqual({ outputDir: 'a11y-reports', formats: ['html'], failOn: 'critical', maxViolations: 3 });
+  });
+
+  it('should leave unmatched routes alone', () => {
+    const resolved = resolveConfig(config, { env: 'development', route: '/blog' });
+
+    expect(resolved.enabled).toBe(true);
+    expect(resolved.level).toBe('AA');
+    expect(resolved.disabledRules).toEqual([]);
+  });
+
+  it('should throw on invalid input', () => {
+    expect(() => resolveConfig({ level: 'B' } as any)).toThrow(/Invalid a11y config:\n  level: must be one of/);
+  });
+
+  it('should match route globs including the base route', () => {
+    expect(matchesRoute('/admin/**', '/admin')).toBe(true);
+    expect(matchesRoute('/admin/**', '/admin/users/1?tab=roles')).toBe(true);
+    expect(matchesRoute('/admin/*', '/admin/users/1')).toBe(false);
+    expect(matchesRoute(['/', '/about/'], '/about/')).toBe(true);
+  });
+});
+
+describe('config adapters', () => {
+  const resolved = resolveConfig({
+    level: 'AAA',
+    plugins: ['color-contrast'],
+    sampling: { strategy: 'viewport', interval: 2000 },
+    streaming: { enabled: true, endpoint: 'wss://a11y.example.test', deltas: true },
+    contrast: { model: 'apca' },
+    preprocessor: { cssPath: 'src/theme.css' }
+  }, { env: 'none' });
+
+  it('should feed the engine and orchestrator from one config', () => {
+    const engine = toEngineConfig(resolved);
+    expect(engine).toMatchObject({
+      endpoint: 'wss://a11y.example.test',
+      evaluation: { wcag: '2.2', level: 'AAA' },
+      sampling: { strategy: 'fixed', interval: 2000 },
+      performance: { useWorkers: false, batchSize: 50, streamDeltas: true }
+    });
+    expect(engine.evaluation.plugins?.map(plugin => plugin.id)).toEqual(['color-contrast']);
+
+    const selected = toEngineConfig({ ...resolved, disabledRules: ['color-contrast-enhanced'] });
+    expect(selected.evaluation.disabledRules).toEqual(['color-contrast-enhanced']);
+    expect(new EvaluationEngine(selected).getRegistry().getActiveRules().map(rule => rule.id)).toEqual(['color-contrast-text']);
+
+    expect(toEvaluationConfig(resolved)).toMatchObject({
+      enabled: true,
+      samplingStrategy: { type: 'viewport', interval: 2000, sampleSize: 100 },
+      streamingEnabled: true,
+      streamingEndpoint: 'wss://a11y.example.test',
+      streamDeltas: true
+    });
+  });
+
+  it('should feed the monitor, preprocessor and CLI rule selection', () => {
+    expect(toMonitorOptions(resolved)).toEqual({ wcagLevel: 'AAA', autoFix: false, throttleMs: 100, contrastModel: 'apca' });
+    expect(toPreprocessorOptions(resolved)).toEqual({ enabled: true, cssPath: 'src/theme.css', level: 'AAA' });
+    expect(selectRules(resolved).map(rule => rule.id)).toContain('color-contrast-enhanced');
+    expect(selectRules({ ...resolved, disabledRules: ['color-contrast-enhanced'] }).map(rule => rule.id))
+      .not.toContain('color-contrast-enhanced');
+  });
+});
+
+describe('loadConfig', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'a11y-config-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should return an empty config when no file exists', async () => {
+    expect(findConfigFile(dir)).toBeUndefined();
+    expect(await loadConfig({ cwd: dir })).toEqual({ config: {} });
+  });
+
+  it('should find and load JSON and module configs', async () => {
+    writeFileSync(join(dir, 'a11y.config.json'), JSON.stringify({ level: 'AAA' }));
+    expect(await loadConfig({ cwd: dir })).toEqual({ path: join(dir, 'a11y.config.json'), config: { level: 'AAA' } });
+
+    writeFileSync(join(dir, 'a11y.config.mjs'), 'export default { themes: ["light", "dark"] };');
+    expect(findConfigFile(dir)).toBe(join(dir, 'a11y.config.mjs'));
+    expect((await loadConfig({ cwd: dir })).config).toEqual({ themes: ['light', 'dark'] });
+  });
+
+  it('should name the file in validation and parse errors', async () => {
+    writeFileSync(join(dir, 'broken.json'), '{ "level": ');
+    writeFileSync(join(dir, 'invalid.json'), JSON.stringify({ routes: [{ match: '/', level: 'X' }] }));
+
+    await expect(loadConfig({ cwd: dir, path: 'broken.json' })).rejects.toThrow(/Failed to parse .*broken\.json/);
+    await expect(loadConfig({ cwd: dir, path: 'invalid.json' })).rejects.toThrow(/invalid\.json:\n  routes\[0\]\.level: must be one of/);
+    await expect(loadConfig({ cwd: dir, path: 'missing.json' })).rejects.toThrow(/Config file not found/);
+  });
+});
@@ -559,5 +559,69 @@ describe('ContrastAnalyzer', () => {
       
       expect(result).toBeDefined();
     });
+
+    it('should report text over a background image as needing review', () => {
+      const element = document.createElement('div');
+      element.style.color = 'white';
+      element.style.backgroundImage = 'url(hero.jpg)';
+      element.textContent = 'Hero text';
+      testContainer.appendChild(element);
+
+      const result = analyzer.analyzeElement(element);
+
+      expect(result).toMatchObject({ outcome: 'incomplete', severity: 'warning' });
+      expect(result?.metadata.needsReview).toBe(true);
+    });
+
+    it('should mark decided results as passed or failed', () => {
+      const element = document.createElement('p');
+      element.style.color = 'rgb(0, 0, 0)';
+      element.style.backgroundColor = 'rgb(255, 255, 255)';
+      element.textContent = 'Plain text';
+      testContainer.appendChild(element);
+
+      expect(analyzer.analyzeElement(element)?.outcome).toBe('passed');
+    });
+  });
+
+  describe('Contrast models', () => {
+    function darkThemeText(): HTMLElement {
+      const element = document.createElement('p');
+      element.style.color = 'rgb(118, 118, 118)';
+      element.style.backgroundColor = 'rgb(0, 0, 0)';
+      element.style.fontSize = '16px';
+      element.textContent = 'Muted dark theme text';
+      testContainer.appendChild(element);
+      return element;
+    }
+
+    it('should report the APCA Lc alongside the WCAG 2 ratio', () => {
+      const result = analyzer.analyzeElement(darkThemeText());
+
+      expect(result?.severity).toBe('info');
+      expect(result?.metadata.contrastModel).toBe('wcag2');
+      expect(result?.metadata.apca).toBeCloseTo(-30.1, 0);
+    });
+
+    it('should fail text that only passes WCAG 2 under the APCA model', () => {
+      analyzer.destroy();
+      analyzer = new ContrastAnalyzer({ contrastModel: 'apca' });
+
+      const result = analyzer.analyzeElement(darkThemeText());
+
+      expect(result?.severity).toBe('error');
+      expect(result?.message).toContain('APCA Lc 30.');
+      expect(result?.metadata.requiredLc).toBe(90);
+    });
+
+    it('should describe disagreements when running both models', () => {
+      analyzer.destroy();
+      analyzer = new ContrastAnalyzer({ contrastModel: 'both' });
+
+      const result = analyzer.analyzeElement(darkThemeText());
+
+      expect(result?.severity).toBe('error');
+      expect(result?.metadata.modelDisagreement).toMatch(/^WCAG 2 4\.\d+:1 passes but APCA Lc 30\.\d fails/);
+    });
   });
 });
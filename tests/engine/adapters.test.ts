@@ -0,0 +1,203 @@
+import { describe, it, expect, afterEach, beforeEach } from 'vitest';
+import { EvaluationEngine } from '../../src/engine/index';
+import { EvaluationEngine as CoreEvaluationEngine } from '../../src/core/EvaluationEngine';
+import { adaptRule, normalizeRuleOutcome, toImpact } from '../../src/engine/rules/adapters';
+import AriaValidatorPlugin from '../../src/plugins/aria-validator';
+import WcagAAPlugin from '../../src/plugins/wcag-aa';
+import ColorContrastPlugin from '../../src/plugins/color-contrast';
+import type { AccessibilityConfig, CustomRule, EvaluationPlugin, EvaluationRule } from '../../src/types';
+
+function createConfig(overrides: Partial<AccessibilityConfig['evaluation']> = {}): AccessibilityConfig {
+  return {
+    endpoint: 'ws://localhost',
+    evaluation: { wcag: '2.2', level: 'AA', ...overrides },
+    sampling: { strategy: 'fixed', interval: 1000 },
+    performance: { useWorkers: false },
+    privacy: { redactText: false }
+  };
+}
+
+describe('rule adapters', () => {
+  it('should map rule severities to impacts', () => {
+    expect(toImpact('error')).toBe('serious');
+    expect(toImpact('warning')).toBe('moderate');
+    expect(toImpact('info')).toBe('minor');
+    expect(toImpact('critical')).toBe('critical');
+    expect(toImpact(undefined)).toBe('moderate');
+  });
+
+  it('should normalize every rule outcome shape', () => {
+    expect(normalizeRuleOutcome(null)).toEqual({ passed: true });
+    expect(normalizeRuleOutcome({ passed: false, violation: { message: 'x' } }))
+      .toEqual({ passed: false, violation: { message: 'x' } });
+
+    const outcome = normalizeRuleOutcome({ severity: 'warning', message: 'Bad', wcagCriteria: '1.1.1' });
+    expect(outcome.passed).toBe(false);
+    expect(outcome.violation).toMatchObject({ severity: 'warning', message: 'Bad', wcagCriteria: ['1.1.1'] });
+  });
+
+  it('should mark undecided results as incomplete', () => {
+    expect(normalizeRuleOutcome({ severity: 'warning', message: 'Check', details: { needsReview: true } }).outcome)
+      .toBe('incomplete');
+    expect(normalizeRuleOutcome({ severity: 'warning', message: 'Check', outcome: 'incomplete' }).outcome)
+      .toBe('incomplete');
+    expect(normalizeRuleOutcome({ severity: 'error', message: 'Bad' }).outcome).toBeUndefined();
+  });
+
+  it('should apply selector and condition before evaluating', async () => {
+    let calls = 0;
+    const rule: EvaluationRule = {
+      id: 'buttons-only',
+      severity: 'error',
+      selector: 'button',
+      condition: el => !el.hasAttribute('disabled'),
+      evaluate: async () => {
+        calls++;
+        return { severity: 'error', message: 'Button flagged' };
+      }
+    };
+    const adapted = adaptRule(rule);
+
+    expect(await adapted.evaluate(document.createElement('div'), {})).toEqual({ passed: true, outcome: 'inapplicable' });
+
+    const disabled = document.createElement('button');
+    disabled.setAttribute('disabled', '');
+    expect(await adapted.evaluate(disabled, {})).toEqual({ passed: true, outcome: 'inapplicable' });
+
+    const result = await adapted.evaluate(document.createElement('button'), {});
+    expect(result.passed).toBe(false);
+    expect(calls).toBe(1);
+    expect(adaptRule(adapted)).toBe(adapted);
+  });
+});
+
+describe('EvaluationEngine plugins', () => {
+  let engine: EvaluationEngine;
+
+  beforeEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  afterEach(async () => {
+    await engine.destroy();
+  });
+
+  it('should run bundled plugin rules alongside custom rules', async () => {
+    const custom: CustomRule = {
+      id: 'no-autoplay',
+      severity: 'serious',
+      wcagCriteria: ['1.4.2'],
+      evaluate: async element => element.hasAttribute('autoplay')
+        ? { passed: false, violation: { message: 'Media autoplays' } }
+        : { passed: true }
+    };
+
+    engine = new EvaluationEngine(createConfig({
+      customRules: [custom],
+      plugins: [AriaValidatorPlugin, WcagAAPlugin]
+    }));
+
+    document.body.innerHTML = `
+      <img src="a.png">
+      <img src="b.png" alt="">
+      <div role="bogus"></div>
+      <video autoplay></video>
+    `;
+
+    const result = await engine.evaluate(Array.from(document.body.children));
+    const byRule = Object.fromEntries(result.issues.map(issue => [issue.rule, issue]));
+
+    expect(byRule['wcag-aa-img-alt']).toMatchObject({ wcagCriteria: '1.1.1', wcagLevel: 'A' });
+    expect(byRule['aria-valid-roles']).toMatchObject({ type: 'aria', message: 'Invalid ARIA role: bogus' });
+    expect(byRule['no-autoplay']).toMatchObject({ severity: 'error', message: 'Media autoplays' });
+    expect(result.issues.filter(issue => issue.rule === 'wcag-aa-img-alt').map(issue => issue.severity))
+      .toEqual(['error', 'warning']);
+    expect(result.metrics.elementsEvaluated).toBe(4);
+  });
+
+  it('should initialize and tear down plugins', async () => {
+    const lifecycle: string[] = [];
+    const plugin: EvaluationPlugin = {
+      id: 'lifecycle',
+      rules: [{ id: 'lifecycle-rule', evaluate: async () => null }],
+      initialize: () => lifecycle.push('init'),
+      destroy: () => lifecycle.push('destroy')
+    };
+
+    engine = new EvaluationEngine(createConfig());
+    engine.registerPlugin(plugin);
+    expect(engine.getRegistry().getRule('lifecycle-rule')).toBeDefined();
+
+    engine.unregisterPlugin('lifecycle');
+    expect(engine.getRegistry().getRule('lifecycle-rule')).toBeUndefined();
+    expect(lifecycle).toEqual(['init', 'destroy']);
+  });
+
+  it('should honor the rule filter and sampling options', async () => {
+    engine = new EvaluationEngine(createConfig({ plugins: [AriaValidatorPlugin, WcagAAPlugin] }));
+    document.body.innerHTML = '<img src="a.png"><div role="bogus"></div><p>one</p><p>two</p>';
+
+    const filtered = await engine.evaluate(Array.from(document.body.children), {
+      ruleFilter: ['aria-valid-roles']
+    });
+    expect(filtered.metadata.rulesApplied).toBe(1);
+    expect(filtered.issues.map(issue => issue.rule)).toEqual(['aria-valid-roles']);
+
+    const sampled = await engine.evaluate(Array.from(document.body.children), {
+      sampling: { type: 'priority', rate: 0.5 }
+    });
+    expect(sampled.metadata.elementsTotal).toBe(4);
+    expect(sampled.metadata.elementsEvaluated).toBe(2);
+  });
+
+  it('should stop between chunks when cancelled', async () => {
+    let evaluated = 0;
+    engine = new EvaluationEngine(createConfig());
+    engine.registerRule({
+      id: 'count',
+      evaluate: async () => {
+        if (++evaluated === 2) engine.cancelAll();
+        return null;
+      }
+    });
+
+    const elements = Array.from({ length: 10 }, () => document.createElement('span'));
+    const result = await engine.evaluate(elements, { chunkSize: 2 });
+
+    expect(evaluated).toBe(2);
+    expect(result.metadata.elementsEvaluated).toBe(2);
+  });
+});
+
+describe('core EvaluationEngine compatibility', () => {
+  it('should return EvaluationResult objects from the unified engine', async () => {
+    const engine = new CoreEvaluationEngine({ chunkSize: 1 });
+    engine.registerPlugin(WcagAAPlugin);
+
+    document.body.innerHTML = '<img id="hero" src="hero.png">';
+    const results = await engine.evaluate(Array.from(document.body.children));
+
+    expect(results).toHaveLength(1);
+    expect(results[0]).toMatchObject({
+      ruleId: 'wcag-aa-img-alt',
+      severity: 'error',
+      selector: '#hero',
+      message: 'Image missing alt attribute'
+    });
+    expect(results[0]).not.toHaveProperty('rule');
+
+    await engine.getEngine().destroy();
+  });
+
+  it('should default to level AA and skip AAA-only rules', async () => {
+    const engine = new CoreEvaluationEngine();
+    engine.registerPlugin(ColorContrastPlugin);
+
+    document.body.innerHTML = '<p id="faint" style="color: #777777; background-color: #888888">Faint text</p>';
+    const results = await engine.evaluate(Array.from(document.body.children));
+
+    expect(results.map(result => result.ruleId)).toEqual(['color-contrast-text']);
+
+    await engine.getEngine().destroy();
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { applyFix, findContrastFix, proposeContrastFixes, proposeFixes } from '../../src/engine/fixes';
+import { getContrastRatio } from '../../src/utils/color/contrast';
+import { rgbToOklch } from '../../src/utils/color/conversion';
+
+function render(html: string): Element {
+  document.body.innerHTML = html;
+  return document.getElementById('target')!;
+}
+
+describe('findContrastFix', () => {
+  it('should find the nearest passing lightness and keep the hue', () => {
+    const blue = { r: 90, g: 140, b: 230 };
+    const white = { r: 255, g: 255, b: 255 };
+    const fix = findContrastFix(blue, white, 4.5)!;
+
+    expect(getContrastRatio(fix.color, white)).toBeGreaterThanOrEqual(4.5);
+    expect(fix.ratio).toBeLessThan(4.7);
+    expect(fix.oklch.l).toBeLessThan(rgbToOklch(blue).l);
+    expect(Math.abs(rgbToOklch(fix.color).h - rgbToOklch(blue).h)).toBeLessThan(5);
+  });
+
+  it('should return null when no lightness reaches the ratio', () => {
+    const grey = { r: 119, g: 119, b: 119 };
+    expect(findContrastFix(grey, grey, 21)).toBeNull();
+  });
+});
+
+describe('proposeContrastFixes', () => {
+  it('should propose foreground and background style patches', () => {
+    const fixes = proposeContrastFixes('#hero', { foreground: '#999999', background: '#ffffff', requiredRatio: 4.5 });
+
+    expect(fixes.map(fix => fix.id)).toEqual(['contrast-foreground', 'contrast-background']);
+    expect(fixes[0]).toMatchObject({
+      confidence: 0.8,
+      patches: [{ type: 'style', selector: '#hero', property: 'color' }],
+      details: { previous: '#999999', requiredRatio: 4.5 }
+    });
+    expect(fixes[0].details!.oklch).toMatch(/^oklch\(/);
+    expect(getContrastRatio(fixes[0].patches[0].value, '#ffffff')).toBeGreaterThanOrEqual(4.5);
+  });
+});
+
+describe('proposeFixes', () => {
+  beforeEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('should use contrast details from the violation', () => {
+    const el = render('<p id="target">Text</p>');
+    const [fix] = proposeFixes(el, {
+      wcagCriteria: ['1.4.3'],
+      details: { foreground: '#aaaaaa', background: '#ffffff', requiredRatio: 4.5 }
+    });
+
+    expect(fix.patches[0]).toMatchObject({ selector: '#target', property: 'color' });
+  });
+
+  it('should propose alt text for images', () => {
+    const titled = render('<img id="target" src="/hero.png" title="Team photo">');
+    expect(proposeFixes(titled, { wcagCriteria: ['1.1.1'] })[0]).toMatchObject({
+      id: 'alt-from-title',
+      patches: [{ type: 'attribute', name: 'alt', value: 'Team photo' }]
+    });
+
+    const inLink = render('<a href="/"><img id="target" src="/logo.svg"> Home</a>');
+    expect(proposeFixes(inLink, { wcagCriteria: ['1.1.1'] })[0]).toMatchObject({ id: 'alt-decorative', patches: [{ value: '' }] });
+
+    const bare = render('<img id="target" src="/images/sales-chart@2x.png">');
+    expect(proposeFixes(bare, { wcagCriteria: ['1.1.1'] })[0]).toMatchObject({ confidence: 0.3, patches: [{ value: 'Sales chart' }] });
+  });
+
+  it('should propose labels for unnamed controls', () => {
+    const el = render('<label>Email</label><input id="target" type="email">');
+    expect(proposeFixes(el, { wcagCriteria: ['1.3.1', '3.3.2'] })[0].patches).toEqual([
+      { type: 'attribute', selector: 'label', name: 'for', value: 'target' }
+    ]);
+
+    const named = render('<input id="target" name="shippingAddress">');
+    expect(proposeFixes(named, { wcagCriteria: ['3.3.2'] })[0]).toMatchObject({
+      confidence: 0.4,
+      patches: [{ name: 'aria-label', value: 'Shipping address' }]
+    });
+  });
+
+  it('should not propose names for roles that cannot be named by authors', () => {
+    const generic = render('<div id="target" name="shippingAddress"></div>');
+    expect(proposeFixes(generic, { wcagCriteria: ['4.1.2'] })).toEqual([]);
+
+    const span = render('<span id="target" name="totalPrice"></span>');
+    expect(proposeFixes(span, { wcagCriteria: ['4.1.2'] })).toEqual([]);
+
+    const region = render('<div id="target" name="shippingAddress" role="region"></div>');
+    expect(proposeFixes(region, { wcagCriteria: ['4.1.2'] })[0].patches).toEqual([
+      { type: 'attribute', selector: '#target', name: 'aria-label', value: 'Shipping address' }
+    ]);
+  });
+
+  it('should correct invalid ARIA roles, attribute names and values', () => {
+    const el = render('<div id="target" role="buton" aria-labeledby="x" aria-expanded="yes" aria-live="Polite">Go</div>');
+    const fixes = proposeFixes(el, { wcagCriteria: ['4.1.2'] });
+
+    expect(fixes).toEqual(expect.arrayContaining([
+      expect.objectContaining({ id: 'role-typo', patches: [expect.objectContaining({ name: 'role', value: 'button' })] }),
+      expect.objectContaining({
+        id: 'aria-attribute-typo',
+        patches: [
+          expect.objectContaining({ name: 'aria-labeledby', value: null }),
+          expect.objectContaining({ name: 'aria-labelledby', value: 'x' })
+        ]
+      }),
+      expect.objectContaining({ patches: [expect.objectContaining({ name: 'aria-expanded', value: 'true' })] }),
+      expect.objectContaining({ patches: [expect.objectContaining({ name: 'aria-live', value: 'polite' })] })
+    ]));
+    expect(fixes.map(fix => fix.confidence)).toEqual([...fixes.map(fix => fix.confidence)].sort((a, b) => b - a));
+  });
+
+  it('should only propose fixes for the violated criteria', () => {
+    const el = render('<img id="target" role="buton" src="/a.png">');
+    expect(proposeFixes(el, { wcagCriteria: ['4.1.2'] }).map(fix => fix.id)).toEqual(['role-typo']);
+  });
+});
+
+describe('applyFix', () => {
+  it('should apply attribute and style patches', () => {
+    render('<div id="target" aria-labeledby="x">Go</div>');
+
+    const applied = applyFix({
+      id: 'test',
+      description: 'test',
+      confidence: 1,
+      patches: [
+        { type: 'attribute', selector: '#target', name: 'aria-labeledby', value: null },
+        { type: 'attribute', selector: '#target', name: 'aria-labelledby', value: 'x' },
+        { type: 'style', selector: '#target', property: 'color', value: '#595959' },
+        { type: 'style', selector: '#missing', property: 'color', value: '#595959' }
+      ]
+    });
+
+    const el = document.getElementById('target') as HTMLElement;
+    expect(applied).toBe(3);
+    expect(el.hasAttribute('aria-labeledby')).toBe(false);
+    expect(el.getAttribute('aria-labelledby')).toBe('x');
+    expect(el.style.color).toMatch(/#595959|rgb\(89, 89, 89\)/);
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { RuleRegistry } from '../../src/engine/rules/registry';
+import { EvaluationEngine } from '../../src/engine/index';
+import type { AccessibilityConfig, CustomRule } from '../../src/types';
+
+function rule(id: string, extra: Partial<CustomRule> = {}): CustomRule {
+  return {
+    id,
+    severity: 'moderate',
+    evaluate: async () => ({ passed: true }),
+    ...extra
+  };
+}
+
+const rules: CustomRule[] = [
+  rule('img-alt', { wcagCriteria: ['1.1.1'], tags: ['images'], category: 'Images' }),
+  rule('contrast', { wcagCriteria: ['1.4.3'], category: 'Color' }),
+  rule('contrast-enhanced', { wcagCriteria: ['1.4.6'], category: 'Color' }),
+  rule('target-size', { wcagCriteria: ['2.5.8'], tags: ['wcag22', 'pointer'] }),
+  rule('parsing', { wcagCriteria: ['4.1.1'] }),
+  rule('best-practice', { tags: ['best-practice'] })
+];
+
+const ids = (registry: RuleRegistry) => registry.getActiveRules().map(r => r.id);
+
+describe('RuleRegistry', () => {
+  it('should filter rules by WCAG version and level', () => {
+    const registry = new RuleRegistry({ wcag: '2.1', level: 'AA', customRules: rules });
+
+    expect(ids(registry)).toEqual(['img-alt', 'contrast', 'parsing', 'best-practice']);
+
+    registry.configure({ wcag: '2.2', level: 'AAA' });
+    expect(ids(registry)).toEqual(['img-alt', 'contrast', 'contrast-enhanced', 'target-size', 'best-practice']);
+
+    registry.configure({ level: 'A' });
+    expect(ids(registry)).toEqual(['img-alt', 'best-practice']);
+  });
+
+  it('should let explicit rule metadata override the criteria table', () => {
+    const registry = new RuleRegistry({ wcag: '2.1', level: 'A' });
+    registry.register(rule('custom-aa', { wcagCriteria: ['1.1.1'], wcagLevel: 'AA' }));
+    registry.register(rule('custom-22', { wcagVersion: '2.2' }));
+
+    expect(ids(registry)).toEqual([]);
+  });
+
+  it('should enable and disable rules by id, tag and category', () => {
+    const registry = new RuleRegistry({ wcag: '2.2', level: 'AA', customRules: rules });
+
+    registry.disable({ tag: 'wcag22', category: 'Color' });
+    expect(ids(registry)).toEqual(['img-alt', 'best-practice']);
+
+    registry.enable({ id: 'contrast-enhanced' });
+    registry.disable({ id: 'img-alt' });
+    expect(ids(registry)).toEqual(['contrast-enhanced', 'best-practice']);
+    expect(registry.isActive('img-alt')).toBe(false);
+
+    registry.enable({ tag: 'wcag22', category: 'Color', id: 'img-alt' });
+    expect(ids(registry)).toEqual(['img-alt', 'contrast', 'contrast-enhanced', 'target-size', 'best-practice']);
+  });
+});
+
+describe('EvaluationEngine rule selection', () => {
+  let engine: EvaluationEngine;
+
+  afterEach(async () => {
+    await engine.destroy();
+  });
+
+  it('should only run and count the active rules', async () => {
+    const ran: string[] = [];
+    const tracked = rules.map(r => ({
+      ...r,
+      evaluate: async () => {
+        ran.push(r.id);
+        return { passed: true };
+      }
+    }));
+
+    const config: AccessibilityConfig = {
+      endpoint: 'ws://localhost',
+      evaluation: { wcag: '2.1', level: 'A', customRules: tracked },
+      sampling: { strategy: 'fixed', interval: 1000 },
+      performance: { useWorkers: false },
+      privacy: { redactText: false }
+    };
+    engine = new EvaluationEngine(config);
+    engine.getRegistry().disable({ tag: 'best-practice' });
+
+    const result = await engine.evaluate([document.createElement('div')]);
+
+    expect(result.metadata.rulesApplied).toBe(2);
+    expect([...new Set(ran)].sort()).toEqual(['img-alt', 'parsing']);
+  });
+
+  it('should apply rule selection from the config', () => {
+    engine = new EvaluationEngine({
+      endpoint: 'ws://localhost',
+      evaluation: {
+        wcag: '2.2',
+        level: 'A',
+        customRules: rules,
+        rules: ['contrast-enhanced', 'target-size', 'parsing'],
+        disabledRules: ['parsing']
+      },
+      sampling: { strategy: 'fixed', interval: 1000 },
+      performance: { useWorkers: false },
+      privacy: { redactText: false }
+    });
+    engine.registerRule(rule('late', { wcagCriteria: ['1.1.1'] }));
+
+    expect(ids(engine.getRegistry())).toEqual(['contrast-enhanced', 'target-size']);
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ReviewStore,
+  createLocalReviewStorage,
+  createMemoryReviewStorage,
+  getResultOutcome,
+  getReviewKey
+} from '../../src/engine/review';
+import { EvaluationEngine } from '../../src/core/EvaluationEngine';
+import type { EvaluationResult, EvaluationRule } from '../../src/types';
+
+function result(overrides: Partial<EvaluationResult> = {}): EvaluationResult {
+  return {
+    id: 'r1',
+    type: 'contrast',
+    severity: 'warning',
+    wcagLevel: 'AA',
+    wcagCriteria: '1.4.3',
+    selector: '#hero > h1',
+    message: 'Unable to determine contrast',
+    ruleId: 'color-contrast',
+    outcome: 'incomplete',
+    ...overrides
+  };
+}
+
+describe('getResultOutcome', () => {
+  it('should prefer an explicit outcome', () => {
+    expect(getResultOutcome(result({ outcome: 'passed' }))).toBe('passed');
+  });
+
+  it('should derive the outcome from needsReview and severity', () => {
+    expect(getResultOutcome(result({ outcome: undefined, details: { needsReview: true } }))).toBe('incomplete');
+    expect(getResultOutcome(result({ outcome: undefined, severity: 'error' }))).toBe('failed');
+    expect(getResultOutcome(result({ outcome: undefined, severity: 'info' }))).toBe('passed');
+  });
+
+  it('should key results by rule and selector', () => {
+    expect(getReviewKey(result())).toBe('color-contrast::#hero > h1');
+    expect(getReviewKey(result({ ruleId: undefined }))).toBe('contrast:1.4.3::#hero > h1');
+  });
+});
+
+describe('ReviewStore', () => {
+  it('should apply recorded verdicts to incomplete results', async () => {
+    const store = new ReviewStore();
+    const item = result();
+    const failure = result({ id: 'r2', outcome: 'failed', selector: '#other' });
+
+    expect(store.pending([item, failure])).toEqual([item]);
+
+    const record = await store.record(item, 'passed', { reviewer: 'sam', note: 'Overlay keeps text legible' });
+    const [reviewed, untouched] = store.apply([{ ...item, id: 'r3' }, failure]);
+
+    expect(record).toMatchObject({ ruleId: 'color-contrast', selector: '#hero > h1', verdict: 'passed' });
+    expect(reviewed).toMatchObject({ outcome: 'passed', review: { reviewer: 'sam' } });
+    expect(untouched).toBe(failure);
+    expect(store.pending([item])).toEqual([]);
+  });
+
+  it('should persist verdicts across store instances', async () => {
+    const storage = createMemoryReviewStorage();
+    await new ReviewStore(storage).record(result(), 'failed');
+
+    const next = new ReviewStore(storage);
+    await next.load();
+
+    expect(next.get(result({ id: 'new-run' }))?.verdict).toBe('failed');
+  });
+
+  it('should read synchronous storage on construction', () => {
+    const storage = createMemoryReviewStorage([{ ruleId: 'color-contrast', selector: '#hero > h1', verdict: 'passed', reviewedAt: 0 }]);
+    const [reviewed] = new ReviewStore(storage).apply([result()]);
+
+    expect(reviewed.outcome).toBe('passed');
+  });
+
+  it('should refuse to read asynchronous storage before it loads', async () => {
+    const memory = createMemoryReviewStorage([{ ruleId: 'color-contrast', selector: '#hero > h1', verdict: 'failed', reviewedAt: 0 }]);
+    const store = new ReviewStore({ load: async () => memory.load(), save: async records => memory.save(records) });
+
+    expect(() => store.apply([result()])).toThrow(/await load\(\)/);
+    expect(() => store.pending([result()])).toThrow(/await load\(\)/);
+
+    await store.load();
+    expect(store.apply([result()])[0].outcome).toBe('failed');
+    expect(store.pending([result()])).toEqual([]);
+  });
+
+  it('should read and write local storage', async () => {
+    const values = new Map<string, string>();
+    const storage = {
+      getItem: (key: string) => values.get(key) ?? null,
+      setItem: (key: string, value: string) => { values.set(key, value); }
+    } as Storage;
+
+    const store = new ReviewStore(createLocalReviewStorage('reviews', storage));
+    await store.record(result(), 'passed');
+    expect(JSON.parse(values.get('reviews')!)).toHaveLength(1);
+
+    await store.remove(result());
+    expect(JSON.parse(values.get('reviews')!)).toEqual([]);
+  });
+});
+
+describe('engine outcomes', () => {
+  it('should mark needs-review findings incomplete and count every outcome', async () => {
+    const rule: EvaluationRule = {
+      id: 'image-text',
+      severity: 'error',
+      wcagCriteria: ['1.4.3'],
+      selector: 'p',
+      evaluate: async element => element.classList.contains('hero')
+        ? { severity: 'warning', message: 'Text over image', details: { needsReview: true } }
+        : null
+    };
+    const engine = new EvaluationEngine();
+    engine.registerRule(rule);
+
+    document.body.innerHTML = '<p class="hero">Hero</p><p>Plain</p><span>Other</span>';
+    const batch = await engine.getEngine().evaluate(Array.from(document.body.querySelectorAll('*')));
+
+    expect(batch.issues).toHaveLength(1);
+    expect(batch.issues[0]).toMatchObject({ outcome: 'incomplete', severity: 'warning' });
+    expect(batch.metadata.outcomes).toEqual({ passed: 1, failed: 0, incomplete: 1, inapplicable: 1 });
+
+    await engine.getEngine().destroy();
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect, vi } from 'vitest';
+import { IssueTracker, getIssueFingerprint, hashFingerprint64 } from '../../src/engine/tracker';
+import type { EvaluationResult } from '../../src/types';
+
+function result(overrides: Partial<EvaluationResult> = {}): EvaluationResult {
+  return {
+    id: `issue-${Math.random().toString(36).slice(2)}`,
+    type: 'contrast',
+    severity: 'error',
+    wcagLevel: 'AA',
+    wcagCriteria: '1.4.3',
+    selector: '#hero > h1',
+    message: 'Insufficient contrast',
+    ruleId: 'color-contrast',
+    ...overrides
+  };
+}
+
+describe('getIssueFingerprint', () => {
+  it('should ignore the per-run id and depend on rule, selector and scope', () => {
+    expect(getIssueFingerprint(result())).toBe(getIssueFingerprint(result()));
+    expect(getIssueFingerprint(result({ selector: '#other' }))).not.toBe(getIssueFingerprint(result()));
+    expect(getIssueFingerprint(result(), '/about')).not.toBe(getIssueFingerprint(result(), '/'));
+  });
+});
+
+describe('hashFingerprint64', () => {
+  it('should compute the 64-bit FNV-1a hash of the joined parts', () => {
+    expect(hashFingerprint64([''])).toBe('cbf29ce484222325');
+    expect(hashFingerprint64(['a'])).toBe('af63dc4c8601ec8c');
+    expect(hashFingerprint64(['a', 'b'])).not.toBe(hashFingerprint64(['ab']));
+  });
+});
+
+describe('IssueTracker', () => {
+  it('should give issues stable ids and count occurrences across runs', () => {
+    const tracker = new IssueTracker();
+
+    const first = tracker.track([result()], { timestamp: 1000 });
+    const second = tracker.track([result()], { timestamp: 2000 });
+
+    expect(second.issues[0].id).toBe(first.issues[0].id);
+    expect(second.issues[0].metadata).toMatchObject({
+      firstSeen: 1000,
+      lastSeen: 2000,
+      occurrences: 2,
+      lifecycle: 'recurring'
+    });
+    expect(second.delta).toEqual({
+      added: [],
+      updated: [{ id: first.issues[0].id, lastSeen: 2000, occurrences: 2 }],
+      resolved: []
+    });
+  });
+
+  it('should leave passing results untouched', () => {
+    const passing = result({ severity: 'info' });
+    const { issues, delta } = new IssueTracker().track([passing]);
+
+    expect(issues[0]).toBe(passing);
+    expect(delta.added).toEqual([]);
+  });
+
+  it('should resolve issues missing from a complete run and flag regressions', () => {
+    const tracker = new IssueTracker();
+    const events = { new: vi.fn(), resolved: vi.fn(), regressed: vi.fn() };
+    tracker.on('issue:new', events.new);
+    tracker.on('issue:resolved', events.resolved);
+    tracker.on('issue:regressed', events.regressed);
+
+    const { issues: [issue] } = tracker.track([result()]);
+    expect(events.new).toHaveBeenCalledWith(expect.objectContaining({ id: issue.id, status: 'open' }));
+
+    const resolved = tracker.track([], { timestamp: 5000 });
+    expect(resolved.delta.resolved).toEqual([issue.id]);
+    expect(events.resolved).toHaveBeenCalledWith(expect.objectContaining({ status: 'resolved', resolvedAt: 5000 }));
+
+    const regressed = tracker.track([result()]);
+    expect(regressed.delta.added[0].metadata).toMatchObject({ lifecycle: 'regressed', occurrences: 2 });
+    expect(tracker.get(issue.id)).toMatchObject({ status: 'open', regressions: 1 });
+    expect(events.regressed).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not resolve issues from partial runs or other scopes', () => {
+    const tracker = new IssueTracker();
+    tracker.track([result()], { scope: '/' });
+
+    expect(tracker.track([], { scope: '/', complete: false }).delta.resolved).toEqual([]);
+    expect(tracker.track([], { scope: '/about' }).delta.resolved).toEqual([]);
+    expect(tracker.list('open')).toHaveLength(1);
+  });
+
+  it('should only resolve issues on evaluated selectors', () => {
+    const tracker = new IssueTracker();
+    tracker.track([result()], { scope: '/' });
+
+    expect(tracker.track([], { scope: '/', evaluated: ['#other'] }).delta.resolved).toEqual([]);
+    expect(tracker.track([], { scope: '/', evaluated: ['#hero > h1'] }).delta.resolved).toHaveLength(1);
+  });
+
+  it('should count an issue reported twice in one run once', () => {
+    const tracker = new IssueTracker();
+    const { issues, delta } = tracker.track([result(), result()]);
+
+    expect(issues[0]).toBe(issues[1]);
+    expect(delta.added).toHaveLength(1);
+    expect(tracker.list()[0].occurrences).toBe(1);
+  });
+});
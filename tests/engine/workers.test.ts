@@ -0,0 +1,188 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { WorkerPool, isWorkerSafe, serializeRule } from '../../src/engine/workers';
+import type { WorkerTask } from '../../src/engine/workers';
+import { EvaluationEngine } from '../../src/engine/index';
+import type { AccessibilityConfig, CustomRule, ElementSnapshot } from '../../src/types';
+
+const missingAltRule: CustomRule = {
+  id: 'worker-img-alt',
+  severity: 'serious',
+  wcagCriteria: ['1.1.1'],
+  workerSafe: true,
+  evaluate: async () => ({ passed: true }),
+  evaluateSnapshot: (snapshot: ElementSnapshot) => {
+    if (snapshot.tagName !== 'img') return { passed: true };
+    if ('alt' in snapshot.attributes) return { passed: true };
+    return { passed: false, violation: { message: 'Image missing alt attribute' } };
+  }
+};
+
+function createConfig(overrides: Partial<AccessibilityConfig['performance']> = {}): AccessibilityConfig {
+  return {
+    endpoint: 'ws://localhost',
+    evaluation: { wcag: '2.2', level: 'AA', customRules: [] },
+    sampling: { strategy: 'fixed', interval: 1000 },
+    performance: { useWorkers: true, maxWorkers: 2, batchSize: 2, ...overrides },
+    privacy: { redactText: false }
+  };
+}
+
+function snapshot(index: number, tagName: string, attributes: Record<string, string> = {}): ElementSnapshot {
+  return {
+    index,
+    selector: tagName,
+    tagName,
+    attributes,
+    computedStyle: {},
+    text: '',
+    bounds: { x: 0, y: 0, width: 10, height: 10 }
+  };
+}
+
+describe('WorkerPool', () => {
+  let pool: WorkerPool;
+
+  beforeEach(() => {
+    pool = new WorkerPool(2);
+  });
+
+  afterEach(async () => {
+    await pool.terminate();
+  });
+
+  it('should only serialize rules that declare worker safety', () => {
+    const unsafe: CustomRule = { ...missingAltRule, id: 'unsafe', workerSafe: false };
+
+    expect(isWorkerSafe(missingAltRule)).toBe(true);
+    expect(isWorkerSafe(unsafe)).toBe(false);
+    expect(serializeRule(unsafe)).toBeNull();
+    expect(serializeRule(missingAltRule)?.source).toContain('Image missing alt attribute');
+  });
+
+  it('should run serialized rules inside worker threads', async () => {
+    pool.registerRules([serializeRule(missingAltRule)!]);
+
+    const context = { wcagVersion: '2.2', wcagLevel: 'AA', viewport: { width: 0, height: 0, scrollX: 0, scrollY: 0 }, timestamp: 0 };
+    const tasks: WorkerTask[] = [
+      { elementIndex: 0, ruleId: missingAltRule.id, snapshot: snapshot(0, 'img'), context },
+      { elementIndex: 1, ruleId: missingAltRule.id, snapshot: snapshot(1, 'img', { alt: 'Logo' }), context },
+      { elementIndex: 2, ruleId: missingAltRule.id, snapshot: snapshot(2, 'p'), context }
+    ];
+
+    const results = await pool.processBatches(tasks, 1);
+
+    expect(results).toHaveLength(3);
+    expect(results.filter(r => !r.passed).map(r => r.elementIndex)).toEqual([0]);
+    expect(results[0].violation?.message).toBe('Image missing alt attribute');
+  });
+
+  it('should support method shorthand rule sources', async () => {
+    const rule = {
+      id: 'shorthand',
+      source: 'evaluateSnapshot(snapshot) { return { passed: snapshot.text.length > 0 }; }'
+    };
+    pool.registerRules([rule]);
+
+    const context = { wcagVersion: '2.2', wcagLevel: 'AA', viewport: { width: 0, height: 0, scrollX: 0, scrollY: 0 }, timestamp: 0 };
+    const results = await pool.processBatches(
+      [{ elementIndex: 0, ruleId: 'shorthand', snapshot: snapshot(0, 'p'), context }],
+      10
+    );
+
+    expect(results[0].passed).toBe(false);
+    expect(results[0].error).toBeUndefined();
+  });
+
+  it('should report rule errors instead of rejecting the batch', async () => {
+    pool.registerRules([{ id: 'throws', source: '() => { throw new Error("boom"); }' }]);
+
+    const context = { wcagVersion: '2.2', wcagLevel: 'AA', viewport: { width: 0, height: 0, scrollX: 0, scrollY: 0 }, timestamp: 0 };
+    const results = await pool.processBatches(
+      [{ elementIndex: 0, ruleId: 'throws', snapshot: snapshot(0, 'p'), context }],
+      10
+    );
+
+    expect(results[0].error).toBe('boom');
+  });
+
+  it('should resend rules whose source changed without changing length', async () => {
+    const context = { wcagVersion: '2.2', wcagLevel: 'AA', viewport: { width: 0, height: 0, scrollX: 0, scrollY: 0 }, timestamp: 0 };
+    const task = { elementIndex: 0, ruleId: 'edited', snapshot: snapshot(0, 'p'), context };
+
+    pool.registerRules([{ id: 'edited', source: '() => ({ passed: 1 > 0 })' }]);
+    expect((await pool.processBatches([task], 10))[0].passed).toBe(true);
+
+    pool.registerRules([{ id: 'edited', source: '() => ({ passed: 1 < 0 })' }]);
+    expect((await pool.processBatches([task], 10))[0].passed).toBe(false);
+  });
+
+  it('should reject batches on a dead worker and replace it', async () => {
+    pool = new WorkerPool(1);
+    const context = { wcagVersion: '2.2', wcagLevel: 'AA', viewport: { width: 0, height: 0, scrollX: 0, scrollY: 0 }, timestamp: 0 };
+    pool.registerRules([
+      { id: 'exits', source: '() => process.exit(3)' },
+      serializeRule(missingAltRule)!
+    ]);
+
+    await expect(pool.processBatches([{ elementIndex: 0, ruleId: 'exits', snapshot: snapshot(0, 'p'), context }], 10))
+      .rejects.toThrow('Worker exited with code 3');
+
+    const results = await pool.processBatches(
+      [{ elementIndex: 0, ruleId: missingAltRule.id, snapshot: snapshot(0, 'img'), context }],
+      10
+    );
+    expect(results[0].passed).toBe(false);
+  });
+});
+
+describe('EvaluationEngine with workers', () => {
+  let container: HTMLDivElement;
+  let engine: EvaluationEngine;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    container.innerHTML = `
+      <img id="hero" src="hero.png" />
+      <img src="logo.png" alt="Logo" />
+      <button>Save</button>
+    `;
+    document.body.appendChild(container);
+  });
+
+  afterEach(async () => {
+    await engine.destroy();
+    document.body.removeChild(container);
+  });
+
+  it('should map worker results back to issues for the original elements', async () => {
+    const config = createConfig();
+    config.evaluation.customRules = [missingAltRule];
+    engine = new EvaluationEngine(config);
+
+    const result = await engine.evaluate(Array.from(container.querySelectorAll('*')));
+
+    expect(result.issues).toHaveLength(1);
+    expect(result.issues[0].rule).toBe('worker-img-alt');
+    expect(result.issues[0].message).toBe('Image missing alt attribute');
+    expect(result.issues[0].element.tagName).toBe('img');
+    expect(result.issues[0].element.attributes.src).toBe('hero.png');
+  });
+
+  it('should run rules that are not worker-safe on the main thread', async () => {
+    const mainThreadRule: CustomRule = {
+      id: 'main-button',
+      severity: 'minor',
+      evaluate: async (element: Element) => element.tagName === 'BUTTON'
+        ? { passed: false, violation: { message: 'Button found' } }
+        : { passed: true }
+    };
+
+    const config = createConfig();
+    config.evaluation.customRules = [missingAltRule, mainThreadRule];
+    engine = new EvaluationEngine(config);
+
+    const result = await engine.evaluate(Array.from(container.querySelectorAll('*')));
+
+    expect(result.issues.map(issue => issue.rule).sort()).toEqual(['main-button', 'worker-img-alt']);
+  });
+});
@@ -0,0 +1,50 @@
+import type { EvaluationContext, EvaluationPlugin, EvaluationRule } from '../../src/types';
+
+let runs = 0;
+
+
+
+
+export function createContext(overrides: Partial<EvaluationContext> = {}): EvaluationContext {
+  return {
+    options: {},
+    signal: new AbortController().signal,
+    viewport: {
+      width: window.innerWidth,
+      height: window.innerHeight,
+      scrollX: window.scrollX,
+      scrollY: window.scrollY
+    },
+    timestamp: ++runs,
+    document,
+    window,
+    ...overrides
+  };
+}
+
+
+
+
+export function findRule(plugin: EvaluationPlugin, id: string): EvaluationRule {
+  const rule = plugin.rules?.find(candidate => candidate.id === id);
+  if (!rule) throw new Error(`Plugin "${plugin.id}" has no rule "${id}"`);
+  return rule as EvaluationRule;
+}
+
+
+
+
+export async function check(rule: EvaluationRule, element: Element, context: EvaluationContext = createContext()) {
+  if (rule.selector && !element.matches(rule.selector)) return 'not-applicable';
+  if (rule.condition && !rule.condition(element, context)) return 'not-applicable';
+  return rule.evaluate(element, context);
+}
+
+
+
+
+export async function evaluate(rule: EvaluationRule, element: Element, context: EvaluationContext = createContext()) {
+  const result = await check(rule, element, context);
+  if (result === 'not-applicable') throw new Error(`Rule "${rule.id}" does not apply to the element`);
+  return result;
+}
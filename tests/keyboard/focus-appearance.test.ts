@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { captureUnfocusedState, evaluateFocusAppearance, findOverlays } from '../../src/keyboard/focus-appearance';
+
+function place(element: Element, top: number, left: number, width: number, height: number) {
+  element.getBoundingClientRect = () => ({
+    top, left, width, height, right: left + width, bottom: top + height, x: left, y: top, toJSON: () => ({})
+  }) as DOMRect;
+}
+
+function onFocus(element: HTMLElement, focusStyle: string) {
+  const base = element.getAttribute('style') ?? '';
+  element.addEventListener('focus', () => element.setAttribute('style', `${base};${focusStyle}`));
+  element.addEventListener('blur', () => element.setAttribute('style', base));
+}
+
+function criteria(element: Element, overlays?: Element[]) {
+  return evaluateFocusAppearance(element, { overlays }).violations.map(violation => violation.criterion);
+}
+
+describe('evaluateFocusAppearance', () => {
+  let button: HTMLButtonElement;
+
+  beforeEach(() => {
+    document.body.innerHTML = '<button id="save" style="outline: none">Save</button>';
+    button = document.getElementById('save') as HTMLButtonElement;
+    place(button, 100, 10, 80, 30);
+  });
+
+  it('should accept a solid high-contrast outline', () => {
+    onFocus(button, 'outline: 2px solid #000000');
+
+    const { measurement, violations } = evaluateFocusAppearance(button, { overlays: [] });
+
+    expect(violations).toEqual([]);
+    expect(measurement.parts[0].kind).toBe('outline');
+    expect(measurement.changeContrast).toBeCloseTo(21, 0);
+    expect(measurement.indicatorArea).toBeGreaterThanOrEqual(measurement.requiredArea!);
+  });
+
+  it('should report a missing indicator against 2.4.7', () => {
+    expect(criteria(button, [])).toEqual(['2.4.7']);
+  });
+
+  it('should report a thin low-contrast ring against 2.4.13', () => {
+    onFocus(button, 'outline: 1px solid #dddddd');
+
+    const { measurement, violations } = evaluateFocusAppearance(button, { overlays: [] });
+
+    expect(violations.map(violation => violation.criterion)).toEqual(['2.4.13']);
+    expect(measurement.visible).toBe(true);
+    expect(measurement.changeContrast).toBeLessThan(3);
+    expect(measurement.indicatorArea).toBe(0);
+  });
+
+  it('should count box-shadow rings towards the indicator area', () => {
+    onFocus(button, 'box-shadow: 0 0 0 3px #1d4ed8');
+
+    const { measurement, violations } = evaluateFocusAppearance(button, { overlays: [] });
+
+    expect(violations).toEqual([]);
+    expect(measurement.parts.map(part => part.kind)).toEqual(['box-shadow']);
+  });
+
+  it('should not change the focused element', () => {
+    const other = document.createElement('button');
+    document.body.appendChild(other);
+    other.focus();
+
+    evaluateFocusAppearance(button, { overlays: [] });
+
+    expect(document.activeElement).toBe(other);
+  });
+
+  it('should report elements that focus does not reach as not focusable', () => {
+    button.disabled = true;
+
+    const { measurement, violations } = evaluateFocusAppearance(button, { overlays: [] });
+
+    expect(measurement.focusable).toBe(false);
+    expect(violations).toEqual([]);
+  });
+
+  it('should measure an already focused element without moving focus', () => {
+    onFocus(button, 'outline: 2px solid #000000');
+    const unfocused = captureUnfocusedState(button);
+    button.focus();
+    let moves = 0;
+    button.addEventListener('blur', () => moves++);
+    button.addEventListener('focus', () => moves++);
+
+    const { violations } = evaluateFocusAppearance(button, { overlays: [], unfocused });
+
+    expect(violations).toEqual([]);
+    expect(moves).toBe(0);
+    expect(document.activeElement).toBe(button);
+  });
+
+  describe('obscured focus', () => {
+    let header: HTMLElement;
+
+    beforeEach(() => {
+      onFocus(button, 'outline: 2px solid #000000');
+      header = document.createElement('header');
+      header.style.position = 'fixed';
+      document.body.appendChild(header);
+    });
+
+    it('should find fixed and sticky overlays', () => {
+      expect(findOverlays(document)).toEqual([header]);
+    });
+
+    it('should report an element hidden behind a fixed header against 2.4.11', () => {
+      place(header, 0, 0, 1000, 200);
+
+      const { measurement, violations } = evaluateFocusAppearance(button);
+
+      expect(violations.map(violation => violation.criterion)).toEqual(['2.4.11']);
+      expect(measurement.obscuredFraction).toBe(1);
+      expect(measurement.obscuredBy).toEqual(['header']);
+    });
+
+    it('should report a partly hidden element against 2.4.12', () => {
+      place(header, 0, 0, 1000, 112);
+
+      const { measurement, violations } = evaluateFocusAppearance(button);
+
+      expect(violations.map(violation => violation.criterion)).toEqual(['2.4.12']);
+      expect(measurement.obscuredFraction).toBeGreaterThan(0);
+      expect(measurement.obscuredFraction).toBeLessThan(1);
+    });
+  });
+});
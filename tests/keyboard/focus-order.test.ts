@@ -0,0 +1,149 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { analyzeFocusOrder, getTabSequence } from '../../src/keyboard/focus-order';
+
+function ids(root: Element = document.body): string[] {
+  return getTabSequence(root).map(stop => stop.element.id);
+}
+
+function place(id: string, top: number, left: number, root: Document | ShadowRoot = document) {
+  const element = root.getElementById(id)!;
+  element.getBoundingClientRect = () => ({
+    top, left, width: 80, height: 20, right: left + 80, bottom: top + 20, x: left, y: top, toJSON: () => ({})
+  }) as DOMRect;
+}
+
+describe('getTabSequence', () => {
+  beforeEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('should visit positive tabindex first, then tree order', () => {
+    document.body.innerHTML = `
+      <a id="link" href="/">Home</a>
+      <button id="late" tabindex="2">Late</button>
+      <div id="div" tabindex="0">Div</div>
+      <button id="early" tabindex="1">Early</button>
+      <button id="skipped" tabindex="-1">Skipped</button>
+      <a id="no-href">Not focusable</a>
+      <input id="text">
+      <input id="hidden-input" type="hidden">
+    `;
+
+    expect(ids()).toEqual(['early', 'late', 'link', 'div', 'text']);
+    expect(getTabSequence().map(stop => stop.domIndex)).toEqual([3, 1, 0, 2, 4]);
+  });
+
+  it('should skip inert, hidden, undisplayed and disabled content', () => {
+    document.body.innerHTML = `
+      <button id="first">First</button>
+      <div inert><button id="inert">Inert</button></div>
+      <div hidden><button id="hidden">Hidden</button></div>
+      <div style="display: none"><button id="none">None</button></div>
+      <button id="invisible" style="visibility: hidden">Invisible</button>
+      <button id="disabled" disabled>Disabled</button>
+      <fieldset disabled>
+        <legend><input id="legend" type="checkbox"></legend>
+        <input id="fieldset-input">
+      </fieldset>
+      <button id="last">Last</button>
+    `;
+
+    expect(ids()).toEqual(['first', 'legend', 'last']);
+  });
+
+  it('should only reach the summary of closed details', () => {
+    document.body.innerHTML = `
+      <details id="closed"><summary id="closed-summary">More</summary><a id="inside" href="/">Inside</a></details>
+      <details open><summary id="open-summary">Open</summary><a id="revealed" href="/">Revealed</a></details>
+    `;
+
+    expect(ids()).toEqual(['closed-summary', 'open-summary', 'revealed']);
+  });
+
+  it('should insert shadow tree and slotted content at the host position', () => {
+    document.body.innerHTML = `
+      <button id="before">Before</button>
+      <div id="host"><button id="slotted" slot="action">Slotted</button></div>
+      <button id="after">After</button>
+    `;
+    const shadow = document.getElementById('host')!.attachShadow({ mode: 'open' });
+    shadow.innerHTML = '<button id="inner">Inner</button><slot name="action"></slot>';
+
+    const sequence = getTabSequence();
+    expect(sequence.map(stop => stop.element.id)).toEqual(['before', 'inner', 'slotted', 'after']);
+    expect(sequence[1].scope).toBe('shadow-root');
+  });
+
+  it('should navigate into same-origin frames and report opaque ones', () => {
+    document.body.innerHTML = `
+      <button id="before">Before</button>
+      <iframe id="frame" srcdoc="<button id='framed'>Framed</button>"></iframe>
+      <button id="after">After</button>
+    `;
+
+    const withFrames = analyzeFocusOrder(document.body);
+    expect(withFrames.sequence.map(stop => stop.element.id)).toEqual(['before', 'framed', 'after']);
+    expect(withFrames.sequence[1].scope).toBe('iframe');
+
+    const withoutFrames = analyzeFocusOrder(document.body, { includeFrames: false });
+    expect(withoutFrames.sequence.map(stop => stop.element.id)).toEqual(['before', 'frame', 'after']);
+    expect(withoutFrames.opaqueFrames.map(frame => frame.id)).toEqual(['frame']);
+  });
+});
+
+describe('analyzeFocusOrder', () => {
+  beforeEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('should not report jumps without layout information', () => {
+    document.body.innerHTML = '<button id="a" tabindex="1">A</button><button id="b">B</button>';
+
+    const analysis = analyzeFocusOrder(document.body);
+    expect(analysis.layoutAvailable).toBe(false);
+    expect(analysis.jumps).toEqual([]);
+  });
+
+  it('should accept a sequence that follows the reading order', () => {
+    document.body.innerHTML = '<button id="a">A</button><button id="b">B</button><button id="c">C</button>';
+    place('a', 0, 0);
+    place('b', 2, 100);
+    place('c', 40, 0);
+
+    const analysis = analyzeFocusOrder(document.body);
+    expect(analysis.visualOrder.map(stop => stop.element.id)).toEqual(['a', 'b', 'c']);
+    expect(analysis.jumps).toEqual([]);
+  });
+
+  it('should report elements that are visually moved before their DOM position', () => {
+    document.body.innerHTML = '<button id="a">A</button><button id="moved">Moved</button><button id="c">C</button>';
+    place('a', 40, 0);
+    place('moved', 0, 0);
+    place('c', 80, 0);
+
+    const { jumps } = analyzeFocusOrder(document.body);
+    expect(jumps).toHaveLength(1);
+    expect(jumps[0]).toMatchObject({ fromVisualIndex: 1, toVisualIndex: 0, reason: 'visual-order' });
+    expect(jumps[0].to.element.id).toBe('moved');
+  });
+
+  it('should attribute jumps to positive tabindex', () => {
+    document.body.innerHTML = '<button id="a">A</button><button id="b" tabindex="1">B</button>';
+    place('a', 0, 0);
+    place('b', 0, 100);
+
+    const { jumps } = analyzeFocusOrder(document.body);
+    expect(jumps.map(jump => [jump.from.element.id, jump.to.element.id, jump.reason]))
+      .toEqual([['b', 'a', 'positive-tabindex']]);
+  });
+
+  it('should read right to left in rtl documents', () => {
+    document.body.innerHTML = '<div dir="rtl" id="root"><button id="right">R</button><button id="left">L</button></div>';
+    place('right', 0, 200);
+    place('left', 0, 0);
+
+    const analysis = analyzeFocusOrder(document.getElementById('root')!);
+    expect(analysis.visualOrder.map(stop => stop.element.id)).toEqual(['right', 'left']);
+    expect(analysis.jumps).toEqual([]);
+  });
+});
@@ -0,0 +1,175 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { probeKeyboardTrap, probeKeyboardTraps, findKeyboardProbeTargets } from '../../src/keyboard/trap-probe';
+import { KeyboardNavigationValidator } from '../../src/validators/KeyboardNavigationValidator';
+
+function trapTab(container: HTMLElement) {
+  container.addEventListener('keydown', event => {
+    if (event.key !== 'Tab') return;
+    const stops = Array.from(container.querySelectorAll('button')) as HTMLElement[];
+    const index = stops.indexOf(document.activeElement as HTMLElement);
+    const next = (index + (event.shiftKey ? -1 : 1) + stops.length) % stops.length;
+    event.preventDefault();
+    stops[next].focus();
+  });
+}
+
+describe('probeKeyboardTrap', () => {
+  beforeEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('should pass a modal that contains focus, closes on Escape and restores focus', async () => {
+    document.body.innerHTML = `
+      <button id="open" aria-controls="dialog">Open</button>
+      <div id="dialog" role="dialog" aria-modal="true">
+        <button id="save">Save</button>
+        <button id="discard">Discard</button>
+      </div>
+      <a id="outside" href="/">Outside</a>
+    `;
+    const dialog = document.getElementById('dialog')!;
+    trapTab(dialog);
+    dialog.addEventListener('keydown', event => {
+      if (event.key !== 'Escape') return;
+      dialog.hidden = true;
+      document.getElementById('open')!.focus();
+    });
+
+    const result = await probeKeyboardTrap(dialog);
+
+    expect(result.kind).toBe('modal');
+    expect(result.closedByEscape).toBe(true);
+    expect(result.findings).toEqual([]);
+    expect(result.steps.slice(0, 2).map(step => [step.key, step.to, step.handled]))
+      .toEqual([['Tab', '#discard', true], ['Tab', '#save', true]]);
+
+    expect(dialog.hidden).toBe(false);
+    expect(document.activeElement).toBe(document.body);
+  });
+
+  it('should report focus escaping a modal that cannot be closed', async () => {
+    document.body.innerHTML = `
+      <div id="dialog" role="dialog" aria-modal="true"><button>Save</button></div>
+      <a id="outside" href="/">Outside</a>
+    `;
+
+    const result = await probeKeyboardTrap(document.getElementById('dialog')!);
+
+    expect(result.findings.map(finding => [finding.type, finding.wcagCriteria])).toEqual([
+      ['focus-not-contained', '2.4.3'],
+      ['keyboard-trap', '2.1.2']
+    ]);
+    expect(result.findings[0].message).toContain('#outside');
+  });
+
+  it('should keep Tab inside a native modal dialog', async () => {
+    document.body.innerHTML = `
+      <button id="open">Open</button>
+      <dialog id="dialog">
+        <input id="name" aria-label="Name">
+        <form method="dialog"><button id="close">Close</button></form>
+      </dialog>
+      <a id="outside" href="/">Outside</a>
+    `;
+    const dialog = document.getElementById('dialog') as HTMLDialogElement;
+    dialog.showModal();
+    // happy-dom does not track the top layer, so emulate the browser's :modal match.
+    dialog.matches = selector => selector === ':modal' || Element.prototype.matches.call(dialog, selector);
+
+    const result = await probeKeyboardTrap(dialog);
+
+    expect(result.kind).toBe('modal');
+    expect(result.findings).toEqual([]);
+    expect(result.steps.slice(0, 2).map(step => [step.key, step.to])).toEqual([['Tab', '#close'], ['Tab', null]]);
+  });
+
+  it('should treat an aria-modal dialog with inert surroundings as a focus scope', async () => {
+    document.body.innerHTML = `
+      <main inert><a id="outside" href="/">Outside</a></main>
+      <div id="dialog" role="dialog" aria-modal="true">
+        <button>Save</button>
+        <button>Close</button>
+      </div>
+    `;
+
+    const result = await probeKeyboardTrap(document.getElementById('dialog')!);
+
+    expect(result.findings).toEqual([]);
+    expect(result.steps.every(step => step.to !== '#outside')).toBe(true);
+  });
+
+  it('should accept a close button as the way out of a modal', async () => {
+    document.body.innerHTML = `
+      <div id="dialog" role="dialog" aria-modal="true">
+        <button>Save</button>
+        <button aria-label="Close dialog">×</button>
+      </div>
+    `;
+    trapTab(document.getElementById('dialog')!);
+
+    const result = await probeKeyboardTrap(document.getElementById('dialog')!);
+    expect(result.findings).toEqual([]);
+  });
+
+  it('should report widgets that swallow Tab and Escape', async () => {
+    document.body.innerHTML = `
+      <div id="toolbar" role="toolbar"><button>Bold</button><button>Italic</button></div>
+      <button>After</button>
+    `;
+    trapTab(document.getElementById('toolbar')!);
+
+    const result = await probeKeyboardTrap(document.getElementById('toolbar')!);
+
+    expect(result.kind).toBe('widget');
+    expect(result.findings.map(finding => finding.type)).toEqual(['keyboard-trap']);
+    expect(result.steps.every(step => step.inside)).toBe(true);
+  });
+
+  it('should report focus not returning to the trigger and undo DOM changes', async () => {
+    document.body.innerHTML = `
+      <button id="trigger" aria-controls="menu">Actions</button>
+      <ul id="menu" role="menu"><li role="menuitem" tabindex="0">Copy</li></ul>
+    `;
+    const menu = document.getElementById('menu')!;
+    menu.addEventListener('keydown', event => {
+      if (event.key === 'Escape') menu.remove();
+    });
+    const trigger = document.getElementById('trigger')!;
+    trigger.focus();
+
+    const result = await probeKeyboardTrap(menu);
+
+    expect(result.findings).toEqual([
+      expect.objectContaining({ type: 'focus-not-restored', message: expect.stringContaining('#trigger') })
+    ]);
+    expect(menu.isConnected).toBe(true);
+    expect(document.activeElement).toBe(trigger);
+  });
+});
+
+describe('probeKeyboardTraps', () => {
+  it('should find rendered containers with focusable content', () => {
+    document.body.innerHTML = `
+      <div role="dialog" id="open-dialog"><button>OK</button></div>
+      <div role="dialog" hidden><button>OK</button></div>
+      <div role="menu"></div>
+    `;
+
+    expect(findKeyboardProbeTargets().map(target => target.id)).toEqual(['open-dialog']);
+  });
+
+  it('should surface findings through the keyboard validator', async () => {
+    document.body.innerHTML = `
+      <div id="grid" role="grid" tabindex="0"></div>
+      <button>After</button>
+    `;
+    document.getElementById('grid')!.addEventListener('keydown', event => event.preventDefault());
+
+    expect((await probeKeyboardTraps()).map(probe => probe.selector)).toEqual(['#grid']);
+
+    const results = await new KeyboardNavigationValidator().probeKeyboardTraps();
+    expect(results).toEqual([
+      expect.objectContaining({ severity: 'error', wcagCriteria: '2.1.2', selector: '#grid' })
+    ]);
+  });
+});
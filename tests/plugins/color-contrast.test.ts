@@ -0,0 +1,149 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import ColorContrastPlugin from '../../src/plugins/color-contrast';
+import { EvaluationEngine } from '../../src/engine/index';
+import { resolveBackground } from '../../src/utils/color/background';
+import type { AccessibilityConfig, EvaluationRule, RuleResult } from '../../src/types';
+import { check, createContext } from '../helpers/plugins';
+
+const [textRule, enhancedRule] = ColorContrastPlugin.rules as EvaluationRule[];
+
+function render(html: string): Element {
+  document.body.innerHTML = html;
+  return document.getElementById('target')!;
+}
+
+describe('ColorContrastPlugin', () => {
+  beforeEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('should pass black text on white', async () => {
+    const el = render('<p id="target" style="color: #000; background-color: #fff">Readable</p>');
+    expect(await check(textRule, el)).toBeNull();
+  });
+
+  it('should report insufficient contrast with the real ratio', async () => {
+    const el = render('<p id="target" style="color: #777; background-color: #fff">Faint</p>');
+    const result = await check(textRule, el) as RuleResult;
+
+    expect(result).toMatchObject({ severity: 'error', wcagCriteria: ['1.4.3'] });
+    expect(result.details).toMatchObject({ foreground: '#777777', background: '#ffffff', requiredRatio: 4.5 });
+    expect(result.details!.ratio).toBeCloseTo(4.48, 2);
+  });
+
+  it('should apply large text thresholds', async () => {
+    const bold = render('<p id="target" style="color: #777; font-size: 19px; font-weight: bold">Large</p>');
+    expect(await check(textRule, bold)).toBeNull();
+
+    const regular = render('<p id="target" style="color: #777; font-size: 19px">Not large</p>');
+    expect(await check(textRule, regular)).not.toBeNull();
+
+    const big = render('<p id="target" style="color: #777; font-size: 24px">Large</p>');
+    expect(await check(textRule, big)).toBeNull();
+  });
+
+  it('should use enhanced thresholds for the AAA rule', async () => {
+    const el = render('<p id="target" style="color: #666">Medium</p>');
+
+    expect(await check(textRule, el)).toBeNull();
+    expect(await check(enhancedRule, el)).toMatchObject({
+      wcagCriteria: ['1.4.6'],
+      details: { requiredRatio: 7 }
+    });
+  });
+
+  it('should blend translucent backgrounds through ancestors', async () => {
+    const el = render(`
+      <div style="background-color: #000">
+        <div style="background-color: rgba(255, 255, 255, 0.5)">
+          <span id="target" style="color: #fff">Text</span>
+        </div>
+      </div>
+    `);
+
+    expect(resolveBackground(el).color).toMatchObject({ r: 128, g: 128, b: 128 });
+    expect(await check(textRule, el)).toMatchObject({ details: { background: '#808080' } });
+  });
+
+  it('should account for ancestor opacity', async () => {
+    const el = render(`
+      <div style="opacity: 0.3">
+        <p id="target" style="color: #000">Ghost</p>
+      </div>
+    `);
+
+    const result = await check(textRule, el) as RuleResult;
+    expect(result).toMatchObject({ severity: 'error' });
+    expect(result.details!.foreground).toBe('#b3b3b3');
+  });
+
+  it('should report an undeterminable background explicitly', async () => {
+    const el = render(`
+      <div style="background-image: url(hero.jpg)">
+        <h1 id="target" style="color: #fff">Hero</h1>
+      </div>
+    `);
+
+    const result = await check(textRule, el);
+    expect(result).toMatchObject({
+      severity: 'warning',
+      details: { reason: 'background-image', needsReview: true }
+    });
+  });
+
+  it('should ignore an image covered by an opaque background', async () => {
+    const el = render(`
+      <div style="background-image: url(hero.jpg)">
+        <p id="target" style="color: #000; background-color: #fff">Card</p>
+      </div>
+    `);
+
+    expect(await check(textRule, el)).toBeNull();
+  });
+
+  it('should only match elements with their own visible text', () => {
+    document.body.innerHTML = `
+      <div id="wrapper"><p id="text">Hello</p></div>
+      <p id="hidden" hidden>Hidden</p>
+      <button id="disabled" disabled>Off</button>
+    `;
+    const matches = (id: string) => textRule.condition!(document.getElementById(id)!, createContext());
+
+    expect(matches('wrapper')).toBe(false);
+    expect(matches('text')).toBe(true);
+    expect(matches('hidden')).toBe(false);
+    expect(matches('disabled')).toBe(false);
+  });
+});
+
+describe('ColorContrastPlugin conformance level', () => {
+  let engine: EvaluationEngine;
+
+  function createEngine(level: 'AA' | 'AAA'): EvaluationEngine {
+    const config: AccessibilityConfig = {
+      endpoint: 'ws://localhost',
+      evaluation: { wcag: '2.2', level, plugins: [ColorContrastPlugin] },
+      sampling: { strategy: 'fixed', interval: 1000 },
+      performance: { useWorkers: false },
+      privacy: { redactText: false }
+    };
+    return new EvaluationEngine(config);
+  }
+
+  afterEach(async () => {
+    await engine.destroy();
+  });
+
+  it('should only apply enhanced contrast at level AAA', async () => {
+    const el = render('<p id="target" style="color: #666">Medium</p>');
+
+    engine = createEngine('AA');
+    expect((await engine.evaluate([el])).issues).toHaveLength(0);
+    await engine.destroy();
+
+    engine = createEngine('AAA');
+    const { issues } = await engine.evaluate([el]);
+    expect(issues.map(issue => issue.rule)).toEqual(['color-contrast-enhanced']);
+    expect(issues[0]).toMatchObject({ type: 'contrast', wcagLevel: 'AAA' });
+  });
+});
@@ -0,0 +1,208 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import NonTextContrastPlugin from '../../src/plugins/non-text-contrast';
+import { EvaluationEngine } from '../../src/core/EvaluationEngine';
+import { check, evaluate, findRule } from '../helpers/plugins';
+
+const rule = (id: string) => findRule(NonTextContrastPlugin, id);
+
+function render(html: string): Element {
+  document.body.innerHTML = html;
+  return document.getElementById('target')!;
+}
+
+describe('NonTextContrastPlugin', () => {
+  beforeEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  describe('form controls', () => {
+    it('should flag a faint input border', async () => {
+      const el = render('<input id="target" style="border: 1px solid #ddd">');
+      const result = await evaluate(rule('non-text-contrast-form-controls'), el);
+
+      expect(result).toMatchObject({ severity: 'error', wcagCriteria: ['1.4.11'] });
+      expect(result?.details?.borderRatio).toBeCloseTo(1.36, 2);
+    });
+
+    it('should accept a dark border or a contrasting fill', async () => {
+      const bordered = render('<input id="target" style="border: 1px solid #767676">');
+      expect(await check(rule('non-text-contrast-form-controls'), bordered)).toBeNull();
+
+      const filled = render('<input id="target" style="border: none; background-color: #333; color: #fff">');
+      expect(await check(rule('non-text-contrast-form-controls'), filled)).toBeNull();
+    });
+
+    it('should only check fields with an author border or background', async () => {
+      const computed = window.getComputedStyle.bind(window);
+      const userAgentDefaults: Record<string, string> = { borderTopStyle: 'inset', backgroundColor: 'rgb(255, 255, 255)' };
+      const getComputedStyle = vi.spyOn(window, 'getComputedStyle').mockImplementation((element, pseudo) => {
+        const styles = computed(element, pseudo);
+        return new Proxy(styles, {
+          get: (target, property) => {
+            if (typeof property === 'string' && property in userAgentDefaults) return userAgentDefaults[property];
+            const value = Reflect.get(target, property, target);
+            return typeof value === 'function' ? value.bind(target) : value;
+          }
+        });
+      });
+      const native = render('<input id="target">');
+      const nativeResult = await check(rule('non-text-contrast-form-controls'), native);
+      getComputedStyle.mockRestore();
+      expect(nativeResult).toBe('not-applicable');
+
+      const styled = render(`
+        <style>@media screen { .field { border: 1px solid #ddd } }</style>
+        <input id="target" class="field">
+      `);
+      expect(await check(rule('non-text-contrast-form-controls'), styled)).toMatchObject({ severity: 'error' });
+    });
+
+    it('should only check author-styled checkboxes', async () => {
+      const native = render('<input id="target" type="checkbox">');
+      expect(await check(rule('non-text-contrast-form-controls'), native)).toBe('not-applicable');
+
+      const custom = render('<input id="target" type="checkbox" style="appearance: none; border: 2px solid #ccc">');
+      expect(await check(rule('non-text-contrast-form-controls'), custom)).toMatchObject({
+        message: expect.stringContaining('checkbox')
+      });
+    });
+
+    it('should report an indeterminate adjacent background', async () => {
+      const el = render(`
+        <div style="background-image: linear-gradient(#000, #fff)">
+          <input id="target" style="border: 1px solid #ccc">
+        </div>
+      `);
+
+      expect(await check(rule('non-text-contrast-form-controls'), el)).toMatchObject({
+        severity: 'warning',
+        details: { reason: 'background-image', needsReview: true }
+      });
+    });
+  });
+
+  describe('focus indicators', () => {
+    it('should check the focused outline against the adjacent background', async () => {
+      const el = render(`
+        <style>#target:focus { outline: 2px solid #ffff66; }</style>
+        <button id="target">Save</button>
+      `);
+
+      const result = await check(rule('non-text-contrast-focus-indicator'), el);
+      expect(result).toMatchObject({ details: { component: 'focus indicator', indicator: '#ffff66' } });
+      expect(document.activeElement).not.toBe(el);
+    });
+
+    it('should pass a contrasting focus ring', async () => {
+      const el = render(`
+        <style>#target:focus { outline: 2px solid #005fcc; }</style>
+        <button id="target">Save</button>
+      `);
+
+      expect(await check(rule('non-text-contrast-focus-indicator'), el)).toBeNull();
+    });
+
+    it('should restore focus and undo focus handler changes', async () => {
+      const el = render(`
+        <input id="search">
+        <button id="target">Save</button>
+      `);
+      el.addEventListener('focus', () => el.classList.add('focused'));
+      const search = document.getElementById('search') as HTMLInputElement;
+      search.focus();
+
+      await check(rule('non-text-contrast-focus-indicator'), el);
+
+      expect(document.activeElement).toBe(search);
+      expect(el.classList.contains('focused')).toBe(false);
+    });
+  });
+
+  describe('icons', () => {
+    it('should flag a pale icon-only button', async () => {
+      const el = render(`
+        <button id="target" aria-label="Search" style="background-color: #fff">
+          <svg aria-hidden="true"><path fill="#ccc" d="M0 0h10v10z"/></svg>
+        </button>
+      `);
+
+      expect(await check(rule('non-text-contrast-icon'), el)).toMatchObject({
+        details: { component: 'icon', icon: '#cccccc' }
+      });
+    });
+
+    it('should resolve currentColor and skip buttons with text', async () => {
+      const icon = render(`
+        <button id="target" aria-label="Close" style="color: #222">
+          <svg><path fill="currentColor" d="M0 0h10v10z"/></svg>
+        </button>
+      `);
+      expect(await check(rule('non-text-contrast-icon'), icon)).toBeNull();
+
+      const labelled = render('<button id="target"><svg><path fill="#eee"/></svg> Close</button>');
+      expect(await check(rule('non-text-contrast-icon'), labelled)).toBe('not-applicable');
+    });
+  });
+
+  describe('switches', () => {
+    it('should check the thumb against the track', async () => {
+      const el = render(`
+        <div id="target" role="switch" aria-checked="true" style="background-color: #333">
+          <span style="background-color: #444"></span>
+        </div>
+      `);
+
+      expect(await check(rule('non-text-contrast-switch'), el)).toMatchObject({
+        details: { component: 'switch thumb', thumb: '#444444', track: '#333333' }
+      });
+    });
+
+    it('should check the track against the page', async () => {
+      const el = render(`
+        <div id="target" role="switch" aria-checked="false" style="background-color: #eee">
+          <span style="background-color: #000"></span>
+        </div>
+      `);
+
+      expect(await check(rule('non-text-contrast-switch'), el)).toMatchObject({
+        details: { component: 'switch track' }
+      });
+    });
+  });
+
+  describe('graphics', () => {
+    it('should list chart strokes below 3:1', async () => {
+      const el = render(`
+        <svg id="target" role="img" aria-label="Revenue">
+          <polyline id="good" fill="none" stroke="#1f4e79" points="0,0 10,10"/>
+          <polyline id="bad" fill="none" stroke="#ffd966" points="0,10 10,0"/>
+        </svg>
+      `);
+
+      const result = await evaluate(rule('non-text-contrast-graphics'), el);
+      expect(result?.message).toContain('1 graphic part');
+      expect(result?.details?.parts).toEqual([
+        expect.objectContaining({ selector: '#bad', property: 'stroke', color: '#ffd966' })
+      ]);
+    });
+  });
+
+  it('should produce standard 1.4.11 results through the engine', async () => {
+    const engine = new EvaluationEngine();
+    engine.registerPlugin(NonTextContrastPlugin);
+
+    document.body.innerHTML = '<input id="field" style="border: 1px solid #eee">';
+    const results = await engine.evaluate(Array.from(document.body.querySelectorAll('*')));
+
+    expect(results).toHaveLength(1);
+    expect(results[0]).toMatchObject({
+      ruleId: 'non-text-contrast-form-controls',
+      type: 'contrast',
+      wcagCriteria: '1.4.11',
+      wcagLevel: 'AA',
+      selector: '#field'
+    });
+
+    await engine.getEngine().destroy();
+  });
+});
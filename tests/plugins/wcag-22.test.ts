@@ -0,0 +1,325 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import Wcag22Plugin, { createTargetSizeRule, createWcag22Plugin } from '../../src/plugins/wcag-22';
+import { check, createContext, evaluate, findRule } from '../helpers/plugins';
+
+const rule = (id: string) => findRule(Wcag22Plugin, id);
+
+function render(html: string): Element {
+  document.body.innerHTML = html;
+  return document.getElementById('target')!;
+}
+
+function place(id: string, left: number, top: number, width: number, height: number) {
+  document.getElementById(id)!.getBoundingClientRect = () => ({
+    top, left, width, height, right: left + width, bottom: top + height, x: left, y: top, toJSON: () => ({})
+  }) as DOMRect;
+}
+
+describe('Wcag22Plugin', () => {
+  beforeEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  describe('target size', () => {
+    const targetSize = () => rule('wcag-22-target-size');
+
+    it('should accept targets of at least 24×24', async () => {
+      const el = render('<button id="target" style="padding: 4px">Save</button>');
+      place('target', 0, 0, 24, 24);
+
+      expect(await check(targetSize(), el)).toBeNull();
+    });
+
+    it('should flag crowded undersized targets and list their neighbours', async () => {
+      const el = render(`
+        <div>
+          <button id="target" style="padding: 0">A</button><button id="next" style="padding: 0">B</button>
+        </div>
+      `);
+      place('target', 0, 0, 16, 16);
+      place('next', 18, 0, 16, 16);
+
+      const result = await evaluate(targetSize(), el);
+
+      expect(result).toMatchObject({ severity: 'error', wcagCriteria: ['2.5.8'] });
+      expect(result?.details).toMatchObject({ width: 16, height: 16, minimum: 24 });
+      expect(result?.details?.neighbors).toEqual([
+        expect.objectContaining({ selector: '#next', distance: 18 })
+      ]);
+    });
+
+    it('should apply the spacing exception to well separated targets', async () => {
+      const el = render(`
+        <button id="target" style="padding: 0">A</button>
+        <button id="next" style="padding: 0">B</button>
+        <button id="large" style="padding: 0">Large</button>
+      `);
+      place('target', 0, 0, 16, 16);
+      place('next', 30, 0, 16, 16);
+      place('large', 0, 21, 100, 40);
+
+      expect(await check(targetSize(), el)).toBeNull();
+    });
+
+    it('should measure the page targets once per run', async () => {
+      render(Array.from({ length: 5 }, (_, i) => `<button id="b${i}" style="padding: 0">${i}</button>`).join(''));
+      const measured = new Map<string, number>();
+      for (let i = 0; i < 5; i++) {
+        place(`b${i}`, i * 18, 0, 16, 16);
+        const button = document.getElementById(`b${i}`)!;
+        const measure = button.getBoundingClientRect;
+        button.getBoundingClientRect = () => {
+          measured.set(button.id, (measured.get(button.id) ?? 0) + 1);
+          return measure();
+        };
+      }
+
+      const context = createContext();
+      for (let i = 0; i < 5; i++) {
+        expect(await targetSize().evaluate(document.getElementById(`b${i}`)!, context)).not.toBeNull();
+      }
+
+      expect(Array.from(measured.values()).every(count => count <= 2)).toBe(true);
+    });
+
+    it('should measure the page again for a new run in the same millisecond', async () => {
+      const el = render('<button id="target" style="padding: 0">A</button>');
+      place('target', 0, 0, 16, 16);
+      expect(await targetSize().evaluate(el, createContext({ timestamp: 1000 }))).toBeNull();
+
+      el.insertAdjacentHTML('afterend', '<button id="next" style="padding: 0">B</button>');
+      place('next', 18, 0, 16, 16);
+
+      expect(await targetSize().evaluate(el, createContext({ timestamp: 1000 }))).toMatchObject({ severity: 'error' });
+    });
+
+    it('should measure large neighbours from the circle to their box', async () => {
+      const el = render(`
+        <button id="target" style="padding: 0">A</button>
+        <button id="large" style="padding: 0">Large</button>
+      `);
+      place('target', 0, 0, 16, 16);
+      place('large', 0, 18, 100, 40);
+
+      const result = await evaluate(targetSize(), el);
+      expect(result?.details?.neighbors[0].selector).toBe('#large');
+    });
+
+    it('should exempt links inside a sentence', async () => {
+      const el = render('<p>Read the <a id="target" href="/terms">terms</a> before continuing.</p>');
+      place('target', 0, 0, 30, 14);
+
+      expect(await check(targetSize(), el)).toBe('not-applicable');
+    });
+
+    it('should exempt user-agent styled controls', async () => {
+      const native = render('<input id="target" type="checkbox">');
+      expect(await check(targetSize(), native)).toBe('not-applicable');
+
+      const custom = render('<input id="target" type="checkbox" style="appearance: none; width: 12px; height: 12px">');
+      expect(await check(targetSize(), custom)).not.toBe('not-applicable');
+    });
+
+    it('should skip elements without a layout box', async () => {
+      const el = render('<button id="target" style="padding: 0">A</button>');
+      expect(await check(targetSize(), el)).toBeNull();
+    });
+
+    it('should apply the 44×44 minimum without the spacing exception in AAA mode', async () => {
+      const enhanced = createTargetSizeRule({ level: 'AAA' });
+      const el = render('<button id="target" style="padding: 0">Save</button>');
+      place('target', 0, 0, 40, 40);
+
+      expect(await check(enhanced, el)).toMatchObject({
+        severity: 'warning',
+        wcagCriteria: ['2.5.5'],
+        details: { minimum: 44 }
+      });
+      expect(await check(targetSize(), el)).toBeNull();
+    });
+
+    it('should only include the AAA rule when requested', () => {
+      expect(Wcag22Plugin.rules!.map(r => r.id)).not.toContain('wcag-22-target-size-enhanced');
+      expect(createWcag22Plugin({ targetSize: 'AAA' }).rules!.map(r => r.id)).toContain('wcag-22-target-size-enhanced');
+    });
+  });
+
+  it('should declare whether each rule is automated or a manual prompt', () => {
+    expect(Object.fromEntries(Wcag22Plugin.rules!.map(r => [r.id, r.automation]))).toEqual({
+      'wcag-22-focus-not-obscured': 'automated',
+      'wcag-22-dragging-movements': 'manual',
+      'wcag-22-target-size': 'automated',
+      'wcag-22-consistent-help': 'manual',
+      'wcag-22-redundant-entry': 'manual',
+      'wcag-22-accessible-authentication': 'automated'
+    });
+  });
+
+  describe('focus not obscured', () => {
+    it('should flag a control hidden behind a sticky header', async () => {
+      const el = render(`
+        <header id="header" style="position: fixed">Site</header>
+        <button id="target" style="outline: none">Save</button>
+      `);
+      place('header', 0, 0, 1000, 80);
+      place('target', 10, 20, 80, 30);
+
+      expect(await check(rule('wcag-22-focus-not-obscured'), el)).toMatchObject({
+        severity: 'error',
+        wcagCriteria: ['2.4.11'],
+        details: { obscuredFraction: 1, obscuredBy: ['#header'] }
+      });
+    });
+
+    it('should accept a partly covered control', async () => {
+      const el = render(`
+        <header id="header" style="position: fixed">Site</header>
+        <button id="target">Save</button>
+      `);
+      place('header', 0, 0, 1000, 80);
+      place('target', 10, 70, 80, 30);
+
+      expect(await check(rule('wcag-22-focus-not-obscured'), el)).toBeNull();
+    });
+
+    it('should restore the previously focused element', async () => {
+      const el = render(`
+        <header id="header" style="position: fixed">Site</header>
+        <input id="search">
+        <button id="target">Save</button>
+      `);
+      place('header', 0, 0, 1000, 80);
+      place('target', 10, 20, 80, 30);
+      const search = document.getElementById('search') as HTMLInputElement;
+      search.focus();
+
+      await check(rule('wcag-22-focus-not-obscured'), el);
+
+      expect(document.activeElement).toBe(search);
+    });
+  });
+
+  describe('dragging movements', () => {
+    it('should prompt for review of drag-only items', async () => {
+      const el = render('<ul><li id="target" draggable="true">Item</li></ul>');
+
+      expect(await check(rule('wcag-22-dragging-movements'), el)).toMatchObject({
+        severity: 'warning',
+        wcagCriteria: ['2.5.7'],
+        details: { needsReview: true }
+      });
+    });
+
+    it('should accept items with move buttons', async () => {
+      const el = render(`
+        <ul><li>
+          <span id="target" draggable="true">Item</span>
+          <button>Move up</button><button>Move down</button>
+        </li></ul>
+      `);
+
+      expect(await check(rule('wcag-22-dragging-movements'), el)).toBeNull();
+    });
+  });
+
+  describe('consistent help', () => {
+    it('should compare the order of help mechanisms between pages', async () => {
+      const plugin = createWcag22Plugin();
+      const consistentHelp = findRule(plugin, 'wcag-22-consistent-help');
+
+      window.history.pushState({}, '', '/first');
+      render('<footer><a href="/help">Help</a><a href="tel:+15550100">Call us</a></footer>');
+      expect(await check(consistentHelp, document.body)).toBeNull();
+
+      window.history.pushState({}, '', '/second');
+      render('<header><a href="tel:+15550100">Call us</a></header><footer><a href="/help">Help</a></footer>');
+      const result = await check(consistentHelp, document.body);
+
+      expect(result).toMatchObject({
+        severity: 'warning',
+        wcagCriteria: ['3.2.6'],
+        details: {
+          needsReview: true,
+          order: ['phone@header', 'help@footer'],
+          previousOrder: ['help@footer', 'phone@footer']
+        }
+      });
+    });
+
+    it('should accept the same order on another page', async () => {
+      const plugin = createWcag22Plugin();
+      const consistentHelp = findRule(plugin, 'wcag-22-consistent-help');
+
+      window.history.pushState({}, '', '/first');
+      render('<footer><a href="/contact">Contact</a><a href="mailto:help@example.com">Email</a></footer>');
+      await check(consistentHelp, document.body);
+
+      window.history.pushState({}, '', '/second');
+      render('<main>Other content</main><footer><a href="/contact">Contact us</a><a href="mailto:help@example.com">Email</a></footer>');
+      expect(await check(consistentHelp, document.body)).toBeNull();
+    });
+  });
+
+  describe('redundant entry', () => {
+    it('should prompt for review of confirmation fields', async () => {
+      const el = render('<label>Confirm email <input id="target" type="email"></label>');
+
+      expect(await check(rule('wcag-22-redundant-entry'), el)).toMatchObject({
+        wcagCriteria: ['3.3.7'],
+        details: { needsReview: true }
+      });
+    });
+
+    it('should ignore ordinary and password fields', async () => {
+      const email = render('<label>Email <input id="target" type="email"></label>');
+      expect(await check(rule('wcag-22-redundant-entry'), email)).toBe('not-applicable');
+
+      const password = render('<label>Confirm password <input id="target" type="password"></label>');
+      expect(await check(rule('wcag-22-redundant-entry'), password)).toBe('not-applicable');
+    });
+  });
+
+  describe('accessible authentication', () => {
+    it('should flag password fields that block pasting', async () => {
+      const el = render('<input id="target" type="password">');
+      el.addEventListener('paste', event => event.preventDefault());
+
+      expect(await check(rule('wcag-22-accessible-authentication'), el)).toMatchObject({
+        severity: 'error',
+        wcagCriteria: ['3.3.8'],
+        details: { blocked: 'paste' }
+      });
+    });
+
+    it('should give paste handlers clipboard data and undo their changes', async () => {
+      const el = render('<input id="target" type="password">');
+      let pasted: string | undefined;
+      el.addEventListener('paste', event => {
+        pasted = (event as ClipboardEvent).clipboardData!.getData('text/plain');
+        el.setAttribute('data-pasted', 'true');
+      });
+
+      expect(await check(rule('wcag-22-accessible-authentication'), el)).toBeNull();
+      expect(pasted).toBe('');
+      expect(el.hasAttribute('data-pasted')).toBe(false);
+    });
+
+    it('should flag inline paste blockers and disabled autocomplete', async () => {
+      const inline = render('<input id="target" type="password" onpaste="return false">');
+      expect(await check(rule('wcag-22-accessible-authentication'), inline)).toMatchObject({
+        details: { blocked: 'paste' }
+      });
+
+      const autocomplete = render('<input id="target" type="password" autocomplete="off">');
+      expect(await check(rule('wcag-22-accessible-authentication'), autocomplete)).toMatchObject({
+        severity: 'warning',
+        details: { blocked: 'autocomplete' }
+      });
+    });
+
+    it('should accept a plain password field', async () => {
+      const el = render('<input id="target" type="password" autocomplete="current-password">');
+      expect(await check(rule('wcag-22-accessible-authentication'), el)).toBeNull();
+    });
+  });
+});
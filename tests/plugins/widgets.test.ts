@@ -0,0 +1,350 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  TabsPatternPlugin,
+  ListboxPatternPlugin,
+  ComboboxPatternPlugin,
+  GridPatternPlugin,
+  RadioGroupPatternPlugin,
+  SliderPatternPlugin,
+  DisclosurePatternPlugin,
+  MenuPatternPlugin,
+  WIDGET_PATTERN_PLUGINS
+} from '../../src/plugins/widgets';
+import { EvaluationEngine } from '../../src/core/EvaluationEngine';
+import type { EvaluationPlugin } from '../../src/types';
+import { check as checkRule, findRule } from '../helpers/plugins';
+
+function check(plugin: EvaluationPlugin, id: string, element: Element) {
+  return checkRule(findRule(plugin, id), element);
+}
+
+function render(html: string): HTMLElement {
+  document.body.innerHTML = html;
+  return document.getElementById('target')!;
+}
+
+interface RovingOptions {
+  next?: string;
+  previous?: string;
+  check?: boolean;
+  typeahead?: boolean;
+}
+
+function roving(container: HTMLElement, selector: string, options: RovingOptions = {}) {
+  const { next = 'ArrowRight', previous = 'ArrowLeft' } = options;
+  const items = () => Array.from(container.querySelectorAll(selector)) as HTMLElement[];
+
+  container.addEventListener('keydown', event => {
+    const list = items();
+    const index = list.indexOf(document.activeElement as HTMLElement);
+    let target = -1;
+
+    if (event.key === next) target = (index + 1) % list.length;
+    else if (event.key === previous) target = (index - 1 + list.length) % list.length;
+    else if (event.key === 'Home') target = 0;
+    else if (event.key === 'End') target = list.length - 1;
+    else if (options.typeahead && event.key.length === 1) {
+      const ordered = [...list.slice(index + 1), ...list.slice(0, index + 1)];
+      target = list.indexOf(ordered.find(item => item.textContent!.toLowerCase().startsWith(event.key))!);
+    }
+    if (target < 0) return;
+
+    event.preventDefault();
+    list.forEach((item, i) => {
+      item.tabIndex = i === target ? 0 : -1;
+      if (options.check) item.setAttribute('aria-checked', String(i === target));
+    });
+    list[target].focus();
+  });
+}
+
+describe('widget pattern plugins', () => {
+  beforeEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('should register one plugin per pattern', () => {
+    expect(WIDGET_PATTERN_PLUGINS.map(plugin => plugin.id)).toEqual([
+      'widget-tabs',
+      'widget-menu',
+      'widget-listbox',
+      'widget-combobox',
+      'widget-tree',
+      'widget-grid',
+      'widget-radio-group',
+      'widget-slider',
+      'widget-disclosure'
+    ]);
+  });
+
+  describe('tabs', () => {
+    const markup = (tabindexes: string[]) => `
+      <div id="target" role="tablist">
+        <button role="tab" id="one" aria-selected="true" tabindex="${tabindexes[0]}">One</button>
+        <button role="tab" id="two" aria-selected="false" tabindex="${tabindexes[1]}">Two</button>
+        <button role="tab" id="three" aria-selected="false" tabindex="${tabindexes[2]}">Three</button>
+      </div>
+    `;
+
+    it('should pass a roving tabindex implementation', async () => {
+      const tablist = render(markup(['0', '-1', '-1']));
+      roving(tablist, '[role="tab"]');
+
+      expect(await check(TabsPatternPlugin, 'tabs-focus-management', tablist)).toBeNull();
+      expect(await check(TabsPatternPlugin, 'tabs-arrow-keys', tablist)).toBeNull();
+      expect(await check(TabsPatternPlugin, 'tabs-home-end', tablist)).toBeNull();
+
+      expect(Array.from(tablist.children).map(tab => tab.getAttribute('tabindex'))).toEqual(['0', '-1', '-1']);
+      expect(document.activeElement).toBe(document.body);
+    });
+
+    it('should flag tabs that are all in the Tab sequence without arrow keys', async () => {
+      const tablist = render(markup(['0', '0', '0']));
+
+      expect(await check(TabsPatternPlugin, 'tabs-focus-management', tablist)).toMatchObject({
+        message: '3 tabs are in the Tab sequence; roving tabindex should leave only one'
+      });
+      expect(await check(TabsPatternPlugin, 'tabs-arrow-keys', tablist)).toMatchObject({
+        severity: 'error',
+        message: 'Pressing ArrowRight does not move to the next tab',
+        details: { expected: '#two', actual: '#one' }
+      });
+    });
+
+    it('should flag a Tab stop that is not on the selected tab', async () => {
+      const tablist = render(markup(['-1', '0', '-1']));
+
+      expect(await check(TabsPatternPlugin, 'tabs-focus-management', tablist)).toMatchObject({
+        message: 'The Tab stop is on #two instead of the active tab #one'
+      });
+    });
+  });
+
+  describe('listbox', () => {
+    function activeDescendantListbox(reference = '') {
+      const listbox = render(`
+        <ul id="target" role="listbox" tabindex="0" aria-activedescendant="${reference}">
+          <li role="option" id="apple">Apple</li>
+          <li role="option" id="banana">Banana</li>
+          <li role="option" id="cherry">Cherry</li>
+        </ul>
+      `);
+      listbox.addEventListener('keydown', event => {
+        const options = Array.from(listbox.querySelectorAll('[role="option"]'));
+        const index = options.findIndex(option => option.id === listbox.getAttribute('aria-activedescendant'));
+        const target = event.key === 'ArrowDown' ? Math.min(index + 1, options.length - 1)
+          : event.key === 'ArrowUp' ? Math.max(index - 1, 0)
+            : event.key === 'Home' ? 0
+              : event.key === 'End' ? options.length - 1
+                : options.findIndex(option => option.textContent!.toLowerCase().startsWith(event.key));
+        if (target >= 0) listbox.setAttribute('aria-activedescendant', options[target].id);
+      });
+      return listbox;
+    }
+
+    it('should pass an aria-activedescendant listbox', async () => {
+      const listbox = activeDescendantListbox();
+
+      expect(await check(ListboxPatternPlugin, 'listbox-arrow-keys', listbox)).toBeNull();
+      expect(await check(ListboxPatternPlugin, 'listbox-home-end', listbox)).toBeNull();
+      expect(await check(ListboxPatternPlugin, 'listbox-typeahead', listbox)).toBeNull();
+      expect(listbox.getAttribute('aria-activedescendant')).toBe('');
+    });
+
+    it('should validate aria-activedescendant references', async () => {
+      expect(await check(ListboxPatternPlugin, 'listbox-active-descendant', activeDescendantListbox('banana'))).toBeNull();
+      expect(await check(ListboxPatternPlugin, 'listbox-active-descendant', activeDescendantListbox('kiwi')))
+        .toMatchObject({ wcagCriteria: ['4.1.2'], message: 'aria-activedescendant references missing element "kiwi"' });
+    });
+
+    it('should report missing typeahead', async () => {
+      const listbox = render(`
+        <ul id="target" role="listbox">
+          <li role="option" tabindex="0">Apple</li>
+          <li role="option" tabindex="-1">Banana</li>
+        </ul>
+      `);
+      roving(listbox, '[role="option"]', { next: 'ArrowDown', previous: 'ArrowUp' });
+
+      expect(await check(ListboxPatternPlugin, 'listbox-arrow-keys', listbox)).toBeNull();
+      expect(await check(ListboxPatternPlugin, 'listbox-typeahead', listbox)).toMatchObject({
+        severity: 'warning',
+        message: 'Typing "b" does not move to the next option starting with it'
+      });
+    });
+  });
+
+  describe('menu', () => {
+    it('should not require a Tab stop in popup menus', async () => {
+      const menu = render(`
+        <ul id="target" role="menu">
+          <li role="menuitem" tabindex="-1">Copy</li>
+          <li role="menuitem" tabindex="-1">Paste</li>
+        </ul>
+      `);
+      expect(await check(MenuPatternPlugin, 'menu-focus-management', menu)).toBeNull();
+    });
+  });
+
+  describe('combobox', () => {
+    function comboboxMarkup(popup = '<ul id="popup" role="listbox" hidden><li role="option" id="opt-1">One</li></ul>') {
+      return `<input id="target" role="combobox" aria-expanded="false" aria-controls="popup">${popup}`;
+    }
+
+    it('should require a popup reference', async () => {
+      const combobox = render('<input id="target" role="combobox" aria-expanded="false" aria-controls="nowhere">');
+      expect(await check(ComboboxPatternPlugin, 'combobox-popup', combobox)).toMatchObject({
+        message: 'Combobox popup "nowhere" does not exist'
+      });
+    });
+
+    it('should pass a combobox that opens, navigates and closes', async () => {
+      const combobox = render(comboboxMarkup());
+      const popup = document.getElementById('popup')!;
+      combobox.addEventListener('keydown', event => {
+        if (event.key === 'ArrowDown') {
+          if (popup.hidden) {
+            popup.hidden = false;
+            combobox.setAttribute('aria-expanded', 'true');
+          } else {
+            combobox.setAttribute('aria-activedescendant', 'opt-1');
+          }
+        } else if (event.key === 'Escape') {
+          popup.hidden = true;
+          combobox.setAttribute('aria-expanded', 'false');
+          combobox.removeAttribute('aria-activedescendant');
+        }
+      });
+
+      expect(await check(ComboboxPatternPlugin, 'combobox-popup', combobox)).toBeNull();
+      expect(await check(ComboboxPatternPlugin, 'combobox-arrow-keys', combobox)).toBeNull();
+      expect(popup.hidden).toBe(true);
+    });
+
+    it('should flag a combobox whose popup never opens', async () => {
+      const combobox = render(comboboxMarkup());
+      expect(await check(ComboboxPatternPlugin, 'combobox-arrow-keys', combobox)).toMatchObject({
+        message: 'Pressing ArrowDown does not open the combobox popup'
+      });
+    });
+  });
+
+  describe('grid', () => {
+    it('should check horizontal and vertical movement between cells', async () => {
+      const grid = render(`
+        <table id="target" role="grid">
+          <tr role="row"><td role="gridcell" id="a1" tabindex="0">A1</td><td role="gridcell" id="b1" tabindex="-1">B1</td></tr>
+          <tr role="row"><td role="gridcell" id="a2" tabindex="-1">A2</td><td role="gridcell" id="b2" tabindex="-1">B2</td></tr>
+        </table>
+      `);
+      roving(grid, '[role="gridcell"]');
+
+      expect(await check(GridPatternPlugin, 'grid-arrow-keys', grid)).toBeNull();
+      expect(await check(GridPatternPlugin, 'grid-row-navigation', grid)).toMatchObject({
+        message: 'Pressing ArrowDown does not move to the same column in the next row',
+        details: { expected: '#a2', actual: '#a1' }
+      });
+    });
+  });
+
+  describe('radio group', () => {
+    const markup = `
+      <div id="target" role="radiogroup">
+        <div role="radio" aria-checked="true" tabindex="0">Small</div>
+        <div role="radio" aria-checked="false" tabindex="-1">Large</div>
+      </div>
+    `;
+
+    it('should require arrow keys to check the focused radio', async () => {
+      const group = render(markup);
+      roving(group, '[role="radio"]', { next: 'ArrowDown', previous: 'ArrowUp' });
+
+      expect(await check(RadioGroupPatternPlugin, 'radio-group-arrow-keys', group)).toBeNull();
+      expect(await check(RadioGroupPatternPlugin, 'radio-group-selection-follows-focus', group)).toMatchObject({
+        message: expect.stringContaining('without checking it')
+      });
+    });
+
+    it('should pass when selection follows focus', async () => {
+      const group = render(markup);
+      roving(group, '[role="radio"]', { next: 'ArrowDown', previous: 'ArrowUp', check: true });
+
+      expect(await check(RadioGroupPatternPlugin, 'radio-group-selection-follows-focus', group)).toBeNull();
+      expect(group.children[0].getAttribute('aria-checked')).toBe('true');
+    });
+  });
+
+  describe('slider', () => {
+    it('should validate the value range', async () => {
+      const slider = render('<div id="target" role="slider" tabindex="0" aria-valuenow="120"></div>');
+      expect(await check(SliderPatternPlugin, 'slider-value', slider)).toMatchObject({
+        message: 'Slider value 120 is outside its range 0–100'
+      });
+    });
+
+    it('should drive the slider with arrow keys, Home and End', async () => {
+      const slider = render('<div id="target" role="slider" tabindex="0" aria-valuemin="0" aria-valuemax="10" aria-valuenow="5"></div>');
+      slider.addEventListener('keydown', event => {
+        const now = Number(slider.getAttribute('aria-valuenow'));
+        const next = ({ ArrowRight: now + 1, ArrowUp: now + 1, ArrowLeft: now - 1, ArrowDown: now - 1, Home: 0, End: 10 } as Record<string, number>)[event.key];
+        if (next !== undefined) slider.setAttribute('aria-valuenow', String(Math.max(0, Math.min(10, next))));
+      });
+
+      expect(await check(SliderPatternPlugin, 'slider-keys', slider)).toBeNull();
+      expect(slider.getAttribute('aria-valuenow')).toBe('5');
+    });
+
+    it('should flag a slider that ignores the keyboard', async () => {
+      const slider = render('<div id="target" role="slider" tabindex="0" aria-valuenow="5"></div>');
+      expect(await check(SliderPatternPlugin, 'slider-keys', slider)).toMatchObject({
+        message: 'Pressing End does not set the maximum value'
+      });
+    });
+  });
+
+  describe('disclosure', () => {
+    it('should accept a native button toggled by click', async () => {
+      const button = render('<button id="target" aria-expanded="false" aria-controls="panel">More</button><div id="panel" hidden></div>');
+      button.addEventListener('click', () => {
+        button.setAttribute('aria-expanded', String(button.getAttribute('aria-expanded') !== 'true'));
+      });
+
+      expect(await check(DisclosurePatternPlugin, 'disclosure-controls', button)).toBeNull();
+      expect(await check(DisclosurePatternPlugin, 'disclosure-toggle', button)).toBeNull();
+      expect(button.getAttribute('aria-expanded')).toBe('false');
+    });
+
+    it('should flag a custom button that only handles clicks', async () => {
+      const button = render('<div id="target" role="button" tabindex="0" aria-expanded="false" aria-controls="gone">More</div>');
+      button.addEventListener('click', () => button.setAttribute('aria-expanded', 'true'));
+
+      expect(await check(DisclosurePatternPlugin, 'disclosure-controls', button)).toMatchObject({
+        message: 'Disclosure button controls missing element: gone'
+      });
+      expect(await check(DisclosurePatternPlugin, 'disclosure-toggle', button)).toMatchObject({
+        message: 'Pressing Enter does not toggle aria-expanded'
+      });
+    });
+
+    it('should leave menu buttons to the menu pattern', async () => {
+      const button = render('<button id="target" aria-haspopup="menu" aria-expanded="false">Menu</button>');
+      expect(await check(DisclosurePatternPlugin, 'disclosure-toggle', button)).toBe('not-applicable');
+    });
+  });
+
+  it('should run through the evaluation engine', async () => {
+    const engine = new EvaluationEngine({ chunkSize: 10 });
+    engine.registerPlugin(TabsPatternPlugin);
+
+    document.body.innerHTML = `
+      <div role="tablist" id="tabs">
+        <button role="tab" aria-selected="true">One</button>
+        <button role="tab" aria-selected="false">Two</button>
+      </div>
+    `;
+    const results = await engine.evaluate(Array.from(document.body.children));
+
+    expect(results.map(result => result.ruleId).sort()).toEqual(['tabs-arrow-keys', 'tabs-focus-management']);
+    await engine.getEngine().destroy();
+  });
+});
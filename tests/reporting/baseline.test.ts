@@ -0,0 +1,215 @@
+import { describe, it, expect } from 'vitest';
+import {
+  annotateSuppressions,
+  compareToBaseline,
+  createBaseline,
+  getFingerprint,
+  getSuppression,
+  parseBaseline,
+  serializeBaseline
+} from '../../src/reporting/baseline';
+import { JsonReportGenerator } from '../../src/reporting/JsonReportGenerator';
+import type { AccessibilityTestResult } from '../../src/reporting/types';
+
+interface NodeFixture {
+  target: string;
+  html?: string;
+}
+
+function run(
+  violations: Record<string, NodeFixture[]>,
+  route: AccessibilityTestResult['route'] = '/',
+  theme: AccessibilityTestResult['theme'] = 'stonewall',
+  impact = 'serious'
+): AccessibilityTestResult {
+  return {
+    route,
+    theme,
+    timestamp: new Date(0),
+    duration: 10,
+    contrastResults: [],
+    axeResults: {
+      violations: Object.entries(violations).map(([id, nodes]) => ({
+        id,
+        impact,
+        description: id,
+        help: id,
+        helpUrl: '',
+        tags: ['wcag2aa'],
+        nodes: nodes.map(node => ({
+          target: [node.target],
+          html: node.html ?? `<div id="${node.target.slice(1)}">`,
+          failureSummary: ''
+        }))
+      })),
+      passes: [],
+      incomplete: [],
+      inapplicable: []
+    } as any
+  };
+}
+
+describe('baseline', () => {
+  it('should fingerprint issues by rule, selector, route and theme', () => {
+    const fingerprint = getFingerprint('color-contrast', '#hero', '/', 'stonewall');
+
+    expect(fingerprint).toMatch(/^[0-9a-f]{16}$/);
+    expect(getFingerprint('color-contrast', '#hero', '/', 'stonewall')).toBe(fingerprint);
+    expect(getFingerprint('color-contrast', '#hero', '/', 'rocket')).not.toBe(fingerprint);
+  });
+
+  it('should report new, fixed and unchanged issues', () => {
+    const baseline = createBaseline([
+      run({ 'color-contrast': [{ target: '#hero' }, { target: '#footer' }] })
+    ]);
+
+    const comparison = compareToBaseline([
+      run({ 'color-contrast': [{ target: '#hero' }], 'image-alt': [{ target: '#logo' }] })
+    ], baseline);
+
+    expect(comparison.new.map(issue => issue.selector)).toEqual(['#logo']);
+    expect(comparison.fixed.map(issue => issue.selector)).toEqual(['#footer']);
+    expect(comparison.unchanged.map(issue => issue.selector)).toEqual(['#hero']);
+  });
+
+  it('should treat the same issue on another theme as new', () => {
+    const baseline = createBaseline([run({ 'color-contrast': [{ target: '#hero' }] }, '/', 'stonewall')]);
+    const comparison = compareToBaseline([run({ 'color-contrast': [{ target: '#hero' }] }, '/', 'rocket')], baseline);
+
+    expect(comparison.new).toHaveLength(1);
+    expect(comparison.fixed).toHaveLength(1);
+  });
+
+  it('should round-trip through a stable JSON file', () => {
+    const baseline = createBaseline([
+      run({ 'image-alt': [{ target: '#b' }], 'color-contrast': [{ target: '#a' }] })
+    ]);
+    const json = serializeBaseline(baseline);
+
+    expect(json.endsWith('\n')).toBe(true);
+    expect(parseBaseline(json).issues.map(issue => issue.ruleId)).toEqual(['color-contrast', 'image-alt']);
+    expect(() => parseBaseline('{"version": 3, "issues": []}')).toThrow(/Unsupported accessibility baseline/);
+  });
+
+  it('should re-fingerprint version 1 baselines', () => {
+    const [issue] = createBaseline([run({ 'image-alt': [{ target: '#b' }] })]).issues;
+    const legacy = JSON.stringify({ version: 1, createdAt: '', issues: [{ ...issue, fingerprint: '0badf00d' }] });
+    const baseline = parseBaseline(legacy);
+
+    expect(baseline.version).toBe(2);
+    expect(baseline.issues[0].fingerprint).toBe(issue.fingerprint);
+    expect(compareToBaseline([run({ 'image-alt': [{ target: '#b' }] })], baseline).new).toEqual([]);
+  });
+
+  describe('suppressions', () => {
+    it('should report justified suppressions separately', () => {
+      const comparison = compareToBaseline([
+        run({
+          'color-contrast': [{
+            target: '#logo',
+            html: '<span id="logo" data-a11y-ignore="color-contrast" data-a11y-ignore-reason="Logotype, exempt under 1.4.3">'
+          }]
+        })
+      ], createBaseline([]));
+
+      expect(comparison.new).toEqual([]);
+      expect(comparison.suppressed).toEqual([
+        expect.objectContaining({ selector: '#logo', justification: 'Logotype, exempt under 1.4.3' })
+      ]);
+    });
+
+    it('should not honour a suppression without a justification', () => {
+      const comparison = compareToBaseline([
+        run({ 'color-contrast': [{ target: '#logo', html: '<span id="logo" data-a11y-ignore="color-contrast">' }] })
+      ], createBaseline([]));
+
+      expect(comparison.new).toHaveLength(1);
+      expect(comparison.unjustified).toHaveLength(1);
+      expect(comparison.suppressed).toEqual([]);
+    });
+
+    it('should only suppress the listed rules', () => {
+      const comparison = compareToBaseline([
+        run({
+          'image-alt': [{
+            target: '#logo',
+            html: '<img id="logo" data-a11y-ignore="color-contrast" data-a11y-ignore-reason="Logotype">'
+          }]
+        })
+      ], createBaseline([]));
+
+      expect(comparison.new).toHaveLength(1);
+    });
+
+    it('should find suppressions on ancestors in a live document', () => {
+      document.body.innerHTML = `
+        <section data-a11y-ignore="color-contrast target-size" data-a11y-ignore-reason="Third-party widget">
+          <button id="inside">Go</button>
+        </section>
+      `;
+      const button = document.getElementById('inside')!;
+
+      expect(getSuppression(button, 'target-size')).toEqual({
+        rules: ['color-contrast', 'target-size'],
+        justification: 'Third-party widget'
+      });
+      expect(getSuppression(button, 'image-alt')).toBeNull();
+    });
+
+    it('should apply ancestor suppressions to annotated results', () => {
+      document.body.innerHTML = `
+        <section data-a11y-ignore="target-size" data-a11y-ignore-reason="Third-party widget">
+          <button id="inside">Go</button>
+        </section>
+        <button id="outside">Go</button>
+      `;
+      const result = run({ 'target-size': [{ target: '#inside' }, { target: '#outside' }] });
+
+      expect(compareToBaseline([result], createBaseline([])).suppressed).toEqual([]);
+
+      annotateSuppressions(result.axeResults, document);
+      const comparison = compareToBaseline([result], createBaseline([]));
+      expect(comparison.suppressed).toEqual([
+        expect.objectContaining({ selector: '#inside', justification: 'Third-party widget' })
+      ]);
+      expect(comparison.new.map(issue => issue.selector)).toEqual(['#outside']);
+    });
+
+    it('should treat an empty data-a11y-ignore as a no-op', () => {
+      document.body.innerHTML = `
+        <section data-a11y-ignore="*" data-a11y-ignore-reason="Legacy widget">
+          <button id="inside" data-a11y-ignore="" data-a11y-ignore-reason="Typo">Go</button>
+        </section>
+      `;
+      const button = document.getElementById('inside')!;
+
+      expect(getSuppression(button, 'target-size')).toMatchObject({ justification: 'Legacy widget' });
+
+      const comparison = compareToBaseline([
+        run({ 'image-alt': [{ target: '#logo', html: '<img id="logo" data-a11y-ignore="" data-a11y-ignore-reason="Typo">' }] })
+      ], createBaseline([]));
+      expect(comparison.new).toHaveLength(1);
+      expect(comparison.suppressed).toEqual([]);
+      expect(comparison.unjustified).toEqual([]);
+    });
+  });
+
+  describe('CI report', () => {
+    it('should only fail on issues missing from the baseline', () => {
+      const generator = new JsonReportGenerator();
+      const known = [run({ 'color-contrast': [{ target: '#hero' }] }, '/', 'stonewall', 'critical')];
+      const baseline = createBaseline(known);
+
+      expect(generator.generateCICDReport(known).status).toBe('failed');
+
+      const report = generator.generateCICDReport(known, baseline);
+      expect(report).toMatchObject({ status: 'passed', blocking: false, baseline: { new: [], unchanged: 1 } });
+
+      const regressed = generator.generateCICDReport([
+        run({ 'color-contrast': [{ target: '#hero' }, { target: '#cta' }] }, '/', 'stonewall', 'critical')
+      ], baseline);
+      expect(regressed).toMatchObject({ status: 'failed', blocking: true });
+      expect(regressed.baseline!.new.map(issue => issue.selector)).toEqual(['#cta']);
+    });
+  });
+});
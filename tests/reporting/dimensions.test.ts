@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { describeResult, discoverDimensions, summarizeDimension } from '../../src/reporting/dimensions';
+import { createBaseline, getFingerprint } from '../../src/reporting/baseline';
+import { JsonReportGenerator } from '../../src/reporting/JsonReportGenerator';
+import { MarkdownReportGenerator } from '../../src/reporting/MarkdownReportGenerator';
+import { JunitReportGenerator } from '../../src/reporting/JunitReportGenerator';
+import type { AccessibilityTestResult } from '../../src/reporting/types';
+
+function result(
+  route: string,
+  theme: string,
+  dimensions?: Record<string, string>,
+  failing: string[] = []
+): AccessibilityTestResult {
+  return {
+    route,
+    theme,
+    dimensions,
+    timestamp: new Date(0),
+    duration: 10,
+    contrastResults: [],
+    axeResults: {
+      violations: failing.length
+        ? [{
+          id: 'wcag-aa-button-name',
+          impact: 'critical',
+          description: 'Buttons must have discernible text',
+          help: 'Button missing a name',
+          helpUrl: '',
+          tags: ['wcag412'],
+          nodes: failing.map(target => ({ target: [target], html: '<button>', failureSummary: '' }))
+        }]
+        : [],
+      incomplete: [],
+      passes: [],
+      inapplicable: []
+    } as any
+  };
+}
+
+const results = [
+  result('/checkout', 'dark', { viewport: 'mobile', locale: 'de' }, ['#pay']),
+  result('/checkout', 'light', { viewport: 'desktop', locale: 'de' }),
+  result('/', 'dark', { viewport: 'desktop', locale: 'en' })
+];
+
+describe('report dimensions', () => {
+  it('should discover dimensions in catalog order and list untested values', () => {
+    const dimensions = discoverDimensions(results, {
+      themes: ['light', 'dark', 'high-contrast'],
+      dimensions: { viewport: ['desktop', 'tablet', 'mobile'] }
+    });
+
+    expect(dimensions).toEqual([
+      { name: 'theme', values: ['light', 'dark'], untested: ['high-contrast'] },
+      { name: 'route', values: ['/checkout', '/'], untested: [] },
+      { name: 'viewport', values: ['desktop', 'mobile'], untested: ['tablet'] },
+      { name: 'locale', values: ['de', 'en'], untested: [] }
+    ]);
+    expect(Array.from(summarizeDimension(results, dimensions[2]))).toEqual([
+      ['desktop', { passed: 2, failed: 0, violations: 0, criticalIssues: 0 }],
+      ['mobile', { passed: 0, failed: 1, violations: 1, criticalIssues: 1 }]
+    ]);
+  });
+
+  it('should describe results with their extra dimensions', () => {
+    expect(describeResult(results[0])).toBe('/checkout [dark, locale=de, viewport=mobile]');
+    expect(describeResult(result('/', 'dark'))).toBe('/ [dark]');
+  });
+
+  it('should only fold extra dimensions into fingerprints when present', () => {
+    const [issue] = createBaseline([result('/', 'dark', undefined, ['#a'])]).issues;
+    expect(issue.fingerprint).toBe(getFingerprint('wcag-aa-button-name', '#a', '/', 'dark'));
+    expect(issue.dimensions).toBeUndefined();
+
+    const fingerprints = createBaseline([
+      result('/', 'dark', { viewport: 'mobile' }, ['#a']),
+      result('/', 'dark', { viewport: 'desktop' }, ['#a'])
+    ]).issues.map(entry => entry.fingerprint);
+    expect(new Set(fingerprints).size).toBe(2);
+    expect(fingerprints).not.toContain(issue.fingerprint);
+  });
+
+  it('should group JSON and Markdown reports by extra dimensions', () => {
+    const catalog = { themes: ['light', 'dark', 'high-contrast'] };
+    const report = new JsonReportGenerator().generateReport(results, catalog);
+
+    expect(Object.keys(report.results.byTheme)).toEqual(['light', 'dark']);
+    expect(report.results.byDimension.viewport.mobile).toEqual({ passed: 0, failed: 1, violations: 1, criticalIssues: 1 });
+    expect(report.violations[0].affectedElements[0].dimensions).toEqual({ locale: 'de', viewport: 'mobile' });
+
+    const markdown = new MarkdownReportGenerator().generateReport(results, catalog);
+    expect(markdown).toContain('_Not tested: high-contrast_');
+    expect(markdown).toContain('## Results by Viewport');
+    expect(markdown).toContain('| mobile | 0 | 1 | 1 | 1 |');
+    expect(markdown).toContain('## Results by Locale');
+  });
+
+  it('should name JUnit suites after every dimension', () => {
+    const xml = new JunitReportGenerator().generateReport([results[0]]);
+
+    expect(xml).toContain('<testsuite name="/checkout [dark, locale=de, viewport=mobile]"');
+    expect(xml).toContain('<property name="viewport" value="mobile"/>');
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { JsonReportGenerator } from '../../src/reporting/JsonReportGenerator';
+import { MarkdownReportGenerator } from '../../src/reporting/MarkdownReportGenerator';
+import type { AccessibilityTestResult } from '../../src/reporting/types';
+import type { FixProposal } from '../../src/types';
+
+const fixes: FixProposal[] = [
+  {
+    id: 'alt-from-title',
+    description: 'Add alt="Tinyland" from the image title',
+    confidence: 0.7,
+    patches: [{ type: 'attribute', selector: '#logo', name: 'alt', value: 'Tinyland' }]
+  },
+  {
+    id: 'contrast-foreground',
+    description: 'Darken the text colour',
+    confidence: 0.8,
+    patches: [{ type: 'style', selector: '#logo', property: 'color', value: '#595959' }]
+  }
+];
+
+function result(withFixes: boolean): AccessibilityTestResult {
+  return {
+    route: '/about',
+    theme: 'light',
+    timestamp: new Date(0),
+    duration: 10,
+    contrastResults: [],
+    axeResults: {
+      violations: [{
+        id: 'wcag-aa-img-alt',
+        impact: 'serious',
+        description: 'Images must have alternate text',
+        help: 'Image missing alt attribute',
+        helpUrl: '',
+        tags: ['wcag111'],
+        nodes: [{ target: ['#logo'], html: '<img id="logo">', failureSummary: '', ...(withFixes ? { fixes } : {}) }]
+      }],
+      incomplete: [],
+      passes: [],
+      inapplicable: []
+    } as any
+  };
+}
+
+describe('proposed fixes in reports', () => {
+  it('should list fixes on affected elements in the JSON report', () => {
+    const report = new JsonReportGenerator().generateReport([result(true)]);
+
+    expect(report.violations[0].affectedElements[0].fixes).toEqual(fixes);
+    expect(new JsonReportGenerator().generateReport([result(false)]).violations[0].affectedElements[0]).not.toHaveProperty('fixes');
+  });
+
+  it('should list fixes with their patches in the Markdown report', () => {
+    const markdown = new MarkdownReportGenerator().generateReport([result(true)]);
+
+    expect(markdown).toContain('## Suggested Fixes');
+    expect(markdown).toContain('| wcag-aa-img-alt | #logo | /about | Add alt="Tinyland" from the image title | 70% | `#logo: alt="Tinyland"` |');
+    expect(markdown).toContain('| wcag-aa-img-alt | #logo | /about | Darken the text colour | 80% | `#logo { color: #595959 }` |');
+    expect(new MarkdownReportGenerator().generateReport([result(false)])).toContain('No automatic fixes were proposed.');
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { JunitReportGenerator } from '../../src/reporting/JunitReportGenerator';
+import type { AccessibilityTestResult } from '../../src/reporting/types';
+import type { TestRunResult } from '../../src/validators/ContrastTestRunner';
+
+function rule(id: string, nodes: Array<{ target: string; failureSummary?: string }> = [], extra: Record<string, unknown> = {}) {
+  return {
+    id,
+    impact: 'serious',
+    description: id,
+    help: `${id} help`,
+    helpUrl: '',
+    tags: [],
+    nodes: nodes.map(node => ({ target: [node.target], html: '<div>', failureSummary: node.failureSummary })),
+    ...extra
+  };
+}
+
+const result: AccessibilityTestResult = {
+  route: '/about',
+  theme: 'stonewall',
+  timestamp: new Date(0),
+  duration: 1500,
+  contrastResults: [],
+  axeResults: {
+    violations: [rule('wcag-aa-img-alt', [{ target: '#logo', failureSummary: 'Image missing alt attribute' }, { target: 'img.a&b' }], {
+      impact: 'critical',
+      help: 'Images need <alt>',
+      helpUrl: 'https://www.w3.org/WAI/WCAG22/Understanding/non-text-content',
+      tags: ['wcag111', 'wcag2a']
+    })],
+    incomplete: [rule('wcag-22-focus-obscured'), rule('wcag-aa-img-alt')],
+    passes: [rule('wcag-aa-button-name')],
+    inapplicable: [rule('wcag-aa-table-headers')]
+  } as any
+};
+
+describe('JunitReportGenerator', () => {
+  const generator = new JunitReportGenerator();
+
+  it('should render one suite per route and theme with a case per rule', () => {
+    const xml = generator.generateReport([result]);
+
+    expect(xml).toContain('<testsuites name="Accessibility" tests="4" failures="1" errors="0" skipped="2" time="1.500">');
+    expect(xml).toContain('<testsuite name="/about [stonewall]" tests="4" failures="1" errors="0" skipped="2" time="1.500" timestamp="1970-01-01T00:00:00.000Z">');
+    expect(xml).toContain('<property name="theme" value="stonewall"/>');
+    expect(xml).toContain([
+      '    <testcase name="wcag-aa-img-alt" classname="/about [stonewall]" time="0.000">',
+      '      <failure message="Images need &lt;alt&gt; (2 elements)" type="critical">WCAG: 1.1.1 Non-text Content (A)',
+      'Help: https://www.w3.org/WAI/WCAG22/Understanding/non-text-content',
+      '#logo: Image missing alt attribute',
+      'img.a&amp;b: Images need &lt;alt&gt;</failure>'
+    ].join('\n'));
+    expect(xml).toContain('<skipped message="Needs review: wcag-22-focus-obscured help"/>');
+    expect(xml).toContain('<testcase name="wcag-aa-button-name" classname="/about [stonewall]" time="0.000"/>');
+    expect(xml).toContain('<skipped message="Not applicable"/>');
+    expect(xml.match(/name="wcag-aa-img-alt"/g)).toHaveLength(1);
+  });
+
+  it('should render contrast runner results', () => {
+    const coverage = {
+      elementsChecked: 0,
+      elementsPassed: 0,
+      elementsFailed: 0,
+      componentsChecked: new Set<string>(),
+      themesChecked: new Set<string>(),
+      wcagLevels: new Set<string>(),
+      colorBlindnessChecked: false
+    };
+    const runs: TestRunResult[] = [{
+      suite: 'Buttons',
+      passed: 1,
+      failed: 1,
+      skipped: 1,
+      duration: 20,
+      coverage,
+      results: [
+        { name: 'primary', wcagCriterion: '1.4.3', passed: true, skipped: false, duration: 5, failures: [] },
+        {
+          name: 'ghost',
+          selector: '.btn-ghost',
+          wcagCriterion: '1.4.11',
+          passed: false,
+          skipped: false,
+          duration: 10,
+          validation: { valid: false, ratio: 2.1, errors: [{ type: 'contrast', message: 'Ratio below 3:1' }], warnings: [] },
+          failures: []
+        },
+        { name: 'missing', wcagCriterion: '1.4.3', passed: false, skipped: true, duration: 0, failures: ['No element or colors provided'] }
+      ]
+    }];
+
+    const xml = generator.generateTestRunReport(runs);
+
+    expect(xml).toContain('<testsuites name="Contrast" tests="3" failures="1" errors="0" skipped="1" time="0.020">');
+    expect(xml).toContain([
+      '      <failure message="Ratio below 3:1" type="contrast">Selector: .btn-ghost',
+      'Ratio: 2.10:1',
+      'WCAG: 1.4.11 Non-text Contrast (AA)',
+      '- Ratio below 3:1</failure>'
+    ].join('\n'));
+    expect(xml).toContain('<skipped message="No element or colors provided"/>');
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, it, expect } from 'vitest';
+import { SarifReportGenerator } from '../../src/reporting/SarifReportGenerator';
+import { createBaseline, getFingerprint } from '../../src/reporting/baseline';
+import type { AccessibilityTestResult } from '../../src/reporting/types';
+import type { FixProposal } from '../../src/types';
+
+function run(
+  nodes: Array<{ target: string; html?: string; fixes?: FixProposal[] }>,
+  impact = 'serious',
+  incomplete: string[] = []
+): AccessibilityTestResult {
+  const rule = {
+    id: 'wcag-aa-img-alt',
+    impact,
+    description: 'Images must have alternate text',
+    help: 'Image missing alt attribute',
+    helpUrl: 'https://www.w3.org/WAI/WCAG22/Understanding/non-text-content',
+    tags: ['wcag111', 'wcag2a']
+  };
+
+  return {
+    route: '/',
+    theme: 'stonewall',
+    timestamp: new Date(0),
+    duration: 10,
+    contrastResults: [],
+    axeResults: {
+      violations: [{
+        ...rule,
+        nodes: nodes.map(node => ({ ...node, target: [node.target], html: node.html ?? '<img>', failureSummary: 'Add an alt attribute' }))
+      }],
+      incomplete: incomplete.length
+        ? [{ ...rule, id: 'wcag-22-focus-obscured', impact: 'moderate', nodes: incomplete.map(target => ({ target: [target], html: '<a>' })) }]
+        : []
+    } as any
+  };
+}
+
+describe('SarifReportGenerator', () => {
+  const generator = new SarifReportGenerator();
+
+  it('should map rules to reporting descriptors and issues to results', () => {
+    const log = generator.generateReport([run([{ target: '#logo' }, { target: '#logo' }], 'critical', ['#skip'])]);
+    const [sarifRun] = log.runs;
+
+    expect(log.version).toBe('2.1.0');
+    expect(sarifRun.tool.driver.rules[0]).toEqual({
+      id: 'wcag-aa-img-alt',
+      name: 'Image missing alt attribute',
+      shortDescription: { text: 'Image missing alt attribute' },
+      fullDescription: { text: 'Images must have alternate text' },
+      helpUri: 'https://www.w3.org/WAI/WCAG22/Understanding/non-text-content',
+      defaultConfiguration: { level: 'error' },
+      properties: { tags: ['accessibility', 'wcag111', 'wcag2a'] }
+    });
+    expect(sarifRun.results).toHaveLength(2);
+    expect(sarifRun.results[0]).toMatchObject({
+      ruleId: 'wcag-aa-img-alt',
+      ruleIndex: 0,
+      level: 'error',
+      kind: 'fail',
+      message: { text: 'Add an alt attribute' },
+      locations: [{ logicalLocations: [{ name: '#logo', fullyQualifiedName: '/ #logo', kind: 'element' }] }],
+      partialFingerprints: { 'a11yFingerprint/v2': getFingerprint('wcag-aa-img-alt', '#logo', '/', 'stonewall') }
+    });
+    expect(sarifRun.results[1]).toMatchObject({ ruleId: 'wcag-22-focus-obscured', ruleIndex: 1, level: 'none', kind: 'review' });
+  });
+
+  it('should suppress baseline and justified inline issues', () => {
+    const baseline = createBaseline([run([{ target: '#old' }])]);
+    const log = generator.generateReport([run([
+      { target: '#old' },
+      { target: '#new' },
+      { target: '#hero', html: '<img id="hero" data-a11y-ignore="*" data-a11y-ignore-reason="Decorative">' }
+    ], 'moderate')], { baseline });
+
+    const [old, added, hero] = log.runs[0].results;
+    expect(old.suppressions).toEqual([{ kind: 'external', status: 'accepted', justification: 'Present in the accessibility baseline' }]);
+    expect(added.suppressions).toBeUndefined();
+    expect(added.level).toBe('warning');
+    expect(hero.suppressions).toEqual([{ kind: 'inSource', status: 'accepted', justification: 'Decorative' }]);
+  });
+
+  it('should emit proposed fixes as replacements of the element start tag', () => {
+    const fix = (id: string, ...patches: FixProposal['patches']): FixProposal => ({ id, description: id, confidence: 0.7, patches });
+    const log = generator.generateReport([run([
+      {
+        target: '#logo',
+        html: '<img id="logo" src="/logo.png" title="Tinyland" style="margin: 0;">',
+        fixes: [
+          fix('alt-from-title', { type: 'attribute', selector: '#logo', name: 'alt', value: 'Tinyland "home"' }),
+          fix('outline', { type: 'style', selector: '#logo', property: 'outline', value: '2px solid' }),
+          fix('remove-title', { type: 'attribute', selector: '#logo', name: 'title', value: null })
+        ]
+      },
+      {
+        target: '#email',
+        html: '<input id="email">',
+        fixes: [fix('label-for', { type: 'attribute', selector: 'label', name: 'for', value: 'email' })]
+      }
+    ])]);
+    const [logo, email] = log.runs[0].results;
+    const startTag = '<img id="logo" src="/logo.png" title="Tinyland" style="margin: 0;">';
+
+    expect(logo.fixes?.[0]).toEqual({
+      description: { text: 'alt-from-title' },
+      artifactChanges: [{
+        artifactLocation: { uri: '/' },
+        replacements: [{
+          deletedRegion: { snippet: { text: startTag } },
+          insertedContent: { text: '<img id="logo" src="/logo.png" title="Tinyland" style="margin: 0;" alt="Tinyland &quot;home&quot;">' }
+        }]
+      }],
+      properties: { id: 'alt-from-title', confidence: 0.7, patches: [{ type: 'attribute', selector: '#logo', name: 'alt', value: 'Tinyland "home"' }] }
+    });
+    expect(logo.fixes?.map(entry => entry.artifactChanges[0].replacements[0].insertedContent.text).slice(1)).toEqual([
+      '<img id="logo" src="/logo.png" title="Tinyland" style="margin: 0; outline: 2px solid">',
+      '<img id="logo" src="/logo.png" style="margin: 0;">'
+    ]);
+    expect(email.fixes).toBeUndefined();
+  });
+
+  it('should locate source findings in files', () => {
+    const log = generator.generateReport([], {
+      sourceFindings: [
+        { ruleId: 'image-alt', level: 'error', message: 'Image missing alt text or aria-label', file: 'src\\lib\\Hero.svelte', line: 12, column: 3 },
+        { ruleId: 'tabindex', level: 'warning', message: 'Positive tabindex', file: 'src/routes/+page.svelte' }
+      ],
+      toolVersion: '0.2.4'
+    });
+    const [sarifRun] = log.runs;
+
+    expect(sarifRun.tool.driver.version).toBe('0.2.4');
+    expect(sarifRun.tool.driver.rules.map(rule => rule.id)).toEqual(['image-alt', 'tabindex']);
+    expect(sarifRun.results[0].locations).toEqual([{
+      physicalLocation: { artifactLocation: { uri: 'src/lib/Hero.svelte' }, region: { startLine: 12, startColumn: 3 } }
+    }]);
+    expect(sarifRun.results[1].locations[0].physicalLocation).toEqual({ artifactLocation: { uri: 'src/routes/+page.svelte' } });
+  });
+
+  it('should keep identical source findings on different lines', () => {
+    const finding = { ruleId: 'image-alt', level: 'error' as const, message: 'Image missing alt text', file: 'src/lib/Gallery.svelte' };
+    const log = generator.generateReport([], {
+      sourceFindings: [
+        { ...finding, line: 4, column: 3 },
+        { ...finding, line: 9, column: 3 },
+        { ...finding, line: 9, column: 3 }
+      ]
+    });
+
+    expect(log.runs[0].results.map(result => result.locations[0].physicalLocation?.region)).toEqual([
+      { startLine: 4, startColumn: 3 },
+      { startLine: 9, startColumn: 3 }
+    ]);
+  });
+});
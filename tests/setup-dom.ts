@@ -28,6 +28,7 @@ const domElements: Record<string, unknown> = {
   SVGElement: window.SVGElement,
   Element: window.Element,
   Node: window.Node,
+  NodeFilter: window.NodeFilter,
   Event: window.Event,
   CustomEvent: window.CustomEvent,
   MouseEvent: window.MouseEvent,
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getApcaContrast,
+  getApcaMinimumLc,
+  meetsApca,
+  evaluateContrastModels,
+  describeContrastDisagreement
+} from '../../src/utils/color/apca';
+import { analyzeContrast } from '../../src/utils/color/contrast';
+
+const black = { r: 0, g: 0, b: 0 };
+const white = { r: 255, g: 255, b: 255 };
+const gray = { r: 136, g: 136, b: 136 };
+
+describe('APCA contrast', () => {
+  it('should match the reference Lc values', () => {
+    expect(getApcaContrast(black, white)).toBeCloseTo(106.04, 1);
+    expect(getApcaContrast(white, black)).toBeCloseTo(-107.88, 1);
+    expect(getApcaContrast(gray, white)).toBeCloseTo(63.06, 1);
+    expect(getApcaContrast(white, gray)).toBeCloseTo(-68.54, 1);
+  });
+
+  it('should return zero for identical or near-identical colors', () => {
+    expect(getApcaContrast(gray, gray)).toBe(0);
+    expect(getApcaContrast({ r: 250, g: 250, b: 250 }, white)).toBe(0);
+  });
+
+  it('should blend translucent text before measuring', () => {
+    expect(getApcaContrast({ ...black, a: 0.5 }, white))
+      .toBeCloseTo(getApcaContrast({ r: 128, g: 128, b: 128 }, white), 5);
+  });
+
+  it('should look up the minimum Lc by font size and weight', () => {
+    expect(getApcaMinimumLc(16, 400)).toBe(90);
+    expect(getApcaMinimumLc(24, 700)).toBe(45);
+    expect(getApcaMinimumLc(17, 'bold')).toBe(60);
+    expect(getApcaMinimumLc(12, 400)).toBeNull();
+    expect(getApcaMinimumLc(16, 100)).toBeNull();
+  });
+
+  it('should check text against the lookup table', () => {
+    expect(meetsApca(black, white, 16, 400)).toBe(true);
+    expect(meetsApca(gray, white, 16, 400)).toBe(false);
+    expect(meetsApca(gray, white, 24, 400)).toBe(true);
+  });
+
+  it('should expose the Lc on contrast results', () => {
+    expect(analyzeContrast('#000', '#fff').apca).toBeCloseTo(106.04, 1);
+  });
+});
+
+describe('evaluateContrastModels', () => {
+  it('should apply the selected model', () => {
+    expect(evaluateContrastModels('wcag2', 4.6, 4.5, -30, 90).passes).toBe(true);
+    expect(evaluateContrastModels('apca', 4.6, 4.5, -30, 90).passes).toBe(false);
+    expect(evaluateContrastModels('both', 4.6, 4.5, 95, 90).passes).toBe(true);
+    expect(evaluateContrastModels('apca', 7, 4.5, 95, null).passes).toBe(false);
+  });
+
+  it('should describe where the models disagree', () => {
+    const wcagOnly = evaluateContrastModels('both', 4.62, 4.5, -30.1, 90);
+    expect(describeContrastDisagreement(wcagOnly))
+      .toBe('WCAG 2 4.62:1 passes but APCA Lc 30.1 fails (needs Lc 90)');
+
+    const apcaOnly = evaluateContrastModels('both', 3.98, 4.5, -71.8, 60);
+    expect(describeContrastDisagreement(apcaOnly))
+      .toBe('APCA Lc 71.8 passes but WCAG 2 3.98:1 fails (needs 4.5:1)');
+
+    expect(describeContrastDisagreement(evaluateContrastModels('both', 21, 4.5, 106, 90))).toBeNull();
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  getUniqueSelector,
+  resolveSelector,
+  isStableClassName,
+  SHADOW_SEPARATOR
+} from '../../src/utils/selector';
+import { AriaValidator } from '../../src/validators/AriaValidator';
+import { KeyboardNavigationValidator } from '../../src/validators/KeyboardNavigationValidator';
+
+describe('selector utilities', () => {
+  let container: HTMLDivElement;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    document.body.appendChild(container);
+  });
+
+  afterEach(() => {
+    document.body.removeChild(container);
+  });
+
+  describe('isStableClassName', () => {
+    it('should reject framework hashes and utility classes', () => {
+      expect(isStableClassName('svelte-1x2y3z')).toBe(false);
+      expect(isStableClassName('css-1q2w3e')).toBe(false);
+      expect(isStableClassName('Button_primary__3xYz9')).toBe(false);
+      expect(isStableClassName('flex')).toBe(false);
+      expect(isStableClassName('px-4')).toBe(false);
+      expect(isStableClassName('bg-blue-500')).toBe(false);
+      expect(isStableClassName('hover:bg-blue-600')).toBe(false);
+      expect(isStableClassName('w-[200px]')).toBe(false);
+    });
+
+    it('should keep semantic class names', () => {
+      expect(isStableClassName('nav-link')).toBe(true);
+      expect(isStableClassName('text-primary')).toBe(true);
+      expect(isStableClassName('large-text')).toBe(true);
+      expect(isStableClassName('card')).toBe(true);
+    });
+  });
+
+  describe('getUniqueSelector', () => {
+    it('should prefer a stable id', () => {
+      container.innerHTML = '<button id="save">Save</button>';
+      expect(getUniqueSelector(container.querySelector('button')!)).toBe('#save');
+    });
+
+    it('should skip generated ids and hashed classes', () => {
+      container.innerHTML = `
+        <button id=":r1:" class="svelte-abc123 submit">Send</button>
+        <button class="cancel">Cancel</button>
+      `;
+      const selector = getUniqueSelector(container.querySelector('.submit')!);
+
+      expect(selector).toBe('button.submit');
+      expect(selector).not.toContain('svelte');
+      expect(selector).not.toContain(':r1:');
+    });
+
+    it('should prefer test attributes over classes', () => {
+      container.innerHTML = '<input class="field" data-testid="email" />';
+      expect(getUniqueSelector(container.querySelector('input')!)).toBe('input[data-testid="email"]');
+    });
+
+    it('should produce unique selectors for repeated siblings', () => {
+      container.innerHTML = `
+        <ul class="menu">
+          <li class="px-2">One</li>
+          <li class="px-2">Two</li>
+          <li class="px-2">Three</li>
+        </ul>
+      `;
+      const items = Array.from(container.querySelectorAll('li'));
+      const selectors = items.map(item => getUniqueSelector(item));
+
+      expect(new Set(selectors).size).toBe(3);
+      selectors.forEach((selector, index) => {
+        expect(selector).not.toContain('px-2');
+        expect(document.querySelectorAll(selector)).toHaveLength(1);
+        expect(resolveSelector(selector)).toBe(items[index]);
+      });
+    });
+
+    it('should omit excluded attributes', () => {
+      container.innerHTML = '<input id="ssn" name="ssn" /><input name="other" />';
+      const selector = getUniqueSelector(container.querySelector('#ssn')!, {
+        excludeAttributes: ['id', 'name']
+      });
+
+      expect(selector).not.toContain('ssn');
+      expect(resolveSelector(selector)).toBe(container.querySelector('#ssn'));
+    });
+
+    it('should address elements inside shadow roots', () => {
+      container.innerHTML = '<div id="widget"></div>';
+      const host = container.querySelector('#widget')!;
+      const shadow = host.attachShadow({ mode: 'open' });
+      shadow.innerHTML = '<span>First</span><button class="action">Go</button>';
+
+      const button = shadow.querySelector('button')!;
+      const selector = getUniqueSelector(button);
+
+      expect(selector).toBe(`#widget${SHADOW_SEPARATOR}button.action`);
+      expect(resolveSelector(selector)).toBe(button);
+    });
+  });
+
+  it('should give the same selector for a node across validators', () => {
+    container.innerHTML = `
+      <div class="toolbar">
+        <div role="button" class="svelte-q1w2e3 icon-button"></div>
+        <div role="button" class="svelte-q1w2e3 icon-button"></div>
+      </div>
+    `;
+    const target = container.querySelectorAll('[role="button"]')[1];
+    const expected = getUniqueSelector(target);
+
+    const ariaSelectors = new AriaValidator().validate(container).map(r => r.selector);
+    const keyboardSelectors = new KeyboardNavigationValidator().validate(container).map(r => r.selector);
+
+    expect(ariaSelectors).toContain(expected);
+    expect(keyboardSelectors).toContain(expected);
+    expect(resolveSelector(expected)).toBe(target);
+  });
+});
@@ -300,6 +300,22 @@ describe('AriaValidator', () => {
         r.message.includes('aria-expanded')
       )).toBe(true);
     });
+
+    it('should require aria-controls on an expanded combobox', () => {
+      testContainer.innerHTML = `
+        <input role="combobox" aria-label="Search" aria-expanded="true" />
+        <input role="combobox" aria-label="Filter" aria-expanded="false" />
+        <input role="combobox" aria-label="Tags" aria-expanded="true" aria-controls="tags" />
+        <ul role="listbox" id="tags"><li role="option">One</li></ul>
+      `;
+
+      const failures = validator.validate(testContainer).filter(r => r.message.includes('aria-controls'));
+
+      expect(failures).toHaveLength(1);
+      expect(failures[0].message).toBe('Role "combobox" requires aria-controls attribute');
+      expect(failures[0].details).toMatchObject({ role: 'combobox', attribute: 'aria-controls' });
+      expect(document.querySelector(failures[0].selector)?.getAttribute('aria-label')).toBe('Search');
+    });
   });
 
   describe('Best Practices', () => {
@@ -377,4 +393,92 @@ describe('AriaValidator', () => {
       expect(severeErrors.length).toBe(0);
     });
   });
+
+  describe('ARIA 1.2 conformance model', () => {
+    const ruleIds = (results: EvaluationResult[]) => results.map(r => r.ruleId);
+
+    it('should report each failure as its own result with a distinct rule id', () => {
+      testContainer.innerHTML = `
+        <div role="slider" aria-label="Volume" aria-orientation="diagonal"></div>
+      `;
+
+      const results = validator.validate(testContainer);
+
+      expect(ruleIds(results)).toEqual(['aria-valid-attr-value', 'aria-required-attr']);
+      expect(results.every(r => !r.message.includes(';'))).toBe(true);
+    });
+
+    it('should flag abstract roles and unknown attributes', () => {
+      testContainer.innerHTML = `
+        <div role="widget">Abstract</div>
+        <div aria-colour="red">Typo</div>
+      `;
+
+      const ids = ruleIds(validator.validate(testContainer));
+
+      expect(ids).toContain('aria-abstract-role');
+      expect(ids).toContain('aria-valid-attr');
+      expect(ids).not.toContain('aria-valid-role');
+    });
+
+    it('should validate value types', () => {
+      testContainer.innerHTML = `
+        <div role="heading" aria-level="0">Zero level</div>
+        <div role="checkbox" aria-checked="mixed">Tristate</div>
+        <input aria-autocomplete="sometimes" />
+        <div aria-live="polite" aria-relevant="additions text">Live</div>
+        <div role="progressbar" aria-valuenow="half">Progress</div>
+      `;
+
+      const invalid = validator.validate(testContainer)
+        .filter(r => r.ruleId === 'aria-valid-attr-value')
+        .map(r => r.details?.attribute);
+
+      expect(invalid.sort()).toEqual(['aria-autocomplete', 'aria-level', 'aria-valuenow']);
+    });
+
+    it('should require context roles and owned elements', () => {
+      testContainer.innerHTML = `
+        <div role="tab">Orphan tab</div>
+        <div role="list"><span>Not an item</span></div>
+        <ul role="list"><li>Implicit item</li></ul>
+        <div role="tablist"><div><button role="tab">Nested tab</button></div></div>
+      `;
+
+      const results = validator.validate(testContainer);
+      const context = results.filter(r => r.ruleId === 'aria-required-context');
+      const owned = results.filter(r => r.ruleId === 'aria-required-children');
+
+      expect(context).toHaveLength(1);
+      expect(context[0].message).toContain('tablist');
+      expect(owned).toHaveLength(1);
+      expect(owned[0].selector).toBe('div[role="list"]');
+    });
+
+    it('should follow aria-owns when resolving ownership', () => {
+      testContainer.innerHTML = `
+        <div role="listbox" aria-owns="opt-1" aria-label="Fruit"></div>
+        <div id="opt-1" role="option">Apple</div>
+      `;
+
+      const ids = ruleIds(validator.validate(testContainer));
+
+      expect(ids).not.toContain('aria-required-children');
+      expect(ids).not.toContain('aria-required-context');
+    });
+
+    it('should check prohibited and unsupported attributes against the computed role', () => {
+      testContainer.innerHTML = `
+        <span aria-label="Decorative">*</span>
+        <button aria-checked="true">Toggle</button>
+        <input type="checkbox" />
+      `;
+
+      const results = validator.validate(testContainer);
+
+      expect(results.find(r => r.ruleId === 'aria-prohibited-attr')?.message).toContain('generic');
+      expect(results.find(r => r.ruleId === 'aria-allowed-attr')?.message).toContain('aria-checked');
+      expect(ruleIds(results)).not.toContain('aria-required-attr');
+    });
+  });
 });
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { ContrastValidator } from '../../src/validators/ContrastValidator';
+
+describe('ContrastValidator contrast models', () => {
+  const validator = new ContrastValidator();
+
+  it('should keep WCAG 2 as the default model', () => {
+    const result = validator.validateContrast('#767676', '#000000');
+
+    expect(result.valid).toBe(true);
+    expect(result.metadata).toMatchObject({ contrastModel: 'wcag2', wcag2Passes: true, apcaPasses: false });
+  });
+
+  it('should validate with APCA using the font lookup', () => {
+    const body = validator.validateContrast('#767676', '#000000', { contrastModel: 'apca' });
+    expect(body.valid).toBe(false);
+    expect(body.errors[0]).toMatchObject({ expected: 90 });
+
+    const heading = validator.validateContrast('#ffffff', '#007bff', {
+      contrastModel: 'apca',
+      fontSize: 24,
+      fontWeight: 400
+    });
+    expect(heading.valid).toBe(true);
+  });
+
+  it('should warn about disagreements in both mode', () => {
+    const result = validator.validateContrast('#767676', '#000000', { contrastModel: 'both' });
+
+    expect(result.valid).toBe(false);
+    expect(result.warnings).toEqual([
+      expect.objectContaining({ type: 'model-disagreement', message: expect.stringContaining('APCA Lc 30.') })
+    ]);
+  });
+
+  it('should apply the non-text Lc to UI components', () => {
+    const result = validator.validateContrast('#767676', '#ffffff', {
+      contrastModel: 'apca',
+      componentType: 'ui-component'
+    });
+
+    expect(result.metadata?.requiredLc).toBe(45);
+    expect(result.valid).toBe(true);
+  });
+});
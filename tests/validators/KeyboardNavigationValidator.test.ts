@@ -1,5 +1,7 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import { KeyboardNavigationValidator } from '../../src/validators/KeyboardNavigationValidator';
+import { AriaValidator } from '../../src/validators/AriaValidator';
+import WcagAAPlugin from '../../src/plugins/wcag-aa';
 import type { EvaluationResult } from '../../src/types';
 
 describe('KeyboardNavigationValidator', () => {
@@ -107,6 +109,41 @@ describe('KeyboardNavigationValidator', () => {
       expect(tabindexWarnings).toHaveLength(0);
     });
 
+    it('should report focus moving against the visual order', () => {
+      testContainer.innerHTML = `
+        <button id="first">First</button>
+        <button id="floating">Floating</button>
+      `;
+      const layout = { first: 60, floating: 0 } as Record<string, number>;
+      testContainer.querySelectorAll('button').forEach(button => {
+        const top = layout[button.id];
+        button.getBoundingClientRect = () => ({ top, left: 0, width: 80, height: 20 }) as DOMRect;
+      });
+
+      const results = validator.validate(testContainer);
+      const orderResults = results.filter(r => r.message.startsWith('Focus moves backwards'));
+
+      expect(orderResults).toHaveLength(1);
+      expect(orderResults[0]).toMatchObject({ wcagCriteria: '2.4.3', selector: '#floating' });
+      expect(orderResults[0].metadata?.sequence).toEqual(['#first', '#floating']);
+      expect(validator.getFocusOrder(testContainer).sequence.map(stop => stop.element.id))
+        .toEqual(['first', 'floating']);
+    });
+
+    it('should only attach the stops around a jump', () => {
+      const ids = Array.from({ length: 20 }, (_, i) => `b${i}`);
+      testContainer.innerHTML = ids.map(id => `<button id="${id}">${id}</button>`).join('');
+      testContainer.querySelectorAll('button').forEach((button, i) => {
+        const top = i === 10 ? 0 : 20 + i * 20;
+        button.getBoundingClientRect = () => ({ top, left: 0, width: 80, height: 20 }) as DOMRect;
+      });
+
+      const [jump] = validator.validate(testContainer).filter(r => r.message.startsWith('Focus moves backwards'));
+
+      expect(jump.metadata).toMatchObject({ from: '#b9', to: '#b10', sequenceIndex: 9 });
+      expect(jump.metadata?.sequence).toEqual(['#b7', '#b8', '#b9', '#b10', '#b11', '#b12']);
+    });
+
     it('should detect non-sequential tab order', () => {
       testContainer.innerHTML = `
         <button tabindex="5">Skip to 5</button>
@@ -164,6 +201,33 @@ describe('KeyboardNavigationValidator', () => {
       
       document.head.removeChild(style);
     });
+
+    it('should skip elements that cannot receive focus', () => {
+      testContainer.innerHTML = `
+        <input type="hidden" name="token" value="x">
+        <button disabled>Disabled</button>
+      `;
+
+      const results = validator.validate(testContainer);
+
+      expect(results.filter(r => r.wcagCriteria === '2.4.7')).toEqual([]);
+    });
+
+    it('should undo changes focus handlers make while measuring', () => {
+      testContainer.innerHTML = '<button id="tip-trigger">Help</button>';
+      const button = testContainer.querySelector('button')!;
+      button.addEventListener('focus', () => {
+        const tip = document.createElement('div');
+        tip.className = 'tooltip';
+        testContainer.appendChild(tip);
+        button.setAttribute('aria-describedby', 'tip');
+      });
+
+      validator.validate(testContainer);
+
+      expect(testContainer.querySelector('.tooltip')).toBeNull();
+      expect(button.hasAttribute('aria-describedby')).toBe(false);
+    });
   });
 
   describe('Keyboard Traps', () => {
@@ -337,6 +401,22 @@ describe('KeyboardNavigationValidator', () => {
       )).toBe(true);
     });
 
+    it('should agree with the label rules on placeholder-only fields', async () => {
+      testContainer.innerHTML = `
+        <input id="search" type="text" placeholder="Search" />
+        <label>Email <input id="email" type="email" placeholder="Email" /></label>
+      `;
+      const formLabels = WcagAAPlugin.rules!.find(rule => rule.id === 'wcag-aa-form-labels')!;
+
+      const keyboard = validator.validate(testContainer).filter(r => r.message === 'Form field lacks accessible label');
+      const aria = new AriaValidator().validate(testContainer).filter(r => r.message.includes('missing accessible name'));
+
+      expect(keyboard.map(r => r.selector)).toEqual(['#search']);
+      expect(aria.map(r => r.selector)).toEqual(['#search']);
+      expect(await formLabels.evaluate(document.getElementById('search')!, {} as any)).toMatchObject({ message: 'Form input missing label' });
+      expect(await formLabels.evaluate(document.getElementById('email')!, {} as any)).toBeNull();
+    });
+
     it('should validate proper form structure', () => {
       testContainer.innerHTML = `
         <form>